@@ -0,0 +1,201 @@
+// WebSocket のテスト用サーバー / ブリッジ（外部パッケージ不要）。
+//
+// 既定では 4ch uint32 LE（16byte）の正弦波パケットを生成し、接続中の全クライアントへ送る。
+// TCP_TARGET を指定すると、生成の代わりにその TCP 接続との間でバイト列を中継する。
+//
+//   PORT=8765 RATE=100 MODE=fixed|framed|text node scripts/ws-test-server.cjs
+//   TCP_TARGET=192.168.0.10:5000 node scripts/ws-test-server.cjs
+const { createHash } = require('node:crypto');
+const { createServer } = require('node:http');
+const { connect } = require('node:net');
+
+const port = Number(process.env.PORT ?? 8765);
+const host = process.env.HOST ?? '127.0.0.1';
+const rate = Number(process.env.RATE ?? 100);
+const mode = process.env.MODE ?? 'fixed';
+const tcpTarget = process.env.TCP_TARGET ?? '';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** @type {Set<import('node:net').Socket>} */
+const clients = new Set();
+
+function encodeWsFrame(opcode, payload) {
+  const len = payload.length;
+  let header;
+  if (len < 126) {
+    header = Buffer.from([0x80 | opcode, len]);
+  } else if (len < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(len, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(len), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/** クライアントからのフレーム（必ずマスク付き）を読み、完結した分を onFrame に渡す */
+function createWsFrameReader(onFrame) {
+  let pending = Buffer.alloc(0);
+  return (chunk) => {
+    pending = Buffer.concat([pending, chunk]);
+    while (pending.length >= 2) {
+      const opcode = pending[0] & 0x0f;
+      const masked = (pending[1] & 0x80) !== 0;
+      let len = pending[1] & 0x7f;
+      let pos = 2;
+      if (len === 126) {
+        if (pending.length < 4) return;
+        len = pending.readUInt16BE(2);
+        pos = 4;
+      } else if (len === 127) {
+        if (pending.length < 10) return;
+        len = Number(pending.readBigUInt64BE(2));
+        pos = 10;
+      }
+      const maskLen = masked ? 4 : 0;
+      if (pending.length < pos + maskLen + len) return;
+      const mask = masked ? pending.subarray(pos, pos + 4) : null;
+      const payload = Buffer.from(pending.subarray(pos + maskLen, pos + maskLen + len));
+      if (mask) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      }
+      pending = pending.subarray(pos + maskLen + len);
+      onFrame(opcode, payload);
+    }
+  };
+}
+
+function broadcast(data) {
+  const frame = encodeWsFrame(OPCODE_BINARY, data);
+  for (const socket of clients) socket.write(frame);
+}
+
+// --- パケット生成（TCP_TARGET 未指定時） ---
+
+function crc16(bytes) {
+  let crc = 0xffff;
+  for (const b of bytes) {
+    crc ^= b << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+function samplePacket(t) {
+  return [0, 1, 2, 3].map((ch) => {
+    const freq = [1, 2, 0.5, 5][ch];
+    return Math.round(2 ** 31 + 2 ** 30 * Math.sin(2 * Math.PI * freq * t + ch));
+  });
+}
+
+function encodePacket(values) {
+  if (mode === 'text') return Buffer.from(values.join(',') + '\n');
+  const payload = Buffer.alloc(16);
+  values.forEach((v, i) => payload.writeUInt32LE(v, i * 4));
+  if (mode !== 'framed') return payload;
+  // 同期ヘッダー 0xAA 0x55 + 長さ + ペイロード + CRC-16/CCITT-FALSE（ビッグエンディアン）
+  const body = Buffer.concat([Buffer.from([payload.length]), payload]);
+  const crc = crc16(body);
+  return Buffer.concat([Buffer.from([0xaa, 0x55]), body, Buffer.from([crc >> 8, crc & 0xff])]);
+}
+
+function startGenerator() {
+  const startedAt = Date.now();
+  let emitted = 0;
+  setInterval(() => {
+    const due = Math.floor(((Date.now() - startedAt) / 1000) * rate) - emitted;
+    if (due <= 0 || clients.size === 0) {
+      emitted += Math.max(0, due);
+      return;
+    }
+    const packets = [];
+    for (let i = 0; i < due; i++) packets.push(encodePacket(samplePacket((emitted + i) / rate)));
+    emitted += due;
+    broadcast(Buffer.concat(packets));
+  }, 10);
+  console.log(`Generating ${rate} packets/s (${mode}).`);
+}
+
+// --- TCP ブリッジ（TCP_TARGET 指定時） ---
+
+/** @type {import('node:net').Socket | null} */
+let tcp = null;
+
+function startBridge() {
+  const [tcpHost, tcpPort] = tcpTarget.split(':');
+  const open = () => {
+    const socket = connect(Number(tcpPort), tcpHost, () => {
+      console.log(`Bridging TCP ${tcpTarget}.`);
+    });
+    socket.on('data', broadcast);
+    socket.on('error', (err) => console.error(`TCP ${tcpTarget}: ${err.message}`));
+    socket.on('close', () => {
+      tcp = null;
+      setTimeout(open, 1000);
+    });
+    tcp = socket;
+  };
+  open();
+}
+
+// --- WebSocket サーバー ---
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end('WebSocket only');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  clients.add(socket);
+  console.log(`Client connected (${clients.size}).`);
+
+  socket.on(
+    'data',
+    createWsFrameReader((opcode, payload) => {
+      if (opcode === OPCODE_CLOSE) {
+        socket.end(encodeWsFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+      } else if (opcode === OPCODE_PING) {
+        socket.write(encodeWsFrame(OPCODE_PONG, payload));
+      } else if (opcode === OPCODE_BINARY || opcode === OPCODE_TEXT) {
+        // クライアントからの送信は TCP 側へ中継する（生成モードでは捨てる）
+        tcp?.write(payload);
+      }
+    })
+  );
+  const drop = () => {
+    if (clients.delete(socket)) console.log(`Client disconnected (${clients.size}).`);
+  };
+  socket.on('close', drop);
+  socket.on('error', drop);
+});
+
+server.listen(port, host, () => {
+  console.log(`WebSocket test server: ws://${host}:${port}`);
+  if (tcpTarget) startBridge();
+  else startGenerator();
+});
@@ -1,18 +1,503 @@
 /**
  * App … シリアル接続状態・受信データなどの状態を保持し、
  * SerialControl / WaveformChart 等に渡す。
+ * 複数デバイスを同時に接続でき、全デバイスのチャンネルを 1 つの SampleStore に並べて表示する
+ * （並べ方は lib/device/deviceLayout）。1 台目はチャンネル設定・派生チャンネル・コマンド送信の対象になる。
+ * 録画・コマンドコンソールの受信表示・生データ表示は全デバイスの受信をデバイスの id 付きで扱う。
  * docs/architecture.md のコンポーネント責務に従う。
  */
-import { useState } from 'react';
-import { SerialControl } from './components/SerialControl';
-import { WaveformChart } from './components/WaveformChart';
-import type { PacketData } from './lib/packet/types';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AlarmPanel } from './components/AlarmPanel';
+import { ChannelSettings } from './components/ChannelSettings';
+import { CommandConsole } from './components/CommandConsole';
+import { DeviceControl } from './components/DeviceControl';
+import { RecordingControl } from './components/RecordingControl';
+import { ProfileControl } from './components/ProfileControl';
+import { RawMonitorPanel } from './components/RawMonitorPanel';
+import { ReplayControl } from './components/ReplayControl';
+import {
+  DEFAULT_BAUD_RATE,
+  formatConnectionInfo,
+  SerialControl,
+  type ConnectionInfo,
+} from './components/SerialControl';
+import { SpectrumView } from './components/SpectrumView';
+import { DEFAULT_HISTORY_LENGTH, WaveformChart } from './components/WaveformChart';
+import { createAlarmMonitor, type AlarmEvent, type AlarmRule } from './lib/alarm/alarmMonitor';
+import { playAlarmSound } from './lib/alarm/alarmSound';
+import {
+  createChannelPipeline,
+  formatChannelValue,
+  validateDerivedExpression,
+} from './lib/channel/channelPipeline';
+import { createSampleStore, type SampleStore } from './lib/chart/sampleStore';
+import {
+  DEFAULT_START_COMMAND,
+  DEFAULT_STOP_COMMAND,
+  encodeCommand,
+  type CommandSpec,
+} from './lib/console/command';
+import { createConsoleLog } from './lib/console/consoleLog';
+import { createRawMonitor } from './lib/console/rawMonitor';
+import {
+  resolveChannelConfigs,
+  type ChannelConfig,
+  type DerivedChannelConfig,
+  type YRange,
+} from './lib/config/channelConfig';
+import { PACKET_SCHEMAS } from './lib/config/packetSchemas';
+import {
+  loadSettings,
+  restoreSettings,
+  saveSettings,
+  type AppSettings,
+  type RestoredSettings,
+} from './lib/config/settingsStorage';
+import {
+  createDeviceFieldConfigs,
+  createDeviceLayout,
+  PRIMARY_DEVICE_ID,
+  type DeviceConfig,
+} from './lib/device/deviceLayout';
+import { createTimelineMerger } from './lib/device/timelineMerger';
+import { DEFAULT_DECODER_CONFIG, type DecoderConfig } from './lib/packet/createDecoder';
+import { DEFAULT_PACKET_SCHEMA } from './lib/packet/schema';
+import type { PacketData, PacketSchema } from './lib/packet/types';
+import type { SessionRecorder } from './lib/recording/sessionRecorder';
+import type { RawChunk } from './lib/transport/batchedReadLoop';
+import { getBlockSample, type SampleBlock } from './lib/transport/sampleBlock';
+import {
+  createSampleClock,
+  DEFAULT_TIMESTAMP_CONFIG,
+  type TimestampConfig,
+} from './lib/transport/sampleClock';
+import type { Transport } from './lib/transport/types';
+
+/** 受信途絶アラームを判定する間隔（ms） */
+const ALARM_STALE_CHECK_INTERVAL_MS = 100;
+
+/** 複数デバイスの接続中、他のデバイスを待って保留した行を取り出しに行く間隔（ms） */
+const TIMELINE_FLUSH_INTERVAL_MS = 50;
+
+/** 前回保存した設定。なければビルド時の既定値 */
+function loadInitialSettings(): RestoredSettings {
+  const saved = loadSettings();
+  if (saved) return restoreSettings(saved, PACKET_SCHEMAS, DEFAULT_PACKET_SCHEMA);
+  return {
+    schema: DEFAULT_PACKET_SCHEMA,
+    baudRate: DEFAULT_BAUD_RATE,
+    fieldConfigs: resolveChannelConfigs(DEFAULT_PACKET_SCHEMA),
+    derivedChannels: [],
+    channelVisible: DEFAULT_PACKET_SCHEMA.fields.map(() => true),
+  };
+}
 
 export default function App() {
-  const [connected, setConnected] = useState(false);
+  const [initialSettings] = useState(loadInitialSettings);
+  /** 接続中のデバイスの id */
+  const [connectedDevices, setConnectedDevices] = useState<string[]>([]);
+  const connected = connectedDevices.length > 0;
+  /** デバイスごとに最後に接続した先（切断後も残し、スナップショットの注記に使う） */
+  const [connectionInfo, setConnectionInfo] = useState<Record<string, ConnectionInfo>>({});
   const [serialError, setSerialError] = useState<string | null>(null);
   const [lastPacket, setLastPacket] = useState<PacketData | null>(null);
-  const [channelVisible, setChannelVisible] = useState<boolean[]>([true, true, true, true]);
+  const [schema, setSchema] = useState<PacketSchema>(initialSettings.schema);
+  const [decoderConfig, setDecoderConfig] = useState<DecoderConfig>(DEFAULT_DECODER_CONFIG);
+  const [timestampConfig, setTimestampConfig] = useState<TimestampConfig>(DEFAULT_TIMESTAMP_CONFIG);
+  const [baudRate, setBaudRate] = useState(initialSettings.baudRate);
+  const [fieldConfigs, setFieldConfigs] = useState<ChannelConfig[]>(initialSettings.fieldConfigs);
+  const [derivedChannels, setDerivedChannels] = useState<DerivedChannelConfig[]>(
+    initialSettings.derivedChannels
+  );
+  const [channelVisible, setChannelVisible] = useState<boolean[]>(initialSettings.channelVisible);
+  const pipeline = useMemo(
+    () => createChannelPipeline(schema, fieldConfigs, derivedChannels),
+    [schema, fieldConfigs, derivedChannels]
+  );
+  /** 再生のパケットにも同じ時刻の決め方を使う（ライブ受信は読み取りループ側で付く） */
+  const replayClock = useMemo(() => createSampleClock(timestampConfig), [timestampConfig]);
+  const [primaryDeviceName, setPrimaryDeviceName] = useState('デバイス 1');
+  /** 2 台目以降のデバイス（設定は保存しない） */
+  const [devices, setDevices] = useState<DeviceConfig[]>([]);
+  const nextDeviceNumberRef = useRef(2);
+  const devicePipelines = useMemo(
+    () =>
+      new Map(devices.map((d) => [d.id, createChannelPipeline(d.schema, d.fieldConfigs, [])])),
+    [devices]
+  );
+  const layout = useMemo(
+    () =>
+      createDeviceLayout([
+        { id: PRIMARY_DEVICE_ID, name: primaryDeviceName, channels: pipeline.channels },
+        ...devices.map((d) => ({
+          id: d.id,
+          name: d.name,
+          channels: devicePipelines.get(d.id)?.channels ?? [],
+        })),
+      ]),
+    [primaryDeviceName, pipeline, devices, devicePipelines]
+  );
+  const channels = layout.channels;
+  // スナップショットの注記。複数デバイスのときはデバイス名を付ける
+  const connectionLines = layout.devices.flatMap((d) => {
+    const info = connectionInfo[d.id];
+    if (!info) return [];
+    const text = formatConnectionInfo(info);
+    return [layout.devices.length > 1 ? `${d.name}: ${text}` : text];
+  });
+  const [sampleStore, setSampleStore] = useState<SampleStore>(() =>
+    createSampleStore(layout.channels.length, DEFAULT_HISTORY_LENGTH)
+  );
+  const [transport, setTransport] = useState<Transport | null>(null);
+  const [consoleLog] = useState(createConsoleLog);
+  const [rawMonitor] = useState(() => createRawMonitor());
+  const [startCommand, setStartCommand] = useState<CommandSpec>(DEFAULT_START_COMMAND);
+  const [stopCommand, setStopCommand] = useState<CommandSpec>(DEFAULT_STOP_COMMAND);
+  const [alarmMonitor] = useState(() => createAlarmMonitor());
+  const [timelineMerger] = useState(createTimelineMerger);
+  const [alarmRules, setAlarmRules] = useState<AlarmRule[]>([]);
+  const [alarmActive, setAlarmActive] = useState<boolean[]>([]);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const sampleStoreRef = useRef(sampleStore);
+  sampleStoreRef.current = sampleStore;
+  const pipelineRef = useRef(pipeline);
+  pipelineRef.current = pipeline;
+  const devicePipelinesRef = useRef(devicePipelines);
+  devicePipelinesRef.current = devicePipelines;
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+  const replayClockRef = useRef(replayClock);
+  replayClockRef.current = replayClock;
+  const pendingPacketRef = useRef<PacketData | null>(null);
+  const lastPacketFrameRef = useRef<number | null>(null);
+
+  // 換算・派生チャンネル・デバイス構成が変わったら、変換後の値を入れ直すため履歴を作り直す
+  // （名前・色・縦軸レンジなど表示だけの変更では履歴を保つ）
+  const transformKey = JSON.stringify([
+    schema.name,
+    fieldConfigs.map((c) => c.calibration ?? null),
+    derivedChannels.map((d) => d.expression),
+    devices.map((d) => [d.id, d.schema.name]),
+  ]);
+  const storeTransformKeyRef = useRef(transformKey);
+  useEffect(() => {
+    if (storeTransformKeyRef.current === transformKey) return;
+    storeTransformKeyRef.current = transformKey;
+    const store = createSampleStore(layout.channels.length, sampleStoreRef.current.capacity);
+    sampleStoreRef.current = store;
+    setSampleStore(store);
+    timelineMerger.clear();
+    pendingPacketRef.current = null;
+    setLastPacket(null);
+  }, [transformKey, layout, timelineMerger]);
+
+  useEffect(() => {
+    alarmMonitor.setRules(alarmRules, channels.map((c) => c.id));
+    setAlarmActive(alarmMonitor.activeChannels());
+  }, [alarmMonitor, alarmRules, channels]);
+
+  /** 発報・解除があったらグラフの強調を更新し、音ありのルールが発報したら鳴らす */
+  const notifyAlarms = useCallback(
+    (events: readonly AlarmEvent[]) => {
+      if (events.length === 0) return;
+      if (events.some((e) => e.kind === 'raised' && e.rule.sound)) playAlarmSound();
+      setAlarmActive(alarmMonitor.activeChannels());
+    },
+    [alarmMonitor]
+  );
+
+  // 接続中は受信途絶を定期的に判定する（接続した時刻から数える）
+  useEffect(() => {
+    if (!connected) return;
+    alarmMonitor.resetStale(Date.now());
+    const timer = setInterval(
+      () => notifyAlarms(alarmMonitor.checkStale(Date.now())),
+      ALARM_STALE_CHECK_INTERVAL_MS
+    );
+    return () => clearInterval(timer);
+  }, [connected, alarmMonitor, notifyAlarms]);
+
+  const settings: AppSettings = useMemo(
+    () => ({
+      schemaName: schema.name,
+      baudRate,
+      channels: fieldConfigs,
+      derivedChannels,
+      channelVisible,
+    }),
+    [schema, baudRate, fieldConfigs, derivedChannels, channelVisible]
+  );
+
+  // 変更した設定は次回起動時に復元できるよう保存する
+  useEffect(() => {
+    try {
+      saveSettings(settings);
+    } catch (e) {
+      setSerialError(e instanceof Error ? e.message : String(e));
+    }
+  }, [settings]);
+
+  useEffect(
+    () => () => {
+      if (lastPacketFrameRef.current != null) cancelAnimationFrame(lastPacketFrameRef.current);
+    },
+    []
+  );
+
+  // 高レート受信でも state 更新は 1 フレームに 1 回に抑える（グラフは store を直接読む）
+  // 他のデバイスの列は直前に表示していた値を残す
+  const showLastPacket = useCallback((deviceId: string, values: ArrayLike<number>) => {
+    const base = pendingPacketRef.current?.values;
+    pendingPacketRef.current = { values: layoutRef.current.widen(deviceId, values, base) };
+    if (lastPacketFrameRef.current == null) {
+      lastPacketFrameRef.current = requestAnimationFrame(() => {
+        lastPacketFrameRef.current = null;
+        setLastPacket(pendingPacketRef.current);
+      });
+    }
+  }, []);
+
+  /**
+   * 再生からは 1 パケットずつ、記録された時刻付きで届く。録画は受信値のまま、グラフには換算・派生後の値を入れる。
+   * 時刻は記録時刻を受信時刻とみなして付ける（デバイス時刻の設定ならそれを記録時刻に合わせる）
+   */
+  const handlePacket = useCallback(
+    (data: PacketData, recordedTime: number) => {
+      const timestamp = replayClockRef.current.stamp(data.values, recordedTime);
+      recorderRef.current?.recordPacket(PRIMARY_DEVICE_ID, data, timestamp);
+      const display = pipelineRef.current.transform(data.values);
+      const values = layoutRef.current.widen(PRIMARY_DEVICE_ID, display);
+      sampleStoreRef.current.push(values, timestamp);
+      notifyAlarms(alarmMonitor.evaluate(values, timestamp, Date.now()));
+      showLastPacket(PRIMARY_DEVICE_ID, display);
+    },
+    [showLastPacket, notifyAlarms, alarmMonitor]
+  );
+
+  /** 再生するファイルを読み込んだ・再生位置を戻したら、記録時刻が履歴の時刻より戻るため履歴を消す */
+  const handleReplayTimelineReset = useCallback(() => {
+    sampleStoreRef.current.clear();
+  }, []);
+
+  /** 全デバイスの受信済みの時刻までを時刻順に履歴へ入れる */
+  const flushTimeline = useCallback(() => {
+    const merged = timelineMerger.take(performance.timeOrigin + performance.now());
+    if (!merged) return;
+    sampleStoreRef.current.pushInterleaved(
+      merged.values,
+      merged.count,
+      merged.channelCount,
+      merged.timestamps
+    );
+  }, [timelineMerger]);
+
+  // 待ち合わせるのは接続中のデバイスだけ。外れたデバイスに待たされていた行はここで出す
+  useEffect(() => {
+    timelineMerger.setDevices(connectedDevices);
+    flushTimeline();
+    if (connectedDevices.length < 2) return;
+    // 全デバイスの送信が止まっても、保留した行が残り続けないようにする
+    const timer = setInterval(flushTimeline, TIMELINE_FLUSH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [connectedDevices, timelineMerger, flushTimeline]);
+
+  /**
+   * デバイスの表示チャンネルのブロックを全チャンネル幅にして履歴に入れる。
+   * デバイスごとのブロックは別々の間隔で届くため、時刻順に並べ直してから入れる
+   */
+  const pushDeviceBlock = useCallback(
+    (deviceId: string, display: SampleBlock) => {
+      const block = layoutRef.current.widenBlock(deviceId, display);
+      if (!block) return;
+      timelineMerger.push(deviceId, block);
+      flushTimeline();
+      // 受信途絶は受け取った時刻で判定する（ブロックの時刻はデバイス時刻のことがある）
+      notifyAlarms(alarmMonitor.evaluateBlock(block, Date.now()));
+      showLastPacket(deviceId, getBlockSample(display, display.count - 1));
+    },
+    [timelineMerger, flushTimeline, showLastPacket, notifyAlarms, alarmMonitor]
+  );
+
+  /** ライブ受信は読み取り Worker からブロック単位で届く */
+  const handleSamples = useCallback(
+    (block: SampleBlock) => {
+      recorderRef.current?.recordBlock(PRIMARY_DEVICE_ID, block);
+      pushDeviceBlock(PRIMARY_DEVICE_ID, pipelineRef.current.transformBlock(block));
+    },
+    [pushDeviceBlock]
+  );
+
+  /** 2 台目以降のデバイスの受信 */
+  const handleDeviceSamples = useCallback(
+    (deviceId: string, block: SampleBlock) => {
+      recorderRef.current?.recordBlock(deviceId, block);
+      const devicePipeline = devicePipelinesRef.current.get(deviceId);
+      if (devicePipeline) pushDeviceBlock(deviceId, devicePipeline.transformBlock(block));
+    },
+    [pushDeviceBlock]
+  );
+
+  const handleDeviceConnect = useCallback((deviceId: string, info: ConnectionInfo) => {
+    setConnectedDevices((prev) => [...prev.filter((id) => id !== deviceId), deviceId]);
+    setConnectionInfo((prev) => ({ ...prev, [deviceId]: info }));
+  }, []);
+
+  const handleDeviceDisconnect = useCallback((deviceId: string) => {
+    setConnectedDevices((prev) => prev.filter((id) => id !== deviceId));
+  }, []);
+
+  const handleAddDevice = () => {
+    const number = nextDeviceNumberRef.current++;
+    setDevices((prev) => [
+      ...prev,
+      {
+        id: `device:${number}`,
+        number,
+        name: `デバイス ${number}`,
+        schema: DEFAULT_PACKET_SCHEMA,
+        decoderConfig: DEFAULT_DECODER_CONFIG,
+        timestampConfig: DEFAULT_TIMESTAMP_CONFIG,
+        baudRate: DEFAULT_BAUD_RATE,
+        fieldConfigs: createDeviceFieldConfigs(DEFAULT_PACKET_SCHEMA, number),
+      },
+    ]);
+  };
+
+  const handleDeviceChange = useCallback((deviceId: string, patch: Partial<DeviceConfig>) => {
+    setDevices((prev) => prev.map((d) => (d.id === deviceId ? { ...d, ...patch } : d)));
+  }, []);
+
+  const handleRemoveDevice = useCallback(
+    (deviceId: string) => {
+      setDevices((prev) => prev.filter((d) => d.id !== deviceId));
+      setConnectionInfo(({ [deviceId]: _removed, ...rest }) => rest);
+      // 後ろのデバイスのチャンネルがずれるため、1 台目より後ろの表示 ON/OFF は既定（表示）に戻す
+      setChannelVisible((prev) => prev.slice(0, pipeline.channels.length));
+    },
+    [pipeline]
+  );
+
+  /** デバイスのデコード前の受信バイト列（録画・コンソール・生データ表示はデバイスごとに扱う） */
+  const handleRawData = useCallback(
+    (deviceId: string, chunk: RawChunk) => {
+      recorderRef.current?.recordRaw(deviceId, chunk.bytes);
+      consoleLog.received(deviceId, chunk.bytes);
+      rawMonitor.received(deviceId, chunk);
+    },
+    [consoleLog, rawMonitor]
+  );
+  const handlePrimaryRawData = useCallback(
+    (chunk: RawChunk) => handleRawData(PRIMARY_DEVICE_ID, chunk),
+    [handleRawData]
+  );
+
+  /** コマンドコンソールからの送信は 1 台目へ */
+  const handleSend = useCallback(
+    async (bytes: Uint8Array) => {
+      if (!transport) throw new Error('接続されていないため送信できません');
+      await transport.write(bytes);
+      consoleLog.sent(PRIMARY_DEVICE_ID, bytes);
+    },
+    [transport, consoleLog]
+  );
+
+  const sendCommand = (spec: CommandSpec) => {
+    setSerialError(null);
+    try {
+      handleSend(encodeCommand(spec)).catch((e) =>
+        setSerialError(e instanceof Error ? e.message : String(e))
+      );
+    } catch (e) {
+      setSerialError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleRecorderChange = useCallback((recorder: SessionRecorder | null) => {
+    recorderRef.current = recorder;
+  }, []);
+
+  const recordingDevices = useMemo(
+    () => [
+      { id: PRIMARY_DEVICE_ID, name: primaryDeviceName, schema },
+      ...devices.map((d) => ({ id: d.id, name: d.name, schema: d.schema })),
+    ],
+    [primaryDeviceName, schema, devices]
+  );
+  /** 2 台以上のとき、コンソールの各行に出すデバイス名 */
+  const consoleDeviceNames = useMemo(
+    () =>
+      layout.devices.length > 1
+        ? Object.fromEntries(layout.devices.map((d) => [d.id, d.name]))
+        : undefined,
+    [layout]
+  );
+
+  const handleSchemaChange = (next: PacketSchema) => {
+    // 新しいスキーマで解釈できない式の派生チャンネルは外す
+    const nextDerived = derivedChannels.filter(
+      (d) => validateDerivedExpression(next, d.expression) == null
+    );
+    setSchema(next);
+    setFieldConfigs(resolveChannelConfigs(next));
+    setDerivedChannels(nextDerived);
+    setChannelVisible([...next.fields, ...nextDerived].map(() => true));
+    setTimestampConfig(DEFAULT_TIMESTAMP_CONFIG);
+    pendingPacketRef.current = null;
+    setLastPacket(null);
+  };
+
+  const handleChannelSettingsApply = (
+    nextFieldConfigs: ChannelConfig[],
+    nextDerived: DerivedChannelConfig[],
+    nextVisible: boolean[]
+  ) => {
+    setFieldConfigs(nextFieldConfigs);
+    setDerivedChannels(nextDerived);
+    setChannelVisible(nextVisible);
+  };
+
+  /** プロファイルの読み込み・インポート */
+  const handleLoadSettings = (loaded: AppSettings) => {
+    const restored = restoreSettings(loaded, PACKET_SCHEMAS, schema);
+    if (restored.schema !== schema) {
+      pendingPacketRef.current = null;
+      setLastPacket(null);
+      setTimestampConfig(DEFAULT_TIMESTAMP_CONFIG);
+    }
+    setSchema(restored.schema);
+    setBaudRate(restored.baudRate);
+    setFieldConfigs(restored.fieldConfigs);
+    setDerivedChannels(restored.derivedChannels);
+    setChannelVisible(restored.channelVisible);
+  };
+
+  /** グラフ見出しで確定した縦軸レンジをチャンネル設定に書き戻す */
+  const handleManualRangeChange = (channel: number, yRange: YRange) => {
+    const located = layout.locate(channel);
+    if (!located) return;
+    const { device, index } = located;
+    if (device.id !== PRIMARY_DEVICE_ID) {
+      setDevices((prev) =>
+        prev.map((d) =>
+          d.id === device.id
+            ? {
+                ...d,
+                fieldConfigs: d.fieldConfigs.map((c, i) => (i === index ? { ...c, yRange } : c)),
+              }
+            : d
+        )
+      );
+      return;
+    }
+    const fieldCount = schema.fields.length;
+    if (index < fieldCount) {
+      setFieldConfigs((prev) => prev.map((c, i) => (i === index ? { ...c, yRange } : c)));
+    } else {
+      setDerivedChannels((prev) =>
+        prev.map((d, i) => (i === index - fieldCount ? { ...d, yRange } : d))
+      );
+    }
+  };
 
   const handleChannelVisibleChange = (index: number, visible: boolean) => {
     setChannelVisible((prev) => {
@@ -30,26 +515,118 @@ export default function App() {
       </p>
 
       <SerialControl
-        onConnect={() => setConnected(true)}
-        onDisconnect={() => setConnected(false)}
-        onPacket={setLastPacket}
+        onConnect={(info) => handleDeviceConnect(PRIMARY_DEVICE_ID, info)}
+        onDisconnect={() => handleDeviceDisconnect(PRIMARY_DEVICE_ID)}
+        onSamples={handleSamples}
+        onRawData={handlePrimaryRawData}
         onError={setSerialError}
+        onTransportChange={setTransport}
+        onStart={() => sendCommand(startCommand)}
+        onStop={() => sendCommand(stopCommand)}
+        baudRate={baudRate}
+        onBaudRateChange={setBaudRate}
+        schema={schema}
+        onSchemaChange={handleSchemaChange}
+        decoderConfig={decoderConfig}
+        onDecoderConfigChange={setDecoderConfig}
+        timestampConfig={timestampConfig}
+        onTimestampConfigChange={setTimestampConfig}
         channelVisible={channelVisible}
         onChannelVisibleChange={handleChannelVisibleChange}
+        channelLabels={channels.map((c) => c.label)}
+        deviceName={devices.length > 0 ? primaryDeviceName : undefined}
+        onDeviceNameChange={setPrimaryDeviceName}
       />
+      {devices.map((device) => (
+        <DeviceControl
+          key={device.id}
+          device={device}
+          onChange={handleDeviceChange}
+          onRemove={handleRemoveDevice}
+          onSamples={handleDeviceSamples}
+          onRawData={handleRawData}
+          onConnect={handleDeviceConnect}
+          onDisconnect={handleDeviceDisconnect}
+          onError={setSerialError}
+          startCommand={startCommand}
+          stopCommand={stopCommand}
+        />
+      ))}
+      <p className="device-list__actions">
+        <button type="button" onClick={handleAddDevice}>
+          デバイスを追加
+        </button>
+      </p>
       {serialError != null && (
         <p role="alert" style={{ marginBottom: '0.5rem' }}>
           {serialError}
         </p>
       )}
-      <p>接続状態: {connected ? '接続中' : '未接続'}</p>
+      <CommandConsole
+        log={consoleLog}
+        deviceNames={consoleDeviceNames}
+        connected={transport != null}
+        onSend={handleSend}
+        startCommand={startCommand}
+        stopCommand={stopCommand}
+        onStartCommandChange={setStartCommand}
+        onStopCommandChange={setStopCommand}
+      />
+      <RawMonitorPanel monitor={rawMonitor} devices={layout.devices} />
+      <ChannelSettings
+        schema={schema}
+        fieldConfigs={fieldConfigs}
+        derivedChannels={derivedChannels}
+        channelVisible={channelVisible}
+        onApply={handleChannelSettingsApply}
+      />
+      <ProfileControl
+        settings={settings}
+        onLoad={handleLoadSettings}
+        onBaudRateChange={setBaudRate}
+        disabled={connected}
+      />
+      <AlarmPanel
+        monitor={alarmMonitor}
+        rules={alarmRules}
+        onRulesChange={setAlarmRules}
+        channels={channels}
+      />
+      <RecordingControl devices={recordingDevices} onRecorderChange={handleRecorderChange} />
+      <ReplayControl
+        schema={schema}
+        decoderConfig={decoderConfig}
+        onPacket={handlePacket}
+        onTimelineReset={handleReplayTimelineReset}
+        disabled={connected}
+      />
+      <p>
+        接続状態: {connected ? '接続中' : '未接続'}
+        {devices.length > 0 && `（${connectedDevices.length}/${devices.length + 1} 台）`}
+      </p>
       {lastPacket != null && (
         <p style={{ fontSize: '0.9rem' }}>
-          最終受信値: ch0={lastPacket.ch0} ch1={lastPacket.ch1} ch2={lastPacket.ch2} ch3={lastPacket.ch3}
+          最終受信値:{' '}
+          {lastPacket.values
+            .map((v, i) => {
+              const channel = channels[i];
+              if (!channel) return `ch${i}=${v}`;
+              const unit = channel.unit !== '' ? ` ${channel.unit}` : '';
+              return `${channel.label}=${formatChannelValue(v, channel.precision)}${unit}`;
+            })
+            .join(' ')}
         </p>
       )}
 
-      <WaveformChart packet={lastPacket} channelVisible={channelVisible} />
+      <WaveformChart
+        store={sampleStore}
+        channels={channels}
+        channelVisible={channelVisible}
+        alarmActive={alarmActive}
+        onManualRangeChange={handleManualRangeChange}
+        connection={connectionLines}
+      />
+      <SpectrumView store={sampleStore} channels={channels} />
     </main>
   );
 }
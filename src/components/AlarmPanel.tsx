@@ -0,0 +1,288 @@
+/**
+ * AlarmPanel … チャンネルごとのアラームルール（上限・下限・範囲外・変化率・受信途絶）の追加・編集と、
+ * 発報・解除のイベント履歴（時刻付き）の表示。
+ * 判定は App が持つ AlarmMonitor が受信のたびに行い、ここでは version の変化を見て表示を更新する。
+ */
+import { useEffect, useRef, useState } from 'react';
+import {
+  ALARM_CONDITION_LABELS,
+  createAlarmRuleId,
+  describeAlarmCondition,
+  validateAlarmCondition,
+  type AlarmCondition,
+  type AlarmConditionType,
+  type AlarmEvent,
+  type AlarmMonitor,
+  type AlarmRule,
+} from '../lib/alarm/alarmMonitor';
+import { formatChannelValue, type DisplayChannel } from '../lib/channel/channelPipeline';
+import { formatTime } from '../lib/format/format';
+
+/** 表示の更新間隔（ms） */
+const ALARM_UPDATE_INTERVAL_MS = 200;
+
+export interface AlarmPanelProps {
+  /** 判定とイベント履歴（App が所有する） */
+  monitor: AlarmMonitor;
+  rules: AlarmRule[];
+  onRulesChange: (rules: AlarmRule[]) => void;
+  /** 表示チャンネル（ルールの対象） */
+  channels: readonly DisplayChannel[];
+}
+
+/** 追加するルールの入力中の値 */
+interface RuleDraft {
+  channelId: string;
+  type: AlarmConditionType;
+  limit: string;
+  low: string;
+  high: string;
+  timeoutMs: string;
+  sound: boolean;
+}
+
+const INITIAL_DRAFT: RuleDraft = {
+  channelId: '',
+  type: 'above',
+  limit: '',
+  low: '',
+  high: '',
+  timeoutMs: '1000',
+  sound: false,
+};
+
+/** 空欄は NaN（検査で弾く） */
+function parseNumber(text: string): number {
+  return text.trim() === '' ? NaN : Number(text);
+}
+
+function draftToCondition(draft: RuleDraft): AlarmCondition {
+  switch (draft.type) {
+    case 'above':
+    case 'below':
+    case 'rate':
+      return { type: draft.type, limit: parseNumber(draft.limit) };
+    case 'outside':
+      return { type: 'outside', low: parseNumber(draft.low), high: parseNumber(draft.high) };
+    case 'stale':
+      return { type: 'stale', timeoutMs: parseNumber(draft.timeoutMs) };
+  }
+}
+
+export function AlarmPanel({ monitor, rules, onRulesChange, channels }: AlarmPanelProps) {
+  const [draft, setDraft] = useState<RuleDraft>(INITIAL_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+  const [, setMonitorVersion] = useState(monitor.version);
+  const logRef = useRef<HTMLDivElement | null>(null);
+
+  // 発報状態・履歴の変化を一定間隔で反映する
+  useEffect(() => {
+    let renderedVersion = monitor.version;
+    const timer = setInterval(() => {
+      if (monitor.version === renderedVersion) return;
+      renderedVersion = monitor.version;
+      setMonitorVersion(renderedVersion);
+    }, ALARM_UPDATE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [monitor]);
+
+  const events = monitor.events();
+
+  // 新しいイベントが来たら末尾までスクロールする
+  useEffect(() => {
+    const el = logRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [events.length]);
+
+  const channelOf = (id: string) => channels.find((c) => c.id === id);
+  const channelLabel = (id: string) => channelOf(id)?.label ?? `${id}（なし）`;
+  const activeChannels = monitor.activeChannels();
+  const activeCount = activeChannels.filter(Boolean).length;
+  const activeRuleIds = monitor.activeRuleIds();
+  const draftChannelId = draft.channelId || channels[0]?.id || '';
+
+  const patchDraft = (patch: Partial<RuleDraft>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  const handleAdd = () => {
+    setError(null);
+    if (!channelOf(draftChannelId)) {
+      setError('対象のチャンネルを選択してください');
+      return;
+    }
+    const condition = draftToCondition(draft);
+    const message = validateAlarmCondition(condition);
+    if (message != null) {
+      setError(message);
+      return;
+    }
+    onRulesChange([
+      ...rules,
+      {
+        id: createAlarmRuleId(),
+        channelId: draftChannelId,
+        condition,
+        sound: draft.sound,
+        enabled: true,
+      },
+    ]);
+  };
+
+  const patchRule = (id: string, patch: Partial<AlarmRule>) =>
+    onRulesChange(rules.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+
+  const formatEventValue = (event: AlarmEvent): string => {
+    if (event.value == null) return '';
+    const channel = channelOf(event.rule.channelId);
+    const unit = channel?.unit ? ` ${channel.unit}` : '';
+    const rate = event.rule.condition.type === 'rate' ? '/s' : '';
+    return `値 ${formatChannelValue(event.value, channel?.precision)}${unit}${rate}`;
+  };
+
+  const numberInput = (key: 'limit' | 'low' | 'high' | 'timeoutMs', label: string) => (
+    <label className="alarm-panel__label">
+      {label}
+      <input
+        type="number"
+        step="any"
+        className="alarm-panel__number"
+        value={draft[key]}
+        onChange={(e) => patchDraft({ [key]: e.target.value })}
+        aria-label={label}
+      />
+    </label>
+  );
+
+  return (
+    <details className={`alarm-panel${activeCount > 0 ? ' alarm-panel--active' : ''}`}>
+      <summary>
+        アラーム（ルール {rules.length}）
+        {activeCount > 0 && <span className="alarm-panel__badge">発報中 {activeCount} ch</span>}
+      </summary>
+      <div className="alarm-panel__row">
+        <select
+          value={draftChannelId}
+          onChange={(e) => patchDraft({ channelId: e.target.value })}
+          aria-label="アラームの対象チャンネル"
+        >
+          {channels.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={draft.type}
+          onChange={(e) => patchDraft({ type: e.target.value as AlarmConditionType })}
+          aria-label="アラームの条件"
+        >
+          {(Object.keys(ALARM_CONDITION_LABELS) as AlarmConditionType[]).map((type) => (
+            <option key={type} value={type}>
+              {ALARM_CONDITION_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        {(draft.type === 'above' || draft.type === 'below') && numberInput('limit', 'しきい値')}
+        {draft.type === 'outside' && (
+          <>
+            {numberInput('low', '下限')}
+            {numberInput('high', '上限')}
+          </>
+        )}
+        {draft.type === 'rate' && numberInput('limit', '変化率（/s）')}
+        {draft.type === 'stale' && numberInput('timeoutMs', '時間（ms）')}
+        <label className="alarm-panel__label">
+          <input
+            type="checkbox"
+            checked={draft.sound}
+            onChange={(e) => patchDraft({ sound: e.target.checked })}
+          />
+          音
+        </label>
+        <button type="button" onClick={handleAdd} disabled={channels.length === 0}>
+          追加
+        </button>
+      </div>
+      {rules.length > 0 && (
+        <table className="alarm-panel__rules">
+          <thead>
+            <tr>
+              <th>有効</th>
+              <th>チャンネル</th>
+              <th>条件</th>
+              <th>音</th>
+              <th>状態</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map((rule) => (
+              <tr key={rule.id}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => patchRule(rule.id, { enabled: e.target.checked })}
+                    aria-label="ルールを有効にする"
+                  />
+                </td>
+                <td>{channelLabel(rule.channelId)}</td>
+                <td>
+                  {ALARM_CONDITION_LABELS[rule.condition.type]}{' '}
+                  {describeAlarmCondition(rule.condition, channelOf(rule.channelId)?.unit)}
+                </td>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={rule.sound}
+                    onChange={(e) => patchRule(rule.id, { sound: e.target.checked })}
+                    aria-label="発報時に音を鳴らす"
+                  />
+                </td>
+                <td>
+                  {activeRuleIds.has(rule.id) ? (
+                    <span className="alarm-panel__state--active">発報中</span>
+                  ) : (
+                    '–'
+                  )}
+                </td>
+                <td>
+                  <button
+                    type="button"
+                    onClick={() => onRulesChange(rules.filter((r) => r.id !== rule.id))}
+                  >
+                    削除
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div className="alarm-panel__row">
+        <span>イベント履歴（{events.length}）</span>
+        <button type="button" onClick={() => monitor.clearEvents()}>
+          クリア
+        </button>
+      </div>
+      <div ref={logRef} className="alarm-panel__log" role="log" aria-label="アラームのイベント履歴">
+        {events.map((event, i) => (
+          <div key={i} className={`alarm-panel__event alarm-panel__event--${event.kind}`}>
+            <span className="alarm-panel__time">{formatTime(event.timestamp)}</span>
+            <span>{event.kind === 'raised' ? '発報' : '解除'}</span>
+            <span>{channelLabel(event.rule.channelId)}</span>
+            <span>
+              {ALARM_CONDITION_LABELS[event.rule.condition.type]}{' '}
+              {describeAlarmCondition(event.rule.condition, channelOf(event.rule.channelId)?.unit)}
+            </span>
+            <span>{formatEventValue(event)}</span>
+          </div>
+        ))}
+      </div>
+      {error != null && (
+        <p role="alert" style={{ margin: '0.25rem 0', color: 'var(--error-color, #f88)' }}>
+          {error}
+        </p>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,468 @@
+/**
+ * ChannelSettings … チャンネルごとの表示 ON/OFF・系統名・線色・単位・換算（一次式 / 多項式）・
+ * 表示桁数・縦軸レンジと、式で定義する派生チャンネル（例: "ch0 - ch1"）の編集。
+ * 入力は下書きとして持ち、「適用」で検査してから App に渡す
+ * （換算・式を変えたときだけグラフの履歴はクリアされる）。
+ */
+import { useEffect, useState } from 'react';
+import { parseCoefficients, type Calibration, type CalibrationType } from '../lib/channel/calibration';
+import { validateDerivedExpression } from '../lib/channel/channelPipeline';
+import { EXPRESSION_CONSTANT_NAMES, EXPRESSION_FUNCTION_NAMES } from '../lib/channel/expression';
+import {
+  fallbackColor,
+  MAX_PRECISION,
+  type ChannelConfig,
+  type DerivedChannelConfig,
+  type YRange,
+} from '../lib/config/channelConfig';
+import type { PacketSchema } from '../lib/packet/types';
+
+export interface ChannelSettingsProps {
+  schema: PacketSchema;
+  /** 受信チャンネルの設定（スキーマのフィールド順） */
+  fieldConfigs: ChannelConfig[];
+  derivedChannels: DerivedChannelConfig[];
+  /** 表示チャンネル（受信＋派生）ごとの表示 ON/OFF */
+  channelVisible: boolean[];
+  onApply: (
+    fieldConfigs: ChannelConfig[],
+    derivedChannels: DerivedChannelConfig[],
+    channelVisible: boolean[]
+  ) => void;
+}
+
+const CALIBRATION_TYPE_LABELS: Record<CalibrationType, string> = {
+  none: 'なし',
+  linear: '一次式',
+  polynomial: '多項式',
+};
+
+/** 受信チャンネル・派生チャンネル共通の表示設定 */
+interface DisplayDraft {
+  visible: boolean;
+  label: string;
+  color: string;
+  unit: string;
+  precision: string;
+  /** 縦軸レンジ。両方空欄なら値の範囲全体 */
+  yMin: string;
+  yMax: string;
+}
+
+interface FieldDraft extends DisplayDraft {
+  calibrationType: CalibrationType;
+  gain: string;
+  offset: string;
+  coefficients: string;
+}
+
+interface DerivedDraft extends DisplayDraft {
+  expression: string;
+}
+
+function toDisplayDraft(
+  config: ChannelConfig | DerivedChannelConfig | undefined,
+  visible: boolean | undefined
+): DisplayDraft {
+  return {
+    visible: visible !== false,
+    label: config?.label ?? '',
+    color: config?.color ?? '#888888',
+    unit: config?.unit ?? '',
+    precision: config?.precision != null ? String(config.precision) : '',
+    yMin: config?.yRange != null ? String(config.yRange.min) : '',
+    yMax: config?.yRange != null ? String(config.yRange.max) : '',
+  };
+}
+
+function toFieldDraft(config: ChannelConfig | undefined, visible: boolean | undefined): FieldDraft {
+  const calibration = config?.calibration ?? { type: 'none' };
+  return {
+    ...toDisplayDraft(config, visible),
+    calibrationType: calibration.type,
+    gain: calibration.type === 'linear' ? String(calibration.gain) : '1',
+    offset: calibration.type === 'linear' ? String(calibration.offset) : '0',
+    coefficients: calibration.type === 'polynomial' ? calibration.coefficients.join(', ') : '0, 1',
+  };
+}
+
+function toDerivedDraft(config: DerivedChannelConfig, visible: boolean | undefined): DerivedDraft {
+  return { ...toDisplayDraft(config, visible), expression: config.expression };
+}
+
+function parseNumber(text: string, name: string): number {
+  const v = Number(text);
+  if (text.trim() === '' || !Number.isFinite(v)) throw new Error(`${name}が数値ではありません: ${text}`);
+  return v;
+}
+
+/** 空欄は undefined（有効数字 6 桁）。0〜MAX_PRECISION の整数以外は Error */
+function parsePrecision(text: string, label: string): number | undefined {
+  if (text.trim() === '') return undefined;
+  const v = Number(text);
+  if (!Number.isInteger(v) || v < 0 || v > MAX_PRECISION) {
+    throw new Error(`${label} の表示桁数は 0〜${MAX_PRECISION} の整数にしてください`);
+  }
+  return v;
+}
+
+/** 両方空欄は undefined（値の範囲全体）。片方だけ・min >= max は Error */
+function parseYRange(draft: DisplayDraft, label: string): YRange | undefined {
+  if (draft.yMin.trim() === '' && draft.yMax.trim() === '') return undefined;
+  const min = parseNumber(draft.yMin, `${label} の縦軸最小値`);
+  const max = parseNumber(draft.yMax, `${label} の縦軸最大値`);
+  if (min >= max) throw new Error(`${label} の縦軸は最小値 < 最大値にしてください`);
+  return { min, max };
+}
+
+function parseCalibration(draft: FieldDraft, label: string): Calibration {
+  switch (draft.calibrationType) {
+    case 'none':
+      return { type: 'none' };
+    case 'linear':
+      return {
+        type: 'linear',
+        gain: parseNumber(draft.gain, `${label} の係数`),
+        offset: parseNumber(draft.offset, `${label} のオフセット`),
+      };
+    case 'polynomial':
+      return { type: 'polynomial', coefficients: parseCoefficients(draft.coefficients) };
+  }
+}
+
+/** 名前・色・単位・桁数・縦軸レンジを検査して設定にする */
+function parseDisplayDraft(draft: DisplayDraft, fallbackLabel: string) {
+  const label = draft.label.trim() || fallbackLabel;
+  if (label === '') throw new Error('チャンネル名を入力してください');
+  const unit = draft.unit.trim();
+  const precision = parsePrecision(draft.precision, label);
+  const yRange = parseYRange(draft, label);
+  return {
+    label,
+    color: draft.color,
+    ...(unit !== '' && { unit }),
+    ...(precision != null && { precision }),
+    ...(yRange != null && { yRange }),
+  };
+}
+
+interface DisplayCellsProps {
+  draft: DisplayDraft;
+  onChange: (patch: Partial<DisplayDraft>) => void;
+  /** aria-label に使う名前 */
+  name: string;
+}
+
+/** 表示 ON/OFF・名前・色の列 */
+function IdentityCells({ draft, onChange, name }: DisplayCellsProps) {
+  return (
+    <>
+      <td>
+        <input
+          type="checkbox"
+          checked={draft.visible}
+          onChange={(e) => onChange({ visible: e.target.checked })}
+          aria-label={`${name} を表示`}
+        />
+      </td>
+      <td>
+        <input
+          type="text"
+          value={draft.label}
+          onChange={(e) => onChange({ label: e.target.value })}
+          className="channel-settings__label"
+          aria-label={`${name} の名前`}
+        />
+      </td>
+      <td>
+        <input
+          type="color"
+          value={draft.color}
+          onChange={(e) => onChange({ color: e.target.value })}
+          aria-label={`${name} の色`}
+        />
+      </td>
+    </>
+  );
+}
+
+/** 小数桁・縦軸レンジの列 */
+function PrecisionRangeCells({ draft, onChange, name }: DisplayCellsProps) {
+  return (
+    <>
+      <td>
+        <input
+          type="number"
+          min={0}
+          max={MAX_PRECISION}
+          step={1}
+          value={draft.precision}
+          onChange={(e) => onChange({ precision: e.target.value })}
+          placeholder="自動"
+          className="channel-settings__precision"
+          aria-label={`${name} の小数桁`}
+        />
+      </td>
+      <td>
+        <span className="channel-settings__params">
+          <input
+            type="number"
+            step="any"
+            value={draft.yMin}
+            onChange={(e) => onChange({ yMin: e.target.value })}
+            placeholder="自動"
+            aria-label={`${name} の縦軸最小値`}
+          />
+          〜
+          <input
+            type="number"
+            step="any"
+            value={draft.yMax}
+            onChange={(e) => onChange({ yMax: e.target.value })}
+            placeholder="自動"
+            aria-label={`${name} の縦軸最大値`}
+          />
+        </span>
+      </td>
+    </>
+  );
+}
+
+export function ChannelSettings({
+  schema,
+  fieldConfigs,
+  derivedChannels,
+  channelVisible,
+  onApply,
+}: ChannelSettingsProps) {
+  const fieldCount = schema.fields.length;
+  const [fieldDrafts, setFieldDrafts] = useState<FieldDraft[]>(() =>
+    schema.fields.map((_, i) => toFieldDraft(fieldConfigs[i], channelVisible[i]))
+  );
+  const [derivedDrafts, setDerivedDrafts] = useState<DerivedDraft[]>(() =>
+    derivedChannels.map((d, i) => toDerivedDraft(d, channelVisible[fieldCount + i]))
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  // 適用後・スキーマ変更時・グラフ側での変更時は下書きを現在の設定に合わせ直す
+  useEffect(() => {
+    setFieldDrafts(schema.fields.map((_, i) => toFieldDraft(fieldConfigs[i], channelVisible[i])));
+    setDerivedDrafts(
+      derivedChannels.map((d, i) => toDerivedDraft(d, channelVisible[schema.fields.length + i]))
+    );
+    setError(null);
+  }, [schema, fieldConfigs, derivedChannels, channelVisible]);
+
+  const updateField = (index: number, patch: Partial<FieldDraft>) => {
+    setFieldDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+  };
+
+  const updateDerived = (index: number, patch: Partial<DerivedDraft>) => {
+    setDerivedDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+  };
+
+  const addDerived = () => {
+    setDerivedDrafts((prev) => [
+      ...prev,
+      {
+        visible: true,
+        label: `math${prev.length}`,
+        color: fallbackColor(fieldCount + prev.length),
+        expression: fieldCount >= 2 ? 'ch0 - ch1' : 'ch0',
+        unit: '',
+        precision: '',
+        yMin: '',
+        yMax: '',
+      },
+    ]);
+  };
+
+  const handleApply = () => {
+    try {
+      const nextFieldConfigs = schema.fields.map((field, i): ChannelConfig => {
+        const draft = fieldDrafts[i] ?? toFieldDraft(fieldConfigs[i], channelVisible[i]);
+        const display = parseDisplayDraft(draft, field.name);
+        const calibration = parseCalibration(draft, display.label);
+        return { ...display, ...(calibration.type !== 'none' && { calibration }) };
+      });
+      const nextDerived = derivedDrafts.map((draft): DerivedChannelConfig => {
+        const display = parseDisplayDraft(draft, '');
+        const expressionError = validateDerivedExpression(schema, draft.expression);
+        if (expressionError != null) throw new Error(`${display.label}: ${expressionError}`);
+        return { ...display, expression: draft.expression.trim() };
+      });
+      setError(null);
+      onApply(
+        nextFieldConfigs,
+        nextDerived,
+        [...fieldDrafts, ...derivedDrafts].map((d) => d.visible)
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const variableHint = schema.fields.map((f, i) => `ch${i}（${f.name}）`).join(', ');
+
+  return (
+    <details className="channel-settings">
+      <summary>チャンネル設定（名前・色・単位・換算・縦軸・派生チャンネル）</summary>
+      <table className="channel-settings__table">
+        <thead>
+          <tr>
+            <th>表示</th>
+            <th>チャンネル</th>
+            <th>色</th>
+            <th>単位</th>
+            <th>換算</th>
+            <th>係数</th>
+            <th>小数桁</th>
+            <th>縦軸（手動）</th>
+          </tr>
+        </thead>
+        <tbody>
+          {schema.fields.map((field, i) => {
+            const draft = fieldDrafts[i] ?? toFieldDraft(fieldConfigs[i], channelVisible[i]);
+            const name = fieldConfigs[i]?.label ?? field.name;
+            const onChange = (patch: Partial<FieldDraft>) => updateField(i, patch);
+            return (
+              <tr key={i}>
+                <IdentityCells draft={draft} onChange={onChange} name={name} />
+                <td>
+                  <input
+                    type="text"
+                    value={draft.unit}
+                    onChange={(e) => updateField(i, { unit: e.target.value })}
+                    placeholder="count"
+                    className="channel-settings__unit"
+                    aria-label={`${name} の単位`}
+                  />
+                </td>
+                <td>
+                  <select
+                    value={draft.calibrationType}
+                    onChange={(e) =>
+                      updateField(i, { calibrationType: e.target.value as CalibrationType })
+                    }
+                    aria-label={`${name} の換算`}
+                  >
+                    {(Object.keys(CALIBRATION_TYPE_LABELS) as CalibrationType[]).map((type) => (
+                      <option key={type} value={type}>
+                        {CALIBRATION_TYPE_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  {draft.calibrationType === 'linear' && (
+                    <span className="channel-settings__params">
+                      <input
+                        type="number"
+                        step="any"
+                        value={draft.gain}
+                        onChange={(e) => updateField(i, { gain: e.target.value })}
+                        aria-label={`${name} の係数`}
+                      />
+                      × x +
+                      <input
+                        type="number"
+                        step="any"
+                        value={draft.offset}
+                        onChange={(e) => updateField(i, { offset: e.target.value })}
+                        aria-label={`${name} のオフセット`}
+                      />
+                    </span>
+                  )}
+                  {draft.calibrationType === 'polynomial' && (
+                    <input
+                      type="text"
+                      value={draft.coefficients}
+                      onChange={(e) => updateField(i, { coefficients: e.target.value })}
+                      placeholder="c0, c1, c2 …"
+                      title="c0 + c1·x + c2·x² + … の係数を低次から並べる"
+                      className="channel-settings__coefficients"
+                      aria-label={`${name} の多項式係数`}
+                    />
+                  )}
+                </td>
+                <PrecisionRangeCells draft={draft} onChange={onChange} name={name} />
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <table className="channel-settings__table">
+        <thead>
+          <tr>
+            <th>表示</th>
+            <th>派生チャンネル</th>
+            <th>色</th>
+            <th>式</th>
+            <th>単位</th>
+            <th>小数桁</th>
+            <th>縦軸（手動）</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {derivedDrafts.map((draft, i) => {
+            const name = draft.label || `派生チャンネル ${i + 1}`;
+            const onChange = (patch: Partial<DerivedDraft>) => updateDerived(i, patch);
+            return (
+              <tr key={i}>
+                <IdentityCells draft={draft} onChange={onChange} name={name} />
+                <td>
+                  <input
+                    type="text"
+                    value={draft.expression}
+                    onChange={(e) => updateDerived(i, { expression: e.target.value })}
+                    spellCheck={false}
+                    className="channel-settings__expression"
+                    aria-label={`${name} の式`}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    value={draft.unit}
+                    onChange={(e) => updateDerived(i, { unit: e.target.value })}
+                    className="channel-settings__unit"
+                    aria-label={`${name} の単位`}
+                  />
+                </td>
+                <PrecisionRangeCells draft={draft} onChange={onChange} name={name} />
+                <td>
+                  <button
+                    type="button"
+                    onClick={() => setDerivedDrafts((prev) => prev.filter((_, j) => j !== i))}
+                  >
+                    削除
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="channel-settings__hint">
+        式で使える名前: {variableHint}（換算後の値）、{EXPRESSION_CONSTANT_NAMES.join(', ')}。演算子
+        + - * / % ^ と関数 {EXPRESSION_FUNCTION_NAMES.join(', ')}。
+        換算・式を変えて適用するとグラフの履歴はクリアされます。設定はブラウザに保存されます。
+      </p>
+      <div className="channel-settings__actions">
+        <button type="button" onClick={addDerived}>
+          派生チャンネルを追加
+        </button>
+        <button type="button" onClick={handleApply}>
+          適用
+        </button>
+      </div>
+      {error != null && (
+        <p role="alert" style={{ margin: '0.25rem 0', color: 'var(--error-color, #f88)' }}>
+          {error}
+        </p>
+      )}
+    </details>
+  );
+}
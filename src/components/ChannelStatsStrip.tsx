@@ -0,0 +1,54 @@
+/**
+ * ChannelStatsStrip … 波形グラフ 1 チャンネル分の統計表示
+ * （最小・最大・平均・RMS・標準偏差・p-p・サンプルレート）。
+ * 集計は lib/chart/statistics に任せ、ここでは表示だけを行う。
+ */
+import { formatChannelValue } from '../lib/channel/channelPipeline';
+import type { ChannelStatistics } from '../lib/chart/statistics';
+
+export interface ChannelStatsStripProps {
+  /** チャンネルの表示名（aria-label 用） */
+  label: string;
+  /** 集計結果。有効な値がなければ null */
+  stats: ChannelStatistics | null;
+  /** サンプルレート（samples/s）。測れなければ null */
+  sampleRate: number | null;
+  /** 小数点以下の桁数（省略時は有効数字 6 桁） */
+  precision?: number;
+}
+
+/** precision 桁（省略時は有効数字 6 桁、末尾の 0 は省く）で表示する */
+export function formatStatValue(v: number | null | undefined, precision?: number): string {
+  return v != null && Number.isFinite(v) ? formatChannelValue(v, precision) : '–';
+}
+
+export function ChannelStatsStrip({
+  label,
+  stats,
+  sampleRate,
+  precision,
+}: ChannelStatsStripProps) {
+  const items: [string, number | null | undefined][] = [
+    ['min', stats?.min],
+    ['max', stats?.max],
+    ['mean', stats?.mean],
+    ['RMS', stats?.rms],
+    ['σ', stats?.std],
+    ['p-p', stats?.peakToPeak],
+  ];
+  return (
+    <div className="channel-stats" aria-label={`${label} の統計`}>
+      {items.map(([name, value]) => (
+        <span key={name} className="channel-stats__item">
+          <span className="channel-stats__name">{name}</span> {formatStatValue(value, precision)}
+        </span>
+      ))}
+      <span className="channel-stats__item">
+        <span className="channel-stats__name">rate</span> {formatStatValue(sampleRate)} Hz
+      </span>
+      <span className="channel-stats__item">
+        <span className="channel-stats__name">n</span> {stats?.count ?? 0}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+/**
+ * CommandConsole … デバイスへのコマンド送信（テキスト / 16 進数、改行コード選択）と
+ * 送受信履歴の表示、Start / Stop ボタンで送るコマンドの設定。
+ * 送信は App の onSend（1 台目の接続中のトランスポートへの書き込み）に任せ、履歴は App が持つ ConsoleLog を読む。
+ * 複数デバイスのときは、受信した行の前にデバイス名を付ける。
+ */
+import { useCallback, useEffect, useRef, useState, type FormEvent, type ReactNode } from 'react';
+import {
+  encodeCommand,
+  formatHex,
+  formatText,
+  LINE_ENDING_LABELS,
+  type CommandFormat,
+  type CommandSpec,
+  type LineEnding,
+} from '../lib/console/command';
+import type { ConsoleEntry, ConsoleLog } from '../lib/console/consoleLog';
+import { formatTime } from '../lib/format/format';
+
+/** 履歴表示の更新間隔（ms） */
+const LOG_UPDATE_INTERVAL_MS = 100;
+
+const FORMAT_LABELS: Record<CommandFormat, string> = {
+  text: 'テキスト',
+  hex: 'HEX',
+};
+
+export interface CommandConsoleProps {
+  /** 送受信履歴（App が所有する） */
+  log: ConsoleLog;
+  /** デバイスの id → 名前。渡したときだけ履歴の各行に送受信したデバイスの名前を出す */
+  deviceNames?: Readonly<Record<string, string>>;
+  /** 接続中なら true（未接続では送信できない） */
+  connected: boolean;
+  /** バイト列を送信する。失敗したら reject */
+  onSend: (bytes: Uint8Array) => Promise<void>;
+  startCommand: CommandSpec;
+  stopCommand: CommandSpec;
+  onStartCommandChange: (spec: CommandSpec) => void;
+  onStopCommandChange: (spec: CommandSpec) => void;
+}
+
+function formatEntry(entry: ConsoleEntry, format: CommandFormat): string {
+  return format === 'hex' ? formatHex(entry.bytes) : formatText(entry.bytes);
+}
+
+interface CommandSpecFieldsProps {
+  label: string;
+  spec: CommandSpec;
+  onChange: (spec: CommandSpec) => void;
+  /** 行末に並べる要素（送信ボタンなど） */
+  children?: ReactNode;
+}
+
+/** 形式・内容・改行コードの入力欄 1 行分 */
+function CommandSpecFields({ label, spec, onChange, children }: CommandSpecFieldsProps) {
+  return (
+    <div className="command-console__row">
+      <span className="command-console__spec-label">{label}</span>
+      <select
+        value={spec.format}
+        onChange={(e) => onChange({ ...spec, format: e.target.value as CommandFormat })}
+        aria-label={`${label} の形式`}
+      >
+        {(Object.keys(FORMAT_LABELS) as CommandFormat[]).map((f) => (
+          <option key={f} value={f}>
+            {FORMAT_LABELS[f]}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        className="command-console__input"
+        value={spec.text}
+        onChange={(e) => onChange({ ...spec, text: e.target.value })}
+        placeholder={spec.format === 'hex' ? 'AA 55 01' : 'コマンド'}
+        spellCheck={false}
+        aria-label={`${label} の内容`}
+      />
+      <select
+        value={spec.lineEnding}
+        onChange={(e) => onChange({ ...spec, lineEnding: e.target.value as LineEnding })}
+        aria-label={`${label} の改行コード`}
+      >
+        {(Object.keys(LINE_ENDING_LABELS) as LineEnding[]).map((le) => (
+          <option key={le} value={le}>
+            {LINE_ENDING_LABELS[le]}
+          </option>
+        ))}
+      </select>
+      {children}
+    </div>
+  );
+}
+
+export function CommandConsole({
+  log,
+  deviceNames,
+  connected,
+  onSend,
+  startCommand,
+  stopCommand,
+  onStartCommandChange,
+  onStopCommandChange,
+}: CommandConsoleProps) {
+  const [command, setCommand] = useState<CommandSpec>({ format: 'text', text: '', lineEnding: 'lf' });
+  const [displayFormat, setDisplayFormat] = useState<CommandFormat>('text');
+  const [showReceived, setShowReceived] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [, setLogVersion] = useState(log.version);
+  const historyRef = useRef<HTMLDivElement | null>(null);
+
+  // 履歴の変化を一定間隔で反映する（受信のたびに再描画しない）
+  useEffect(() => {
+    let renderedVersion = log.version;
+    const timer = setInterval(() => {
+      if (log.version === renderedVersion) return;
+      renderedVersion = log.version;
+      setLogVersion(renderedVersion);
+    }, LOG_UPDATE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [log]);
+
+  const entries = log.entries().filter((e) => showReceived || e.direction === 'tx');
+  const lastEntry = entries[entries.length - 1];
+
+  // 新しい行が来たら末尾までスクロールする
+  useEffect(() => {
+    const el = historyRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [entries.length, lastEntry?.bytes.length]);
+
+  const handleSubmit = useCallback(
+    async (e: FormEvent) => {
+      e.preventDefault();
+      setError(null);
+      let bytes: Uint8Array;
+      try {
+        bytes = encodeCommand(command);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+        return;
+      }
+      if (bytes.length === 0) return;
+      setSending(true);
+      try {
+        await onSend(bytes);
+        setCommand((prev) => ({ ...prev, text: '' }));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setSending(false);
+      }
+    },
+    [command, onSend]
+  );
+
+  return (
+    <section aria-label="コマンドコンソール" className="command-console">
+      <div className="command-console__row">
+        <label className="command-console__label">
+          表示:
+          <select
+            value={displayFormat}
+            onChange={(e) => setDisplayFormat(e.target.value as CommandFormat)}
+            aria-label="履歴の表示形式"
+          >
+            {(Object.keys(FORMAT_LABELS) as CommandFormat[]).map((f) => (
+              <option key={f} value={f}>
+                {FORMAT_LABELS[f]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="command-console__label">
+          <input
+            type="checkbox"
+            checked={showReceived}
+            onChange={(e) => setShowReceived(e.target.checked)}
+          />
+          受信を表示
+        </label>
+        <button type="button" onClick={() => log.clear()}>
+          クリア
+        </button>
+      </div>
+      <div ref={historyRef} className="command-console__history" role="log" aria-label="送受信履歴">
+        {entries.map((entry, i) => (
+          <div key={i} className={`command-console__entry command-console__entry--${entry.direction}`}>
+            <span className="command-console__time">{formatTime(entry.timestamp)}</span>
+            <span className="command-console__direction">{entry.direction === 'tx' ? '→' : '←'}</span>
+            {deviceNames != null && (
+              <span className="command-console__source">{deviceNames[entry.source] ?? ''}</span>
+            )}
+            <span className="command-console__bytes">{formatEntry(entry, displayFormat)}</span>
+          </div>
+        ))}
+      </div>
+      <form onSubmit={handleSubmit}>
+        <CommandSpecFields label="送信" spec={command} onChange={setCommand}>
+          <button type="submit" disabled={!connected || sending}>
+            送信
+          </button>
+        </CommandSpecFields>
+      </form>
+      <details className="command-console__commands">
+        <summary>Start / Stop で送るコマンド</summary>
+        <CommandSpecFields label="Start" spec={startCommand} onChange={onStartCommandChange} />
+        <CommandSpecFields label="Stop" spec={stopCommand} onChange={onStopCommandChange} />
+      </details>
+      {error != null && (
+        <p role="alert" style={{ margin: '0.25rem 0', color: 'var(--error-color, #f88)' }}>
+          {error}
+        </p>
+      )}
+    </section>
+  );
+}
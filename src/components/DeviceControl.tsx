@@ -0,0 +1,119 @@
+/**
+ * DeviceControl … 2 台目以降のデバイスの接続欄。デバイスごとに SerialControl を 1 つ置き、
+ * ボーレート・スキーマ・受信形式・名前の変更は DeviceConfig の更新として App に返す。
+ * Start / Stop はこのデバイスの接続にだけコマンドを送る（コマンドコンソールからの送信は 1 台目が対象）。
+ * 受信したサンプルと生バイト列はデバイスの id を付けて App に渡す（録画・コンソール・生データ表示用）。
+ */
+import { useCallback, useRef } from 'react';
+import { encodeCommand, type CommandSpec } from '../lib/console/command';
+import { createDeviceFieldConfigs, type DeviceConfig } from '../lib/device/deviceLayout';
+import type { DecoderConfig } from '../lib/packet/createDecoder';
+import type { PacketSchema } from '../lib/packet/types';
+import type { RawChunk } from '../lib/transport/batchedReadLoop';
+import type { SampleBlock } from '../lib/transport/sampleBlock';
+import { DEFAULT_TIMESTAMP_CONFIG, type TimestampConfig } from '../lib/transport/sampleClock';
+import type { Transport } from '../lib/transport/types';
+import { SerialControl, type ConnectionInfo } from './SerialControl';
+
+export interface DeviceControlProps {
+  device: DeviceConfig;
+  onChange: (id: string, patch: Partial<DeviceConfig>) => void;
+  onRemove: (id: string) => void;
+  /** このデバイスのデコード済みサンプル（表示チャンネルへの変換は App が行う） */
+  onSamples: (id: string, block: SampleBlock) => void;
+  /** このデバイスから受信したデコード前のバイト列 */
+  onRawData: (id: string, chunk: RawChunk) => void;
+  /** 接続したとき（info はスナップショットの注記に使う）と切断したとき */
+  onConnect: (id: string, info: ConnectionInfo) => void;
+  onDisconnect: (id: string) => void;
+  onError: (message: string | null) => void;
+  startCommand: CommandSpec;
+  stopCommand: CommandSpec;
+}
+
+export function DeviceControl({
+  device,
+  onChange,
+  onRemove,
+  onSamples,
+  onRawData,
+  onConnect,
+  onDisconnect,
+  onError,
+  startCommand,
+  stopCommand,
+}: DeviceControlProps) {
+  const { id, number } = device;
+  const transportRef = useRef<Transport | null>(null);
+
+  const handleConnect = useCallback(
+    (info: ConnectionInfo) => onConnect(id, info),
+    [id, onConnect]
+  );
+  const handleDisconnect = useCallback(() => onDisconnect(id), [id, onDisconnect]);
+  const handleSamples = useCallback((block: SampleBlock) => onSamples(id, block), [id, onSamples]);
+  const handleRawData = useCallback((chunk: RawChunk) => onRawData(id, chunk), [id, onRawData]);
+  const handleTransportChange = useCallback((transport: Transport | null) => {
+    transportRef.current = transport;
+  }, []);
+  const handleBaudRateChange = useCallback(
+    (baudRate: number) => onChange(id, { baudRate }),
+    [id, onChange]
+  );
+  const handleSchemaChange = useCallback(
+    (schema: PacketSchema) =>
+      onChange(id, {
+        schema,
+        fieldConfigs: createDeviceFieldConfigs(schema, number),
+        timestampConfig: DEFAULT_TIMESTAMP_CONFIG,
+      }),
+    [id, number, onChange]
+  );
+  const handleDecoderConfigChange = useCallback(
+    (decoderConfig: DecoderConfig) => onChange(id, { decoderConfig }),
+    [id, onChange]
+  );
+  const handleTimestampConfigChange = useCallback(
+    (timestampConfig: TimestampConfig) => onChange(id, { timestampConfig }),
+    [id, onChange]
+  );
+  const handleNameChange = useCallback((name: string) => onChange(id, { name }), [id, onChange]);
+
+  const sendCommand = (spec: CommandSpec) => {
+    const transport = transportRef.current;
+    if (!transport) return;
+    onError(null);
+    try {
+      transport
+        .write(encodeCommand(spec))
+        .catch((e) => onError(e instanceof Error ? e.message : String(e)));
+    } catch (e) {
+      onError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <SerialControl
+      onConnect={handleConnect}
+      onDisconnect={handleDisconnect}
+      onSamples={handleSamples}
+      onRawData={handleRawData}
+      onError={onError}
+      onTransportChange={handleTransportChange}
+      onStart={() => sendCommand(startCommand)}
+      onStop={() => sendCommand(stopCommand)}
+      baudRate={device.baudRate}
+      onBaudRateChange={handleBaudRateChange}
+      schema={device.schema}
+      onSchemaChange={handleSchemaChange}
+      decoderConfig={device.decoderConfig}
+      onDecoderConfigChange={handleDecoderConfigChange}
+      timestampConfig={device.timestampConfig}
+      onTimestampConfigChange={handleTimestampConfigChange}
+      deviceName={device.name}
+      onDeviceNameChange={handleNameChange}
+      onRemove={() => onRemove(id)}
+      rememberLastPort={false}
+    />
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * LinkStatsPanel … リンクの状態表示（受信 byte/s・パケット/s・累計・エラー数・破棄 / 端数バイト・
+ * 接続時間・処理の遅れ）。集計は SerialControl が接続ごとに作る LinkStatsMeter に任せ、
+ * ここでは一定間隔で snapshot を読んで表示するだけ。エラー文（role="alert"）とは別に常に表示する。
+ */
+import { useEffect, useState } from 'react';
+import { formatBytes, formatDuration } from '../lib/format/format';
+import type { LinkStatsMeter, LinkStatsSnapshot } from '../lib/transport/linkStats';
+
+/** 表示の更新間隔（ms） */
+const LINK_STATS_UPDATE_INTERVAL_MS = 250;
+
+export interface LinkStatsPanelProps {
+  /** 現在（または直前）の接続の集計 */
+  meter: LinkStatsMeter;
+}
+
+function formatRate(v: number): string {
+  return Math.round(v).toLocaleString();
+}
+
+export function LinkStatsPanel({ meter }: LinkStatsPanelProps) {
+  const [snapshot, setSnapshot] = useState<LinkStatsSnapshot>(() => meter.snapshot(Date.now()));
+
+  useEffect(() => {
+    const update = () => setSnapshot(meter.snapshot(Date.now()));
+    update();
+    const timer = setInterval(update, LINK_STATS_UPDATE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [meter]);
+
+  /** [名前, 値, 0 でなければ強調するか] */
+  const items: [string, string, boolean?][] = [
+    ['状態', snapshot.running ? '接続中' : '切断済み'],
+    ['受信', `${formatBytes(Math.round(snapshot.bytesPerSecond))}/s`],
+    ['パケット', `${formatRate(snapshot.packetsPerSecond)} /s`],
+    ['累計パケット', snapshot.packets.toLocaleString()],
+    ['累計受信', formatBytes(snapshot.bytes)],
+    ['フレームエラー', snapshot.framingErrors.toLocaleString(), snapshot.framingErrors > 0],
+    ['CRC エラー', snapshot.crcErrors.toLocaleString(), snapshot.crcErrors > 0],
+    ['解析エラー', snapshot.parseErrors.toLocaleString(), snapshot.parseErrors > 0],
+    ['破棄', formatBytes(snapshot.discardedBytes), snapshot.discardedBytes > 0],
+    ['端数', formatBytes(snapshot.pendingBytes)],
+    ['接続時間', formatDuration(snapshot.connectedMs)],
+    ['処理遅延', snapshot.backlogMs != null ? `${Math.round(snapshot.backlogMs)} ms` : '–'],
+  ];
+
+  return (
+    <dl className="link-stats" aria-label="リンクの状態">
+      {items.map(([name, value, warn]) => (
+        <div
+          key={name}
+          className={warn ? 'link-stats__item link-stats__item--warn' : 'link-stats__item'}
+        >
+          <dt>{name}</dt>
+          <dd>{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
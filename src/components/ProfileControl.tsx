@@ -0,0 +1,199 @@
+/**
+ * ProfileControl … 設定プロファイル（スキーマ・ボーレート・チャンネル設定・表示 ON/OFF）の
+ * 保存・読み込み・削除と、JSON ファイルへのエクスポート / インポート、ボーレートの既定値の選択。
+ * 現在の設定の自動保存と保存形式は lib/config/settingsStorage に任せる。
+ */
+import { useCallback, useEffect, useState } from 'react';
+import {
+  deleteProfile,
+  listProfiles,
+  parseProfileJson,
+  profileToJson,
+  saveProfile,
+  type AppSettings,
+  type SettingsProfile,
+} from '../lib/config/settingsStorage';
+import { downloadBlob } from '../lib/file/download';
+import { baudRateOptions } from './SerialControl';
+
+export interface ProfileControlProps {
+  /** 現在の設定（保存・エクスポートの対象） */
+  settings: AppSettings;
+  /** プロファイルを読み込んだ・インポートしたとき */
+  onLoad: (settings: AppSettings) => void;
+  onBaudRateChange: (baudRate: number) => void;
+  /** 接続中はスキーマ・ボーレートが変わる読み込みを止める */
+  disabled?: boolean;
+}
+
+/** ファイル名に使えない文字を置き換える */
+function profileFileName(name: string): string {
+  return `profile-${name.replace(/[\\/:*?"<>|\s]+/g, '_')}.json`;
+}
+
+export function ProfileControl({
+  settings,
+  onLoad,
+  onBaudRateChange,
+  disabled = false,
+}: ProfileControlProps) {
+  const [profiles, setProfiles] = useState<SettingsProfile[]>([]);
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshProfiles = useCallback(() => setProfiles(listProfiles()), []);
+
+  useEffect(refreshProfiles, [refreshProfiles]);
+
+  const run = (action: () => string) => {
+    setError(null);
+    try {
+      setMessage(action());
+    } catch (e) {
+      setMessage(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleSave = () =>
+    run(() => {
+      const trimmed = name.trim();
+      if (trimmed === '') throw new Error('プロファイル名を入力してください');
+      saveProfile({ ...settings, name: trimmed });
+      refreshProfiles();
+      setSelected(trimmed);
+      return `「${trimmed}」を保存しました`;
+    });
+
+  const selectedProfile = profiles.find((p) => p.name === selected);
+
+  const handleLoad = () =>
+    run(() => {
+      if (!selectedProfile) throw new Error('プロファイルを選択してください');
+      onLoad(selectedProfile);
+      setName(selectedProfile.name);
+      return `「${selectedProfile.name}」を読み込みました`;
+    });
+
+  const handleDelete = () =>
+    run(() => {
+      if (!selectedProfile) throw new Error('プロファイルを選択してください');
+      deleteProfile(selectedProfile.name);
+      refreshProfiles();
+      setSelected('');
+      return `「${selectedProfile.name}」を削除しました`;
+    });
+
+  const handleExport = () =>
+    run(() => {
+      const profile: SettingsProfile = selectedProfile ?? {
+        ...settings,
+        name: name.trim() || 'current',
+      };
+      downloadBlob(
+        new Blob([profileToJson(profile)], { type: 'application/json' }),
+        profileFileName(profile.name)
+      );
+      return `「${profile.name}」をエクスポートしました`;
+    });
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    run(() => {
+      const profile = parseProfileJson(text);
+      saveProfile(profile);
+      refreshProfiles();
+      setSelected(profile.name);
+      setName(profile.name);
+      onLoad(profile);
+      return `「${profile.name}」をインポートして読み込みました`;
+    });
+  };
+
+  return (
+    <details className="profile-control">
+      <summary>設定プロファイル</summary>
+      <div className="profile-control__row">
+        <label className="profile-control__label">
+          ボーレート:
+          <select
+            value={settings.baudRate}
+            onChange={(e) => onBaudRateChange(Number(e.target.value))}
+            disabled={disabled}
+            aria-label="保存するボーレート"
+          >
+            {baudRateOptions(settings.baudRate).map((r) => (
+              <option key={r} value={r}>
+                {r}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="profile-control__label">
+          名前:
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="試験装置 A"
+            aria-label="プロファイル名"
+          />
+        </label>
+        <button type="button" onClick={handleSave}>
+          現在の設定を保存
+        </button>
+      </div>
+      <div className="profile-control__row">
+        <select
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+          aria-label="保存済みプロファイル"
+        >
+          <option value="">-- 保存済みプロファイル（{profiles.length}） --</option>
+          {profiles.map((p) => (
+            <option key={p.name} value={p.name}>
+              {p.name}（{p.schemaName} / {p.baudRate}）
+            </option>
+          ))}
+        </select>
+        <button type="button" onClick={handleLoad} disabled={disabled || !selectedProfile}>
+          読み込み
+        </button>
+        <button type="button" onClick={handleDelete} disabled={!selectedProfile}>
+          削除
+        </button>
+        <button type="button" onClick={handleExport}>
+          JSON エクスポート
+        </button>
+        <label className="profile-control__label">
+          JSON インポート:
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              void handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+            disabled={disabled}
+            aria-label="プロファイルの JSON インポート"
+          />
+        </label>
+      </div>
+      {message != null && <p className="profile-control__message">{message}</p>}
+      {error != null && (
+        <p role="alert" style={{ margin: '0.25rem 0', color: 'var(--error-color, #f88)' }}>
+          {error}
+        </p>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,296 @@
+/**
+ * RawMonitorPanel … デコード前の受信バイト列を HEX + ASCII のダンプで表示する（新しいファームウェアの立ち上げ用）。
+ * 各行に受信時刻を付け、デコーダーが区切ったパケットは交互に色を変えて末尾に区切り線を引く。
+ * 一時停止すると表示を止め（受信・保持は続く）、バイト列のパターン（16 進数）で検索できる。
+ * 履歴は App が持つ RawMonitor を読み、開いている間だけ一定間隔で取り直す。
+ * 複数デバイスのときは表示するデバイスを選ぶ（履歴はデバイスごと）。
+ */
+import { useEffect, useMemo, useRef, useState, type FormEvent } from 'react';
+import { parseHexBytes } from '../lib/console/command';
+import { findBytePattern, type RawMonitor, type RawMonitorSnapshot } from '../lib/console/rawMonitor';
+import { formatBytes, formatTime } from '../lib/format/format';
+
+/** 表示の更新間隔（ms） */
+const RAW_MONITOR_UPDATE_INTERVAL_MS = 200;
+
+/** 1 行のバイト数 */
+const BYTES_PER_ROW = 16;
+
+/** 一度に表示する最大行数（それより古い分は検索で一致箇所へ移動して見る） */
+const MAX_ROWS = 256;
+
+export interface RawMonitorPanelProps {
+  /** 受信履歴（App が所有する） */
+  monitor: RawMonitor;
+  /** 受信元のデバイス（先頭が 1 台目）。2 台以上なら選択欄を出す */
+  devices: readonly { id: string; name: string }[];
+}
+
+interface DumpRow {
+  /** 行の先頭の通算位置 */
+  offset: number;
+  /** 行の先頭バイトを受信した時刻。前の行と同じチャンクなら null */
+  time: number | null;
+  cells: DumpCell[];
+}
+
+interface DumpCell {
+  /** 保持範囲外（行頭の空き）は null */
+  value: number | null;
+  className: string;
+}
+
+function formatOffset(offset: number): string {
+  return offset.toString(16).toUpperCase().padStart(8, '0');
+}
+
+function formatHexByte(value: number): string {
+  return value.toString(16).toUpperCase().padStart(2, '0');
+}
+
+function formatAsciiByte(value: number): string {
+  return value >= 0x20 && value < 0x7f ? String.fromCharCode(value) : '.';
+}
+
+/** 昇順の配列で value 以下の最後の要素の番号（なければ -1） */
+function lastIndexAtOrBefore(sorted: readonly number[], value: number): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid]! <= value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo - 1;
+}
+
+/**
+ * snapshot の [from, to)（bytes 内の位置）を 16 バイトごとの行にする。
+ * 行は通算位置が 16 の倍数から始まるようにそろえる
+ */
+function buildRows(
+  snapshot: RawMonitorSnapshot,
+  from: number,
+  to: number,
+  matches: readonly number[],
+  patternLength: number,
+  current: number | null
+): DumpRow[] {
+  const { bytes, offset, chunkStarts, chunkTimes, packetEnds } = snapshot;
+  const rows: DumpRow[] = [];
+  const firstRow = Math.floor((offset + from) / BYTES_PER_ROW) * BYTES_PER_ROW - offset;
+  let lastChunk = -1;
+  /** pos より前に終わったパケットの数（交互の色分けに使う） */
+  let endIndex = lastIndexAtOrBefore(packetEnds, firstRow) + 1;
+  let matchIndex = Math.max(0, lastIndexAtOrBefore(matches, firstRow - patternLength));
+  for (let rowStart = firstRow; rowStart < to; rowStart += BYTES_PER_ROW) {
+    const chunk = lastIndexAtOrBefore(chunkStarts, Math.max(0, rowStart));
+    const time = chunk !== lastChunk ? chunkTimes[chunk] ?? null : null;
+    lastChunk = chunk;
+    const cells: DumpCell[] = [];
+    for (let pos = rowStart; pos < rowStart + BYTES_PER_ROW; pos++) {
+      if (pos < 0 || pos >= bytes.length) {
+        cells.push({ value: null, className: 'raw-monitor__byte' });
+        continue;
+      }
+      while (endIndex < packetEnds.length && packetEnds[endIndex]! <= pos) endIndex++;
+      while (matchIndex < matches.length && matches[matchIndex]! + patternLength <= pos) matchIndex++;
+      const classes = ['raw-monitor__byte'];
+      if (endIndex % 2 === 1) classes.push('raw-monitor__byte--odd');
+      if (packetEnds[endIndex] === pos + 1) classes.push('raw-monitor__byte--packet-end');
+      const match = matches[matchIndex];
+      if (match != null && match <= pos) {
+        classes.push(match === current ? 'raw-monitor__byte--current' : 'raw-monitor__byte--match');
+      }
+      cells.push({ value: bytes[pos]!, className: classes.join(' ') });
+    }
+    rows.push({ offset: offset + rowStart, time, cells });
+  }
+  return rows;
+}
+
+export function RawMonitorPanel({ monitor, devices }: RawMonitorPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [paused, setPaused] = useState(false);
+  const [selectedDevice, setSelectedDevice] = useState(devices[0]?.id ?? '');
+  // 選んでいたデバイスが外されたら 1 台目に戻す
+  const source = devices.some((d) => d.id === selectedDevice)
+    ? selectedDevice
+    : devices[0]?.id ?? '';
+  const [snapshot, setSnapshot] = useState<RawMonitorSnapshot>(() => monitor.snapshot(source));
+  const [patternText, setPatternText] = useState('');
+  const [pattern, setPattern] = useState<Uint8Array>(new Uint8Array(0));
+  /** 選択中の一致箇所（matches の番号）。null はライブの末尾を表示 */
+  const [matchCursor, setMatchCursor] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const dumpRef = useRef<HTMLDivElement | null>(null);
+
+  // 開いていて一時停止していない間だけ、変化があれば取り直す
+  useEffect(() => {
+    if (!open || paused) return;
+    let renderedVersion = -1;
+    const update = () => {
+      if (monitor.version === renderedVersion) return;
+      renderedVersion = monitor.version;
+      setSnapshot(monitor.snapshot(source));
+    };
+    update();
+    const timer = setInterval(update, RAW_MONITOR_UPDATE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [open, paused, monitor, source]);
+
+  const matches = useMemo(() => findBytePattern(snapshot.bytes, pattern), [snapshot, pattern]);
+  const current = matchCursor != null ? matches[matchCursor] ?? null : null;
+
+  const length = snapshot.bytes.length;
+  const windowBytes = MAX_ROWS * BYTES_PER_ROW;
+  // 一致箇所を選んでいればその前後、なければ新しい方の末尾を表示する
+  const from =
+    current != null
+      ? Math.max(0, Math.min(length - windowBytes, current - windowBytes / 2))
+      : Math.max(0, length - windowBytes);
+  const to = Math.min(length, from + windowBytes);
+  const rows = buildRows(snapshot, from, to, matches, pattern.length, current);
+
+  // ライブ表示では末尾、一致箇所を選んだらその行までスクロールする
+  useEffect(() => {
+    const el = dumpRef.current;
+    if (!el) return;
+    const target = el.querySelector('.raw-monitor__byte--current');
+    if (target instanceof HTMLElement) {
+      el.scrollTop = target.offsetTop - el.clientHeight / 2;
+    } else if (!paused) {
+      el.scrollTop = el.scrollHeight;
+    }
+  }, [snapshot, current, paused]);
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    let next: Uint8Array;
+    try {
+      next = parseHexBytes(patternText);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    // 一致箇所が流れていかないよう、検索したら表示を止める
+    const latest = monitor.snapshot(source);
+    const found = findBytePattern(latest.bytes, next);
+    setSnapshot(latest);
+    setPattern(next);
+    setPaused(next.length > 0 || paused);
+    setMatchCursor(found.length > 0 ? found.length - 1 : null);
+  };
+
+  const moveMatch = (delta: number) => {
+    if (matches.length === 0) return;
+    const base = matchCursor ?? matches.length - 1;
+    setMatchCursor((base + delta + matches.length) % matches.length);
+  };
+
+  const handleResume = () => {
+    setPaused(false);
+    setMatchCursor(null);
+  };
+
+  const handleClear = () => {
+    monitor.clear(source);
+    setSnapshot(monitor.snapshot(source));
+    setMatchCursor(null);
+  };
+
+  const handleDeviceChange = (id: string) => {
+    setSelectedDevice(id);
+    setSnapshot(monitor.snapshot(id));
+    setMatchCursor(null);
+  };
+
+  return (
+    <details className="raw-monitor" open={open} onToggle={(e) => setOpen(e.currentTarget.open)}>
+      <summary>生データ（HEX）</summary>
+      <div className="raw-monitor__row">
+        {devices.length > 1 && (
+          <select
+            value={source}
+            onChange={(e) => handleDeviceChange(e.target.value)}
+            aria-label="表示するデバイス"
+          >
+            {devices.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {paused ? (
+          <button type="button" onClick={handleResume}>
+            再開
+          </button>
+        ) : (
+          <button type="button" onClick={() => setPaused(true)}>
+            一時停止
+          </button>
+        )}
+        <button type="button" onClick={handleClear}>
+          クリア
+        </button>
+        <span className="raw-monitor__status">
+          保持 {formatBytes(length)} / 累計 {formatBytes(snapshot.offset + length)}
+          {paused && '（一時停止中）'}
+        </span>
+      </div>
+      <form className="raw-monitor__row" onSubmit={handleSearch}>
+        <label className="raw-monitor__label">
+          検索:
+          <input
+            type="text"
+            className="raw-monitor__pattern"
+            value={patternText}
+            onChange={(e) => setPatternText(e.target.value)}
+            placeholder="AA 55"
+            spellCheck={false}
+            aria-label="検索するバイト列（16 進数）"
+          />
+        </label>
+        <button type="submit">検索</button>
+        <button type="button" onClick={() => moveMatch(-1)} disabled={matches.length === 0}>
+          前へ
+        </button>
+        <button type="button" onClick={() => moveMatch(1)} disabled={matches.length === 0}>
+          次へ
+        </button>
+        {pattern.length > 0 && (
+          <span className="raw-monitor__status">
+            {matches.length === 0
+              ? '一致なし'
+              : `${matches.length} 件中 ${(matchCursor ?? matches.length - 1) + 1} 件目`}
+          </span>
+        )}
+      </form>
+      <div ref={dumpRef} className="raw-monitor__dump" role="log" aria-label="受信バイト列">
+        {rows.map((row) => (
+          <div key={row.offset} className="raw-monitor__line">
+            <span className="raw-monitor__time">{row.time != null ? formatTime(row.time) : ''}</span>
+            <span className="raw-monitor__offset">{formatOffset(row.offset)}</span>
+            <span className="raw-monitor__hex">
+              {row.cells.map((cell, i) => (
+                <span key={i} className={cell.className}>
+                  {cell.value != null ? formatHexByte(cell.value) : '  '}
+                </span>
+              ))}
+            </span>
+            <span className="raw-monitor__ascii">
+              {row.cells.map((cell) => (cell.value != null ? formatAsciiByte(cell.value) : ' '))}
+            </span>
+          </div>
+        ))}
+      </div>
+      {error != null && (
+        <p role="alert" style={{ margin: '0.25rem 0', color: 'var(--error-color, #f88)' }}>
+          {error}
+        </p>
+      )}
+    </details>
+  );
+}
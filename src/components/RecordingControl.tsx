@@ -0,0 +1,237 @@
+/**
+ * RecordingControl … セッション録画の開始/停止、録画中の件数表示、
+ * 保存済みセッションの一覧とデバイスごとの CSV / バイナリのエクスポート・削除。
+ * 録画先（IndexedDB）の扱いは lib/recording に任せる。
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { resolveChannelConfigs } from '../lib/config/channelConfig';
+import { downloadBlob, fileTimestamp, safeFileNamePart } from '../lib/file/download';
+import { formatBytes, formatDuration } from '../lib/format/format';
+import type { PacketSchema } from '../lib/packet/types';
+import {
+  deleteRecording,
+  exportRecordingCsv,
+  exportRecordingRaw,
+  listRecordings,
+  startRecording,
+  type RecordedDevice,
+  type RecordingSession,
+  type SessionRecorder,
+} from '../lib/recording/sessionRecorder';
+
+/** 録画中の件数表示の更新間隔（ms） */
+const STATUS_UPDATE_INTERVAL_MS = 500;
+
+/** 録画するデバイス */
+export interface RecordingDevice {
+  id: string;
+  name: string;
+  /** 録画開始時点のスキーマ（CSV の列になる） */
+  schema: PacketSchema;
+}
+
+export interface RecordingControlProps {
+  /** 録画の対象にするデバイス（先頭が 1 台目） */
+  devices: readonly RecordingDevice[];
+  /** 録画中の recorder を渡す。停止したら null */
+  onRecorderChange: (recorder: SessionRecorder | null) => void;
+}
+
+export function RecordingControl({ devices, onRecorderChange }: RecordingControlProps) {
+  const [recorder, setRecorder] = useState<SessionRecorder | null>(null);
+  const [status, setStatus] = useState<RecordingSession | null>(null);
+  const [sessions, setSessions] = useState<RecordingSession[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+
+  const reportError = useCallback((e: unknown) => {
+    setError(e instanceof Error ? e.message : String(e));
+  }, []);
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await listRecordings());
+    } catch (e) {
+      reportError(e);
+    }
+  }, [reportError]);
+
+  useEffect(() => {
+    void refreshSessions();
+  }, [refreshSessions]);
+
+  // 録画中は件数・経過時間を定期的に表示へ反映する
+  useEffect(() => {
+    if (recorder == null) return;
+    const timer = setInterval(() => setStatus({ ...recorder.session }), STATUS_UPDATE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [recorder]);
+
+  // アンマウント時に録画中なら止める
+  useEffect(
+    () => () => {
+      recorderRef.current?.stop().catch(() => {});
+    },
+    []
+  );
+
+  const handleStart = useCallback(async () => {
+    setError(null);
+    setBusy(true);
+    try {
+      const next = await startRecording(
+        devices.map((d) => ({
+          ...d,
+          channelLabels: resolveChannelConfigs(d.schema).map((c) => c.label),
+        }))
+      );
+      recorderRef.current = next;
+      setRecorder(next);
+      setStatus({ ...next.session });
+      onRecorderChange(next);
+    } catch (e) {
+      reportError(e);
+    } finally {
+      setBusy(false);
+    }
+  }, [devices, onRecorderChange, reportError]);
+
+  const handleStop = useCallback(async () => {
+    const current = recorderRef.current;
+    if (!current) return;
+    recorderRef.current = null;
+    setRecorder(null);
+    onRecorderChange(null);
+    setBusy(true);
+    try {
+      setStatus(await current.stop());
+    } catch (e) {
+      reportError(e);
+    } finally {
+      setBusy(false);
+      await refreshSessions();
+    }
+  }, [onRecorderChange, refreshSessions, reportError]);
+
+  const handleExport = useCallback(
+    async (session: RecordingSession, device: number, format: 'csv' | 'raw') => {
+      setError(null);
+      try {
+        let name = `recording-${fileTimestamp(new Date(session.startedAt))}`;
+        // 複数デバイスの録画はデバイス名で区別する
+        const recorded = session.devices[device];
+        if (session.devices.length > 1 && recorded) {
+          name += `-${safeFileNamePart(recorded.name, 'device')}`;
+        }
+        if (format === 'csv') {
+          downloadBlob(await exportRecordingCsv(session, device), `${name}.csv`);
+        } else {
+          downloadBlob(await exportRecordingRaw(session, device), `${name}.bin`);
+        }
+      } catch (e) {
+        reportError(e);
+      }
+    },
+    [reportError]
+  );
+
+  const handleDelete = useCallback(
+    async (session: RecordingSession) => {
+      setError(null);
+      try {
+        await deleteRecording(session);
+      } catch (e) {
+        reportError(e);
+      }
+      await refreshSessions();
+    },
+    [refreshSessions, reportError]
+  );
+
+  return (
+    <section aria-label="録画" className="recording-control">
+      <div className="recording-control__row">
+        {recorder != null ? (
+          <button type="button" onClick={handleStop} disabled={busy}>
+            ■ 録画停止
+          </button>
+        ) : (
+          <button type="button" onClick={handleStart} disabled={busy}>
+            ● 録画開始
+          </button>
+        )}
+        {status != null && (
+          <span className="recording-control__status">
+            {recorder != null ? '録画中' : '録画終了'}{' '}
+            {formatDuration((status.endedAt ?? Date.now()) - status.startedAt)} /{' '}
+            {status.packetCount} パケット / {formatBytes(status.byteCount)}
+            {status.devices.length > 1 && `（${status.devices.length} 台）`}
+          </span>
+        )}
+      </div>
+      {sessions.length > 0 && (
+        <details className="recording-control__sessions">
+          <summary>保存済みセッション（{sessions.length}）</summary>
+          <ul>
+            {sessions.map((s) => (
+              <li key={s.id}>
+                <span>
+                  {new Date(s.startedAt).toLocaleString()} … {s.packetCount} パケット /{' '}
+                  {formatBytes(s.byteCount)}
+                  {s.endedAt == null && '（録画中または中断）'}
+                </span>
+                {s.devices.map((d, i) => (
+                  <SessionExportButtons
+                    key={d.id}
+                    device={d}
+                    labeled={s.devices.length > 1}
+                    onExport={(format) => handleExport(s, i, format)}
+                  />
+                ))}
+                <button
+                  type="button"
+                  onClick={() => handleDelete(s)}
+                  disabled={recorder?.session.id === s.id}
+                >
+                  削除
+                </button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {error != null && (
+        <p role="alert" style={{ margin: '0.25rem 0', color: 'var(--error-color, #f88)' }}>
+          {error}
+        </p>
+      )}
+    </section>
+  );
+}
+
+interface SessionExportButtonsProps {
+  device: RecordedDevice;
+  /** 複数デバイスの録画ならデバイス名と件数を添える */
+  labeled: boolean;
+  onExport: (format: 'csv' | 'raw') => void;
+}
+
+/** 1 デバイス分の CSV / バイナリのエクスポートボタン */
+function SessionExportButtons({ device, labeled, onExport }: SessionExportButtonsProps) {
+  return (
+    <span className="recording-control__device">
+      {labeled && (
+        <span>
+          {device.name}（{device.packetCount} パケット）
+        </span>
+      )}
+      <button type="button" onClick={() => onExport('csv')}>
+        CSV
+      </button>
+      <button type="button" onClick={() => onExport('raw')}>
+        バイナリ
+      </button>
+    </span>
+  );
+}
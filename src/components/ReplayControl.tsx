@@ -0,0 +1,216 @@
+/**
+ * ReplayControl … 保存した生バイトのキャプチャ / CSV を読み込み、
+ * 再生・一時停止・速度変更・シークしながらライブ受信と同じ onPacket に流す。
+ * デバイスや Web Serial 非対応ブラウザでも波形の解析ができるようにする。
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DecoderConfig } from '../lib/packet/createDecoder';
+import type { PacketData, PacketSchema } from '../lib/packet/types';
+import { createReplayPlayer, type ReplayPlayer, type ReplayState } from '../lib/replay/replayPlayer';
+import {
+  DEFAULT_REPLAY_PACKET_RATE,
+  loadCsvCapture,
+  loadRawCapture,
+} from '../lib/replay/replaySource';
+
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 5, 10] as const;
+
+/** 再生中に位置表示を更新する間隔（ms） */
+const POSITION_UPDATE_INTERVAL_MS = 100;
+
+export interface ReplayControlProps {
+  schema: PacketSchema;
+  /** 生バイトのキャプチャを読むときの受信形式 */
+  decoderConfig: DecoderConfig;
+  /**
+   * timestamp は記録された時刻（epoch ms）で、再生速度やタイマーの揺れに左右されない。
+   * 記録時刻のないデータは、読み込んだ時刻を先頭に等間隔の時刻を付ける
+   */
+  onPacket: (data: PacketData, timestamp: number) => void;
+  /**
+   * ファイルを読み込んだとき・再生位置を戻したとき。これから流す時刻が履歴より前になりうるため、
+   * 受け取った側は履歴を消す
+   */
+  onTimelineReset: () => void;
+  /** 接続中など、再生できないとき true */
+  disabled?: boolean;
+}
+
+function isCsvFile(file: File): boolean {
+  return /\.(csv|txt|tsv)$/i.test(file.name) || file.type.startsWith('text/');
+}
+
+function formatSeconds(ms: number): string {
+  return (ms / 1000).toFixed(2);
+}
+
+export function ReplayControl({
+  schema,
+  decoderConfig,
+  onPacket,
+  onTimelineReset,
+  disabled = false,
+}: ReplayControlProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [packetCount, setPacketCount] = useState(0);
+  const [packetRate, setPacketRate] = useState<number>(DEFAULT_REPLAY_PACKET_RATE);
+  const [state, setState] = useState<ReplayState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const playerRef = useRef<ReplayPlayer | null>(null);
+  const onPacketRef = useRef(onPacket);
+  onPacketRef.current = onPacket;
+  const onTimelineResetRef = useRef(onTimelineReset);
+  onTimelineResetRef.current = onTimelineReset;
+
+  const disposePlayer = useCallback(() => {
+    playerRef.current?.dispose();
+    playerRef.current = null;
+  }, []);
+
+  useEffect(() => disposePlayer, [disposePlayer]);
+
+  // 接続されたら再生を止める（ライブデータと混ざらないように）
+  useEffect(() => {
+    if (disabled) playerRef.current?.pause();
+  }, [disabled]);
+
+  // 再生中は位置表示を定期的に更新する
+  useEffect(() => {
+    if (!state?.playing) return;
+    const timer = setInterval(() => {
+      const player = playerRef.current;
+      if (player) setState(player.getState());
+    }, POSITION_UPDATE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [state?.playing]);
+
+  const handleFileChange = useCallback(
+    async (file: File | undefined) => {
+      setError(null);
+      disposePlayer();
+      setState(null);
+      setFileName(null);
+      if (!file) return;
+      try {
+        const track = isCsvFile(file)
+          ? loadCsvCapture(await file.text(), schema, packetRate)
+          : loadRawCapture(new Uint8Array(await file.arrayBuffer()), decoderConfig, schema, packetRate);
+        if (track.packets.length === 0) {
+          setError(`${file.name} から再生できるパケットが見つかりませんでした`);
+          return;
+        }
+        const startTime = track.startTime ?? Date.now();
+        const player = createReplayPlayer(
+          track,
+          (data, trackTimeMs) => onPacketRef.current(data, startTime + trackTimeMs),
+          setState
+        );
+        playerRef.current = player;
+        onTimelineResetRef.current();
+        setFileName(file.name);
+        setPacketCount(track.packets.length);
+        setState(player.getState());
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    },
+    [schema, decoderConfig, packetRate, disposePlayer]
+  );
+
+  const player = playerRef.current;
+
+  // 末尾から先頭に戻って再生するとき・前へシークしたときは、時刻が戻る前に履歴を消す
+  // （state の位置は表示用に間引いて更新しているため、player から今の位置を読む）
+  const handlePlay = () => {
+    if (!player) return;
+    const current = player.getState();
+    if (current.positionMs >= current.durationMs) onTimelineReset();
+    player.play();
+  };
+
+  const handleSeek = (positionMs: number) => {
+    if (!player) return;
+    if (positionMs < player.getState().positionMs) onTimelineReset();
+    player.seek(positionMs);
+  };
+
+  return (
+    <section aria-label="再生" className="replay-control">
+      <div className="replay-control__row">
+        <label className="replay-control__label">
+          再生ファイル:
+          <input
+            type="file"
+            accept=".bin,.raw,.csv,.txt,.tsv"
+            onChange={(e) => handleFileChange(e.target.files?.[0])}
+            disabled={disabled}
+            aria-label="再生ファイル"
+          />
+        </label>
+        <label className="replay-control__label">
+          時刻なしのレート:
+          <input
+            type="number"
+            min={1}
+            step="any"
+            value={packetRate}
+            onChange={(e) => {
+              const v = Number(e.target.value);
+              if (Number.isFinite(v) && v > 0) setPacketRate(v);
+            }}
+            disabled={disabled}
+            style={{ width: '6rem' }}
+            aria-label="タイムスタンプなしデータのパケットレート"
+          />
+          packets/s
+        </label>
+      </div>
+      {player != null && state != null && (
+        <div className="replay-control__row">
+          {state.playing ? (
+            <button type="button" onClick={() => player.pause()}>
+              一時停止
+            </button>
+          ) : (
+            <button type="button" onClick={handlePlay} disabled={disabled}>
+              再生
+            </button>
+          )}
+          <label className="replay-control__label">
+            速度:
+            <select
+              value={state.speed}
+              onChange={(e) => player.setSpeed(Number(e.target.value))}
+              aria-label="再生速度"
+            >
+              {REPLAY_SPEEDS.map((s) => (
+                <option key={s} value={s}>
+                  {s}×
+                </option>
+              ))}
+            </select>
+          </label>
+          <input
+            type="range"
+            className="replay-control__seek"
+            min={0}
+            max={state.durationMs}
+            step="any"
+            value={state.positionMs}
+            onChange={(e) => handleSeek(Number(e.target.value))}
+            aria-label="再生位置"
+          />
+          <span className="replay-control__position">
+            {formatSeconds(state.positionMs)} / {formatSeconds(state.durationMs)} s（{fileName}、
+            {packetCount} パケット）
+          </span>
+        </div>
+      )}
+      {error != null && (
+        <p role="alert" style={{ margin: '0.25rem 0', color: 'var(--error-color, #f88)' }}>
+          {error}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -1,66 +1,292 @@
 /**
- * SerialControl … ポート一覧取得・選択、ボーレート選択、Connect/Disconnect、
- * Start/Stop（UI のみ）、エラー/状態のインライン表示。
+ * SerialControl … ポート一覧取得・選択（シミュレーター・WebSocket を含む）、ボーレート選択、
+ * 受信形式（バイナリ固定長/フレーム/テキスト）・サンプルの時刻（受信時刻/デバイス時刻）選択、
+ * Connect/Disconnect、Start/Stop（コマンド送信）、
+ * エラー/状態のインライン表示とリンクの状態表示（LinkStatsPanel）。
+ * 接続先は Transport として扱い、Web Serial・シミュレーター・WebSocket を同じ手順で開閉する。
+ * シリアルポートの一覧は抜き差しに合わせて更新し、接続中のポートが抜かれたら同じ VID:PID のポートが
+ * 再び現れたときに同じ設定で開き直す（自動再接続）。
+ * 受信ストリームの読み取り・デコードは Worker で行い、ここにはサンプルブロックだけが届く。
+ * 複数デバイスを同時に接続するときはデバイスごとに 1 つずつ置く（deviceName を渡すと見出しに名前欄を出す）。
  * docs/architecture.md のコンポーネント責務に従う。
  */
-import { useCallback, useRef, useState } from 'react';
-import type { PacketData } from '../lib/packet/types';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { resolveChannelConfigs } from '../lib/config/channelConfig';
+import { PACKET_SCHEMAS } from '../lib/config/packetSchemas';
+import {
+  loadLastPort,
+  loadPortSettings,
+  saveLastPort,
+  savePortSettings,
+} from '../lib/config/settingsStorage';
+import type { DecoderConfig, DecoderMode } from '../lib/packet/createDecoder';
+import { DEFAULT_FRAMING_OPTIONS, type ChecksumType } from '../lib/packet/framing';
+import type { PacketSchema } from '../lib/packet/types';
+import {
+  formatPortIdentity,
+  formatPortLabel,
+  getPortIdentity,
+  pickReconnectPort,
+  samePortIdentity,
+  type PortIdentity,
+} from '../lib/serial/portIdentity';
+import {
+  BAUD_RATES,
+  DEFAULT_SERIAL_PORT_OPTIONS,
+  formatFrameFormat,
+  validateBaudRate,
+  type SerialPortOptions,
+} from '../lib/serial/serialOptions';
 import {
-  close,
   getPorts,
+  isPortInUse,
   isSerialSupported,
-  open,
   requestPort,
-  startReadLoop,
+  watchSerialPorts,
+  type SerialSignals,
 } from '../lib/serial/serialService';
+import type { RawChunk } from '../lib/transport/batchedReadLoop';
+import { createLinkStatsMeter, type LinkStatsMeter } from '../lib/transport/linkStats';
+import type { SampleBlock } from '../lib/transport/sampleBlock';
+import {
+  DEFAULT_TIMESTAMP_CONFIG,
+  TIMESTAMP_UNIT_LABELS,
+  type TimestampConfig,
+  type TimestampUnit,
+} from '../lib/transport/sampleClock';
+import {
+  createDefaultSimulatorOptions,
+  createSimulatorTransport,
+  type SimulatorOptions,
+} from '../lib/transport/simulatorTransport';
+import type { Transport } from '../lib/transport/types';
+import { createWebSerialTransport } from '../lib/transport/webSerialTransport';
+import { createWebSocketTransport } from '../lib/transport/webSocketTransport';
+import { startWorkerReadLoop } from '../lib/transport/workerReadLoop';
+import { LinkStatsPanel } from './LinkStatsPanel';
+import { SerialPortSettings } from './SerialPortSettings';
+import { SimulatorSettings } from './SimulatorSettings';
+
+export const DEFAULT_BAUD_RATE = 115200;
+
+const DECODER_MODE_LABELS: Record<DecoderMode, string> = {
+  fixed: 'バイナリ（固定長）',
+  framed: 'バイナリ（フレーム）',
+  text: 'テキスト（CSV）',
+};
+
+/** ポート一覧の 1 項目。先頭は常にシミュレーターと WebSocket */
+type PortEntry =
+  | { kind: 'serial'; port: SerialPort }
+  | { kind: 'simulator' }
+  | { kind: 'websocket' };
+
+const FIXED_ENTRIES: PortEntry[] = [{ kind: 'simulator' }, { kind: 'websocket' }];
 
-const BAUD_RATES = [9600, 19200, 38400, 57600, 115200] as const;
+/** 自動再接続で開き直す回数と、各回の前に待つ時間（ms） */
+const RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 500;
+
+/** WebSocket の接続先の初期値（scripts/ws-test-server.cjs の既定ポート） */
+const DEFAULT_WEBSOCKET_URL = 'ws://127.0.0.1:8765';
+
+/** 接続先の説明（グラフのスナップショットの注記などに使う） */
+export interface ConnectionInfo {
+  /** ポート一覧での表示名（WebSocket は接続先 URL 付き） */
+  port: string;
+  /** シリアルポートのボーレートと通信設定（"8N1" の形）。シリアル以外は null */
+  baudRate: number | null;
+  frameFormat: string | null;
+}
+
+export function formatConnectionInfo(info: ConnectionInfo): string {
+  if (info.baudRate == null) return info.port;
+  const frame = info.frameFormat != null ? ` ${info.frameFormat}` : '';
+  return `${info.port} / ${info.baudRate.toLocaleString()} bps${frame}`;
+}
 
 export interface SerialControlProps {
-  onConnect: () => void;
+  onConnect: (info: ConnectionInfo) => void;
   onDisconnect: () => void;
-  onPacket: (data: PacketData) => void;
+  /** デコード済みサンプル（画面の更新と同程度の間隔でまとめて届く） */
+  onSamples: (block: SampleBlock) => void;
+  /** デコード前の受信チャンク（録画・生データ表示用。受信時刻とパケットの区切り付き） */
+  onRawData?: (chunk: RawChunk) => void;
   onError: (message: string | null) => void;
-  /** ch0～ch3 の波形表示 ON/OFF（渡すと 3 行目にトグルを表示） */
+  /** 接続・切断のたびに現在のトランスポートを通知する（コマンド送信用）。切断時は null */
+  onTransportChange?: (transport: Transport | null) => void;
+  /** Start / Stop ボタン（接続中のみ有効）。送るコマンドは呼び出し側が持つ */
+  onStart?: () => void;
+  onStop?: () => void;
+  /** シリアルポートのボーレート（App が保持し、設定として保存する。ポートごとの設定も復元する） */
+  baudRate: number;
+  onBaudRateChange: (baudRate: number) => void;
+  /** 受信パケットのスキーマ（デコーダーとチャンネルトグルの元になる） */
+  schema: PacketSchema;
+  onSchemaChange: (schema: PacketSchema) => void;
+  /** 受信形式（バイナリ固定長 / フレーム / テキスト） */
+  decoderConfig: DecoderConfig;
+  onDecoderConfigChange: (config: DecoderConfig) => void;
+  /** サンプルの時刻（受信時刻 / スキーマのフィールドにあるデバイス時刻） */
+  timestampConfig: TimestampConfig;
+  onTimestampConfigChange: (config: TimestampConfig) => void;
+  /** 各チャンネルの波形表示 ON/OFF（渡すと 2 行目にトグルを表示） */
   channelVisible?: boolean[];
   onChannelVisibleChange?: (index: number, visible: boolean) => void;
+  /** トグルに表示するチャンネル名（派生チャンネルを含む）。省略時はスキーマから決める */
+  channelLabels?: readonly string[];
+  /** 複数デバイス接続時のデバイス名（渡すと 1 行目に名前の入力欄を表示） */
+  deviceName?: string;
+  onDeviceNameChange?: (name: string) => void;
+  /** 渡すと「デバイスを外す」ボタンを表示する（接続中は無効） */
+  onRemove?: () => void;
+  /** 前回接続したポートを覚えて起動時に選ぶか（既定 true。2 台目以降は同じポートを選ばないよう false） */
+  rememberLastPort?: boolean;
+}
+
+/** ボーレートの選択欄で手入力に切り替える値 */
+const CUSTOM_BAUD_RATE = 'custom';
+
+/** 選択肢にないボーレート（プロファイル・手入力で指定されたものなど）も選べるようにする */
+export function baudRateOptions(current: number): number[] {
+  const rates: number[] = [...BAUD_RATES];
+  return rates.includes(current) ? rates : [...rates, current].sort((a, b) => a - b);
 }
 
-function getPortLabel(port: SerialPort, index: number): string {
-  try {
-    const info = port.getInfo();
-    if (info.usbVendorId != null && info.usbProductId != null) {
-      return `COM (USB ${info.usbVendorId.toString(16)}:${info.usbProductId.toString(16)})`;
+/** 抜かれたポートが再び挿されるのを待っている間の表示 */
+function waitingStatus(identity: PortIdentity): string {
+  return `接続が切れました。${formatPortIdentity(identity)} が再び接続されるのを待っています`;
+}
+
+function sameEntry(a: PortEntry, b: PortEntry): boolean {
+  if (a.kind === 'serial' || b.kind === 'serial') {
+    return a.kind === 'serial' && b.kind === 'serial' && a.port === b.port;
+  }
+  return a.kind === b.kind;
+}
+
+function getEntryLabel(entry: PortEntry, ports: readonly PortEntry[]): string {
+  switch (entry.kind) {
+    case 'simulator':
+      return 'シミュレーター';
+    case 'websocket':
+      return 'WebSocket';
+    case 'serial': {
+      const serialPorts = ports.flatMap((e) => (e.kind === 'serial' ? [e.port] : []));
+      return formatPortLabel(entry.port, serialPorts.indexOf(entry.port), serialPorts);
     }
-  } catch {
-    // ignore
   }
-  return `ポート ${index + 1}`;
 }
 
 export function SerialControl({
   onConnect,
   onDisconnect,
-  onPacket,
+  onSamples,
+  onRawData,
   onError,
+  onTransportChange,
+  onStart,
+  onStop,
+  baudRate,
+  onBaudRateChange,
+  schema,
+  onSchemaChange,
+  decoderConfig,
+  onDecoderConfigChange,
+  timestampConfig,
+  onTimestampConfigChange,
   channelVisible,
   onChannelVisibleChange,
+  channelLabels,
+  deviceName,
+  onDeviceNameChange,
+  onRemove,
+  rememberLastPort = true,
 }: SerialControlProps) {
-  const [ports, setPorts] = useState<SerialPort[]>([]);
+  const [ports, setPorts] = useState<PortEntry[]>(FIXED_ENTRIES);
   const [selectedIndex, setSelectedIndex] = useState<number>(-1);
-  const [baudRate, setBaudRate] = useState<number>(115200);
   const [connected, setConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const currentPortRef = useRef<SerialPort | null>(null);
+  const [linkMeter, setLinkMeter] = useState<LinkStatsMeter | null>(null);
+  const [webSocketUrl, setWebSocketUrl] = useState(DEFAULT_WEBSOCKET_URL);
+  /** トランスポートからの状態通知（再接続中など） */
+  const [transportStatus, setTransportStatus] = useState<string | null>(null);
+  const [simulatorOptions, setSimulatorOptions] = useState<SimulatorOptions>(() =>
+    createDefaultSimulatorOptions(schema)
+  );
+  const [serialOptions, setSerialOptions] = useState<SerialPortOptions>(
+    DEFAULT_SERIAL_PORT_OPTIONS
+  );
+  /** ボーレートを手入力しているときの入力値（選択中は null） */
+  const [customBaudRate, setCustomBaudRate] = useState<string | null>(null);
+  const [autoReconnect, setAutoReconnect] = useState(true);
+  /** 接続が切れたあと、再び挿されるのを待っているポート */
+  const [waitingPort, setWaitingPort] = useState<PortIdentity | null>(null);
+  const currentTransportRef = useRef<Transport | null>(null);
   const isDisconnectingRef = useRef(false);
   const abortControllerRef = useRef<AbortController | null>(null);
   const readLoopPromiseRef = useRef<Promise<void> | null>(null);
+  const portsRef = useRef(ports);
+  portsRef.current = ports;
+  const selectedIndexRef = useRef(selectedIndex);
+  selectedIndexRef.current = selectedIndex;
+  const autoReconnectRef = useRef(autoReconnect);
+  autoReconnectRef.current = autoReconnect;
+  const waitingPortRef = useRef<PortIdentity | null>(null);
+  /** 接続が切れたポート（抜かれずに切れたときは一覧に残っているため、まずこれを開き直す） */
+  const lostPortRef = useRef<SerialPort | null>(null);
+  const reconnectingRef = useRef(false);
+
+  // スキーマが変わったらシミュレーターのチャンネル構成も作り直す
+  useEffect(() => {
+    setSimulatorOptions((prev) => ({
+      ...createDefaultSimulatorOptions(schema),
+      packetRate: prev.packetRate,
+    }));
+  }, [schema]);
 
   const clearError = useCallback(() => {
     setError(null);
     onError(null);
   }, [onError]);
 
+  // ポートを選んだら、以前そのポートで接続したときのボーレート・通信設定に戻す
+  const selectedEntry = ports[selectedIndex];
+  const selectedPort = selectedEntry?.kind === 'serial' ? selectedEntry.port : null;
+  useEffect(() => {
+    const identity = selectedPort ? getPortIdentity(selectedPort) : null;
+    const saved = identity ? loadPortSettings(identity) : null;
+    if (!saved) return;
+    setSerialOptions(saved.options);
+    onBaudRateChange(saved.baudRate);
+  }, [selectedPort, onBaudRateChange]);
+
+  /**
+   * serial ポートの一覧を差し替える。選択中のポートは並びが変わっても選択したままにし、
+   * 何も選択していなければ前回接続したポート（同じ VID:PID）を選ぶ
+   */
+  const updateSerialPorts = useCallback(
+    (serialPorts: SerialPort[]) => {
+      const list: PortEntry[] = [
+        ...FIXED_ENTRIES,
+        ...serialPorts.map((port): PortEntry => ({ kind: 'serial', port })),
+      ];
+      const selected = portsRef.current[selectedIndexRef.current];
+      let next = selected ? list.findIndex((e) => sameEntry(e, selected)) : -1;
+      if (next < 0 && rememberLastPort) {
+        const lastPort = loadLastPort();
+        next = list.findIndex(
+          (e) => e.kind === 'serial' && samePortIdentity(getPortIdentity(e.port), lastPort)
+        );
+      }
+      portsRef.current = list;
+      selectedIndexRef.current = next;
+      setPorts(list);
+      setSelectedIndex(next);
+    },
+    [rememberLastPort]
+  );
+
   const handleRefresh = useCallback(async () => {
     clearError();
     if (!isSerialSupported()) {
@@ -70,17 +296,13 @@ export function SerialControl({
       return;
     }
     try {
-      const list = await getPorts();
-      setPorts(list);
-      if (selectedIndex >= list.length) {
-        setSelectedIndex(list.length > 0 ? 0 : -1);
-      }
+      updateSerialPorts(await getPorts());
     } catch (e) {
       const msg = e instanceof Error ? e.message : String(e);
       setError(msg);
       onError(msg);
     }
-  }, [clearError, selectedIndex]);
+  }, [clearError, onError, updateSerialPorts]);
 
   const handleAddPort = useCallback(async () => {
     clearError();
@@ -92,15 +314,217 @@ export function SerialControl({
     }
     try {
       const port = await requestPort();
-      setPorts((prev) => [...prev, port]);
-      setSelectedIndex((prev) => (prev < 0 ? 0 : prev + 1));
+      const serialPorts = await getPorts();
+      updateSerialPorts(serialPorts.includes(port) ? serialPorts : [...serialPorts, port]);
+      setSelectedIndex(portsRef.current.findIndex((e) => e.kind === 'serial' && e.port === port));
     } catch (e) {
       if ((e as Error).name === 'NotFoundError') return; // ユーザーがキャンセル
       const msg = e instanceof Error ? e.message : String(e);
       setError(msg);
       onError(msg);
     }
-  }, [clearError, onError]);
+  }, [clearError, onError, updateSerialPorts]);
+
+  const stopWaiting = useCallback(() => {
+    waitingPortRef.current = null;
+    setWaitingPort(null);
+  }, []);
+
+  /** 待っているポートが一覧に現れたら、今の設定で開き直す */
+  const reconnectRef = useRef<() => Promise<void>>(async () => {});
+
+  /** 切断操作以外で読み取りが終わった（USB を抜いた・ストリームが閉じた）とき */
+  const handleConnectionLost = useCallback(
+    async (transport: Transport, entry: PortEntry) => {
+      currentTransportRef.current = null;
+      abortControllerRef.current = null;
+      readLoopPromiseRef.current = null;
+      onTransportChange?.(null);
+      try {
+        await transport.close();
+      } catch {
+        // 抜かれたポートは閉じられないことがある
+      }
+      setConnected(false);
+      onDisconnect();
+      const identity = entry.kind === 'serial' ? getPortIdentity(entry.port) : null;
+      if (identity == null || !autoReconnectRef.current) {
+        setTransportStatus('接続が切れました');
+        return;
+      }
+      waitingPortRef.current = identity;
+      lostPortRef.current = entry.kind === 'serial' ? entry.port : null;
+      setWaitingPort(identity);
+      setTransportStatus(waitingStatus(identity));
+      // 抜かれずにストリームだけ切れた場合はポートが一覧に残っている
+      await reconnectRef.current();
+    },
+    [onDisconnect, onTransportChange]
+  );
+
+  /** entry を開いて読み取りを始める。開けなければ throw する */
+  const connectEntry = useCallback(
+    async (entry: PortEntry) => {
+      let transport: Transport;
+      switch (entry.kind) {
+        case 'serial':
+          transport = createWebSerialTransport(entry.port);
+          break;
+        case 'simulator':
+          transport = createSimulatorTransport(simulatorOptions, schema, decoderConfig);
+          break;
+        case 'websocket':
+          transport = createWebSocketTransport(webSocketUrl.trim(), {
+            onStatus: setTransportStatus,
+          });
+          break;
+      }
+      await transport.open({ baudRate, serial: serialOptions });
+      if (entry.kind === 'serial') {
+        const identity = getPortIdentity(entry.port);
+        if (identity) {
+          try {
+            if (rememberLastPort) saveLastPort(identity);
+            savePortSettings(identity, { baudRate, options: serialOptions });
+          } catch {
+            // 覚えられなくても接続は続ける
+          }
+        }
+      }
+      currentTransportRef.current = transport;
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const meter = createLinkStatsMeter(Date.now());
+      setConnected(true);
+      setLinkMeter(meter);
+      onConnect({
+        port:
+          entry.kind === 'websocket'
+            ? `WebSocket ${webSocketUrl.trim()}`
+            : getEntryLabel(entry, portsRef.current),
+        baudRate: entry.kind === 'serial' ? baudRate : null,
+        frameFormat: entry.kind === 'serial' ? formatFrameFormat(serialOptions) : null,
+      });
+      onTransportChange?.(transport);
+
+      const reportReadError = (err: unknown): void => {
+        if (isDisconnectingRef.current) return;
+        const msg = err instanceof Error ? err.message : String(err);
+        setError(msg);
+        onError(msg);
+      };
+      const readLoopPromise = startWorkerReadLoop(
+        transport,
+        schema,
+        decoderConfig,
+        ({ block, rawChunks, stats, decodeError, sentAt }) => {
+          const now = Date.now();
+          meter.record(stats, now - sentAt, now);
+          if (block) onSamples(block);
+          if (onRawData) rawChunks.forEach(onRawData);
+          if (decodeError != null) reportReadError(decodeError);
+        },
+        reportReadError,
+        controller.signal,
+        { collectRaw: onRawData != null, timestamp: timestampConfig }
+      );
+      readLoopPromiseRef.current = readLoopPromise;
+      readLoopPromise
+        .catch(reportReadError)
+        .finally(() => {
+          meter.stop(Date.now());
+          // Disconnect で止めたときは handleDisconnect が先に currentTransportRef を外している
+          if (currentTransportRef.current === transport) {
+            void handleConnectionLost(transport, entry);
+          }
+        });
+    },
+    [
+      baudRate,
+      rememberLastPort,
+      serialOptions,
+      decoderConfig,
+      timestampConfig,
+      schema,
+      simulatorOptions,
+      webSocketUrl,
+      onConnect,
+      onTransportChange,
+      onSamples,
+      onRawData,
+      onError,
+      handleConnectionLost,
+    ]
+  );
+  const connectEntryRef = useRef(connectEntry);
+  connectEntryRef.current = connectEntry;
+
+  /** 開き直すポート。他のデバイスが開いている・どれか決まらないときは null */
+  const findReconnectPort = async (target: PortIdentity): Promise<SerialPort | null> => {
+    try {
+      return pickReconnectPort(await getPorts(), lostPortRef.current, target, isPortInUse);
+    } catch {
+      return null; // 一覧が取れなければ connect イベントを待つ
+    }
+  };
+
+  reconnectRef.current = async () => {
+    const target = waitingPortRef.current;
+    if (!target || reconnectingRef.current || currentTransportRef.current != null) return;
+    if (!(await findReconnectPort(target))) return;
+    reconnectingRef.current = true;
+    try {
+      let lastError = '';
+      for (let attempt = 1; attempt <= RECONNECT_ATTEMPTS; attempt++) {
+        setTransportStatus(
+          `${formatPortIdentity(target)} に再接続しています（${attempt}/${RECONNECT_ATTEMPTS} 回目）`
+        );
+        // 挿した直後はまだ開けないことがあるため少し待つ
+        await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+        if (waitingPortRef.current !== target) return; // 中止・手動接続された
+        // 待つ間に他のデバイスが開いたかもしれないため、試すたびに選び直す
+        const port = await findReconnectPort(target);
+        if (!port) {
+          setTransportStatus(waitingStatus(target));
+          return;
+        }
+        try {
+          await connectEntryRef.current({ kind: 'serial', port });
+          stopWaiting();
+          clearError();
+          setTransportStatus(`${formatPortIdentity(target)} に再接続しました`);
+          return;
+        } catch (e) {
+          lastError = e instanceof Error ? e.message : String(e);
+        }
+      }
+      setTransportStatus(
+        `${formatPortIdentity(target)} に再接続できませんでした（${lastError}）。挿し直すと再試行します`
+      );
+    } finally {
+      reconnectingRef.current = false;
+    }
+  };
+
+  // 許可済みのポートは起動時に一覧へ出し、抜き差しに合わせて更新する
+  useEffect(() => {
+    if (!isSerialSupported()) return;
+    const refresh = () => {
+      getPorts()
+        .then(updateSerialPorts)
+        .catch(() => {
+          // 一覧の自動更新に失敗しても Refresh で取り直せる
+        });
+    };
+    refresh();
+    return watchSerialPorts({
+      onConnect: () => {
+        refresh();
+        void reconnectRef.current();
+      },
+      onDisconnect: refresh,
+    });
+  }, [updateSerialPorts]);
 
   const handleConnect = useCallback(async () => {
     clearError();
@@ -110,47 +534,27 @@ export function SerialControl({
       onError(msg);
       return;
     }
-    const port = ports[selectedIndex];
-    if (!port) {
+    const entry = ports[selectedIndex];
+    if (!entry) {
       return;
     }
+    stopWaiting();
+    setTransportStatus(null);
     try {
-      await open(port, baudRate);
-      currentPortRef.current = port;
-      const controller = new AbortController();
-      abortControllerRef.current = controller;
-      setConnected(true);
-      onConnect();
-
-      const readLoopPromise = startReadLoop(
-        port,
-        onPacket,
-        (err) => {
-          if (isDisconnectingRef.current) return;
-          const msg = err instanceof Error ? err.message : String(err);
-          setError(msg);
-          onError(msg);
-        },
-        controller.signal
-      );
-      readLoopPromiseRef.current = readLoopPromise;
-      readLoopPromise.catch((err) => {
-        if (isDisconnectingRef.current) return;
-        const msg = err instanceof Error ? err.message : String(err);
-        setError(msg);
-        onError(msg);
-      });
+      await connectEntry(entry);
     } catch (e) {
       const msg = e instanceof Error ? e.message : String(e);
       setError(msg);
       onError(msg);
     }
-  }, [clearError, selectedIndex, ports, baudRate, onConnect, onPacket, onError]);
+  }, [clearError, selectedIndex, ports, connectEntry, stopWaiting, onError]);
 
   const handleDisconnect = useCallback(async () => {
-    const port = currentPortRef.current;
-    if (!port) return;
+    const transport = currentTransportRef.current;
+    if (!transport) return;
+    currentTransportRef.current = null;
     isDisconnectingRef.current = true;
+    onTransportChange?.(null);
     const controller = abortControllerRef.current;
     const readLoopPromise = readLoopPromiseRef.current;
     try {
@@ -162,21 +566,74 @@ export function SerialControl({
         await readLoopPromise;
         readLoopPromiseRef.current = null;
       }
-      await close(port);
+      await transport.close();
     } catch (e) {
       const msg = e instanceof Error ? e.message : String(e);
       setError(msg);
       onError(msg);
     } finally {
-      currentPortRef.current = null;
       isDisconnectingRef.current = false;
       setConnected(false);
       onDisconnect();
     }
-  }, [onDisconnect, onError]);
+  }, [onDisconnect, onError, onTransportChange]);
+
+  /** 接続中の DTR / RTS の切り替え */
+  const handleSignalsChange = (signals: SerialSignals) => {
+    const transport = currentTransportRef.current;
+    if (!transport?.setSignals) return;
+    transport.setSignals(signals).catch((e) => {
+      const msg = e instanceof Error ? e.message : String(e);
+      setError(msg);
+      onError(msg);
+    });
+  };
+
+  /** 手入力したボーレートを確定する */
+  const commitCustomBaudRate = () => {
+    if (customBaudRate == null) return;
+    const value = Number(customBaudRate);
+    const message = validateBaudRate(value);
+    if (message != null) {
+      setError(message);
+      onError(message);
+      return;
+    }
+    clearError();
+    setCustomBaudRate(null);
+    onBaudRateChange(value);
+  };
+
+  const handleCancelReconnect = () => {
+    stopWaiting();
+    setTransportStatus(null);
+  };
 
   return (
-    <section aria-label="シリアル通信" className="serial-control" style={{ marginBottom: '1rem' }}>
+    <section
+      aria-label={deviceName != null ? `シリアル通信（${deviceName}）` : 'シリアル通信'}
+      className={deviceName != null ? 'serial-control serial-control--device' : 'serial-control'}
+      style={{ marginBottom: '1rem' }}
+    >
+      {deviceName != null && (
+        <div className="serial-control__row">
+          <label className="serial-control__label">
+            デバイス名:
+            <input
+              type="text"
+              className="serial-control__device-name"
+              value={deviceName}
+              onChange={(e) => onDeviceNameChange?.(e.target.value)}
+              aria-label="デバイス名"
+            />
+          </label>
+          {onRemove != null && (
+            <button type="button" onClick={onRemove} disabled={connected}>
+              デバイスを外す
+            </button>
+          )}
+        </div>
+      )}
       <div className="serial-control__row">
         <button type="button" onClick={handleRefresh} disabled={connected}>
           Refresh
@@ -195,9 +652,9 @@ export function SerialControl({
               aria-label="COMポート一覧"
             >
               <option value="">-- 選択 --</option>
-              {ports.map((port, i) => (
+              {ports.map((entry, i) => (
                 <option key={i} value={i}>
-                  {getPortLabel(port, i)}
+                  {getEntryLabel(entry, ports)}
                 </option>
               ))}
             </select>
@@ -205,18 +662,147 @@ export function SerialControl({
           <label className="serial-control__label">
             Baudrate:
             <select
-              value={baudRate}
-              onChange={(e) => setBaudRate(Number(e.target.value))}
+              value={customBaudRate != null ? CUSTOM_BAUD_RATE : baudRate}
+              onChange={(e) => {
+                if (e.target.value === CUSTOM_BAUD_RATE) {
+                  setCustomBaudRate(String(baudRate));
+                  return;
+                }
+                setCustomBaudRate(null);
+                onBaudRateChange(Number(e.target.value));
+              }}
               disabled={connected}
               aria-label="Baudrate"
             >
-              {BAUD_RATES.map((r) => (
+              {baudRateOptions(baudRate).map((r) => (
                 <option key={r} value={r}>
                   {r}
                 </option>
               ))}
+              <option value={CUSTOM_BAUD_RATE}>手入力…</option>
+            </select>
+            {customBaudRate != null && (
+              <input
+                type="number"
+                min={1}
+                step={1}
+                className="serial-control__baud-input"
+                value={customBaudRate}
+                onChange={(e) => setCustomBaudRate(e.target.value)}
+                onBlur={commitCustomBaudRate}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitCustomBaudRate();
+                }}
+                disabled={connected}
+                aria-label="ボーレートの手入力"
+              />
+            )}
+          </label>
+          <label className="serial-control__label">
+            スキーマ:
+            <select
+              value={Math.max(0, PACKET_SCHEMAS.indexOf(schema))}
+              onChange={(e) => {
+                const next = PACKET_SCHEMAS[Number(e.target.value)];
+                if (next) onSchemaChange(next);
+              }}
+              disabled={connected}
+              aria-label="パケットスキーマ"
+            >
+              {PACKET_SCHEMAS.map((s, i) => (
+                <option key={s.name} value={i}>
+                  {s.name}
+                </option>
+              ))}
             </select>
           </label>
+          <label className="serial-control__label">
+            形式:
+            <select
+              value={decoderConfig.mode}
+              onChange={(e) => {
+                const mode = e.target.value as DecoderMode;
+                onDecoderConfigChange(
+                  mode === 'framed' ? { mode, framing: { ...DEFAULT_FRAMING_OPTIONS } } : { mode }
+                );
+              }}
+              disabled={connected}
+              aria-label="受信形式"
+            >
+              {(Object.keys(DECODER_MODE_LABELS) as DecoderMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {DECODER_MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {decoderConfig.mode === 'framed' && (
+            <label className="serial-control__label">
+              CRC:
+              <select
+                value={decoderConfig.framing.checksum}
+                onChange={(e) =>
+                  onDecoderConfigChange({
+                    mode: 'framed',
+                    framing: { ...decoderConfig.framing, checksum: e.target.value as ChecksumType },
+                  })
+                }
+                disabled={connected}
+                aria-label="CRC 種別"
+              >
+                <option value="crc8">CRC-8</option>
+                <option value="crc16">CRC-16</option>
+              </select>
+            </label>
+          )}
+          <label className="serial-control__label">
+            時刻:
+            <select
+              value={timestampConfig.source === 'field' ? String(timestampConfig.field) : ''}
+              onChange={(e) =>
+                onTimestampConfigChange(
+                  e.target.value === ''
+                    ? DEFAULT_TIMESTAMP_CONFIG
+                    : {
+                        source: 'field',
+                        field: Number(e.target.value),
+                        unit: timestampConfig.source === 'field' ? timestampConfig.unit : 'ms',
+                      }
+                )
+              }
+              disabled={connected}
+              aria-label="サンプルの時刻"
+            >
+              <option value="">受信時刻</option>
+              {schema.fields.map((field, i) => (
+                <option key={field.name} value={i}>
+                  {field.name}（デバイス時刻）
+                </option>
+              ))}
+            </select>
+          </label>
+          {timestampConfig.source === 'field' && (
+            <label className="serial-control__label">
+              単位:
+              <select
+                value={timestampConfig.unit}
+                onChange={(e) =>
+                  onTimestampConfigChange({
+                    ...timestampConfig,
+                    unit: e.target.value as TimestampUnit,
+                  })
+                }
+                disabled={connected}
+                aria-label="デバイス時刻の単位"
+              >
+                {(Object.keys(TIMESTAMP_UNIT_LABELS) as TimestampUnit[]).map((unit) => (
+                  <option key={unit} value={unit}>
+                    {TIMESTAMP_UNIT_LABELS[unit]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
         </div>
       </div>
       <div className="serial-control__row">
@@ -229,34 +815,83 @@ export function SerialControl({
             Connect
           </button>
         )}
-        <button type="button" disabled>
+        <button type="button" onClick={onStart} disabled={!connected || onStart == null}>
           Start
         </button>
-        <button type="button" disabled>
+        <button type="button" onClick={onStop} disabled={!connected || onStop == null}>
           Stop
         </button>
-        {channelVisible != null &&
-          onChannelVisibleChange != null &&
-          channelVisible.length >= 4 && (
-            <div className="serial-control__channel-toggles">
-              {[0, 1, 2, 3].map((ch) => (
-                <button
-                  key={ch}
-                  type="button"
-                  aria-pressed={channelVisible[ch]}
-                  aria-label={`ch${ch} 波形表示`}
-                  className={channelVisible[ch] ? 'channel-toggle--on' : undefined}
-                  onClick={() => onChannelVisibleChange(ch, !channelVisible[ch])}
-                >
-                  ch{ch}
-                </button>
-              ))}
-            </div>
-          )}
+        <label className="serial-control__label">
+          <input
+            type="checkbox"
+            checked={autoReconnect}
+            onChange={(e) => setAutoReconnect(e.target.checked)}
+          />
+          自動再接続
+        </label>
+        {waitingPort != null && (
+          <button type="button" onClick={handleCancelReconnect}>
+            再接続を中止
+          </button>
+        )}
+        {channelVisible != null && onChannelVisibleChange != null && (
+          <div className="serial-control__channel-toggles">
+            {(channelLabels ?? resolveChannelConfigs(schema).map((c) => c.label)).map((label, ch) => (
+              <button
+                key={ch}
+                type="button"
+                aria-pressed={channelVisible[ch] !== false}
+                aria-label={`${label} 波形表示`}
+                className={channelVisible[ch] !== false ? 'channel-toggle--on' : undefined}
+                onClick={() => onChannelVisibleChange(ch, channelVisible[ch] === false)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
+      {ports[selectedIndex]?.kind === 'websocket' && (
+        <div className="serial-control__row">
+          <label className="serial-control__label">
+            URL:
+            <input
+              type="url"
+              className="serial-control__url"
+              value={webSocketUrl}
+              onChange={(e) => setWebSocketUrl(e.target.value)}
+              disabled={connected}
+              placeholder={DEFAULT_WEBSOCKET_URL}
+              aria-label="WebSocket の URL"
+            />
+          </label>
+        </div>
+      )}
+      {selectedPort != null && (
+        <SerialPortSettings
+          options={serialOptions}
+          onChange={setSerialOptions}
+          connected={connected}
+          onSignalsChange={handleSignalsChange}
+        />
+      )}
+      {ports[selectedIndex]?.kind === 'simulator' && (
+        <SimulatorSettings
+          schema={schema}
+          options={simulatorOptions}
+          onChange={setSimulatorOptions}
+          disabled={connected}
+        />
+      )}
       {connected && (
         <p style={{ margin: '0.25rem 0', fontSize: '0.9rem' }}>接続中</p>
       )}
+      {transportStatus != null && (
+        <p className="serial-control__transport-status" role="status">
+          {transportStatus}
+        </p>
+      )}
+      {linkMeter != null && <LinkStatsPanel meter={linkMeter} />}
       {error != null && (
         <p role="alert" style={{ margin: '0.25rem 0', color: 'var(--error-color, #f88)' }}>
           {error}
@@ -0,0 +1,132 @@
+/**
+ * SerialPortSettings … シリアルポート選択時に表示する通信設定欄。
+ * データ長・パリティ・ストップビット・フロー制御・接続時リセットは接続前に、
+ * DTR / RTS は接続中も切り替えられる（onSignalsChange で setSignals を呼ぶ）。
+ */
+import {
+  FLOW_CONTROL_LABELS,
+  PARITY_LABELS,
+  RESET_LINE_LABELS,
+  formatFrameFormat,
+  type SerialPortOptions,
+  type SerialResetLine,
+} from '../lib/serial/serialOptions';
+import type { SerialSignals } from '../lib/serial/serialService';
+
+export interface SerialPortSettingsProps {
+  options: SerialPortOptions;
+  onChange: (options: SerialPortOptions) => void;
+  /** 接続中（DTR / RTS 以外は編集不可） */
+  connected: boolean;
+  /** 接続中に DTR / RTS を切り替えたとき */
+  onSignalsChange?: (signals: SerialSignals) => void;
+}
+
+export function SerialPortSettings({
+  options,
+  onChange,
+  connected,
+  onSignalsChange,
+}: SerialPortSettingsProps) {
+  const patch = (next: Partial<SerialPortOptions>) => onChange({ ...options, ...next });
+
+  const setSignal = (line: 'dtr' | 'rts', value: boolean) => {
+    patch({ [line]: value });
+    if (connected) onSignalsChange?.({ [line]: value });
+  };
+
+  return (
+    <fieldset className="serial-port-settings">
+      <legend>通信設定（{formatFrameFormat(options)}）</legend>
+      <label className="serial-control__label">
+        データ長:
+        <select
+          value={options.dataBits}
+          onChange={(e) => patch({ dataBits: Number(e.target.value) === 7 ? 7 : 8 })}
+          disabled={connected}
+          aria-label="データ長"
+        >
+          <option value={8}>8 bit</option>
+          <option value={7}>7 bit</option>
+        </select>
+      </label>
+      <label className="serial-control__label">
+        パリティ:
+        <select
+          value={options.parity}
+          onChange={(e) => patch({ parity: e.target.value as ParityType })}
+          disabled={connected}
+          aria-label="パリティ"
+        >
+          {(Object.keys(PARITY_LABELS) as ParityType[]).map((p) => (
+            <option key={p} value={p}>
+              {PARITY_LABELS[p]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="serial-control__label">
+        ストップビット:
+        <select
+          value={options.stopBits}
+          onChange={(e) => patch({ stopBits: Number(e.target.value) === 2 ? 2 : 1 })}
+          disabled={connected}
+          aria-label="ストップビット"
+        >
+          <option value={1}>1</option>
+          <option value={2}>2</option>
+        </select>
+      </label>
+      <label className="serial-control__label">
+        フロー制御:
+        <select
+          value={options.flowControl}
+          onChange={(e) => patch({ flowControl: e.target.value as FlowControlType })}
+          disabled={connected}
+          aria-label="フロー制御"
+        >
+          {(Object.keys(FLOW_CONTROL_LABELS) as FlowControlType[]).map((f) => (
+            <option key={f} value={f}>
+              {FLOW_CONTROL_LABELS[f]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="serial-control__label">
+        <input
+          type="checkbox"
+          checked={options.dtr}
+          onChange={(e) => setSignal('dtr', e.target.checked)}
+        />
+        DTR
+      </label>
+      <label className="serial-control__label">
+        <input
+          type="checkbox"
+          checked={options.rts}
+          onChange={(e) => setSignal('rts', e.target.checked)}
+          disabled={options.flowControl === 'hardware'}
+          title={
+            options.flowControl === 'hardware' ? 'RTS/CTS フロー制御中は自動で制御されます' : undefined
+          }
+        />
+        RTS
+      </label>
+      <label className="serial-control__label">
+        接続時リセット:
+        <select
+          value={options.resetOnConnect}
+          onChange={(e) => patch({ resetOnConnect: e.target.value as SerialResetLine })}
+          disabled={connected}
+          aria-label="接続時リセット"
+        >
+          {(Object.keys(RESET_LINE_LABELS) as SerialResetLine[]).map((r) => (
+            <option key={r} value={r}>
+              {RESET_LINE_LABELS[r]}
+            </option>
+          ))}
+        </select>
+      </label>
+    </fieldset>
+  );
+}
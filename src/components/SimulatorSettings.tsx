@@ -0,0 +1,109 @@
+/**
+ * SimulatorSettings … シミュレーター選択時に表示する設定欄。
+ * パケットレートと、チャンネルごとの波形（形状・周波数・振幅・中心値）を編集する。
+ */
+import { resolveChannelConfigs } from '../lib/config/channelConfig';
+import type { PacketSchema } from '../lib/packet/types';
+import {
+  WAVEFORM_SHAPES,
+  type SimulatedChannel,
+  type SimulatorOptions,
+  type WaveformShape,
+} from '../lib/transport/simulatorTransport';
+
+export interface SimulatorSettingsProps {
+  schema: PacketSchema;
+  options: SimulatorOptions;
+  onChange: (options: SimulatorOptions) => void;
+  /** 接続中は編集不可 */
+  disabled?: boolean;
+}
+
+type NumericKey = 'frequency' | 'amplitude' | 'offset';
+
+const NUMERIC_COLUMNS: { key: NumericKey; label: string }[] = [
+  { key: 'frequency', label: '周波数 [Hz]' },
+  { key: 'amplitude', label: '振幅' },
+  { key: 'offset', label: '中心値' },
+];
+
+export function SimulatorSettings({ schema, options, onChange, disabled = false }: SimulatorSettingsProps) {
+  const channelConfigs = resolveChannelConfigs(schema);
+
+  const updateChannel = (index: number, patch: Partial<SimulatedChannel>) => {
+    onChange({
+      ...options,
+      channels: options.channels.map((ch, i) => (i === index ? { ...ch, ...patch } : ch)),
+    });
+  };
+
+  return (
+    <fieldset className="simulator-settings" disabled={disabled}>
+      <legend>シミュレーター</legend>
+      <label className="serial-control__label">
+        パケットレート:
+        <input
+          type="number"
+          min={1}
+          step={1}
+          value={options.packetRate}
+          onChange={(e) => {
+            const v = Number(e.target.value);
+            if (Number.isFinite(v) && v > 0) onChange({ ...options, packetRate: v });
+          }}
+          style={{ width: '7rem' }}
+          aria-label="シミュレーターのパケットレート"
+        />
+        packets/s
+      </label>
+      <table className="simulator-settings__table">
+        <thead>
+          <tr>
+            <th>チャンネル</th>
+            <th>波形</th>
+            {NUMERIC_COLUMNS.map((c) => (
+              <th key={c.key}>{c.label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {options.channels.map((ch, i) => {
+            const label = channelConfigs[i]?.label ?? `ch${i}`;
+            return (
+              <tr key={i}>
+                <td>{label}</td>
+                <td>
+                  <select
+                    value={ch.shape}
+                    onChange={(e) => updateChannel(i, { shape: e.target.value as WaveformShape })}
+                    aria-label={`${label} の波形`}
+                  >
+                    {WAVEFORM_SHAPES.map((shape) => (
+                      <option key={shape} value={shape}>
+                        {shape}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                {NUMERIC_COLUMNS.map((c) => (
+                  <td key={c.key}>
+                    <input
+                      type="number"
+                      step="any"
+                      value={ch[c.key]}
+                      onChange={(e) => {
+                        const v = Number(e.target.value);
+                        if (Number.isFinite(v)) updateChannel(i, { [c.key]: v });
+                      }}
+                      aria-label={`${label} の${c.label}`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </fieldset>
+  );
+}
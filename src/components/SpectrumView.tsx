@@ -0,0 +1,224 @@
+/**
+ * SpectrumView … 選んだチャンネルの振幅スペクトル（FFT）の表示。
+ * FFT 点数・窓関数・リニア / dB・平均フレーム数を選べ、横軸の周波数は解析した区間の受信時刻から
+ * 測ったサンプルレートで求める。解析は lib/spectrum に任せ、開いている間だけ一定間隔で更新する。
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { Line, LineChart, ReferenceLine, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+import type { DisplayChannel } from '../lib/channel/channelPipeline';
+import type { SampleStore } from '../lib/chart/sampleStore';
+import { FFT_SIZES, WINDOW_FUNCTION_LABELS, type WindowFunction } from '../lib/spectrum/fft';
+import {
+  SPECTRUM_AVERAGES,
+  binFrequency,
+  buildSpectrumSeries,
+  createSpectrumAnalyzer,
+  findPeakBin,
+  scaleAmplitude,
+  type SpectrumScale,
+} from '../lib/spectrum/spectrum';
+import { formatStatValue } from './ChannelStatsStrip';
+
+/** スペクトルの更新間隔（ms） */
+const SPECTRUM_UPDATE_INTERVAL_MS = 100;
+
+/** 描画する最大点数（これを超える bin は区間ごとの最大値に間引く） */
+const MAX_SPECTRUM_POINTS = 1024;
+
+const DEFAULT_FFT_SIZE = 1024;
+
+const HEIGHT = 300;
+const CHART_MARGIN = { top: 30, right: 16, left: 52, bottom: 24 };
+const PEAK_COLOR = '#e0a030';
+
+export interface SpectrumViewProps {
+  /** 解析する履歴（WaveformChart と同じ SampleStore） */
+  store: SampleStore;
+  /** 表示チャンネル（store のチャンネル順と同じ） */
+  channels: readonly DisplayChannel[];
+}
+
+export function SpectrumView({ store, channels }: SpectrumViewProps) {
+  const [open, setOpen] = useState(false);
+  const [channel, setChannel] = useState(0);
+  const [size, setSize] = useState(DEFAULT_FFT_SIZE);
+  const [windowFunction, setWindowFunction] = useState<WindowFunction>('hann');
+  const [scale, setScale] = useState<SpectrumScale>('db');
+  const [averages, setAverages] = useState(1);
+  const [, setRenderVersion] = useState(0);
+  const ch = channel < channels.length ? channel : 0;
+  const cfg = channels[ch];
+
+  // 設定・履歴が変わったら平均をやり直す
+  const analyzer = useMemo(
+    () => createSpectrumAnalyzer(ch, size, windowFunction, averages),
+    [ch, size, windowFunction, averages, store],
+  );
+
+  // 開いている間だけ一定間隔で解析し、新しいフレームが加わったら再描画する
+  useEffect(() => {
+    if (!open) return;
+    const update = () => {
+      if (analyzer.update(store)) setRenderVersion((v) => v + 1);
+    };
+    update();
+    const timer = setInterval(update, SPECTRUM_UPDATE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [open, analyzer, store]);
+
+  const amplitudes = open ? analyzer.amplitudes : null;
+  // 周波数は解析した区間（直近 size 点）の受信時刻から求める
+  const sampleRate = analyzer.sampleRate;
+  const frequencyUnit = sampleRate != null ? 'Hz' : 'cycles/sample';
+  const data = amplitudes
+    ? buildSpectrumSeries(amplitudes, sampleRate, scale, MAX_SPECTRUM_POINTS)
+    : [];
+  const peakBin = amplitudes ? findPeakBin(amplitudes) : null;
+  const peakFrequency = peakBin != null ? binFrequency(peakBin, size, sampleRate) : null;
+  const unit = cfg?.unit ?? '';
+  const amplitudeUnit = scale === 'db' ? `dB${unit !== '' ? `（${unit}）` : ''}` : unit;
+
+  return (
+    <details
+      className="spectrum-view"
+      open={open}
+      onToggle={(e) => setOpen(e.currentTarget.open)}
+    >
+      <summary>スペクトル（FFT）</summary>
+      <div className="spectrum-view__controls">
+        <label className="spectrum-view__label">
+          チャンネル:
+          <select
+            value={ch}
+            onChange={(e) => setChannel(Number(e.target.value))}
+            aria-label="スペクトルのチャンネル"
+          >
+            {channels.map((c, i) => (
+              <option key={c.id} value={i}>
+                {c.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="spectrum-view__label">
+          FFT 点数:
+          <select
+            value={size}
+            onChange={(e) => setSize(Number(e.target.value))}
+            aria-label="FFT 点数"
+          >
+            {FFT_SIZES.map((n) => (
+              <option key={n} value={n} disabled={n > store.capacity}>
+                {n.toLocaleString()}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="spectrum-view__label">
+          窓関数:
+          <select
+            value={windowFunction}
+            onChange={(e) => setWindowFunction(e.target.value as WindowFunction)}
+            aria-label="窓関数"
+          >
+            {(Object.keys(WINDOW_FUNCTION_LABELS) as WindowFunction[]).map((w) => (
+              <option key={w} value={w}>
+                {WINDOW_FUNCTION_LABELS[w]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="spectrum-view__label">
+          縦軸:
+          <select
+            value={scale}
+            onChange={(e) => setScale(e.target.value as SpectrumScale)}
+            aria-label="スペクトルの縦軸"
+          >
+            <option value="linear">リニア</option>
+            <option value="db">dB</option>
+          </select>
+        </label>
+        <label className="spectrum-view__label">
+          平均:
+          <select
+            value={averages}
+            onChange={(e) => setAverages(Number(e.target.value))}
+            aria-label="平均するフレーム数"
+          >
+            {SPECTRUM_AVERAGES.map((n) => (
+              <option key={n} value={n}>
+                {n === 1 ? 'なし' : `${n} 回`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="spectrum-view__status">
+        {size > store.capacity ? (
+          <span>FFT 点数が表示履歴（{store.capacity.toLocaleString()} 点）を超えています</span>
+        ) : store.length < size ? (
+          <span>
+            サンプル不足（{store.length.toLocaleString()} / {size.toLocaleString()} 点）
+          </span>
+        ) : (
+          <>
+            <span>
+              サンプルレート {sampleRate != null ? `${formatStatValue(sampleRate)} Hz` : '不明'}
+            </span>
+            <span>
+              分解能 {formatStatValue(binFrequency(1, size, sampleRate))} {frequencyUnit}
+            </span>
+            <span>
+              平均 {analyzer.frameCount} / {averages}
+            </span>
+            {peakBin != null && amplitudes && peakFrequency != null && (
+              <span className="spectrum-view__peak">
+                ピーク {formatStatValue(peakFrequency)} {frequencyUnit} /{' '}
+                {formatStatValue(scaleAmplitude(amplitudes[peakBin]!, scale), cfg?.precision)}{' '}
+                {amplitudeUnit}
+              </span>
+            )}
+          </>
+        )}
+      </div>
+      {open && (
+        <ResponsiveContainer width="100%" height={HEIGHT}>
+          <LineChart data={data} margin={CHART_MARGIN}>
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={[0, binFrequency(size / 2, size, sampleRate)]}
+              tickCount={6}
+              tickFormatter={(v: number) => formatStatValue(v)}
+              label={{ value: frequencyUnit, position: 'insideBottom', offset: -8 }}
+            />
+            <YAxis
+              width={60}
+              domain={['auto', 'auto']}
+              tickFormatter={(v: number) => formatStatValue(v)}
+              label={{
+                value: amplitudeUnit,
+                angle: 0,
+                position: 'top',
+                offset: 20,
+                style: { textAnchor: 'middle' },
+              }}
+            />
+            {peakFrequency != null && (
+              <ReferenceLine x={peakFrequency} stroke={PEAK_COLOR} strokeDasharray="4 4" />
+            )}
+            <Line
+              type="linear"
+              dataKey="value"
+              stroke={cfg?.color ?? '#888'}
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * TriggerControl … 波形グラフのトリガー設定欄。
+ * モード（なし / Auto / Normal / Single）、チャンネル、エッジ、レベル、プリトリガー割合と、
+ * 現在の状態表示・再アームボタン。トリガーの判定自体は lib/chart/trigger に任せる。
+ */
+import { useEffect, useState } from 'react';
+import {
+  TRIGGER_MODE_LABELS,
+  type TriggerEdge,
+  type TriggerMode,
+  type TriggerSettings,
+} from '../lib/chart/trigger';
+
+export interface TriggerControlProps {
+  settings: TriggerSettings;
+  onChange: (settings: TriggerSettings) => void;
+  /** チャンネルの表示名（スキーマのフィールド順） */
+  channelLabels: string[];
+  /** 状態表示（トリガー待ち など） */
+  status: string | null;
+  /** 取り込みを破棄してトリガー待ちに戻す */
+  onArm: () => void;
+}
+
+export function TriggerControl({ settings, onChange, channelLabels, status, onArm }: TriggerControlProps) {
+  const [levelInput, setLevelInput] = useState(String(settings.level));
+  const disabled = settings.mode === 'off';
+
+  useEffect(() => {
+    setLevelInput(String(settings.level));
+  }, [settings.level]);
+
+  const commitLevel = () => {
+    const v = Number(levelInput);
+    if (levelInput.trim() !== '' && Number.isFinite(v)) {
+      if (v !== settings.level) onChange({ ...settings, level: v });
+    } else {
+      setLevelInput(String(settings.level));
+    }
+  };
+
+  return (
+    <div className="trigger-control" role="group" aria-label="トリガー">
+      <label className="trigger-control__label">
+        トリガー:
+        <select
+          value={settings.mode}
+          onChange={(e) => onChange({ ...settings, mode: e.target.value as TriggerMode })}
+          aria-label="トリガーモード"
+        >
+          {(Object.keys(TRIGGER_MODE_LABELS) as TriggerMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {TRIGGER_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <select
+        value={settings.channel}
+        onChange={(e) => onChange({ ...settings, channel: Number(e.target.value) })}
+        disabled={disabled}
+        aria-label="トリガーチャンネル"
+      >
+        {channelLabels.map((label, ch) => (
+          <option key={ch} value={ch}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={settings.edge}
+        onChange={(e) => onChange({ ...settings, edge: e.target.value as TriggerEdge })}
+        disabled={disabled}
+        aria-label="トリガーエッジ"
+      >
+        <option value="rising">↑ 立ち上がり</option>
+        <option value="falling">↓ 立ち下がり</option>
+      </select>
+      <label className="trigger-control__label">
+        レベル
+        <input
+          type="number"
+          step="any"
+          value={levelInput}
+          onChange={(e) => setLevelInput(e.target.value)}
+          onBlur={commitLevel}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitLevel();
+          }}
+          disabled={disabled}
+          style={{ width: '7rem' }}
+          aria-label="トリガーレベル"
+        />
+      </label>
+      <label className="trigger-control__label">
+        プリトリガー
+        <input
+          type="number"
+          min={0}
+          max={100}
+          step={5}
+          value={settings.preTriggerPercent}
+          onChange={(e) => {
+            const v = Number(e.target.value);
+            if (Number.isFinite(v)) {
+              onChange({ ...settings, preTriggerPercent: Math.min(100, Math.max(0, v)) });
+            }
+          }}
+          disabled={disabled}
+          style={{ width: '4.5rem' }}
+          aria-label="プリトリガーの割合"
+        />
+        %
+      </label>
+      <button type="button" onClick={onArm} disabled={disabled}>
+        再アーム
+      </button>
+      {status != null && (
+        <span className="trigger-control__status" role="status">
+          {status}
+        </span>
+      )}
+    </div>
+  );
+}
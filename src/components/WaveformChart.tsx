@@ -1,42 +1,200 @@
 /**
- * WaveformChart … Recharts のラップ、20 point のバッファ管理、
- * 4 つの独立したグラフ（ch0～ch3）、オートスケール用チェックボックス、
- * コンフィグ（系統名・線色）の適用。
+ * WaveformChart … Recharts のラップ、表示履歴長の選択、
+ * 表示チャンネル（受信チャンネル＋派生チャンネル）ごとに独立したグラフと、全チャンネルを 1 つのグラフに
+ * 重ねる表示（チャンネルごとに左右どちらかの独立した縦軸と共通の凡例）の切り替え、
+ * オートスケール用チェックボックス、チャンネル設定（系統名・線色・単位・表示桁数）の適用。
+ * 横軸はサンプル番号・相対時間（秒）・時刻から選べ、時間の軸では各サンプルの時刻（受信時刻または
+ * デバイス時刻）の位置に描くため、パケットの間隔が不揃いでもそのまま表れる。
+ * 横軸の拡大範囲は全グラフで共有する。ホイール・範囲ドラッグで拡大、パンで履歴をたどれ、
+ * 一時停止中は表示だけを止める（受信・録画は続く）。
+ * サンプルは App が持つ SampleStore（リングバッファ）から読み、描画は requestAnimationFrame ごとに
+ * 1 回だけ行う。長い履歴は 1 px あたり min/max に間引いて描く。
+ * トリガー有効時は、取り込んだ 1 画面分（TriggerCapture）を再アームまたは次の取り込みまで表示する。
+ * 各グラフにはドラッグできる測定カーソル（Δt / Δ値）と統計（表示範囲またはセッション全体）を表示する。
+ * グラフ 1 つ・または表示中の全グラフを、軸の範囲や接続先の注記付きで SVG / PNG に書き出せる。
  * docs/architecture.md のコンポーネント責務に従う。
  */
-import { useEffect, useRef, useState } from 'react';
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type PointerEvent,
+  type ReactNode,
+} from 'react';
 import {
   Line,
   LineChart,
+  ReferenceLine,
   ResponsiveContainer,
   XAxis,
   YAxis,
 } from 'recharts';
-import { CHANNEL_CONFIG } from '../lib/config/channelConfig';
-import type { PacketData } from '../lib/packet/types';
-import { CHANNEL_COUNT } from '../lib/packet/types';
+import {
+  createDefaultCursors,
+  hitTestCursor,
+  pixelToX,
+  pixelToY,
+  type CursorKey,
+  type CursorPositions,
+  type PlotArea,
+} from '../lib/chart/cursors';
+import type { DisplayChannel } from '../lib/channel/channelPipeline';
+import type { YRange } from '../lib/config/channelConfig';
+import { buildMinMaxSeries, type ChartPoint } from '../lib/chart/downsample';
+import { cloneSampleStore, type SampleStore } from '../lib/chart/sampleStore';
+import {
+  downloadChartSnapshot,
+  type SnapshotFormat,
+  type SnapshotPlot,
+} from '../lib/chart/snapshot';
+import {
+  computeStatistics,
+  measureStoreSampleRate,
+  type ChannelStatistics,
+} from '../lib/chart/statistics';
+import {
+  clockTickPhase,
+  formatClock,
+  formatSeconds,
+  MIN_TIME_SPAN_MS,
+  timeDomainIndexRange,
+  timeTicks,
+  timeTickStep,
+  timeXDomain,
+  toTimePoints,
+  X_AXIS_MODE_LABELS,
+  type XAxisMode,
+} from '../lib/chart/timeAxis';
+import {
+  createTrigger,
+  type Trigger,
+  type TriggerSettings,
+  type TriggerState,
+} from '../lib/chart/trigger';
+import {
+  clampXDomain,
+  fullXDomain,
+  isFullXDomain,
+  MIN_X_SPAN,
+  panXDomain,
+  xDomainIndexRange,
+  zoomXDomain,
+  zoomYDomain,
+  type XDomain,
+} from '../lib/chart/viewport';
+import { safeFileNamePart } from '../lib/file/download';
+import { ChannelStatsStrip, formatStatValue } from './ChannelStatsStrip';
+import { TriggerControl } from './TriggerControl';
+
+/** 表示履歴長（サンプル数）の選択肢 */
+export const HISTORY_LENGTHS = [100, 500, 1000, 5000, 10000, 50000, 100000, 500000] as const;
+
+export const DEFAULT_HISTORY_LENGTH = 1000;
+
+/** グラフ幅が取れないときの横幅（px） */
+const DEFAULT_PLOT_WIDTH = 800;
+
+/** 統計の集計範囲 */
+type StatsScope = 'visible' | 'session';
+
+/** グラフの並べ方。stacked はチャンネルごとのグラフ、overlay は 1 つのグラフに重ねる */
+type ChartLayout = 'stacked' | 'overlay';
 
-/** 横軸の点数 */
-const POINTS = 20;
-/** 縦軸最大（32bit unsigned） */
-const Y_MAX = 2 ** 32;
+/** 重ね表示での縦軸の位置 */
+type AxisSide = 'left' | 'right';
+
+/** グラフ上をドラッグしたときの操作。box は範囲を囲んで拡大、pan は表示範囲の移動 */
+type PointerMode = 'box' | 'pan';
+
+/** 横軸のラベル */
+const X_AXIS_TITLES: Record<XAxisMode, string> = {
+  index: 'point',
+  relative: '時間 [s]',
+  clock: '時刻',
+};
+
+/** 横軸の目盛りの本数（時間の軸ではこれ以下に収まる区切りのよい間隔を選ぶ） */
+const X_TICK_COUNT = 6;
+
+/** 横軸の拡大・縮小 1 回あたりの倍率 */
+const X_ZOOM_STEP = 2;
+
+/** ホイール 1 目盛りあたりの拡大・縮小の倍率 */
+const WHEEL_ZOOM_STEP = 1.25;
+
+/** これより短いドラッグはその軸の拡大・パンとみなさない（px） */
+const MIN_DRAG_PX = 5;
+
+/** 重ね表示のグラフを指す data-plot の値（個別表示はチャンネルの id） */
+const OVERLAY_PLOT_KEY = 'overlay';
 
 export interface WaveformChartProps {
-  /** 直近受信パケット（null の場合は更新しない） */
-  packet: PacketData | null;
-  /** ch0～ch3 の表示 ON/OFF（未指定時は全て表示） */
+  /** 受信サンプルのリングバッファ（App が所有し、受信のたびに push される） */
+  store: SampleStore;
+  /** 表示チャンネル（1 チャンネル 1 グラフ。store のチャンネル順と同じ） */
+  channels: readonly DisplayChannel[];
+  /** 各チャンネルの表示 ON/OFF（未指定時は全て表示） */
   channelVisible?: boolean[];
+  /** 各チャンネルで発報中のアラームがあるか（該当するグラフを強調表示する） */
+  alarmActive?: readonly boolean[];
+  /** グラフ見出しで手動の縦軸レンジを確定したとき（App がチャンネル設定に保存する） */
+  onManualRangeChange?: (channel: number, range: YRange) => void;
+  /** スナップショットの注記に書く接続先（1 行ずつ） */
+  connection?: readonly string[];
 }
 
-/** 1 チャンネル分の描画用データ */
-interface ChartDatum {
-  point: number;
-  value: number | null;
+/** 描画に使う履歴。triggerIndex はトリガー取り込み表示のときのみ */
+interface DisplaySource {
+  store: SampleStore;
+  triggerIndex: number | null;
 }
 
-interface ManualDomain {
-  min: number;
-  max: number;
+const TRIGGER_STATE_LABELS: Record<TriggerState, string> = {
+  armed: 'トリガー待ち',
+  capturing: '取り込み中',
+  held: '停止（再アームで再開）',
+};
+
+/**
+ * 現在のトリガー状態で表示すべき履歴。一時停止中は止めたときの複製（frozen）。
+ * Normal / Single で未取り込みのときは null（空表示）
+ */
+function selectDisplaySource(
+  trigger: Trigger,
+  settings: TriggerSettings,
+  live: SampleStore,
+  frozen: DisplaySource | null,
+): DisplaySource | null {
+  if (frozen) return frozen;
+  if (settings.mode === 'off') return { store: live, triggerIndex: null };
+  if (trigger.capture && !trigger.freeRunning) {
+    return { store: trigger.capture.store, triggerIndex: trigger.capture.triggerIndex };
+  }
+  return settings.mode === 'auto' ? { store: live, triggerIndex: null } : null;
+}
+
+function triggerStatus(trigger: Trigger, settings: TriggerSettings): string | null {
+  if (settings.mode === 'off') return null;
+  if (trigger.freeRunning) return 'トリガーなし（自動表示）';
+  return TRIGGER_STATE_LABELS[trigger.state];
+}
+
+/** トリガーレベルの初期値（チャンネルの範囲の中央。範囲がなければ 0） */
+function defaultTriggerLevel(channel: DisplayChannel | undefined): number {
+  if (!channel) return 0;
+  const [min, max] = channel.range;
+  return Number.isFinite(min) && Number.isFinite(max) ? (min + max) / 2 : 0;
+}
+
+function createInitialTriggerSettings(channels: readonly DisplayChannel[]): TriggerSettings {
+  return {
+    mode: 'off',
+    channel: 0,
+    edge: 'rising',
+    level: defaultTriggerLevel(channels[0]),
+    preTriggerPercent: 50,
+  };
 }
 
 interface ManualDomainInput {
@@ -44,296 +202,1112 @@ interface ManualDomainInput {
   max: string;
 }
 
-/** 横軸の値（インデックス 0～19。表示は 20～1 に変換） */
-function buildChartData(buffer: number[]): ChartDatum[] {
-  const data: ChartDatum[] = [];
-  for (let i = 0; i < POINTS; i++) {
-    data.push({
-      point: i,
-      value: i < buffer.length ? buffer[i]! : null,
-    });
-  }
-  return data;
-}
-
 function computeYDomain(
-  buffer: number[],
+  points: ChartPoint[],
   autoScale: boolean,
-  manualDomain: ManualDomain,
+  manualDomain: YRange,
+  range: [number, number],
 ): [number, number] {
   if (!autoScale) return [manualDomain.min, manualDomain.max];
-  if (buffer.length === 0) return [0, Y_MAX];
-  let min = buffer[0]!;
-  let max = buffer[0]!;
-  for (let i = 1; i < buffer.length; i++) {
-    const v = buffer[i]!;
-    if (v < min) min = v;
-    if (v > max) max = v;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const p of points) {
+    if (p.value == null) continue;
+    if (p.value < min) min = p.value;
+    if (p.value > max) max = p.value;
   }
+  // 有効な値が 1 つもない（未受信・欠損のみ）
+  if (min > max) return [manualDomain.min, manualDomain.max];
   const pad = (max - min) * 0.05 || 1;
   return [
-    Math.max(0, min - pad),
-    Math.min(Y_MAX, max + pad),
+    Math.max(range[0], min - pad),
+    Math.min(range[1], max + pad),
   ];
 }
 
-const DEFAULT_CHANNEL_VISIBLE: boolean[] = [true, true, true, true];
+const DEFAULT_CHANNEL_VISIBLE: boolean[] = [];
+const DEFAULT_ALARM_ACTIVE: readonly boolean[] = [];
+const DEFAULT_CONNECTION: readonly string[] = [];
 
 const HEIGHT = 350;
-const MANUAL_DOMAIN_DEFAULT: ManualDomain = { min: 0, max: Y_MAX };
+const OVERLAY_HEIGHT = 450;
+const CHART_MARGIN = { top: 30, right: 16, left: 52, bottom: 24 };
+const Y_AXIS_WIDTH = 60;
+const X_AXIS_HEIGHT = 30;
+const CURSOR_COLOR = '#4fc3f7';
 
-function clampRangeValue(value: number): number {
-  if (value < 0) return 0;
-  if (value > Y_MAX) return Y_MAX;
-  return value;
+/**
+ * 横幅 width・高さ height のグラフでのプロット領域（カーソルのドラッグ・間引き区間数に使う）。
+ * 縦軸は左に leftAxes 本、右に rightAxes 本並ぶ
+ */
+function getPlotArea(width: number, height = HEIGHT, leftAxes = 1, rightAxes = 0): PlotArea {
+  const left = CHART_MARGIN.left + Y_AXIS_WIDTH * leftAxes;
+  return {
+    left,
+    top: CHART_MARGIN.top,
+    width: Math.max(1, width - left - Y_AXIS_WIDTH * rightAxes - CHART_MARGIN.right),
+    height: height - CHART_MARGIN.top - CHART_MARGIN.bottom - X_AXIS_HEIGHT,
+  };
 }
 
-function createInitialManualDomain(): ManualDomain[] {
-  return Array.from({ length: CHANNEL_COUNT }, () => ({
-    min: MANUAL_DOMAIN_DEFAULT.min,
-    max: MANUAL_DOMAIN_DEFAULT.max,
-  }));
+/** 重ね表示での縦軸の位置の初期値（偶数番目は左、奇数番目は右） */
+function defaultAxisSide(ch: number): AxisSide {
+  return ch % 2 === 0 ? 'left' : 'right';
 }
 
-function createInitialManualDomainInput(): ManualDomainInput[] {
-  return Array.from({ length: CHANNEL_COUNT }, () => ({
-    min: String(MANUAL_DOMAIN_DEFAULT.min),
-    max: String(MANUAL_DOMAIN_DEFAULT.max),
+/** 1 チャンネル分の描画内容（個別表示・重ね表示で共通） */
+interface ChannelPanel {
+  ch: number;
+  cfg: DisplayChannel;
+  visible: boolean;
+  chartData: ChartPoint[];
+  stats: ChannelStatistics | null;
+  /** このチャンネルの有効な値から求めたサンプルレート（samples/s） */
+  sampleRate: number | null;
+  yDomain: [number, number];
+  cursors: CursorPositions;
+}
+
+/** マウス操作の対象になる 1 つのグラフ */
+interface PlotTarget {
+  /** data-plot の値 */
+  key: string;
+  /** 縦軸を拡大・パンするチャンネル（重ね表示では表示中の全チャンネル） */
+  panels: ChannelPanel[];
+  /** カーソルを動かすチャンネル */
+  cursorPanel: ChannelPanel;
+  plotAreaOf: (width: number) => PlotArea;
+}
+
+/** グラフ上のドラッグ中の操作。位置はグラフ要素内の px */
+type PointerDrag =
+  | { kind: 'cursor'; ch: number; key: CursorKey }
+  | { kind: 'box'; x0: number; y0: number }
+  | {
+      kind: 'pan';
+      x0: number;
+      y0: number;
+      xDomain: XDomain;
+      /** ドラッグ開始時の縦軸の範囲（PlotTarget.panels の順） */
+      yDomains: [number, number][];
+      /** 縦方向にも MIN_DRAG_PX 以上動いたか */
+      panY: boolean;
+    };
+
+/** 範囲ドラッグ中に描く枠（px） */
+interface ZoomBox {
+  plot: string;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+function clampRangeValue(value: number, range: [number, number]): number {
+  if (value < range[0]) return range[0];
+  if (value > range[1]) return range[1];
+  return value;
+}
+
+function createManualDomainInput(channels: readonly DisplayChannel[]): ManualDomainInput[] {
+  return channels.map(({ manualRange }) => ({
+    min: String(manualRange.min),
+    max: String(manualRange.max),
   }));
 }
 
 export function WaveformChart({
-  packet,
+  store,
+  channels,
   channelVisible = DEFAULT_CHANNEL_VISIBLE,
+  alarmActive = DEFAULT_ALARM_ACTIVE,
+  onManualRangeChange,
+  connection = DEFAULT_CONNECTION,
 }: WaveformChartProps) {
   const [autoScale, setAutoScale] = useState(false);
-  const [manualDomainByChannel, setManualDomainByChannel] = useState<ManualDomain[]>(
-    createInitialManualDomain,
+  const [manualDomainInputByChannel, setManualDomainInputByChannel] = useState<
+    ManualDomainInput[]
+  >(() => createManualDomainInput(channels));
+  const [triggerSettings, setTriggerSettings] = useState<TriggerSettings>(() =>
+    createInitialTriggerSettings(channels),
+  );
+  const [layout, setLayout] = useState<ChartLayout>('stacked');
+  const [xAxisMode, setXAxisMode] = useState<XAxisMode>('index');
+  const [axisSideByChannel, setAxisSideByChannel] = useState<AxisSide[]>([]);
+  // 横軸の拡大範囲（null は履歴全体）。全グラフで共有する
+  const [zoomedXDomain, setZoomedXDomain] = useState<XDomain | null>(null);
+  // 縦軸を拡大・パンした範囲（チャンネルごと。null はオートスケール・手動レンジのまま）
+  const [yZoomByChannel, setYZoomByChannel] = useState<([number, number] | null)[]>([]);
+  // 一時停止中に表示する履歴の複製（null はライブ表示）
+  const [frozen, setFrozen] = useState<DisplaySource | null>(null);
+  const [pointerMode, setPointerMode] = useState<PointerMode>('box');
+  const [zoomBox, setZoomBox] = useState<ZoomBox | null>(null);
+  const [showCursors, setShowCursors] = useState(false);
+  const [cursorsByChannel, setCursorsByChannel] = useState<(CursorPositions | null)[]>([]);
+  const [statsScope, setStatsScope] = useState<StatsScope>('visible');
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  const [, setRenderVersion] = useState(0);
+  const dragRef = useRef<PointerDrag | null>(null);
+  const wheelHandlerRef = useRef<(e: WheelEvent) => void>(() => {});
+  const [plotWidth, setPlotWidth] = useState(DEFAULT_PLOT_WIDTH);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  // 並び・範囲が変わったときだけ縦軸レンジなどを作り直す（名前・色の変更では保つ）
+  const channelLayoutKey = channels.map((c) => `${c.id}:${c.range.join(',')}`).join('|');
+  const manualRangeKey = channels.map((c) => `${c.manualRange.min},${c.manualRange.max}`).join('|');
+  const historyLength = store.capacity;
+  // 設定・履歴長が変わったら取り込みを破棄して作り直す（表示元の差し替えは trigger 側で検知する）
+  const trigger = useMemo(
+    () => createTrigger(triggerSettings, historyLength),
+    [triggerSettings, historyLength],
   );
-  const [manualDomainInputByChannel, setManualDomainInputByChannel] =
-    useState<ManualDomainInput[]>(createInitialManualDomainInput);
-  const [, setDataVersion] = useState(0);
-  const buffersRef = useRef<number[][]>([[], [], [], []]);
-
-  const handleManualDomainInputChange = (
-    ch: number,
-    key: keyof ManualDomainInput,
-    value: string,
+
+  // 縦軸レンジの入力欄は設定（channels[].manualRange）に合わせ直す
+  useEffect(() => {
+    setManualDomainInputByChannel(createManualDomainInput(channels));
+  }, [manualRangeKey]);
+
+  // チャンネル構成が変わったらトリガー設定・カーソル・縦軸の位置を作り直す
+  useEffect(() => {
+    setTriggerSettings(createInitialTriggerSettings(channels));
+    setCursorsByChannel([]);
+    setAxisSideByChannel([]);
+    setYZoomByChannel([]);
+  }, [channelLayoutKey]);
+
+  // 履歴（store・履歴長）が変わったら一時停止と横軸の拡大を解除する
+  useEffect(() => {
+    setZoomedXDomain(null);
+    setFrozen(null);
+  }, [store, historyLength]);
+
+  // store の変更を requestAnimationFrame ごとに確認し、変わっていれば 1 回だけ再描画する。
+  // トリガーの取り込みを表示している間は、トリガーの状態が変わったときだけ再描画する
+  useEffect(() => {
+    let renderedVersion = -1;
+    let frame = requestAnimationFrame(function loop() {
+      const triggerChanged = trigger.update(store);
+      const showingLive =
+        selectDisplaySource(trigger, triggerSettings, store, frozen)?.store === store;
+      if (triggerChanged || (showingLive && store.version !== renderedVersion)) {
+        renderedVersion = store.version;
+        setRenderVersion((v) => v + 1);
+      }
+      frame = requestAnimationFrame(loop);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [store, trigger, triggerSettings, frozen]);
+
+  // 間引きの区間数はグラフの横幅（px）に合わせる
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver((entries) => {
+      const width = entries[0]?.contentRect.width;
+      if (width) setPlotWidth(Math.max(1, Math.round(width)));
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // React の onWheel は passive で登録されページのスクロールを止められないため、直接登録する
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const listener = (e: WheelEvent) => wheelHandlerRef.current(e);
+    el.addEventListener('wheel', listener, { passive: false });
+    return () => el.removeEventListener('wheel', listener);
+  }, []);
+
+  const handleHistoryLengthChange = (length: number) => {
+    store.resize(length);
+    setRenderVersion((v) => v + 1);
+  };
+
+  const handleTriggerSettingsChange = (next: TriggerSettings) => {
+    // チャンネルを変えたらレベルをそのチャンネルの範囲の中央に戻す
+    if (next.channel !== triggerSettings.channel) {
+      next = { ...next, level: defaultTriggerLevel(channels[next.channel]) };
+    }
+    setTriggerSettings(next);
+  };
+
+  const handleTriggerArm = () => {
+    trigger.arm();
+    setRenderVersion((v) => v + 1);
+  };
+
+  const display = selectDisplaySource(trigger, triggerSettings, store, frozen);
+  const triggerIndex = display?.triggerIndex ?? null;
+  const timeAxis = xAxisMode !== 'index';
+  // 時間の軸の基準（x = 0）。トリガー取り込みの表示ではトリガー点、それ以外は最新のサンプルの時刻
+  const timeOrigin =
+    display == null || display.store.length === 0
+      ? 0
+      : display.store.getTime(triggerIndex ?? display.store.length - 1);
+  const fullDomain = timeAxis
+    ? timeXDomain(display?.store ?? store, timeOrigin)
+    : fullXDomain(historyLength);
+  const xDomain = zoomedXDomain ?? fullDomain;
+  const [indexFrom, indexTo] =
+    timeAxis && display != null
+      ? timeDomainIndexRange(display.store, timeOrigin, xDomain)
+      : xDomainIndexRange(xDomain);
+  const minXSpan = timeAxis ? MIN_TIME_SPAN_MS : MIN_X_SPAN;
+
+  const setXDomain = (next: XDomain) => {
+    setZoomedXDomain(isFullXDomain(next, fullDomain) ? null : next);
+  };
+
+  const handleXZoom = (factor: number) =>
+    setXDomain(zoomXDomain(xDomain, factor, fullDomain, undefined, minXSpan));
+
+  // 単位が変わると横軸の範囲・カーソルの位置の意味が変わるため解除する
+  const handleXAxisModeChange = (mode: XAxisMode) => {
+    setXAxisMode(mode);
+    setZoomedXDomain(null);
+    setCursorsByChannel([]);
+  };
+
+  /** targets の各チャンネルの縦軸の範囲を、現在の範囲から toDomain で求めた範囲にする */
+  const setYDomains = (
+    targets: readonly ChannelPanel[],
+    toDomain: (domain: [number, number], index: number) => [number, number],
   ) => {
+    setYZoomByChannel((prev) => {
+      const next = [...prev];
+      targets.forEach((panel, i) => {
+        next[panel.ch] = toDomain(panel.yDomain, i);
+      });
+      return next;
+    });
+  };
+
+  const handleZoomReset = () => {
+    setZoomedXDomain(null);
+    setYZoomByChannel([]);
+  };
+
+  const handleAutoScaleChange = (checked: boolean) => {
+    setAutoScale(checked);
+    setYZoomByChannel([]);
+  };
+
+  const axisSideOf = (ch: number): AxisSide => axisSideByChannel[ch] ?? defaultAxisSide(ch);
+
+  const setAxisSide = (ch: number, side: AxisSide) => {
+    setAxisSideByChannel((prev) => {
+      const next = channels.map((_, i) => prev[i] ?? defaultAxisSide(i));
+      next[ch] = side;
+      return next;
+    });
+  };
+
+  const setChannelCursors = (ch: number, cursors: CursorPositions) => {
+    setCursorsByChannel((prev) => {
+      const next = [...prev];
+      next[ch] = cursors;
+      return next;
+    });
+  };
+
+  const handlePlotPointerDown = (e: PointerEvent<HTMLDivElement>, target: PlotTarget) => {
+    if (e.button !== 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const px = e.clientX - rect.left;
+    const py = e.clientY - rect.top;
+    const area = target.plotAreaOf(rect.width);
+    const { cursorPanel } = target;
+    const cursorKey = showCursors
+      ? hitTestCursor(cursorPanel.cursors, px, py, area, xDomain, cursorPanel.yDomain)
+      : null;
+    let drag: PointerDrag;
+    if (cursorKey != null) {
+      drag = { kind: 'cursor', ch: cursorPanel.ch, key: cursorKey };
+      setChannelCursors(cursorPanel.ch, cursorPanel.cursors);
+    } else if (
+      px < area.left ||
+      px > area.left + area.width ||
+      py < area.top ||
+      py > area.top + area.height
+    ) {
+      return;
+    } else if (pointerMode === 'pan') {
+      drag = {
+        kind: 'pan',
+        x0: px,
+        y0: py,
+        xDomain,
+        yDomains: target.panels.map((p) => p.yDomain),
+        panY: false,
+      };
+    } else {
+      drag = { kind: 'box', x0: px, y0: py };
+      setZoomBox({ plot: target.key, x0: px, y0: py, x1: px, y1: py });
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = drag;
+  };
+
+  const handlePlotPointerMove = (e: PointerEvent<HTMLDivElement>, target: PlotTarget) => {
+    const drag = dragRef.current;
+    if (drag == null) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const area = target.plotAreaOf(rect.width);
+    const px = e.clientX - rect.left;
+    const py = e.clientY - rect.top;
+    switch (drag.kind) {
+      case 'cursor': {
+        const { cursorPanel } = target;
+        if (drag.ch !== cursorPanel.ch) return;
+        const value =
+          drag.key === 'x1' || drag.key === 'x2'
+            ? timeAxis
+              ? pixelToX(px, area, xDomain)
+              : Math.round(pixelToX(px, area, xDomain))
+            : pixelToY(py, area, cursorPanel.yDomain);
+        setChannelCursors(drag.ch, { ...cursorPanel.cursors, [drag.key]: value });
+        break;
+      }
+      case 'box':
+        setZoomBox({
+          plot: target.key,
+          x0: drag.x0,
+          y0: drag.y0,
+          x1: clampRangeValue(px, [area.left, area.left + area.width]),
+          y1: clampRangeValue(py, [area.top, area.top + area.height]),
+        });
+        break;
+      case 'pan': {
+        const xSpan = drag.xDomain[1] - drag.xDomain[0];
+        setXDomain(panXDomain(drag.xDomain, (-(px - drag.x0) / area.width) * xSpan, fullDomain));
+        const dy = py - drag.y0;
+        // 横に動かしただけで縦軸の自動調整が止まらないよう、縦は一定以上動いてから追従する
+        if (!drag.panY && Math.abs(dy) < MIN_DRAG_PX) break;
+        drag.panY = true;
+        setYDomains(target.panels, (domain, i) => {
+          const start = drag.yDomains[i] ?? domain;
+          const delta = (dy / area.height) * (start[1] - start[0]);
+          return [start[0] + delta, start[1] + delta];
+        });
+        break;
+      }
+    }
+  };
+
+  const handlePlotPointerUp = (e: PointerEvent<HTMLDivElement>, target: PlotTarget) => {
+    const drag = dragRef.current;
+    if (drag == null) return;
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    if (drag.kind !== 'box') return;
+    setZoomBox(null);
+    const rect = e.currentTarget.getBoundingClientRect();
+    const area = target.plotAreaOf(rect.width);
+    const x1 = e.clientX - rect.left;
+    const y1 = e.clientY - rect.top;
+    if (Math.abs(x1 - drag.x0) >= MIN_DRAG_PX) {
+      setXDomain(
+        clampXDomain(
+          [pixelToX(drag.x0, area, xDomain), pixelToX(x1, area, xDomain)],
+          fullDomain,
+          minXSpan,
+        ),
+      );
+    }
+    if (Math.abs(y1 - drag.y0) >= MIN_DRAG_PX) {
+      const top = Math.min(drag.y0, y1);
+      const bottom = Math.max(drag.y0, y1);
+      setYDomains(target.panels, (domain) => [
+        pixelToY(bottom, area, domain),
+        pixelToY(top, area, domain),
+      ]);
+    }
+  };
+
+  const handlePlotPointerCancel = () => {
+    dragRef.current = null;
+    setZoomBox(null);
+  };
+
+  /** ホイールで横軸（Shift 押下中は縦軸）をポインター位置を中心に拡大・縮小する */
+  const handleWheel = (e: WheelEvent) => {
+    const el = e.target instanceof Element ? e.target.closest<HTMLElement>('[data-plot]') : null;
+    const target = el != null ? findPlotTarget(el.dataset.plot ?? '') : null;
+    if (el == null || target == null || e.deltaY === 0) return;
+    e.preventDefault();
+    const rect = el.getBoundingClientRect();
+    const area = target.plotAreaOf(rect.width);
+    const factor = e.deltaY > 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP;
+    if (e.shiftKey) {
+      setYDomains(target.panels, (domain) =>
+        zoomYDomain(domain, factor, pixelToY(e.clientY - rect.top, area, domain)),
+      );
+    } else {
+      setXDomain(
+        zoomXDomain(
+          xDomain,
+          factor,
+          fullDomain,
+          pixelToX(e.clientX - rect.left, area, xDomain),
+          minXSpan,
+        ),
+      );
+    }
+  };
+  wheelHandlerRef.current = handleWheel;
+
+  const handlePause = () => {
+    const source = display ?? { store, triggerIndex: null };
+    setFrozen({ store: cloneSampleStore(source.store), triggerIndex: source.triggerIndex });
+  };
+
+  const handleBackToLive = () => {
+    setFrozen(null);
+    handleZoomReset();
+  };
+
+  const setManualDomainInput = (ch: number, patch: Partial<ManualDomainInput>) => {
     setManualDomainInputByChannel((prev) => {
       const next = [...prev];
+      const manualRange = channels[ch]?.manualRange;
       const current = next[ch] ?? {
-        min: String(MANUAL_DOMAIN_DEFAULT.min),
-        max: String(MANUAL_DOMAIN_DEFAULT.max),
-      };
-      next[ch] = {
-        ...current,
-        [key]: value,
+        min: String(manualRange?.min ?? ''),
+        max: String(manualRange?.max ?? ''),
       };
+      next[ch] = { ...current, ...patch };
       return next;
     });
   };
 
   const handleManualDomainInputBlur = (ch: number, key: keyof ManualDomainInput) => {
-    const raw = manualDomainInputByChannel[ch]?.[key] ?? '';
-    const parsed = Number(raw);
-    if (!Number.isFinite(parsed)) {
-      setManualDomainInputByChannel((prev) => {
-        const next = [...prev];
-        const currentInput = next[ch] ?? {
-          min: String(MANUAL_DOMAIN_DEFAULT.min),
-          max: String(MANUAL_DOMAIN_DEFAULT.max),
-        };
-        const fallback = manualDomainByChannel[ch] ?? MANUAL_DOMAIN_DEFAULT;
-        next[ch] = {
-          ...currentInput,
-          [key]: String(fallback[key]),
-        };
-        return next;
-      });
-      return;
-    }
-
-    const clampedValue = clampRangeValue(parsed);
-    const prevDomain = manualDomainByChannel[ch] ?? MANUAL_DOMAIN_DEFAULT;
-    const nextDomain: ManualDomain = {
+    const channel = channels[ch];
+    if (!channel) return;
+    const prevDomain = channel.manualRange;
+    const text = manualDomainInputByChannel[ch]?.[key] ?? '';
+    const parsed = text.trim() === '' ? NaN : Number(text);
+    const clampedValue = Number.isFinite(parsed) ? clampRangeValue(parsed, channel.range) : NaN;
+    const nextDomain: YRange = {
       min: key === 'min' ? clampedValue : prevDomain.min,
       max: key === 'max' ? clampedValue : prevDomain.max,
     };
-    if (nextDomain.min > nextDomain.max) {
-      setManualDomainInputByChannel((prev) => {
-        const next = [...prev];
-        const currentInput = next[ch] ?? {
-          min: String(MANUAL_DOMAIN_DEFAULT.min),
-          max: String(MANUAL_DOMAIN_DEFAULT.max),
-        };
-        next[ch] = {
-          ...currentInput,
-          [key]: String(prevDomain[key]),
-        };
-        return next;
-      });
+    // 数値でない・min >= max のときは確定済みの値に戻す
+    if (!Number.isFinite(clampedValue) || nextDomain.min >= nextDomain.max) {
+      setManualDomainInput(ch, { [key]: String(prevDomain[key]) });
       return;
     }
+    setManualDomainInput(ch, { [key]: String(clampedValue) });
+    onManualRangeChange?.(ch, nextDomain);
+  };
 
-    setManualDomainByChannel((prev) => {
-      const next = [...prev];
-      next[ch] = nextDomain;
-      return next;
-    });
-    setManualDomainInputByChannel((prev) => {
-      const next = [...prev];
-      const currentInput = next[ch] ?? {
-        min: String(MANUAL_DOMAIN_DEFAULT.min),
-        max: String(MANUAL_DOMAIN_DEFAULT.max),
-      };
-      next[ch] = {
-        ...currentInput,
-        [key]: String(clampedValue),
-      };
-      return next;
+  const visibleChannels = channels.filter((_, ch) => channelVisible[ch] !== false);
+  const leftAxisCount = channels.filter(
+    (_, ch) => channelVisible[ch] !== false && axisSideOf(ch) === 'left',
+  ).length;
+  const overlayPlotArea = (width: number) =>
+    getPlotArea(width, OVERLAY_HEIGHT, leftAxisCount, visibleChannels.length - leftAxisCount);
+  // プロット領域の幅（px）を区間数にする
+  const buckets = (layout === 'overlay' ? overlayPlotArea(plotWidth) : getPlotArea(plotWidth))
+    .width;
+  /** カーソル間の時間差（ms）。サンプル番号の軸では表示中の履歴に受信時刻がある範囲でのみ求まる */
+  const cursorDeltaTime = (cursors: CursorPositions): number | null => {
+    if (timeAxis) return cursors.x2 - cursors.x1;
+    const s = display?.store;
+    if (!s) return null;
+    const i1 = Math.round(cursors.x1);
+    const i2 = Math.round(cursors.x2);
+    if (i1 < 0 || i2 < 0 || i1 >= s.length || i2 >= s.length) return null;
+    return s.getTime(i2) - s.getTime(i1);
+  };
+  // 時間の軸は区切りのよい間隔の目盛りを自前で求める（時計の時刻は地方時の区切りにそろえる）
+  const xTickStep = timeTickStep(xDomain[1] - xDomain[0], X_TICK_COUNT);
+  const xTicks =
+    xAxisMode === 'index'
+      ? undefined
+      : timeTicks(xDomain, xTickStep, xAxisMode === 'clock' ? clockTickPhase(timeOrigin) : 0);
+  const formatXTick = (v: unknown) => {
+    const x = Number(v);
+    switch (xAxisMode) {
+      case 'index':
+        return triggerIndex != null
+          ? String(Math.round(x) - triggerIndex)
+          : String(historyLength - Math.round(x));
+      case 'relative':
+        return formatSeconds(x, xTickStep);
+      case 'clock':
+        return formatClock(timeOrigin + x, xTickStep);
+    }
+  };
+
+  const panels: ChannelPanel[] = channels.map((cfg, ch) => {
+    const visible = channelVisible[ch] !== false;
+    const inDisplay = display != null && ch < display.store.channelCount;
+    const series =
+      display != null && visible && inDisplay
+        ? buildMinMaxSeries(display.store, ch, buckets, indexFrom, indexTo)
+        : [];
+    const chartData =
+      timeAxis && display != null ? toTimePoints(series, display.store, timeOrigin) : series;
+    const stats = !visible
+      ? null
+      : statsScope === 'session'
+        ? store.sessionStatistics(ch)
+        : display != null && inDisplay
+          ? computeStatistics(display.store, ch, indexFrom, indexTo)
+          : null;
+    const sampleRate = !visible
+      ? null
+      : statsScope === 'session'
+        ? store.sessionSampleRate(ch)
+        : display != null && inDisplay
+          ? measureStoreSampleRate(display.store, ch, indexFrom, indexTo)
+          : null;
+    const yDomain =
+      yZoomByChannel[ch] ?? computeYDomain(chartData, autoScale, cfg.manualRange, cfg.range);
+    const cursors = cursorsByChannel[ch] ?? createDefaultCursors(xDomain, yDomain);
+    return { ch, cfg, visible, chartData, stats, sampleRate, yDomain, cursors };
+  });
+
+  const stackedPlotTarget = (panel: ChannelPanel): PlotTarget => ({
+    key: panel.cfg.id,
+    panels: [panel],
+    cursorPanel: panel,
+    plotAreaOf: (width) => getPlotArea(width),
+  });
+  const shownPanels = panels.filter((p) => p.visible);
+  // 重ね表示のカーソルは最初に表示しているチャンネルの縦軸を基準にする
+  const overlayPlotTarget: PlotTarget | null = shownPanels[0]
+    ? {
+        key: OVERLAY_PLOT_KEY,
+        panels: shownPanels,
+        cursorPanel: shownPanels[0],
+        plotAreaOf: overlayPlotArea,
+      }
+    : null;
+  const findPlotTarget = (key: string): PlotTarget | null => {
+    if (key === OVERLAY_PLOT_KEY) return overlayPlotTarget;
+    const panel = panels.find((p) => p.cfg.id === key);
+    return panel ? stackedPlotTarget(panel) : null;
+  };
+  const zoomed = zoomedXDomain != null || yZoomByChannel.some((d) => d != null);
+
+  const xAxisLabel =
+    triggerIndex != null && xAxisMode !== 'clock'
+      ? `${X_AXIS_TITLES[xAxisMode]}（トリガー基準）`
+      : X_AXIS_TITLES[xAxisMode];
+
+  /** panel を渡せばそのグラフだけ、なければ今の並べ方で表示中の全グラフを書き出す */
+  const handleSnapshot = (format: SnapshotFormat, panel?: ChannelPanel) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const targets = panel
+      ? [stackedPlotTarget(panel)]
+      : layout === 'overlay'
+        ? overlayPlotTarget
+          ? [overlayPlotTarget]
+          : []
+        : shownPanels.map(stackedPlotTarget);
+    const plots = targets.flatMap((target): SnapshotPlot[] => {
+      const svg = container.querySelector(
+        `[data-plot="${CSS.escape(target.key)}"] svg.recharts-surface`,
+      );
+      if (!(svg instanceof SVGSVGElement)) return [];
+      const channels = target.panels.map((p) => ({ channel: p.cfg, yDomain: p.yDomain }));
+      return [{ svg, channels }];
     });
+    if (plots.length === 0) {
+      setSnapshotError('書き出すグラフがありません');
+      return;
+    }
+    setSnapshotError(null);
+    downloadChartSnapshot(
+      {
+        title: panel ? panel.cfg.label : '波形グラフ',
+        takenAt: new Date(),
+        xRange: `${formatXTick(xDomain[0])} 〜 ${formatXTick(xDomain[1])} ${xAxisLabel}`,
+        connection,
+        plots,
+      },
+      format,
+      // グラフ 1 つならチャンネル名（使えない文字は _）を付ける。名前が空なら ch 番号（0 起点）
+      panel ? `waveform-${safeFileNamePart(panel.cfg.label, `ch${panel.ch}`)}` : 'waveform',
+    ).catch((e) => setSnapshotError(e instanceof Error ? e.message : String(e)));
   };
 
-  // パケット受信でバッファ更新し、再描画をトリガー
-  useEffect(() => {
-    if (packet == null) return;
-    const buffers = buffersRef.current;
-    buffers[0]!.push(packet.ch0);
-    buffers[1]!.push(packet.ch1);
-    buffers[2]!.push(packet.ch2);
-    buffers[3]!.push(packet.ch3);
-    for (let ch = 0; ch < CHANNEL_COUNT; ch++) {
-      const b = buffers[ch]!;
-      if (b.length > POINTS) b.shift();
+  const renderSnapshotButtons = (label: string, panel?: ChannelPanel) => (
+    <span className="waveform-snapshot" role="group" aria-label={`${label} を画像で保存`}>
+      {!panel && '画像:'}
+      <button type="button" onClick={() => handleSnapshot('svg', panel)}>
+        SVG
+      </button>
+      <button type="button" onClick={() => handleSnapshot('png', panel)}>
+        PNG
+      </button>
+    </span>
+  );
+
+  const renderXAxis = () => (
+    <XAxis
+      dataKey="x"
+      type="number"
+      height={X_AXIS_HEIGHT}
+      domain={[xDomain[0], xDomain[1]]}
+      allowDataOverflow
+      tickCount={X_TICK_COUNT}
+      ticks={xTicks}
+      tickFormatter={formatXTick}
+      label={{
+        value: xAxisLabel,
+        position: 'insideBottom',
+        offset: -8,
+      }}
+    />
+  );
+
+  /** トリガー位置と、チャンネル ch がトリガー対象ならトリガーレベルの補助線（yAxisId は重ね表示の縦軸） */
+  const renderTriggerLines = (ch: number, yAxisId?: string) => [
+    triggerIndex != null && (
+      <ReferenceLine
+        key="trigger-x"
+        x={timeAxis ? 0 : triggerIndex}
+        yAxisId={yAxisId}
+        stroke="#e0a030"
+        strokeDasharray="4 4"
+      />
+    ),
+    triggerSettings.mode !== 'off' && triggerSettings.channel === ch && (
+      <ReferenceLine
+        key="trigger-level"
+        y={triggerSettings.level}
+        yAxisId={yAxisId}
+        stroke="#e0a030"
+        strokeDasharray="4 4"
+        ifOverflow="hidden"
+      />
+    ),
+  ];
+
+  const renderCursorLines = (cursors: CursorPositions, yAxisId?: string) =>
+    showCursors
+      ? [
+          ...(['x1', 'x2'] as const).map((key) => (
+            <ReferenceLine
+              key={key}
+              x={cursors[key]}
+              yAxisId={yAxisId}
+              stroke={CURSOR_COLOR}
+              ifOverflow="hidden"
+              label={{ value: key.toUpperCase(), position: 'top', fill: CURSOR_COLOR }}
+            />
+          )),
+          ...(['y1', 'y2'] as const).map((key) => (
+            <ReferenceLine
+              key={key}
+              y={cursors[key]}
+              yAxisId={yAxisId}
+              stroke={CURSOR_COLOR}
+              ifOverflow="hidden"
+              label={{ value: key.toUpperCase(), position: 'insideRight', fill: CURSOR_COLOR }}
+            />
+          )),
+        ]
+      : [];
+
+  const renderCursorReadout = ({ cfg, cursors }: ChannelPanel) => {
+    const deltaTime = cursorDeltaTime(cursors);
+    return (
+      <div className="waveform-cursors" aria-label={`${cfg.label} のカーソル`}>
+        <span>
+          X1 {formatXTick(cursors.x1)} / X2 {formatXTick(cursors.x2)} /{' '}
+          {timeAxis ? (
+            `Δt ${formatStatValue(deltaTime)} ms`
+          ) : (
+            <>
+              Δ {Math.round(cursors.x2 - cursors.x1)} 点
+              {deltaTime != null && `（Δt ${formatStatValue(deltaTime)} ms）`}
+            </>
+          )}
+        </span>
+        <span>
+          Y1 {formatStatValue(cursors.y1, cfg.precision)} / Y2{' '}
+          {formatStatValue(cursors.y2, cfg.precision)} / ΔY{' '}
+          {formatStatValue(cursors.y2 - cursors.y1, cfg.precision)} {cfg.unit}
+        </span>
+      </div>
+    );
+  };
+
+  /** マウスで拡大・パン・カーソル操作ができるグラフの枠 */
+  const renderPlot = (target: PlotTarget, chart: ReactNode) => (
+    <div
+      data-plot={target.key}
+      className={`waveform-plot waveform-plot--${pointerMode}`}
+      onPointerDown={(e) => handlePlotPointerDown(e, target)}
+      onPointerMove={(e) => handlePlotPointerMove(e, target)}
+      onPointerUp={(e) => handlePlotPointerUp(e, target)}
+      onPointerCancel={handlePlotPointerCancel}
+    >
+      {chart}
+      {zoomBox?.plot === target.key && (
+        <div
+          className="waveform-zoom-box"
+          style={{
+            left: Math.min(zoomBox.x0, zoomBox.x1),
+            top: Math.min(zoomBox.y0, zoomBox.y1),
+            width: Math.abs(zoomBox.x1 - zoomBox.x0),
+            height: Math.abs(zoomBox.y1 - zoomBox.y0),
+          }}
+        />
+      )}
+    </div>
+  );
+
+  const renderLine = (panel: ChannelPanel, yAxisId?: string) => (
+    <Line
+      key={panel.cfg.id}
+      type="linear"
+      data={yAxisId != null ? panel.chartData : undefined}
+      dataKey="value"
+      name={panel.cfg.label}
+      yAxisId={yAxisId}
+      stroke={panel.cfg.color}
+      strokeWidth={1.5}
+      dot={false}
+      connectNulls
+      isAnimationActive={false}
+    />
+  );
+
+  const renderStackedPanel = (panel: ChannelPanel) => {
+    const { ch, cfg, visible, chartData } = panel;
+    const range = cfg.range;
+    const manualDomain = cfg.manualRange;
+    const manualDomainInput = manualDomainInputByChannel[ch] ?? {
+      min: String(manualDomain.min),
+      max: String(manualDomain.max),
+    };
+    const alarm = alarmActive[ch] === true;
+    return (
+      <div
+        key={cfg.id}
+        data-channel={ch}
+        className={alarm ? 'waveform-panel waveform-panel--alarm' : 'waveform-panel'}
+        style={{
+          display: visible ? undefined : 'none',
+          width: '100%',
+          boxSizing: 'border-box',
+          overflow: 'visible',
+        }}
+      >
+        <div
+          style={{
+            padding: '4px 8px 0',
+            fontSize: '1.25rem',
+            fontWeight: 600,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '0.5rem',
+          }}
+        >
+          <span>
+            {cfg.label}
+            {alarm && <span className="waveform-panel__alarm-badge">アラーム</span>}
+          </span>
+          <div style={{ display: 'inline-flex', alignItems: 'center', gap: '0.25rem' }}>
+            {renderSnapshotButtons(cfg.label, panel)}
+            <label style={{ fontSize: '0.85rem', fontWeight: 400 }}>
+              min
+              <input
+                type="number"
+                min={Number.isFinite(range[0]) ? range[0] : undefined}
+                max={Number.isFinite(range[1]) ? range[1] : undefined}
+                step="any"
+                value={manualDomainInput.min}
+                onChange={(e) => setManualDomainInput(ch, { min: e.target.value })}
+                onBlur={() => handleManualDomainInputBlur(ch, 'min')}
+                disabled={autoScale}
+                style={{ width: '7rem', marginLeft: '0.25rem' }}
+                aria-label={`${cfg.label} の縦軸最小値`}
+              />
+            </label>
+            <label style={{ fontSize: '0.85rem', fontWeight: 400 }}>
+              max
+              <input
+                type="number"
+                min={Number.isFinite(range[0]) ? range[0] : undefined}
+                max={Number.isFinite(range[1]) ? range[1] : undefined}
+                step="any"
+                value={manualDomainInput.max}
+                onChange={(e) => setManualDomainInput(ch, { max: e.target.value })}
+                onBlur={() => handleManualDomainInputBlur(ch, 'max')}
+                disabled={autoScale}
+                style={{ width: '7rem', marginLeft: '0.25rem' }}
+                aria-label={`${cfg.label} の縦軸最大値`}
+              />
+            </label>
+          </div>
+        </div>
+        <ChannelStatsStrip
+          label={cfg.label}
+          stats={panel.stats}
+          sampleRate={panel.sampleRate}
+          precision={cfg.precision}
+        />
+        {showCursors && renderCursorReadout(panel)}
+        {renderPlot(
+          stackedPlotTarget(panel),
+          <ResponsiveContainer width="100%" height={HEIGHT}>
+            <LineChart data={chartData} margin={CHART_MARGIN}>
+              {renderXAxis()}
+              <YAxis
+                width={Y_AXIS_WIDTH}
+                domain={panel.yDomain}
+                allowDataOverflow={yZoomByChannel[ch] != null}
+                label={{
+                  value: cfg.unit,
+                  angle: 0,
+                  position: 'top',
+                  offset: 20,
+                  style: { textAnchor: 'middle' },
+                }}
+              />
+              {renderTriggerLines(ch)}
+              {renderCursorLines(panel.cursors)}
+              {renderLine(panel)}
+            </LineChart>
+          </ResponsiveContainer>,
+        )}
+      </div>
+    );
+  };
+
+  const renderOverlay = () => {
+    if (!overlayPlotTarget) {
+      return <p className="waveform-overlay__empty">表示するチャンネルがありません</p>;
     }
-    setDataVersion((v) => v + 1);
-  }, [packet]);
+    const { cursorPanel } = overlayPlotTarget;
+    // トリガーレベルはトリガー対象のチャンネルを表示しているときだけその縦軸に描く
+    const triggerPanel = shownPanels.find((p) => p.ch === triggerSettings.channel) ?? cursorPanel;
+    return (
+      <div className="waveform-overlay">
+        <ul className="waveform-legend" aria-label="凡例">
+          {shownPanels.map(({ ch, cfg }) => (
+            <li
+              key={cfg.id}
+              className={
+                alarmActive[ch] === true
+                  ? 'waveform-legend__item waveform-legend__item--alarm'
+                  : 'waveform-legend__item'
+              }
+            >
+              <span className="waveform-legend__swatch" style={{ background: cfg.color }} />
+              <span>
+                {cfg.label}
+                {cfg.unit !== '' && ` [${cfg.unit}]`}
+                {alarmActive[ch] === true && (
+                  <span className="waveform-panel__alarm-badge">アラーム</span>
+                )}
+              </span>
+              <select
+                value={axisSideOf(ch)}
+                onChange={(e) => setAxisSide(ch, e.target.value as AxisSide)}
+                aria-label={`${cfg.label} の縦軸の位置`}
+              >
+                <option value="left">左軸</option>
+                <option value="right">右軸</option>
+              </select>
+            </li>
+          ))}
+        </ul>
+        {shownPanels.map((panel) => (
+          <div key={panel.cfg.id} className="waveform-overlay__stats">
+            <span className="waveform-overlay__stats-label" style={{ color: panel.cfg.color }}>
+              {panel.cfg.label}
+            </span>
+            <ChannelStatsStrip
+              label={panel.cfg.label}
+              stats={panel.stats}
+              sampleRate={panel.sampleRate}
+              precision={panel.cfg.precision}
+            />
+          </div>
+        ))}
+        {showCursors && renderCursorReadout(cursorPanel)}
+        {renderPlot(
+          overlayPlotTarget,
+          <ResponsiveContainer width="100%" height={OVERLAY_HEIGHT}>
+            <LineChart margin={CHART_MARGIN}>
+              {renderXAxis()}
+              {shownPanels.map(({ ch, cfg, yDomain }) => (
+                <YAxis
+                  key={cfg.id}
+                  yAxisId={cfg.id}
+                  orientation={axisSideOf(ch)}
+                  width={Y_AXIS_WIDTH}
+                  domain={yDomain}
+                  allowDataOverflow={yZoomByChannel[ch] != null}
+                  stroke={cfg.color}
+                  label={{
+                    value: cfg.unit,
+                    angle: 0,
+                    position: 'top',
+                    offset: 20,
+                    fill: cfg.color,
+                    style: { textAnchor: 'middle' },
+                  }}
+                />
+              ))}
+              {renderTriggerLines(triggerPanel.ch, triggerPanel.cfg.id)}
+              {renderCursorLines(cursorPanel.cursors, cursorPanel.cfg.id)}
+              {shownPanels.map((panel) => renderLine(panel, panel.cfg.id))}
+            </LineChart>
+          </ResponsiveContainer>,
+        )}
+      </div>
+    );
+  };
 
   return (
     <section aria-label="波形グラフ" style={{ marginTop: '1rem' }}>
-      <div style={{ marginBottom: '0.5rem' }}>
+      <div
+        style={{
+          marginBottom: '0.5rem',
+          display: 'flex',
+          flexWrap: 'wrap',
+          alignItems: 'center',
+          gap: '1rem',
+        }}
+      >
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.25rem' }}>
+          表示:
+          <select
+            value={layout}
+            onChange={(e) => setLayout(e.target.value as ChartLayout)}
+            aria-label="グラフの並べ方"
+          >
+            <option value="stacked">チャンネルごと</option>
+            <option value="overlay">重ね表示</option>
+          </select>
+        </label>
         <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.25rem' }}>
           <input
             type="checkbox"
             checked={autoScale}
-            onChange={(e) => setAutoScale(e.target.checked)}
+            onChange={(e) => handleAutoScaleChange(e.target.checked)}
             aria-label="縦軸オートスケール"
           />
           縦軸オートスケール
         </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.25rem' }}>
+          表示履歴:
+          <select
+            value={historyLength}
+            onChange={(e) => handleHistoryLengthChange(Number(e.target.value))}
+            aria-label="表示履歴のサンプル数"
+          >
+            {HISTORY_LENGTHS.map((n) => (
+              <option key={n} value={n}>
+                {n.toLocaleString()} 点
+              </option>
+            ))}
+          </select>
+        </label>
+        <span
+          className="waveform-zoom"
+          role="group"
+          aria-label="横軸の拡大（全グラフ共通）"
+        >
+          横軸:
+          <button type="button" onClick={() => handleXZoom(1 / X_ZOOM_STEP)}>
+            拡大
+          </button>
+          <button
+            type="button"
+            onClick={() => handleXZoom(X_ZOOM_STEP)}
+            disabled={zoomedXDomain == null}
+          >
+            縮小
+          </button>
+          <button type="button" onClick={handleZoomReset} disabled={!zoomed}>
+            全体
+          </button>
+          <span className="waveform-zoom__span">
+            {timeAxis
+              ? `${formatStatValue((xDomain[1] - xDomain[0]) / 1000)} s`
+              : `${Math.round(xDomain[1] - xDomain[0]).toLocaleString()} 点`}
+          </span>
+        </span>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.25rem' }}>
+          横軸の単位:
+          <select
+            value={xAxisMode}
+            onChange={(e) => handleXAxisModeChange(e.target.value as XAxisMode)}
+            aria-label="横軸の単位"
+          >
+            {(Object.keys(X_AXIS_MODE_LABELS) as XAxisMode[]).map((mode) => (
+              <option key={mode} value={mode}>
+                {X_AXIS_MODE_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.25rem' }}>
+          ドラッグ:
+          <select
+            value={pointerMode}
+            onChange={(e) => setPointerMode(e.target.value as PointerMode)}
+            aria-label="グラフ上のドラッグ操作"
+            title="ホイールで横軸、Shift + ホイールで縦軸を拡大・縮小"
+          >
+            <option value="box">範囲を拡大</option>
+            <option value="pan">パン</option>
+          </select>
+        </label>
+        <span className="waveform-live" role="group" aria-label="ライブ表示">
+          <button type="button" onClick={handlePause} disabled={frozen != null}>
+            一時停止
+          </button>
+          <button type="button" onClick={handleBackToLive} disabled={frozen == null && !zoomed}>
+            ライブに戻る
+          </button>
+          {frozen != null && (
+            <span className="waveform-live__status">一時停止中（受信・録画は継続）</span>
+          )}
+        </span>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.25rem' }}>
+          <input
+            type="checkbox"
+            checked={showCursors}
+            onChange={(e) => setShowCursors(e.target.checked)}
+          />
+          カーソル
+        </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.25rem' }}>
+          統計:
+          <select
+            value={statsScope}
+            onChange={(e) => setStatsScope(e.target.value as StatsScope)}
+            aria-label="統計の集計範囲"
+          >
+            <option value="visible">表示範囲</option>
+            <option value="session">セッション全体</option>
+          </select>
+        </label>
+        <TriggerControl
+          settings={triggerSettings}
+          onChange={handleTriggerSettingsChange}
+          channelLabels={channels.map((c) => c.label)}
+          status={triggerStatus(trigger, triggerSettings)}
+          onArm={handleTriggerArm}
+        />
+        {renderSnapshotButtons('表示中のグラフ')}
       </div>
-      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
-        {[0, 1, 2, 3].map((ch) => {
-          const buffer = buffersRef.current[ch]!;
-          const chartData = buildChartData(buffer);
-          const manualDomain = manualDomainByChannel[ch] ?? MANUAL_DOMAIN_DEFAULT;
-          const manualDomainInput = manualDomainInputByChannel[ch] ?? {
-            min: String(MANUAL_DOMAIN_DEFAULT.min),
-            max: String(MANUAL_DOMAIN_DEFAULT.max),
-          };
-          const [yMin, yMax] = computeYDomain(buffer, autoScale, manualDomain);
-          const cfg = CHANNEL_CONFIG[ch] ?? {
-            label: `ch${ch}`,
-            color: '#888',
-          };
-          return (
-            <div
-              key={ch}
-              data-channel={ch}
-              style={{
-                display: channelVisible[ch] !== false ? undefined : 'none',
-                width: '100%',
-                boxSizing: 'border-box',
-                overflow: 'visible',
-              }}
-            >
-              <div
-                style={{
-                  padding: '4px 8px 0',
-                  fontSize: '1.25rem',
-                  fontWeight: 600,
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'space-between',
-                  gap: '0.5rem',
-                }}
-              >
-                <span>{cfg.label}</span>
-                <div style={{ display: 'inline-flex', alignItems: 'center', gap: '0.25rem' }}>
-                  <label style={{ fontSize: '0.85rem', fontWeight: 400 }}>
-                    min
-                    <input
-                      type="number"
-                      min={0}
-                      max={Y_MAX}
-                      step={1}
-                      value={manualDomainInput.min}
-                      onChange={(e) => handleManualDomainInputChange(ch, 'min', e.target.value)}
-                      onBlur={() => handleManualDomainInputBlur(ch, 'min')}
-                      disabled={autoScale}
-                      style={{ width: '7rem', marginLeft: '0.25rem' }}
-                      aria-label={`${cfg.label} の縦軸最小値`}
-                    />
-                  </label>
-                  <label style={{ fontSize: '0.85rem', fontWeight: 400 }}>
-                    max
-                    <input
-                      type="number"
-                      min={0}
-                      max={Y_MAX}
-                      step={1}
-                      value={manualDomainInput.max}
-                      onChange={(e) => handleManualDomainInputChange(ch, 'max', e.target.value)}
-                      onBlur={() => handleManualDomainInputBlur(ch, 'max')}
-                      disabled={autoScale}
-                      style={{ width: '7rem', marginLeft: '0.25rem' }}
-                      aria-label={`${cfg.label} の縦軸最大値`}
-                    />
-                  </label>
-                </div>
-              </div>
-              <ResponsiveContainer width="100%" height={HEIGHT}>
-                <LineChart
-                  data={chartData}
-                  margin={{ top: 30, right: 16, left: 52, bottom: 24 }}
-                >
-                  <XAxis
-                    dataKey="point"
-                    type="number"
-                    domain={[0, POINTS - 1]}
-                    ticks={[0, 5, 10, 15, 19]}
-                    tickFormatter={(v) => String(POINTS - Math.round(Number(v)))}
-                    label={{
-                      value: 'point',
-                      position: 'insideBottom',
-                      offset: -8,
-                    }}
-                  />
-                  <YAxis
-                    domain={[yMin, yMax]}
-                    label={{
-                      value: 'count',
-                      angle: 0,
-                      position: 'top',
-                      offset: 20,
-                      style: { textAnchor: 'middle' },
-                    }}
-                  />
-                  <Line
-                    type="linear"
-                    dataKey="value"
-                    stroke={cfg.color}
-                    strokeWidth={1.5}
-                    dot={false}
-                    connectNulls
-                    isAnimationActive={false}
-                  />
-                </LineChart>
-              </ResponsiveContainer>
-            </div>
-          );
-        })}
+      {snapshotError != null && (
+        <p role="alert" style={{ margin: '0.25rem 0', color: 'var(--error-color, #f88)' }}>
+          {snapshotError}
+        </p>
+      )}
+      <div ref={containerRef} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+        {layout === 'overlay' ? renderOverlay() : panels.map(renderStackedPanel)}
       </div>
     </section>
   );
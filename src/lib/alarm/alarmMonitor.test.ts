@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import type { SampleBlock } from '../transport/sampleBlock';
+import {
+  createAlarmMonitor,
+  describeAlarmCondition,
+  validateAlarmCondition,
+  type AlarmCondition,
+  type AlarmRule,
+} from './alarmMonitor';
+
+const CHANNELS = ['field:0', 'field:1'];
+
+function rule(id: string, condition: AlarmCondition, channelId = 'field:0'): AlarmRule {
+  return { id, channelId, condition, sound: false, enabled: true };
+}
+
+function monitorWith(...rules: AlarmRule[]) {
+  const monitor = createAlarmMonitor();
+  monitor.setRules(rules, CHANNELS);
+  return monitor;
+}
+
+function block(rows: number[][], timestamps: number[]): SampleBlock {
+  return {
+    channelCount: CHANNELS.length,
+    count: rows.length,
+    values: Float64Array.from(rows.flat()),
+    timestamps: Float64Array.from(timestamps),
+  };
+}
+
+describe('createAlarmMonitor', () => {
+  it('しきい値を超えたら発報し、戻ったら解除する（変化したときだけ記録する）', () => {
+    const monitor = monitorWith(rule('hi', { type: 'above', limit: 10 }));
+    expect(monitor.evaluate([5, 0], 0, 1000)).toEqual([]);
+    const raised = monitor.evaluate([12, 0], 1, 1001);
+    expect(raised).toMatchObject([{ kind: 'raised', value: 12, timestamp: 1001 }]);
+    expect(monitor.evaluate([13, 0], 2, 1002)).toEqual([]);
+    expect(monitor.evaluate([9, 0], 3, 1003)).toMatchObject([{ kind: 'cleared', value: 9 }]);
+    expect(monitor.events().map((e) => e.kind)).toEqual(['raised', 'cleared']);
+    expect(monitor.activeChannels()).toEqual([false, false]);
+  });
+
+  it('範囲外・下限割れと、欠損（NaN）の読み飛ばし', () => {
+    const monitor = monitorWith(
+      rule('out', { type: 'outside', low: 0, high: 5 }),
+      rule('lo', { type: 'below', limit: 1 }, 'field:1')
+    );
+    monitor.evaluate([-1, 0], 0, 0);
+    expect(monitor.activeRuleIds()).toEqual(new Set(['out', 'lo']));
+    expect(monitor.activeChannels()).toEqual([true, true]);
+    expect(monitor.evaluate([NaN, NaN], 1, 1)).toEqual([]);
+    expect(monitor.activeRuleIds()).toEqual(new Set(['out', 'lo']));
+  });
+
+  it('変化率はサンプルの時刻の差で求め、受け取った時刻には左右されない', () => {
+    const monitor = monitorWith(rule('rate', { type: 'rate', limit: 100 }));
+    // デバイス時刻で 10ms 間隔のサンプルが、同じバッチでまとめて届く
+    const events = monitor.evaluateBlock(block([[0, 0], [0.5, 0], [2, 0]], [10, 20, 30]), 5000);
+    // 0.5 / 0.01 = 50 /s は超えない、1.5 / 0.01 = 150 /s で発報
+    expect(events).toHaveLength(1);
+    expect(events[0]!.value).toBeCloseTo(150, 9);
+    expect(events[0]!.timestamp).toBe(5000);
+  });
+
+  it('変化率は同時刻のサンプルでは判定しない', () => {
+    const monitor = monitorWith(rule('rate', { type: 'rate', limit: 1 }));
+    expect(monitor.evaluateBlock(block([[0, 0], [100, 0]], [10, 10]), 0)).toEqual([]);
+  });
+
+  it('受信途絶は受け取ったときの PC の時刻で判定する', () => {
+    const monitor = monitorWith(rule('stale', { type: 'stale', timeoutMs: 500 }));
+    monitor.resetStale(1000);
+    // デバイス時刻は 0 起点でも、受け取った時刻が新しければ途絶しない
+    monitor.evaluateBlock(block([[1, 1]], [0]), 1400);
+    expect(monitor.checkStale(1800)).toEqual([]);
+    const raised = monitor.checkStale(1900);
+    expect(raised).toMatchObject([{ kind: 'raised', value: null, timestamp: 1900 }]);
+    // 受信が戻ればその時点で解除する
+    expect(monitor.evaluate([1, 1], 0, 2000)).toMatchObject([
+      { kind: 'cleared', timestamp: 2000 },
+    ]);
+    expect(monitor.checkStale(2100)).toEqual([]);
+  });
+
+  it('無効なルール・表示チャンネルにないルールは判定しない', () => {
+    const monitor = monitorWith(
+      { ...rule('off', { type: 'above', limit: 0 }), enabled: false },
+      rule('gone', { type: 'above', limit: 0 }, 'derived:9')
+    );
+    expect(monitor.evaluate([1, 1], 0, 0)).toEqual([]);
+  });
+
+  it('setRules は同じ id・同じ条件のルールの発報状態を引き継ぐ', () => {
+    const hi = rule('hi', { type: 'above', limit: 10 });
+    const monitor = monitorWith(hi);
+    monitor.evaluate([20, 0], 0, 0);
+    monitor.setRules([{ ...hi, sound: true }], CHANNELS);
+    expect(monitor.activeRuleIds()).toEqual(new Set(['hi']));
+    monitor.setRules([rule('hi', { type: 'above', limit: 30 })], CHANNELS);
+    expect(monitor.activeRuleIds()).toEqual(new Set());
+  });
+
+  it('イベント履歴は直近 maxEvents 件', () => {
+    const monitor = createAlarmMonitor(3);
+    monitor.setRules([rule('hi', { type: 'above', limit: 0 })], CHANNELS);
+    for (let i = 0; i < 6; i++) monitor.evaluate([i % 2 === 0 ? 1 : -1, 0], i, i);
+    expect(monitor.events().map((e) => e.timestamp)).toEqual([3, 4, 5]);
+    const version = monitor.version;
+    monitor.clearEvents();
+    expect(monitor.events()).toEqual([]);
+    expect(monitor.version).toBeGreaterThan(version);
+  });
+});
+
+describe('validateAlarmCondition', () => {
+  it('不正な入力はメッセージ、正しければ null', () => {
+    expect(validateAlarmCondition({ type: 'above', limit: 1 })).toBeNull();
+    expect(validateAlarmCondition({ type: 'above', limit: NaN })).toBe(
+      'しきい値を数値で入力してください'
+    );
+    expect(validateAlarmCondition({ type: 'outside', low: 5, high: 5 })).toBe(
+      '範囲の下限は上限より小さくしてください'
+    );
+    expect(validateAlarmCondition({ type: 'rate', limit: 0 })).not.toBeNull();
+    expect(validateAlarmCondition({ type: 'stale', timeoutMs: -1 })).not.toBeNull();
+  });
+});
+
+describe('describeAlarmCondition', () => {
+  it('単位付きの短い説明', () => {
+    expect(describeAlarmCondition({ type: 'outside', low: 0, high: 5 }, 'V')).toBe(
+      '範囲外 0〜5 V'
+    );
+    expect(describeAlarmCondition({ type: 'rate', limit: 2 }, 'V')).toBe('|変化率| > 2 V/s');
+    expect(describeAlarmCondition({ type: 'stale', timeoutMs: 500 })).toBe('500 ms 受信なし');
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * チャンネルごとのアラーム（しきい値超え・範囲外・変化率・受信途絶）の判定とイベント履歴。
+ * App が所有し、受信した表示値（換算・派生後）を 1 サンプルずつ evaluate に通す。
+ * イベントは発報・解除の変化時だけ記録し、直近 maxEvents 件を保持する。表示側は version の変化で再描画する。
+ *
+ * 時刻は 2 種類を分けて扱う。変化率はサンプルの時刻（受信時刻またはデバイス時刻・再生では記録時の時刻）の差で求め、
+ * 受信途絶とイベントの時刻はこの PC の時計（受信を処理した時刻・checkStale の now）で判定・記録する。
+ */
+import type { SampleBlock } from '../transport/sampleBlock';
+
+/** above / below … 上限・下限超え、outside … 範囲外、rate … 変化率（単位/秒）超え、stale … 受信途絶 */
+export type AlarmCondition =
+  | { type: 'above'; limit: number }
+  | { type: 'below'; limit: number }
+  | { type: 'outside'; low: number; high: number }
+  | { type: 'rate'; limit: number }
+  | { type: 'stale'; timeoutMs: number };
+
+export type AlarmConditionType = AlarmCondition['type'];
+
+export const ALARM_CONDITION_LABELS: Record<AlarmConditionType, string> = {
+  above: '上限超え',
+  below: '下限割れ',
+  outside: '範囲外',
+  rate: '変化率超え',
+  stale: '受信途絶',
+};
+
+export interface AlarmRule {
+  id: string;
+  /** 対象の表示チャンネルの id（DisplayChannel.id） */
+  channelId: string;
+  condition: AlarmCondition;
+  /** 発報時に音を鳴らす */
+  sound: boolean;
+  enabled: boolean;
+}
+
+export type AlarmEventKind = 'raised' | 'cleared';
+
+export interface AlarmEvent {
+  /** 発生時刻（この PC の時計の epoch ms） */
+  timestamp: number;
+  kind: AlarmEventKind;
+  /** 判定したときのルール（後でルールを変えても履歴の内容は変わらない） */
+  rule: AlarmRule;
+  /** 判定に使った値（変化率なら単位/秒）。受信途絶では null */
+  value: number | null;
+}
+
+export interface AlarmMonitor {
+  /** イベント・発報状態が変わるたびに増える値 */
+  readonly version: number;
+  /** ルールと表示チャンネルの並びを差し替える。同じ id のルールは発報状態を引き継ぐ */
+  setRules(rules: readonly AlarmRule[], channelIds: readonly string[]): void;
+  /**
+   * 1 サンプル（表示チャンネル順の値）を判定し、新しく起きたイベントを返す。
+   * timestamp はサンプルの時刻（変化率用）、arrival はそれを受け取ったこの PC の時刻（受信途絶・イベント用）
+   */
+  evaluate(values: ArrayLike<number>, timestamp: number, arrival: number): AlarmEvent[];
+  /** ブロック内の全サンプルを block.timestamps の時刻で順に判定する。arrival はブロックを受け取った時刻 */
+  evaluateBlock(block: SampleBlock, arrival: number): AlarmEvent[];
+  /** 受信途絶の判定（定期的に呼ぶ）。now から timeoutMs 以上受信がなければ発報する（now は arrival と同じ時計） */
+  checkStale(now: number): AlarmEvent[];
+  /** 受信途絶の基準時刻を now にする（接続開始時に呼ぶ） */
+  resetStale(now: number): void;
+  /** 表示チャンネルごとの、発報中のルールがあるか */
+  activeChannels(): boolean[];
+  /** 発報中のルールの id */
+  activeRuleIds(): Set<string>;
+  /** 古い順のイベント履歴（呼び出し側で書き換えないこと） */
+  events(): readonly AlarmEvent[];
+  clearEvents(): void;
+}
+
+export const DEFAULT_ALARM_MAX_EVENTS = 500;
+
+const NO_EVENTS: AlarmEvent[] = [];
+
+let ruleSequence = 0;
+
+/** 新しいルールの id */
+export function createAlarmRuleId(): string {
+  ruleSequence++;
+  return `alarm-${Date.now().toString(36)}-${ruleSequence}`;
+}
+
+/** 値 value（変化率では単位/秒）で条件を満たすか。stale は evaluate では判定しない */
+function conditionMet(condition: AlarmCondition, value: number): boolean {
+  switch (condition.type) {
+    case 'above':
+    case 'rate':
+      return value > condition.limit;
+    case 'below':
+      return value < condition.limit;
+    case 'outside':
+      return value < condition.low || value > condition.high;
+    case 'stale':
+      return false;
+  }
+}
+
+/** 条件の短い説明（例: "> 10 V"、"範囲外 0〜5 V"） */
+export function describeAlarmCondition(condition: AlarmCondition, unit = ''): string {
+  const u = unit !== '' ? ` ${unit}` : '';
+  switch (condition.type) {
+    case 'above':
+      return `> ${condition.limit}${u}`;
+    case 'below':
+      return `< ${condition.limit}${u}`;
+    case 'outside':
+      return `範囲外 ${condition.low}〜${condition.high}${u}`;
+    case 'rate':
+      return `|変化率| > ${condition.limit}${unit !== '' ? ` ${unit}/s` : ' /s'}`;
+    case 'stale':
+      return `${condition.timeoutMs} ms 受信なし`;
+  }
+}
+
+/** 入力された条件の検査。問題があればメッセージ、なければ null */
+export function validateAlarmCondition(condition: AlarmCondition): string | null {
+  switch (condition.type) {
+    case 'above':
+    case 'below':
+      return Number.isFinite(condition.limit) ? null : 'しきい値を数値で入力してください';
+    case 'outside':
+      if (!Number.isFinite(condition.low) || !Number.isFinite(condition.high)) {
+        return '範囲の下限・上限を数値で入力してください';
+      }
+      return condition.low < condition.high ? null : '範囲の下限は上限より小さくしてください';
+    case 'rate':
+      return Number.isFinite(condition.limit) && condition.limit > 0
+        ? null
+        : '変化率は 0 より大きい数値で入力してください';
+    case 'stale':
+      return Number.isFinite(condition.timeoutMs) && condition.timeoutMs > 0
+        ? null
+        : '受信途絶の時間は 0 より大きい数値（ms）で入力してください';
+  }
+}
+
+interface RuleState {
+  rule: AlarmRule;
+  /** 対象チャンネルの index。表示チャンネルにないルールは -1（判定しない） */
+  channel: number;
+  active: boolean;
+}
+
+export function createAlarmMonitor(maxEvents = DEFAULT_ALARM_MAX_EVENTS): AlarmMonitor {
+  let states: RuleState[] = [];
+  let channelCount = 0;
+  /** チャンネルごとの直前の有効値とそのサンプルの時刻（変化率用） */
+  let prevValues: number[] = [];
+  let prevTimes: number[] = [];
+  /** チャンネルごとの最後に有効値を受け取ったこの PC の時刻（受信途絶用） */
+  let lastSeen: number[] = [];
+  const events: AlarmEvent[] = [];
+  let version = 0;
+
+  const record = (
+    out: AlarmEvent[],
+    state: RuleState,
+    active: boolean,
+    value: number | null,
+    timestamp: number
+  ): AlarmEvent[] => {
+    state.active = active;
+    const event: AlarmEvent = {
+      timestamp,
+      kind: active ? 'raised' : 'cleared',
+      rule: state.rule,
+      value,
+    };
+    events.push(event);
+    if (events.length > maxEvents) events.splice(0, events.length - maxEvents);
+    version++;
+    // 何も起きなかったときは共有の空配列を返し、受信のたびに配列を作らない
+    if (out === NO_EVENTS) out = [];
+    out.push(event);
+    return out;
+  };
+
+  const evaluateInto = (
+    out: AlarmEvent[],
+    values: ArrayLike<number>,
+    offset: number,
+    timestamp: number,
+    arrival: number
+  ): AlarmEvent[] => {
+    for (const state of states) {
+      const ch = state.channel;
+      if (ch < 0 || !state.rule.enabled) continue;
+      const v = values[offset + ch]!;
+      if (!Number.isFinite(v)) continue;
+      const { condition } = state.rule;
+      let active: boolean;
+      let shown = v;
+      if (condition.type === 'stale') {
+        active = false;
+      } else if (condition.type === 'rate') {
+        const dt = (timestamp - prevTimes[ch]!) / 1000;
+        // 直前の値がない・同時刻のサンプルは変化率を求められないので状態を保つ
+        if (!Number.isFinite(prevValues[ch]!) || !(dt > 0)) continue;
+        shown = Math.abs(v - prevValues[ch]!) / dt;
+        active = conditionMet(condition, shown);
+      } else {
+        active = conditionMet(condition, v);
+      }
+      if (active !== state.active) {
+        out = record(out, state, active, condition.type === 'stale' ? null : shown, arrival);
+      }
+    }
+    for (let ch = 0; ch < channelCount; ch++) {
+      const v = values[offset + ch]!;
+      if (!Number.isFinite(v)) continue;
+      if (timestamp > prevTimes[ch]! || !Number.isFinite(prevValues[ch]!)) {
+        prevValues[ch] = v;
+        prevTimes[ch] = timestamp;
+      }
+      lastSeen[ch] = arrival;
+    }
+    return out;
+  };
+
+  return {
+    get version() {
+      return version;
+    },
+    setRules(rules, channelIds) {
+      const previous = new Map(states.map((s) => [s.rule.id, s]));
+      if (channelIds.length !== channelCount) {
+        channelCount = channelIds.length;
+        prevValues = new Array(channelCount).fill(NaN);
+        prevTimes = new Array(channelCount).fill(-Infinity);
+        lastSeen = new Array(channelCount).fill(Date.now());
+      }
+      states = rules.map((rule) => {
+        const channel = channelIds.indexOf(rule.channelId);
+        const prev = previous.get(rule.id);
+        // 条件・対象を変えたルールは未発報から判定し直す
+        const same =
+          prev != null &&
+          prev.rule.channelId === rule.channelId &&
+          JSON.stringify(prev.rule.condition) === JSON.stringify(rule.condition);
+        return { rule, channel, active: same && rule.enabled && channel >= 0 && prev.active };
+      });
+      version++;
+    },
+    evaluate(values, timestamp, arrival) {
+      return evaluateInto(NO_EVENTS, values, 0, timestamp, arrival);
+    },
+    evaluateBlock(block, arrival) {
+      let out = NO_EVENTS;
+      for (let i = 0; i < block.count; i++) {
+        const offset = i * block.channelCount;
+        out = evaluateInto(out, block.values, offset, block.timestamps[i]!, arrival);
+      }
+      return out;
+    },
+    checkStale(now) {
+      let out = NO_EVENTS;
+      for (const state of states) {
+        const { condition, enabled } = state.rule;
+        if (condition.type !== 'stale' || !enabled || state.channel < 0) continue;
+        const active = now - lastSeen[state.channel]! >= condition.timeoutMs;
+        if (active !== state.active) out = record(out, state, active, null, now);
+      }
+      return out;
+    },
+    resetStale(now) {
+      lastSeen.fill(now);
+    },
+    activeChannels() {
+      const active = new Array<boolean>(channelCount).fill(false);
+      for (const state of states) {
+        if (state.active && state.channel >= 0) active[state.channel] = true;
+      }
+      return active;
+    },
+    activeRuleIds() {
+      return new Set(states.filter((s) => s.active).map((s) => s.rule.id));
+    },
+    events: () => events,
+    clearEvents() {
+      events.length = 0;
+      version++;
+    },
+  };
+}
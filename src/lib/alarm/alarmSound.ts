@@ -0,0 +1,29 @@
+/**
+ * アラーム発報時の警告音（Web Audio の短いビープ）。
+ * 連続して発報しても鳴りっぱなしにならないよう、最小間隔より短い呼び出しは無視する。
+ */
+
+const BEEP_FREQUENCY_HZ = 880;
+const BEEP_DURATION_S = 0.2;
+const BEEP_GAIN = 0.1;
+/** 続けて鳴らすときの最小間隔（ms） */
+const MIN_INTERVAL_MS = 1000;
+
+let context: AudioContext | null = null;
+let lastPlayedAt = -Infinity;
+
+export function playAlarmSound(): void {
+  if (typeof AudioContext === 'undefined') return;
+  const now = Date.now();
+  if (now - lastPlayedAt < MIN_INTERVAL_MS) return;
+  lastPlayedAt = now;
+  context ??= new AudioContext();
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  oscillator.type = 'square';
+  oscillator.frequency.value = BEEP_FREQUENCY_HZ;
+  gain.gain.value = BEEP_GAIN;
+  oscillator.connect(gain).connect(context.destination);
+  oscillator.start();
+  oscillator.stop(context.currentTime + BEEP_DURATION_S);
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { applyCalibration, calibrateRange, NO_CALIBRATION, parseCoefficients } from './calibration';
+
+describe('applyCalibration', () => {
+  it('換算なしは受信値のまま', () => {
+    expect(applyCalibration(NO_CALIBRATION, 123)).toBe(123);
+  });
+
+  it('一次式は gain × x + offset', () => {
+    expect(applyCalibration({ type: 'linear', gain: 0.5, offset: -1 }, 10)).toBe(4);
+  });
+
+  it('多項式は低次からの係数', () => {
+    const calibration = { type: 'polynomial' as const, coefficients: [1, -2, 3] };
+    // 1 - 2·2 + 3·4
+    expect(applyCalibration(calibration, 2)).toBe(9);
+    expect(applyCalibration({ type: 'polynomial', coefficients: [] }, 5)).toBe(0);
+  });
+
+  it('欠損（NaN）は NaN のまま', () => {
+    expect(applyCalibration({ type: 'linear', gain: 2, offset: 1 }, NaN)).toBeNaN();
+  });
+});
+
+describe('calibrateRange', () => {
+  it('負の gain では上下を入れ替える', () => {
+    expect(calibrateRange({ type: 'linear', gain: -2, offset: 10 }, [0, 100])).toEqual([-190, 10]);
+  });
+
+  it('単調でない多項式は区間内の極値を拾う', () => {
+    // x² − 1 は [-1, 1] の両端で 0、中央で −1
+    const [lo, hi] = calibrateRange({ type: 'polynomial', coefficients: [-1, 0, 1] }, [-1, 1]);
+    expect(lo).toBeCloseTo(-1, 12);
+    expect(hi).toBeCloseTo(0, 12);
+  });
+
+  it('範囲が有限でなければ ±Infinity、換算なしはそのまま', () => {
+    const linear = { type: 'linear' as const, gain: 1, offset: 0 };
+    expect(calibrateRange(linear, [-Infinity, Infinity])).toEqual([-Infinity, Infinity]);
+    expect(calibrateRange(NO_CALIBRATION, [0, 255])).toEqual([0, 255]);
+  });
+});
+
+describe('parseCoefficients', () => {
+  it('カンマ・空白区切り', () => {
+    expect(parseCoefficients(' 0.1, 2  -3e-3 ')).toEqual([0.1, 2, -0.003]);
+  });
+
+  it('空・数値でない係数は throw', () => {
+    expect(() => parseCoefficients('  ')).toThrow('多項式の係数を 1 つ以上入力してください');
+    expect(() => parseCoefficients('1, x')).toThrow('多項式の係数が数値ではありません: x');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * 受信値（count）から工学単位（V, °C など）への換算。
+ * 一次式（gain・offset）または多項式（c0 + c1·x + c2·x² + …）で指定する。
+ */
+
+export type Calibration =
+  | { type: 'none' }
+  | {
+      type: 'linear';
+      /** 換算値 = gain × x + offset */
+      gain: number;
+      offset: number;
+    }
+  | {
+      type: 'polynomial';
+      /** 係数（低次から）。換算値 = c0 + c1·x + c2·x² + … */
+      coefficients: number[];
+    };
+
+export type CalibrationType = Calibration['type'];
+
+export const NO_CALIBRATION: Calibration = { type: 'none' };
+
+export function applyCalibration(calibration: Calibration, x: number): number {
+  switch (calibration.type) {
+    case 'none':
+      return x;
+    case 'linear':
+      return calibration.gain * x + calibration.offset;
+    case 'polynomial': {
+      // ホーナー法
+      const c = calibration.coefficients;
+      let y = 0;
+      for (let i = c.length - 1; i >= 0; i--) y = y * x + c[i]!;
+      return y;
+    }
+  }
+}
+
+/**
+ * 受信値の範囲 [min, max] を換算後の範囲にする。
+ * 多項式は両端だけでなく区間内を走査して極値を拾う。範囲が有限でなければそのまま返す
+ */
+export function calibrateRange(calibration: Calibration, range: [number, number]): [number, number] {
+  if (calibration.type === 'none') return range;
+  const [min, max] = range;
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return [-Infinity, Infinity];
+  const steps = calibration.type === 'linear' ? 1 : 256;
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (let i = 0; i <= steps; i++) {
+    const y = applyCalibration(calibration, min + ((max - min) * i) / steps);
+    if (y < lo) lo = y;
+    if (y > hi) hi = y;
+  }
+  return Number.isFinite(lo) && Number.isFinite(hi) ? [lo, hi] : [-Infinity, Infinity];
+}
+
+/** "0.1, 2, -0.003" のような係数の文字列を配列にする。不正なら Error */
+export function parseCoefficients(text: string): number[] {
+  const parts = text.split(/[\s,]+/).filter((t) => t.length > 0);
+  if (parts.length === 0) throw new Error('多項式の係数を 1 つ以上入力してください');
+  return parts.map((p) => {
+    const v = Number(p);
+    if (!Number.isFinite(v)) throw new Error(`多項式の係数が数値ではありません: ${p}`);
+    return v;
+  });
+}
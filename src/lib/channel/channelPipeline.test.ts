@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { ChannelConfig, DerivedChannelConfig } from '../config/channelConfig';
+import type { PacketSchema } from '../packet/types';
+import type { SampleBlock } from '../transport/sampleBlock';
+import {
+  createChannelPipeline,
+  formatChannelValue,
+  validateDerivedExpression,
+} from './channelPipeline';
+
+const SCHEMA: PacketSchema = {
+  name: 'adc',
+  size: 4,
+  fields: [
+    { name: 'volt', type: 'uint16', offset: 0 },
+    { name: 'amp', type: 'int16', offset: 2 },
+  ],
+};
+
+const FIELDS: ChannelConfig[] = [
+  { label: 'V', color: '#111111', unit: 'V', calibration: { type: 'linear', gain: 0.01, offset: 0 } },
+  {
+    label: 'I',
+    color: '#222222',
+    unit: 'A',
+    calibration: { type: 'polynomial', coefficients: [1, 0.5] },
+  },
+];
+
+const POWER: DerivedChannelConfig = { label: 'P', color: '#333333', expression: 'volt * ch1' };
+
+describe('createChannelPipeline', () => {
+  it('受信チャンネルは換算し、派生チャンネルは換算後の値で計算して後ろに並べる', () => {
+    const pipeline = createChannelPipeline(SCHEMA, FIELDS, [POWER]);
+    expect(pipeline.channels.map((c) => c.id)).toEqual(['field:0', 'field:1', 'derived:0']);
+    // V = 0.01·500 = 5, I = 1 + 0.5·2 = 2, P = 5·2
+    expect(pipeline.transform([500, 2])).toEqual([5, 2, 10]);
+  });
+
+  it('チャンネルの範囲は型の範囲を換算したもの、派生チャンネルは ±Infinity', () => {
+    const [volt, amp, power] = createChannelPipeline(SCHEMA, FIELDS, [POWER]).channels;
+    expect(volt!.range[0]).toBe(0);
+    // 符号なし整数のグラフ用の範囲は 2^n まで
+    expect(volt!.range[1]).toBeCloseTo(655.36, 9);
+    expect(volt!.manualRange).toEqual({ min: volt!.range[0], max: volt!.range[1] });
+    expect(amp!.range).toEqual([1 - 32768 * 0.5, 1 + 32767 * 0.5]);
+    expect(power!.range).toEqual([-Infinity, Infinity]);
+    expect(power!.manualRange).toEqual({ min: -1, max: 1 });
+  });
+
+  it('設定のないチャンネルは換算せず、単位は count', () => {
+    const pipeline = createChannelPipeline(SCHEMA, [], []);
+    expect(pipeline.transform([7, -3])).toEqual([7, -3]);
+    expect(pipeline.channels.map((c) => [c.label, c.unit])).toEqual([
+      ['volt', 'count'],
+      ['amp', 'count'],
+    ]);
+  });
+
+  it('欠損は派生チャンネルにも伝わる', () => {
+    const pipeline = createChannelPipeline(SCHEMA, FIELDS, [POWER]);
+    const [v, i, p] = pipeline.transform([NaN, 2]);
+    expect(v).toBeNaN();
+    expect(i).toBe(2);
+    expect(p).toBeNaN();
+  });
+
+  it('transformBlock はサンプルごとに変換し、時刻はそのまま引き継ぐ', () => {
+    const pipeline = createChannelPipeline(SCHEMA, FIELDS, [POWER]);
+    const block: SampleBlock = {
+      channelCount: 2,
+      count: 2,
+      values: Float64Array.from([100, 0, 200, 4]),
+      timestamps: Float64Array.from([10, 20]),
+    };
+    const out = pipeline.transformBlock(block);
+    expect(out.channelCount).toBe(3);
+    expect(Array.from(out.values)).toEqual([1, 1, 1, 2, 3, 6]);
+    expect(out.timestamps).toBe(block.timestamps);
+  });
+});
+
+describe('validateDerivedExpression', () => {
+  it('フィールド名と chN を参照でき、未定義の名前はメッセージを返す', () => {
+    expect(validateDerivedExpression(SCHEMA, 'volt - ch1')).toBeNull();
+    expect(validateDerivedExpression(SCHEMA, 'ch2 + 1')).toMatch(/ch2/);
+  });
+});
+
+describe('formatChannelValue', () => {
+  it('桁数の指定がなければ有効数字 6 桁、欠損は –', () => {
+    expect(formatChannelValue(1 / 3, 2)).toBe('0.33');
+    expect(formatChannelValue(1 / 3, undefined)).toBe('0.333333');
+    expect(formatChannelValue(NaN, 2)).toBe('–');
+    expect(formatChannelValue(Infinity, 2)).toBe('Infinity');
+  });
+});
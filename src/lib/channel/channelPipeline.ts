@@ -0,0 +1,156 @@
+/**
+ * 受信値 → 表示チャンネルの変換。
+ * 受信チャンネルには換算（calibration）をかけ、その後ろに派生チャンネル（式）の値を並べる。
+ * グラフ用の SampleStore にはこの変換後の値を入れ、録画には受信値をそのまま残す。
+ */
+import type { ChannelConfig, DerivedChannelConfig, YRange } from '../config/channelConfig';
+import { getFieldRange } from '../packet/schema';
+import type { PacketSchema } from '../packet/types';
+import type { SampleBlock } from '../transport/sampleBlock';
+import { applyCalibration, calibrateRange, NO_CALIBRATION, type Calibration } from './calibration';
+import { compileExpression, type CompiledExpression, type ExpressionVariables } from './expression';
+
+/** グラフ・統計に並ぶ 1 チャンネル分の表示情報 */
+export interface DisplayChannel {
+  /** 'field:0' / 'derived:0' のような識別子（設定変更時のリセット判定用） */
+  id: string;
+  label: string;
+  color: string;
+  unit: string;
+  /** 小数点以下の桁数。undefined は有効数字 6 桁 */
+  precision: number | undefined;
+  /** 取り得る値の範囲。派生チャンネル・浮動小数は ±Infinity */
+  range: [number, number];
+  /** オートスケール OFF 時の縦軸レンジ（設定がなければ range 全体、範囲がなければ ±1） */
+  manualRange: YRange;
+  /** 派生チャンネルの式（受信チャンネルは undefined） */
+  expression?: string;
+}
+
+export interface ChannelPipeline {
+  channels: DisplayChannel[];
+  /** 受信値 1 パケット分を表示チャンネルの値にする */
+  transform(values: ArrayLike<number>): number[];
+  /** ブロック単位の変換（ライブ受信用） */
+  transformBlock(block: SampleBlock): SampleBlock;
+}
+
+/** 範囲を持たないチャンネル（浮動小数・派生チャンネル）の手動レンジ初期値 */
+const DEFAULT_MANUAL_RANGE: YRange = { min: -1, max: 1 };
+
+/** 値の範囲から手動レンジの初期値を決める（整数型は型の全範囲を換算したもの） */
+export function defaultManualRange(range: [number, number]): YRange {
+  const [min, max] = range;
+  return Number.isFinite(min) && Number.isFinite(max) && min < max
+    ? { min, max }
+    : DEFAULT_MANUAL_RANGE;
+}
+
+/** 式から受信チャンネルを参照する名前（ch0, ch1 … とフィールド名） */
+export function expressionVariables(schema: PacketSchema): ExpressionVariables {
+  const variables: Record<string, number> = {};
+  schema.fields.forEach((field, i) => {
+    variables[field.name] = i;
+  });
+  // chN はフィールド名より優先する
+  schema.fields.forEach((_, i) => {
+    variables[`ch${i}`] = i;
+  });
+  return variables;
+}
+
+/** 派生チャンネルの式を検査する。問題なければ null、あればエラーメッセージ */
+export function validateDerivedExpression(schema: PacketSchema, expression: string): string | null {
+  try {
+    compileExpression(expression, expressionVariables(schema));
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+export function createChannelPipeline(
+  schema: PacketSchema,
+  fieldConfigs: readonly ChannelConfig[],
+  derived: readonly DerivedChannelConfig[]
+): ChannelPipeline {
+  const fieldCount = schema.fields.length;
+  const calibrations: Calibration[] = schema.fields.map(
+    (_, i) => fieldConfigs[i]?.calibration ?? NO_CALIBRATION
+  );
+  const variables = expressionVariables(schema);
+  const expressions: CompiledExpression[] = derived.map((d) =>
+    compileExpression(d.expression, variables)
+  );
+
+  const channels: DisplayChannel[] = [
+    ...schema.fields.map((field, i): DisplayChannel => {
+      const config = fieldConfigs[i];
+      const calibration = calibrations[i]!;
+      const range = calibrateRange(calibration, getFieldRange(field));
+      return {
+        id: `field:${i}`,
+        label: config?.label ?? field.name,
+        color: config?.color ?? '#888',
+        unit: config?.unit ?? (calibration.type === 'none' ? 'count' : ''),
+        precision: config?.precision,
+        range,
+        manualRange: config?.yRange ?? defaultManualRange(range),
+      };
+    }),
+    ...derived.map(
+      (d, i): DisplayChannel => ({
+        id: `derived:${i}`,
+        label: d.label,
+        color: d.color,
+        unit: d.unit ?? '',
+        precision: d.precision,
+        range: [-Infinity, Infinity],
+        manualRange: d.yRange ?? DEFAULT_MANUAL_RANGE,
+        expression: d.expression,
+      })
+    ),
+  ];
+  const channelCount = channels.length;
+  const calibrated = new Float64Array(fieldCount);
+
+  /** raw[offset..] の受信値を out[outOffset..] に書く */
+  const transformInto = (
+    raw: ArrayLike<number>,
+    offset: number,
+    out: Float64Array | number[],
+    outOffset: number
+  ): void => {
+    for (let ch = 0; ch < fieldCount; ch++) {
+      const v = applyCalibration(calibrations[ch]!, raw[offset + ch] ?? NaN);
+      calibrated[ch] = v;
+      out[outOffset + ch] = v;
+    }
+    for (let i = 0; i < expressions.length; i++) {
+      out[outOffset + fieldCount + i] = expressions[i]!(calibrated);
+    }
+  };
+
+  return {
+    channels,
+    transform(values) {
+      const out = new Array<number>(channelCount);
+      transformInto(values, 0, out, 0);
+      return out;
+    },
+    transformBlock(block) {
+      const values = new Float64Array(block.count * channelCount);
+      for (let i = 0; i < block.count; i++) {
+        transformInto(block.values, i * block.channelCount, values, i * channelCount);
+      }
+      return { channelCount, count: block.count, values, timestamps: block.timestamps };
+    },
+  };
+}
+
+/** 表示チャンネルの桁数設定に従って値を文字列にする */
+export function formatChannelValue(value: number, precision: number | undefined): string {
+  if (!Number.isFinite(value)) return Number.isNaN(value) ? '–' : String(value);
+  if (precision != null) return value.toFixed(precision);
+  return Number(value.toPrecision(6)).toString();
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { compileExpression } from './expression';
+
+const VARIABLES = { ch0: 0, ch1: 1, voltage: 1 };
+
+function evaluate(source: string, values: number[] = [0, 0]): number {
+  return compileExpression(source, VARIABLES)(values);
+}
+
+describe('compileExpression', () => {
+  it('変数は values の該当インデックスを読む', () => {
+    const f = compileExpression('ch2 * 3.3 / 4096', { ch2: 2 });
+    expect(f([0, 0, 2048])).toBeCloseTo(1.65, 12);
+  });
+
+  it('フィールド名と chN のどちらでも参照できる', () => {
+    expect(evaluate('voltage + ch0', [2, 5])).toBe(7);
+  });
+
+  it('演算子の優先順位と括弧', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('10 - 4 - 3')).toBe(3);
+    expect(evaluate('7 % 4')).toBe(3);
+  });
+
+  it('べき乗は右結合で、単項マイナスより先に計算する', () => {
+    expect(evaluate('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluate('-2 ^ 2')).toBe(-4);
+    expect(evaluate('2 ^ -1')).toBe(0.5);
+  });
+
+  it('関数と定数', () => {
+    expect(evaluate('abs(ch0)', [-3, 0])).toBe(3);
+    expect(evaluate('max(ch0, ch1, 4)', [1, 9])).toBe(9);
+    expect(evaluate('pow(2, 10)')).toBe(1024);
+    expect(evaluate('cos(pi)')).toBeCloseTo(-1, 12);
+    expect(evaluate('log(e)')).toBeCloseTo(1, 12);
+  });
+
+  it('変数の値が NaN なら結果も NaN', () => {
+    expect(evaluate('ch0 + 1', [NaN, 0])).toBeNaN();
+  });
+
+  it('values に無いインデックスは NaN', () => {
+    expect(compileExpression('ch5', { ch5: 5 })([1, 2])).toBeNaN();
+  });
+
+  it('引数の数が合わない関数は throw', () => {
+    expect(() => evaluate('abs(1, 2)')).toThrow('関数 abs の引数の数が不正です');
+    expect(() => evaluate('min()')).toThrow('関数 min の引数の数が不正です');
+  });
+
+  it('未定義の名前は throw', () => {
+    expect(() => evaluate('ch9 + 1')).toThrow('未定義の変数です: ch9');
+    expect(() => evaluate('foo(1)')).toThrow('未定義の関数です: foo');
+  });
+
+  it('プロトタイプのメンバー名は変数・関数・定数として解決しない', () => {
+    expect(() => evaluate('constructor + 1')).toThrow('未定義の変数です: constructor');
+    expect(() => evaluate('toString(1)')).toThrow('未定義の関数です: toString');
+    expect(() => evaluate('hasOwnProperty(1)')).toThrow('未定義の関数です: hasOwnProperty');
+    expect(() => evaluate('__proto__')).toThrow('未定義の変数です: __proto__');
+  });
+
+  it('構文の誤りは throw', () => {
+    expect(() => evaluate('')).toThrow('式が空です');
+    expect(() => evaluate('1 +')).toThrow('式が途中で終わっています');
+    expect(() => evaluate('(1 + 2')).toThrow('")" が必要です（式の終わり）');
+    expect(() => evaluate('1 2')).toThrow('式の 3 文字目以降を解釈できません');
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * 派生チャンネル用の数式パーサー。eval / Function を使わず、四則演算・べき乗・括弧・
+ * 関数（abs, sqrt, min, max など）・定数（pi, e）と変数だけを受け付けて関数に変換する。
+ *
+ *   const f = compileExpression('ch2 * 3.3 / 4096', { ch2: 2 });
+ *   f([0, 0, 2048]); // 1.65
+ */
+
+/** 変数名 → 値配列のインデックス */
+export type ExpressionVariables = Readonly<Record<string, number>>;
+
+/** values[index] を読んで値を返す。変数の値が NaN なら結果も NaN */
+export type CompiledExpression = (values: ArrayLike<number>) => number;
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'ident'; name: string; pos: number }
+  | { kind: 'op'; op: string; pos: number };
+
+const FUNCTIONS: Record<string, { arity: number | 'variadic'; fn: (...args: number[]) => number }> = {
+  abs: { arity: 1, fn: Math.abs },
+  sqrt: { arity: 1, fn: Math.sqrt },
+  exp: { arity: 1, fn: Math.exp },
+  log: { arity: 1, fn: Math.log },
+  log10: { arity: 1, fn: Math.log10 },
+  sin: { arity: 1, fn: Math.sin },
+  cos: { arity: 1, fn: Math.cos },
+  tan: { arity: 1, fn: Math.tan },
+  atan2: { arity: 2, fn: Math.atan2 },
+  pow: { arity: 2, fn: Math.pow },
+  round: { arity: 1, fn: Math.round },
+  floor: { arity: 1, fn: Math.floor },
+  ceil: { arity: 1, fn: Math.ceil },
+  min: { arity: 'variadic', fn: Math.min },
+  max: { arity: 'variadic', fn: Math.max },
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+/** 関数・定数の名前（入力欄のヒント用） */
+export const EXPRESSION_FUNCTION_NAMES = Object.keys(FUNCTIONS);
+export const EXPRESSION_CONSTANT_NAMES = Object.keys(CONSTANTS);
+
+/** record 自身が持つ name の値（toString・constructor などプロトタイプのメンバーは見ない） */
+function ownEntry<T>(record: Readonly<Record<string, T>>, name: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(record, name) ? record[name] : undefined;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  while (pos < source.length) {
+    const c = source[pos]!;
+    if (/\s/.test(c)) {
+      pos++;
+      continue;
+    }
+    const number = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(pos));
+    if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]), pos });
+      pos += number[0].length;
+      continue;
+    }
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(pos));
+    if (ident) {
+      tokens.push({ kind: 'ident', name: ident[0], pos });
+      pos += ident[0].length;
+      continue;
+    }
+    if ('+-*/%^(),'.includes(c)) {
+      tokens.push({ kind: 'op', op: c, pos });
+      pos++;
+      continue;
+    }
+    throw new Error(`式に使えない文字があります: "${c}"（${pos + 1} 文字目）`);
+  }
+  return tokens;
+}
+
+/**
+ * 式を関数に変換する。構文エラーや未定義の変数・関数は Error を投げる。
+ * variables にない識別子は定数（pi, e）として解決する。
+ */
+export function compileExpression(source: string, variables: ExpressionVariables): CompiledExpression {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+  const isOp = (op: string): boolean => {
+    const t = peek();
+    return t?.kind === 'op' && t.op === op;
+  };
+  const expectOp = (op: string): void => {
+    if (!isOp(op)) {
+      const t = peek();
+      throw new Error(
+        t ? `"${op}" が必要です（${t.pos + 1} 文字目）` : `"${op}" が必要です（式の終わり）`
+      );
+    }
+    index++;
+  };
+
+  const parseAdditive = (): CompiledExpression => {
+    let left = parseMultiplicative();
+    while (isOp('+') || isOp('-')) {
+      const op = (tokens[index++] as { op: string }).op;
+      const l = left;
+      const r = parseMultiplicative();
+      left = op === '+' ? (v) => l(v) + r(v) : (v) => l(v) - r(v);
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): CompiledExpression => {
+    let left = parseUnary();
+    while (isOp('*') || isOp('/') || isOp('%')) {
+      const op = (tokens[index++] as { op: string }).op;
+      const l = left;
+      const r = parseUnary();
+      left =
+        op === '*' ? (v) => l(v) * r(v) : op === '/' ? (v) => l(v) / r(v) : (v) => l(v) % r(v);
+    }
+    return left;
+  };
+
+  const parseUnary = (): CompiledExpression => {
+    if (isOp('-')) {
+      index++;
+      const operand = parseUnary();
+      return (v) => -operand(v);
+    }
+    if (isOp('+')) {
+      index++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // べき乗は右結合（2^3^2 = 2^9）。-2^2 は -(2^2)
+  const parsePower = (): CompiledExpression => {
+    const base = parsePrimary();
+    if (!isOp('^')) return base;
+    index++;
+    const exponent = parseUnary();
+    return (v) => Math.pow(base(v), exponent(v));
+  };
+
+  const parsePrimary = (): CompiledExpression => {
+    const t = tokens[index++];
+    if (!t) throw new Error('式が途中で終わっています');
+    if (t.kind === 'number') {
+      const value = t.value;
+      return () => value;
+    }
+    if (t.kind === 'op') {
+      if (t.op !== '(') throw new Error(`"${t.op}" の位置が不正です（${t.pos + 1} 文字目）`);
+      const inner = parseAdditive();
+      expectOp(')');
+      return inner;
+    }
+    if (isOp('(')) {
+      index++;
+      const fn = ownEntry(FUNCTIONS, t.name);
+      if (!fn) throw new Error(`未定義の関数です: ${t.name}`);
+      const args: CompiledExpression[] = [];
+      if (!isOp(')')) {
+        args.push(parseAdditive());
+        while (isOp(',')) {
+          index++;
+          args.push(parseAdditive());
+        }
+      }
+      expectOp(')');
+      if (fn.arity === 'variadic' ? args.length === 0 : args.length !== fn.arity) {
+        throw new Error(`関数 ${t.name} の引数の数が不正です`);
+      }
+      const call = fn.fn;
+      return (v) => call(...args.map((a) => a(v)));
+    }
+    const slot = ownEntry(variables, t.name);
+    if (slot != null) return (v) => v[slot] ?? NaN;
+    const constant = ownEntry(CONSTANTS, t.name);
+    if (constant != null) return () => constant;
+    throw new Error(`未定義の変数です: ${t.name}`);
+  };
+
+  if (tokens.length === 0) throw new Error('式が空です');
+  const compiled = parseAdditive();
+  const rest = peek();
+  if (rest) throw new Error(`式の ${rest.pos + 1} 文字目以降を解釈できません`);
+  return compiled;
+}
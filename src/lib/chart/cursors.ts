@@ -0,0 +1,79 @@
+/**
+ * 測定カーソル（縦 2 本・横 2 本）の座標計算。値はグラフのデータ単位（x はサンプル番号、y は値）で持ち、
+ * ドラッグ時はプロット領域のピクセル座標と相互に変換する。
+ */
+
+export interface CursorPositions {
+  /** 縦カーソル（x、サンプル番号） */
+  x1: number;
+  x2: number;
+  /** 横カーソル（y、値） */
+  y1: number;
+  y2: number;
+}
+
+export type CursorKey = keyof CursorPositions;
+
+/** グラフ要素内でのプロット領域（px） */
+export interface PlotArea {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** ドラッグ開始とみなすカーソルからの距離（px） */
+const HIT_TOLERANCE_PX = 6;
+
+/** 表示範囲の 1/4 と 3/4 の位置に置いた初期カーソル */
+export function createDefaultCursors(
+  xDomain: readonly [number, number],
+  yDomain: readonly [number, number]
+): CursorPositions {
+  const at = ([a, b]: readonly [number, number], r: number) => a + (b - a) * r;
+  return {
+    x1: at(xDomain, 0.25),
+    x2: at(xDomain, 0.75),
+    y1: at(yDomain, 0.25),
+    y2: at(yDomain, 0.75),
+  };
+}
+
+export function xToPixel(x: number, area: PlotArea, domain: readonly [number, number]): number {
+  return area.left + ((x - domain[0]) / (domain[1] - domain[0] || 1)) * area.width;
+}
+
+export function yToPixel(y: number, area: PlotArea, domain: readonly [number, number]): number {
+  return area.top + (1 - (y - domain[0]) / (domain[1] - domain[0] || 1)) * area.height;
+}
+
+/** ピクセル座標をデータ単位にする（プロット領域外は端に丸める） */
+export function pixelToX(px: number, area: PlotArea, domain: readonly [number, number]): number {
+  const r = Math.min(1, Math.max(0, (px - area.left) / area.width));
+  return domain[0] + r * (domain[1] - domain[0]);
+}
+
+export function pixelToY(py: number, area: PlotArea, domain: readonly [number, number]): number {
+  const r = Math.min(1, Math.max(0, (py - area.top) / area.height));
+  return domain[1] - r * (domain[1] - domain[0]);
+}
+
+/** (px, py) の近くにあるカーソル。縦カーソルを優先する。なければ null */
+export function hitTestCursor(
+  cursors: CursorPositions,
+  px: number,
+  py: number,
+  area: PlotArea,
+  xDomain: readonly [number, number],
+  yDomain: readonly [number, number]
+): CursorKey | null {
+  if (px < area.left - HIT_TOLERANCE_PX || px > area.left + area.width + HIT_TOLERANCE_PX) return null;
+  if (py < area.top - HIT_TOLERANCE_PX || py > area.top + area.height + HIT_TOLERANCE_PX) return null;
+  for (const key of ['x1', 'x2'] as const) {
+    if (Math.abs(xToPixel(cursors[key], area, xDomain) - px) <= HIT_TOLERANCE_PX) return key;
+  }
+  for (const key of ['y1', 'y2'] as const) {
+    if (Math.abs(yToPixel(cursors[key], area, yDomain) - py) <= HIT_TOLERANCE_PX) return key;
+  }
+  return null;
+}
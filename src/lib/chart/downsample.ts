@@ -0,0 +1,69 @@
+/**
+ * 描画用の間引き。表示幅 1 px あたりの最小値・最大値だけを残し、
+ * 数十万点の履歴でもスパイクを消さずに描画点数を幅の 2 倍程度に抑える。
+ */
+import type { SampleStore } from './sampleStore';
+
+/** Recharts に渡す 1 点。x は古い方からのサンプル番号 */
+export interface ChartPoint {
+  x: number;
+  value: number | null;
+}
+
+/**
+ * store のチャンネル ch の [from, to) を buckets 個の区間に分け、区間ごとに min / max の 2 点（出現順）を返す。
+ * 範囲内の点数が buckets × 2 以下なら間引かずに全点を返す。NaN は null（欠損）になる。
+ * 範囲の省略時は保持している全体。x は範囲を絞っても store 内のサンプル番号のまま。
+ */
+export function buildMinMaxSeries(
+  store: SampleStore,
+  ch: number,
+  buckets: number,
+  from = 0,
+  to = store.length
+): ChartPoint[] {
+  from = Math.max(0, from);
+  to = Math.min(store.length, to);
+  const length = to - from;
+  const points: ChartPoint[] = [];
+  if (length <= 0) return points;
+  if (length <= buckets * 2) {
+    for (let i = from; i < to; i++) {
+      const v = store.get(ch, i);
+      points.push({ x: i, value: Number.isFinite(v) ? v : null });
+    }
+    return points;
+  }
+
+  const size = length / buckets;
+  for (let b = 0; b < buckets; b++) {
+    const start = from + Math.floor(b * size);
+    const end = Math.min(to, from + Math.floor((b + 1) * size));
+    let minIdx = -1;
+    let maxIdx = -1;
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = start; i < end; i++) {
+      const v = store.get(ch, i);
+      if (v < min) {
+        min = v;
+        minIdx = i;
+      }
+      if (v > max) {
+        max = v;
+        maxIdx = i;
+      }
+    }
+    if (minIdx < 0) {
+      // 区間内がすべて欠損
+      points.push({ x: start, value: null });
+    } else if (minIdx === maxIdx) {
+      points.push({ x: minIdx, value: min });
+    } else if (minIdx < maxIdx) {
+      points.push({ x: minIdx, value: min }, { x: maxIdx, value: max });
+    } else {
+      points.push({ x: maxIdx, value: max }, { x: minIdx, value: min });
+    }
+  }
+  return points;
+}
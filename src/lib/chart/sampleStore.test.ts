@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { buildMinMaxSeries } from './downsample';
+import { cloneSampleStore, createSampleStore, type SampleStore } from './sampleStore';
+
+/** チャンネル ch の保持中の値（古い順） */
+function channelValues(store: SampleStore, ch: number): number[] {
+  return Array.from({ length: store.length }, (_, i) => store.get(ch, i));
+}
+
+describe('createSampleStore', () => {
+  it('capacity を超えたら古い方から上書きする', () => {
+    const store = createSampleStore(1, 3);
+    for (let v = 1; v <= 5; v++) store.push([v], v * 10);
+    expect(store.length).toBe(3);
+    expect(store.total).toBe(5);
+    expect(channelValues(store, 0)).toEqual([3, 4, 5]);
+    expect([0, 1, 2].map((i) => store.getTime(i))).toEqual([30, 40, 50]);
+    expect(store.latest()).toEqual([5]);
+  });
+
+  it('足りない値は NaN になる', () => {
+    const store = createSampleStore(2, 4);
+    store.push([1], 0);
+    expect(store.get(1, 0)).toBeNaN();
+  });
+
+  it('pushInterleaved は stride ごとの値と時刻をまとめて追加する', () => {
+    const store = createSampleStore(2, 4);
+    const values = Float64Array.from([1, 10, 2, 20, 3, 30]);
+    store.pushInterleaved(values, 3, 2, Float64Array.from([100, 101, 102]));
+    store.pushInterleaved(Float64Array.from([4, 40, 5, 50]), 2, 2, Float64Array.from([103, 104]));
+    expect(channelValues(store, 0)).toEqual([2, 3, 4, 5]);
+    expect(channelValues(store, 1)).toEqual([20, 30, 40, 50]);
+    expect(store.getTime(0)).toBe(101);
+    expect(store.total).toBe(5);
+  });
+
+  it('version は追加・クリアのたびに変わる', () => {
+    const store = createSampleStore(1, 2);
+    const v0 = store.version;
+    store.push([1], 0);
+    const v1 = store.version;
+    store.clear();
+    expect(v1).not.toBe(v0);
+    expect(store.version).not.toBe(v1);
+    expect(store.length).toBe(0);
+    expect(store.latest()).toBeNull();
+  });
+
+  it('resize は新しい方から残し、その後の追加も順に並ぶ', () => {
+    const store = createSampleStore(1, 5);
+    for (let v = 1; v <= 7; v++) store.push([v], v);
+    store.resize(3);
+    expect(channelValues(store, 0)).toEqual([5, 6, 7]);
+    store.push([8], 8);
+    expect(channelValues(store, 0)).toEqual([6, 7, 8]);
+    store.resize(6);
+    store.push([9], 9);
+    expect(channelValues(store, 0)).toEqual([6, 7, 8, 9]);
+    expect(store.getTime(3)).toBe(9);
+  });
+
+  it('時刻は前のサンプルより戻さない（時刻での二分探索の前提）', () => {
+    const store = createSampleStore(1, 4);
+    store.push([1], 10);
+    store.push([2], 5);
+    store.pushInterleaved(Float64Array.from([3, 4]), 2, 1, Float64Array.from([8, 12]));
+    expect([0, 1, 2, 3].map((i) => store.getTime(i))).toEqual([10, 10, 10, 12]);
+    store.clear();
+    store.push([5], 1);
+    expect(store.getTime(0)).toBe(1);
+  });
+
+  it('セッション統計は保持数から流れた分も含め、clear で初期化する', () => {
+    const store = createSampleStore(1, 2);
+    for (const v of [1, 2, 3, NaN]) store.push([v], 0);
+    expect(store.sessionStatistics(0)).toMatchObject({ count: 3, min: 1, max: 3, mean: 2 });
+    store.clear();
+    expect(store.sessionStatistics(0)).toBeNull();
+  });
+
+  it('セッションのサンプルレートは最初と最後のサンプルの時刻から求める', () => {
+    const store = createSampleStore(1, 2);
+    for (let i = 0; i < 11; i++) store.push([i], 1000 + i * 10);
+    expect(store.sessionSampleRate(0)).toBeCloseTo(100);
+  });
+
+  it('セッションのサンプルレートはチャンネルごとに有効な値の行だけで求める', () => {
+    // 2 台のデバイスの行が交互に入る: ch0 は 10ms ごと、ch1 は 20ms ごと
+    const store = createSampleStore(2, 4);
+    for (let i = 0; i < 21; i++) {
+      const t = i * 5;
+      store.push(i % 2 === 0 ? [i, NaN] : [NaN, i % 4 === 1 ? i : NaN], t);
+    }
+    expect(store.sessionSampleRate(0)).toBeCloseTo(100);
+    expect(store.sessionSampleRate(1)).toBeCloseTo(50);
+    store.clear();
+    expect(store.sessionSampleRate(0)).toBeNull();
+  });
+});
+
+describe('cloneSampleStore', () => {
+  it('値・時刻・保持数を複製し、元の store とは独立する', () => {
+    const store = createSampleStore(1, 3);
+    for (let v = 1; v <= 4; v++) store.push([v], v);
+    const copy = cloneSampleStore(store);
+    store.push([5], 5);
+    expect(copy.capacity).toBe(3);
+    expect(channelValues(copy, 0)).toEqual([2, 3, 4]);
+    expect(copy.getTime(2)).toBe(4);
+  });
+});
+
+describe('buildMinMaxSeries', () => {
+  it('点数が少なければ間引かず、NaN は null にする', () => {
+    const store = createSampleStore(1, 8);
+    for (const v of [1, NaN, 3]) store.push([v], 0);
+    expect(buildMinMaxSeries(store, 0, 10)).toEqual([
+      { x: 0, value: 1 },
+      { x: 1, value: null },
+      { x: 2, value: 3 },
+    ]);
+  });
+
+  it('区間ごとに最小・最大を出現順に残し、スパイクを消さない', () => {
+    const store = createSampleStore(1, 100);
+    for (let i = 0; i < 100; i++) store.push([i === 37 ? 1000 : 0], i);
+    const points = buildMinMaxSeries(store, 0, 10);
+    expect(points.length).toBeLessThanOrEqual(20);
+    expect(points.some((p) => p.x === 37 && p.value === 1000)).toBe(true);
+  });
+
+  it('範囲を絞っても x は store 内のサンプル番号のまま', () => {
+    const store = createSampleStore(1, 10);
+    for (let i = 0; i < 10; i++) store.push([i], i);
+    expect(buildMinMaxSeries(store, 0, 10, 7).map((p) => p.x)).toEqual([7, 8, 9]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * グラフ用のサンプル保持。チャンネルごとの Float64Array リングバッファに直近 capacity 件を保持する。
+ * 追加は O(1) で配列の再確保をしないため、高レートの受信でも GC が発生しない。
+ * あわせて各サンプルの受信時刻と、clear 以降の全サンプルのチャンネル別集計（セッション統計）を持つ。
+ * 複数デバイスの行は他のデバイスの列が NaN になるため、サンプルレートもチャンネルごとに有効な値の時刻から求める。
+ */
+import {
+  addToSummary,
+  createRunningSummary,
+  measureSampleRate,
+  summaryToStatistics,
+  type ChannelStatistics,
+  type RunningSummary,
+} from './statistics';
+
+export interface SampleStore {
+  readonly channelCount: number;
+  /** 保持できる最大サンプル数 */
+  readonly capacity: number;
+  /** 現在保持しているサンプル数（≤ capacity） */
+  readonly length: number;
+  /** これまでに追加した総サンプル数（clear で 0 に戻る） */
+  readonly total: number;
+  /** 内容が変わるたびに増える値。描画側の変更検知に使う */
+  readonly version: number;
+  /** 1 サンプル（全チャンネル分）を追加する。足りない値は NaN。timestamp 省略時は現在時刻 */
+  push(values: readonly number[], timestamp?: number): void;
+  /**
+   * インターリーブされた count サンプル分（count × stride）をまとめて追加する。
+   * timestamps 省略時は全サンプル現在時刻
+   */
+  pushInterleaved(values: Float64Array, count: number, stride: number, timestamps?: Float64Array): void;
+  /** チャンネル ch の、古い方から i 番目の値（0 ≤ i < length） */
+  get(ch: number, i: number): number;
+  /** 古い方から i 番目のサンプルの受信時刻（epoch ms）。前のサンプルより戻らない */
+  getTime(i: number): number;
+  /** clear 以降に追加した全サンプルでのチャンネル ch の統計。有効な値がなければ null */
+  sessionStatistics(ch: number): ChannelStatistics | null;
+  /** clear 以降に追加した全サンプルでのチャンネル ch のサンプルレート（samples/s）。欠損の行は数えない */
+  sessionSampleRate(ch: number): number | null;
+  /** 直近のサンプル（全チャンネル分）。空なら null */
+  latest(): number[] | null;
+  clear(): void;
+  /** 保持数を変更する。新しい方から最大 capacity 件を残す */
+  resize(capacity: number): void;
+}
+
+export function createSampleStore(channelCount: number, capacity: number): SampleStore {
+  let cap = Math.max(1, Math.floor(capacity));
+  let buffers = Array.from({ length: channelCount }, () => new Float64Array(cap));
+  let times = new Float64Array(cap);
+  let summaries: RunningSummary[] = Array.from({ length: channelCount }, createRunningSummary);
+  /** 最後に書き込んだ時刻 */
+  let lastTime = -Infinity;
+  /** チャンネルごとの最初・最後の有効な値の時刻 */
+  let firstTimes = new Float64Array(channelCount).fill(NaN);
+  let lastTimes = new Float64Array(channelCount).fill(NaN);
+  /** 次に書き込む位置 */
+  let head = 0;
+  let length = 0;
+  let total = 0;
+  let version = 0;
+
+  const indexOf = (i: number): number => {
+    const idx = head - length + i;
+    return idx < 0 ? idx + cap : idx;
+  };
+
+  const now = (): number => performance.timeOrigin + performance.now();
+
+  /** 時刻は前のサンプルより戻さない（時刻での二分探索の前提）。書き込んだ時刻を返す */
+  const writeTime = (timestamp: number): number => {
+    if (timestamp > lastTime) lastTime = timestamp;
+    times[head] = lastTime;
+    return lastTime;
+  };
+
+  const write = (ch: number, v: number, timestamp: number): void => {
+    buffers[ch]![head] = v;
+    addToSummary(summaries[ch]!, v);
+    if (!Number.isFinite(v)) return;
+    if (Number.isNaN(firstTimes[ch]!)) firstTimes[ch] = timestamp;
+    lastTimes[ch] = timestamp;
+  };
+
+  return {
+    channelCount,
+    get capacity() {
+      return cap;
+    },
+    get length() {
+      return length;
+    },
+    get total() {
+      return total;
+    },
+    get version() {
+      return version;
+    },
+    push(values, timestamp = now()) {
+      const t = writeTime(timestamp);
+      for (let ch = 0; ch < channelCount; ch++) write(ch, values[ch] ?? NaN, t);
+      head = head + 1 === cap ? 0 : head + 1;
+      if (length < cap) length++;
+      total++;
+      version++;
+    },
+    pushInterleaved(values, count, stride, timestamps) {
+      const fallbackTime = timestamps ? 0 : now();
+      for (let i = 0; i < count; i++) {
+        const base = i * stride;
+        const t = writeTime(timestamps ? timestamps[i]! : fallbackTime);
+        for (let ch = 0; ch < channelCount; ch++) {
+          write(ch, ch < stride ? values[base + ch]! : NaN, t);
+        }
+        head = head + 1 === cap ? 0 : head + 1;
+        total++;
+      }
+      length = Math.min(cap, length + count);
+      version++;
+    },
+    get(ch, i) {
+      return buffers[ch]![indexOf(i)]!;
+    },
+    getTime(i) {
+      return times[indexOf(i)]!;
+    },
+    sessionStatistics(ch) {
+      const s = summaries[ch];
+      return s ? summaryToStatistics(s) : null;
+    },
+    sessionSampleRate(ch) {
+      const s = summaries[ch];
+      return s ? measureSampleRate(s.count, firstTimes[ch]!, lastTimes[ch]!) : null;
+    },
+    latest() {
+      if (length === 0) return null;
+      const idx = indexOf(length - 1);
+      return buffers.map((b) => b[idx]!);
+    },
+    clear() {
+      head = 0;
+      length = 0;
+      total = 0;
+      summaries = Array.from({ length: channelCount }, createRunningSummary);
+      lastTime = -Infinity;
+      firstTimes = new Float64Array(channelCount).fill(NaN);
+      lastTimes = new Float64Array(channelCount).fill(NaN);
+      version++;
+    },
+    resize(capacity) {
+      const nextCap = Math.max(1, Math.floor(capacity));
+      if (nextCap === cap) return;
+      const keep = Math.min(length, nextCap);
+      const next = buffers.map((b) => {
+        const nb = new Float64Array(nextCap);
+        for (let i = 0; i < keep; i++) {
+          nb[i] = b[indexOf(length - keep + i)]!;
+        }
+        return nb;
+      });
+      const nextTimes = new Float64Array(nextCap);
+      for (let i = 0; i < keep; i++) {
+        nextTimes[i] = times[indexOf(length - keep + i)]!;
+      }
+      buffers = next;
+      times = nextTimes;
+      cap = nextCap;
+      length = keep;
+      head = keep === nextCap ? 0 : keep;
+      version++;
+    },
+  };
+}
+
+/** source が保持しているサンプル（値・受信時刻）を、同じ保持数の新しい store に複製する */
+export function cloneSampleStore(source: SampleStore): SampleStore {
+  const copy = createSampleStore(source.channelCount, source.capacity);
+  const values: number[] = new Array(source.channelCount);
+  for (let i = 0; i < source.length; i++) {
+    for (let ch = 0; ch < source.channelCount; ch++) values[ch] = source.get(ch, i);
+    copy.push(values, source.getTime(i));
+  }
+  return copy;
+}
@@ -0,0 +1,208 @@
+/**
+ * グラフのスナップショット（SVG / PNG）。Recharts が描いた svg を複製して縦に並べ、
+ * 先頭にチャンネル名・線色・軸の範囲・取得時刻・接続先を書いた注記を付ける
+ * （レポートに貼ったとき画像だけで条件が分かるようにする）。
+ * DOM（XMLSerializer・canvas）を使うためブラウザでのみ動く。
+ */
+import { formatChannelValue, type DisplayChannel } from '../channel/channelPipeline';
+import { downloadBlob, fileTimestamp } from '../file/download';
+
+export type SnapshotFormat = 'svg' | 'png';
+
+/** スナップショットに含める 1 つのグラフ */
+export interface SnapshotPlot {
+  /** Recharts が描いた svg（複製して使う） */
+  svg: SVGSVGElement;
+  /** このグラフに描いているチャンネルと、その縦軸の範囲 */
+  channels: { channel: DisplayChannel; yDomain: [number, number] }[];
+}
+
+export interface ChartSnapshotOptions {
+  title: string;
+  takenAt: Date;
+  /** 横軸の範囲（表示用の文字列） */
+  xRange: string;
+  /** 接続先（ポート・ボーレートなど）を 1 行ずつ */
+  connection: readonly string[];
+  plots: SnapshotPlot[];
+}
+
+export interface ChartSnapshot {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const PADDING = 16;
+const LINE_HEIGHT = 18;
+const TITLE_HEIGHT = 24;
+const SWATCH_SIZE = 12;
+const MIN_WIDTH = 480;
+const BACKGROUND = '#fff';
+const TEXT_COLOR = '#213547';
+const FONT_FAMILY = 'system-ui, -apple-system, sans-serif';
+
+/** PNG の解像度（CSS px に対する倍率） */
+const PNG_SCALE = 2;
+
+function createSvgElement<K extends keyof SVGElementTagNameMap>(
+  tag: K,
+  attributes: Record<string, string | number>
+): SVGElementTagNameMap[K] {
+  const el = document.createElementNS(SVG_NS, tag);
+  for (const [name, value] of Object.entries(attributes)) el.setAttribute(name, String(value));
+  return el;
+}
+
+function createText(
+  x: number,
+  y: number,
+  text: string,
+  attributes: Record<string, string | number> = {}
+): SVGTextElement {
+  const el = createSvgElement('text', { x, y, fill: TEXT_COLOR, ...attributes });
+  el.textContent = text;
+  return el;
+}
+
+/** 「名前 [単位]」の形の表示名 */
+function channelTitle(channel: DisplayChannel): string {
+  return channel.unit !== '' ? `${channel.label} [${channel.unit}]` : channel.label;
+}
+
+function formatYDomain(channel: DisplayChannel, [min, max]: [number, number]): string {
+  const unit = channel.unit !== '' ? ` ${channel.unit}` : '';
+  const format = (v: number) => formatChannelValue(v, channel.precision);
+  return `縦軸 ${format(min)} 〜 ${format(max)}${unit}`;
+}
+
+/** 描画中の svg の大きさ（属性がなければ画面上の大きさ） */
+function svgSize(svg: SVGSVGElement): { width: number; height: number } {
+  const rect = svg.getBoundingClientRect();
+  return {
+    width: Number(svg.getAttribute('width')) || rect.width,
+    height: Number(svg.getAttribute('height')) || rect.height,
+  };
+}
+
+/** 注記とグラフを 1 枚の svg にまとめる */
+export function buildChartSnapshot(options: ChartSnapshotOptions): ChartSnapshot {
+  const { title, takenAt, xRange, connection, plots } = options;
+  const sizes = plots.map((p) => svgSize(p.svg));
+  const width = Math.ceil(Math.max(MIN_WIDTH, ...sizes.map((s) => s.width + PADDING * 2)));
+  const root = createSvgElement('svg', {
+    xmlns: SVG_NS,
+    width,
+    'font-family': FONT_FAMILY,
+    'font-size': 13,
+  });
+  const background = createSvgElement('rect', { x: 0, y: 0, width, fill: BACKGROUND });
+  root.appendChild(background);
+
+  let y = PADDING + 16;
+  root.appendChild(createText(PADDING, y, title, { 'font-size': 16, 'font-weight': 600 }));
+  y += TITLE_HEIGHT;
+  const lines = [
+    `取得時刻: ${takenAt.toLocaleString()}`,
+    ...(connection.length > 0 ? connection.map((c) => `接続: ${c}`) : ['接続: なし']),
+    `横軸: ${xRange}`,
+  ];
+  for (const line of lines) {
+    root.appendChild(createText(PADDING, y, line));
+    y += LINE_HEIGHT;
+  }
+  // チャンネルごとに線色の見本・名前・縦軸の範囲
+  for (const { channel, yDomain } of plots.flatMap((p) => p.channels)) {
+    root.appendChild(
+      createSvgElement('rect', {
+        x: PADDING,
+        y: y - SWATCH_SIZE + 2,
+        width: SWATCH_SIZE,
+        height: SWATCH_SIZE,
+        fill: channel.color,
+      })
+    );
+    root.appendChild(
+      createText(
+        PADDING + SWATCH_SIZE + 6,
+        y,
+        `${channelTitle(channel)}　${formatYDomain(channel, yDomain)}`
+      )
+    );
+    y += LINE_HEIGHT;
+  }
+
+  plots.forEach((plot, i) => {
+    const size = sizes[i]!;
+    y += PADDING / 2;
+    // 複数のグラフを並べるときは、1 チャンネルのグラフの見出しに名前を付ける
+    // （重ね表示は上の一覧が凡例になる）
+    const single = plot.channels.length === 1 ? plot.channels[0]!.channel : null;
+    if (single && plots.length > 1) {
+      y += LINE_HEIGHT;
+      root.appendChild(
+        createText(PADDING, y, channelTitle(single), { 'font-size': 15, 'font-weight': 600 })
+      );
+      y += 4;
+    }
+    const style = getComputedStyle(plot.svg);
+    const clone = plot.svg.cloneNode(true) as SVGSVGElement;
+    clone.removeAttribute('style');
+    clone.setAttribute('x', String(PADDING));
+    clone.setAttribute('y', String(y));
+    clone.setAttribute('width', String(size.width));
+    clone.setAttribute('height', String(size.height));
+    // 画面では CSS から継承している文字の大きさを svg 単体でも保つ
+    if (style.fontSize) clone.setAttribute('font-size', style.fontSize);
+    root.appendChild(clone);
+    y += size.height;
+  });
+
+  const height = Math.ceil(y + PADDING);
+  root.setAttribute('height', String(height));
+  root.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  background.setAttribute('height', String(height));
+  return { svg: new XMLSerializer().serializeToString(root), width, height };
+}
+
+/** svg の文字列を PNG にする（scale 倍の解像度で描く） */
+export function renderSnapshotPng(snapshot: ChartSnapshot, scale = PNG_SCALE): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([snapshot.svg], { type: 'image/svg+xml' }));
+  return new Promise<Blob>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(snapshot.width * scale);
+      canvas.height = Math.round(snapshot.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('PNG の描画に canvas が使えません'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, snapshot.width, snapshot.height);
+      canvas.toBlob((blob) => {
+        if (blob) resolve(blob);
+        else reject(new Error('PNG に変換できませんでした'));
+      }, 'image/png');
+    };
+    image.onerror = () => reject(new Error('グラフの画像を読み込めませんでした'));
+    image.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+/** スナップショットを作ってダウンロードさせる（ファイル名は fileBase-日時.svg / .png） */
+export async function downloadChartSnapshot(
+  options: ChartSnapshotOptions,
+  format: SnapshotFormat,
+  fileBase: string
+): Promise<void> {
+  const snapshot = buildChartSnapshot(options);
+  const fileName = `${fileBase}-${fileTimestamp(options.takenAt)}.${format}`;
+  if (format === 'svg') {
+    downloadBlob(new Blob([snapshot.svg], { type: 'image/svg+xml' }), fileName);
+    return;
+  }
+  downloadBlob(await renderSnapshotPng(snapshot), fileName);
+}
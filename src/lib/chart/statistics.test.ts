@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createSampleStore } from './sampleStore';
+import {
+  addToSummary,
+  computeStatistics,
+  createRunningSummary,
+  measureSampleRate,
+  measureStoreSampleRate,
+  summaryToStatistics,
+} from './statistics';
+
+describe('RunningSummary', () => {
+  it('最小・最大・平均・RMS・母標準偏差・p-p を求める', () => {
+    const s = createRunningSummary();
+    for (const v of [2, 4, 4, 4, 5, 5, 7, 9]) addToSummary(s, v);
+    const stats = summaryToStatistics(s)!;
+    expect(stats).toMatchObject({ count: 8, min: 2, max: 9, mean: 5, std: 2, peakToPeak: 7 });
+    expect(stats.rms).toBeCloseTo(Math.sqrt(232 / 8));
+  });
+
+  it('NaN・Infinity は数えない', () => {
+    const s = createRunningSummary();
+    for (const v of [NaN, 1, Infinity, 3]) addToSummary(s, v);
+    expect(summaryToStatistics(s)).toMatchObject({ count: 2, mean: 2 });
+  });
+
+  it('値がなければ null', () => {
+    expect(summaryToStatistics(createRunningSummary())).toBeNull();
+  });
+
+  it('大きなオフセットに小さな変動が乗っても分散が桁落ちしない（Welford 法）', () => {
+    const s = createRunningSummary();
+    for (let i = 0; i < 1000; i++) addToSummary(s, 1e9 + (i % 2 === 0 ? -1 : 1));
+    const stats = summaryToStatistics(s)!;
+    expect(stats.mean).toBe(1e9);
+    expect(stats.std).toBeCloseTo(1, 9);
+  });
+});
+
+describe('computeStatistics', () => {
+  it('store の [from, to) だけを集計する', () => {
+    const store = createSampleStore(1, 10);
+    for (const v of [100, 1, 2, 3, 100]) store.push([v], 0);
+    expect(computeStatistics(store, 0, 1, 4)).toMatchObject({ count: 3, min: 1, max: 3, mean: 2 });
+    expect(computeStatistics(store, 0, 2, 2)).toBeNull();
+  });
+});
+
+describe('measureSampleRate', () => {
+  it('(点数 - 1) / 時間幅 から samples/s を求める', () => {
+    expect(measureSampleRate(11, 0, 100)).toBe(100);
+  });
+
+  it('2 点未満・時間幅 0 では null', () => {
+    expect(measureSampleRate(1, 0, 100)).toBeNull();
+    expect(measureSampleRate(5, 10, 10)).toBeNull();
+  });
+
+  it('store が保持している範囲の時刻から求める', () => {
+    const store = createSampleStore(1, 10);
+    for (let i = 0; i < 5; i++) store.push([i], 1000 + i * 2);
+    expect(measureStoreSampleRate(store, 0)).toBe(500);
+  });
+
+  it('欠損の行は数えず、チャンネルごとに有効な値の時刻から求める', () => {
+    const store = createSampleStore(2, 10);
+    for (let i = 0; i < 9; i++) store.push(i % 2 === 0 ? [i, NaN] : [NaN, i], i);
+    // ch0 は 0, 2, …, 8ms の 5 点、ch1 は 1, 3, 5, 7ms の 4 点
+    expect(measureStoreSampleRate(store, 0)).toBe(500);
+    expect(measureStoreSampleRate(store, 1)).toBe(500);
+    store.push([NaN, NaN], 100);
+    expect(measureStoreSampleRate(store, 0)).toBe(500);
+  });
+
+  it('[from, to) の範囲だけで求める', () => {
+    const store = createSampleStore(1, 10);
+    // 前半 5 点は 2ms 間隔、後半 5 点は 10ms 間隔
+    for (let i = 0; i < 5; i++) store.push([i], i * 2);
+    for (let i = 0; i < 5; i++) store.push([i], 100 + i * 10);
+    expect(measureStoreSampleRate(store, 0, 0, 5)).toBe(500);
+    expect(measureStoreSampleRate(store, 0, 5)).toBe(100);
+    expect(measureStoreSampleRate(store, 0, 4, 5)).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * チャンネルごとの統計（最小・最大・平均・RMS・標準偏差・p-p）とサンプルレート。
+ * 表示範囲は SampleStore を走査して求め、セッション全体は追加のたびに更新する RunningSummary から求める。
+ * 分散は桁落ちを避けるため Welford 法で積算する。
+ */
+import type { SampleStore } from './sampleStore';
+
+export interface ChannelStatistics {
+  /** 集計に使ったサンプル数（NaN を除く） */
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  rms: number;
+  /** 母標準偏差 */
+  std: number;
+  peakToPeak: number;
+}
+
+/** 追加のたびに O(1) で更新できる集計値 */
+export interface RunningSummary {
+  count: number;
+  mean: number;
+  /** 平均からの偏差の二乗和（Welford 法） */
+  m2: number;
+  sumSquares: number;
+  min: number;
+  max: number;
+}
+
+export function createRunningSummary(): RunningSummary {
+  return { count: 0, mean: 0, m2: 0, sumSquares: 0, min: Infinity, max: -Infinity };
+}
+
+/** 値を 1 つ積算する。NaN（欠損）は無視する */
+export function addToSummary(s: RunningSummary, v: number): void {
+  if (!Number.isFinite(v)) return;
+  s.count++;
+  const delta = v - s.mean;
+  s.mean += delta / s.count;
+  s.m2 += delta * (v - s.mean);
+  s.sumSquares += v * v;
+  if (v < s.min) s.min = v;
+  if (v > s.max) s.max = v;
+}
+
+export function summaryToStatistics(s: RunningSummary): ChannelStatistics | null {
+  if (s.count === 0) return null;
+  return {
+    count: s.count,
+    min: s.min,
+    max: s.max,
+    mean: s.mean,
+    rms: Math.sqrt(s.sumSquares / s.count),
+    std: Math.sqrt(s.m2 / s.count),
+    peakToPeak: s.max - s.min,
+  };
+}
+
+/** store の [from, to)（省略時は保持している全体）のチャンネル ch の統計。有効な値がなければ null */
+export function computeStatistics(
+  store: SampleStore,
+  ch: number,
+  from = 0,
+  to = store.length
+): ChannelStatistics | null {
+  const s = createRunningSummary();
+  const end = Math.min(store.length, to);
+  for (let i = Math.max(0, from); i < end; i++) addToSummary(s, store.get(ch, i));
+  return summaryToStatistics(s);
+}
+
+/** 受信時刻から求めたサンプルレート（samples/s）。2 点未満・時間幅 0 なら null */
+export function measureSampleRate(count: number, firstTime: number, lastTime: number): number | null {
+  const span = lastTime - firstTime;
+  if (count < 2 || !(span > 0)) return null;
+  return ((count - 1) * 1000) / span;
+}
+
+/**
+ * store の [from, to)（省略時は保持している全体）でのチャンネル ch のサンプルレート。
+ * 欠損（NaN）の行は数えず、有効な値の最初と最後の時刻から求める（複数デバイスの行が混ざっても正しい）
+ */
+export function measureStoreSampleRate(
+  store: SampleStore,
+  ch: number,
+  from = 0,
+  to = store.length
+): number | null {
+  let count = 0;
+  let firstTime = NaN;
+  let lastTime = NaN;
+  const end = Math.min(store.length, to);
+  for (let i = Math.max(0, from); i < end; i++) {
+    if (!Number.isFinite(store.get(ch, i))) continue;
+    if (count === 0) firstTime = store.getTime(i);
+    lastTime = store.getTime(i);
+    count++;
+  }
+  return measureSampleRate(count, firstTime, lastTime);
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { createSampleStore } from './sampleStore';
+import {
+  clockTickPhase,
+  EMPTY_TIME_SPAN_MS,
+  formatClock,
+  formatSeconds,
+  timeDomainIndexRange,
+  timeTicks,
+  timeTickStep,
+  timeXDomain,
+  toTimePoints,
+} from './timeAxis';
+
+/** 時刻 times（epoch ms）に 1 点ずつの store */
+function storeAt(times: number[]) {
+  const store = createSampleStore(1, times.length);
+  times.forEach((t, i) => store.push([i], t));
+  return store;
+}
+
+describe('timeTickStep', () => {
+  it('目盛りの本数以下になる、区切りのよい最小の間隔', () => {
+    expect(timeTickStep(1000, 6)).toBe(200);
+    expect(timeTickStep(1001, 6)).toBe(500);
+    expect(timeTickStep(0.3, 6)).toBe(0.1);
+    // 1 分を超えると秒・分の区切り
+    expect(timeTickStep(100_000, 6)).toBe(30_000);
+    expect(timeTickStep(4 * 3_600_000, 6)).toBe(3_600_000);
+  });
+
+  it('候補より広ければ最大の間隔（1 日）', () => {
+    expect(timeTickStep(1e12, 6)).toBe(86_400_000);
+  });
+});
+
+describe('timeTicks', () => {
+  it('domain の中の step の倍数', () => {
+    expect(timeTicks([-1000, 0], 200)).toEqual([-1000, -800, -600, -400, -200, 0]);
+    expect(timeTicks([-950, -10], 500)).toEqual([-500]);
+  });
+
+  it('x + phase が step の倍数になる位置', () => {
+    expect(timeTicks([0, 1000], 500, 200)).toEqual([300, 800]);
+  });
+
+  it('目盛りは多くても 100 本', () => {
+    expect(timeTicks([0, 1e9], 1)).toHaveLength(100);
+  });
+});
+
+describe('clockTickPhase', () => {
+  it('時計の軸の目盛りが地方時の毎分 0 秒・毎時 0 分にそろう', () => {
+    const origin = new Date(2024, 0, 31, 12, 34, 56, 789).getTime();
+    const phase = clockTickPhase(origin);
+    const domain: [number, number] = [-3 * 3_600_000, 0];
+    for (const tick of timeTicks(domain, 60_000, phase)) {
+      const date = new Date(origin + tick);
+      expect([date.getSeconds(), date.getMilliseconds()]).toEqual([0, 0]);
+    }
+    const hours = timeTicks(domain, 3_600_000, phase).map((t) => new Date(origin + t));
+    expect(hours.map((d) => d.getHours())).toEqual([10, 11, 12]);
+    expect(hours.every((d) => d.getMinutes() === 0)).toBe(true);
+  });
+});
+
+describe('時刻とサンプル番号の対応', () => {
+  it('timeXDomain は全サンプルの時刻を origin からの ms にする', () => {
+    expect(timeXDomain(storeAt([1000, 1500, 3000]), 3000)).toEqual([-2000, 0]);
+    expect(timeXDomain(storeAt([1000]), 1000)).toEqual([-EMPTY_TIME_SPAN_MS, 0]);
+  });
+
+  it('timeDomainIndexRange は範囲の外側の 1 点ずつを含める', () => {
+    const store = storeAt([0, 10, 20, 30, 40, 50]);
+    expect(timeDomainIndexRange(store, 50, [-35, -15])).toEqual([1, 5]);
+    expect(timeDomainIndexRange(store, 50, [-100, 100])).toEqual([0, 6]);
+  });
+
+  it('toTimePoints は間隔が不揃いでも各点をその時刻に置く', () => {
+    const store = storeAt([0, 1, 10]);
+    const points = toTimePoints(
+      [
+        { x: 0, value: 1 },
+        { x: 2, value: 3 },
+      ],
+      store,
+      10
+    );
+    expect(points.map((p) => p.x)).toEqual([-10, 0]);
+  });
+});
+
+describe('formatSeconds / formatClock', () => {
+  it('目盛りの間隔で区別できる桁まで', () => {
+    expect(formatSeconds(-1500, 500)).toBe('-1.5');
+    expect(formatSeconds(-0.04, 100)).toBe('0.0');
+    const t = new Date(2024, 0, 31, 9, 5, 7, 250).getTime();
+    expect(formatClock(t, 100)).toBe('09:05:07.2');
+    expect(formatClock(t, 1000)).toBe('09:05:07');
+    expect(formatClock(t, 60_000)).toBe('09:05');
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * 波形グラフの横軸の単位。サンプル番号のほか、各サンプルの時刻（受信時刻またはデバイス時刻）から
+ * 相対時間（秒）・時刻でも描く。時間の軸では x は基準時刻（最新のサンプルまたはトリガー点）からの ms で、
+ * サンプルの間隔が不揃いでも実際の時刻の位置に点を置く。拡大・パン・カーソルはどの単位でも x のまま扱う。
+ */
+import type { ChartPoint } from './downsample';
+import type { SampleStore } from './sampleStore';
+import type { XDomain } from './viewport';
+
+/** index はサンプル番号、relative は基準時刻からの秒、clock は時計の時刻 */
+export type XAxisMode = 'index' | 'relative' | 'clock';
+
+export const X_AXIS_MODE_LABELS: Record<XAxisMode, string> = {
+  index: 'サンプル番号',
+  relative: '相対時間（秒）',
+  clock: '時刻',
+};
+
+/** 時間の軸で、サンプルが 1 点以下のときに表示する幅（ms） */
+export const EMPTY_TIME_SPAN_MS = 1000;
+
+/** 時間の軸でこれより狭くは拡大しない（ms） */
+export const MIN_TIME_SPAN_MS = 1;
+
+/** 目盛りの間隔の候補（ms）。1・2・5 刻みと、秒・分・時の区切りのよい値 */
+const TIME_TICK_STEPS = [
+  0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50, 100, 200, 500, 1_000, 2_000, 5_000,
+  10_000, 15_000, 30_000, 60_000, 120_000, 300_000, 600_000, 900_000, 1_800_000, 3_600_000,
+  7_200_000, 10_800_000, 21_600_000, 43_200_000, 86_400_000,
+];
+
+/** 目盛りが多くなりすぎたときの上限（無限ループ防止） */
+const MAX_TICKS = 100;
+
+/** store の全サンプルの時刻を origin からの ms にした範囲 */
+export function timeXDomain(store: SampleStore, origin: number): XDomain {
+  if (store.length < 2) return [-EMPTY_TIME_SPAN_MS, 0];
+  const first = store.getTime(0) - origin;
+  const last = store.getTime(store.length - 1) - origin;
+  return last > first ? [first, last] : [last - EMPTY_TIME_SPAN_MS, last];
+}
+
+/** 時刻が origin + x 以上になる最初のサンプル番号（時刻は古い方から順に並んでいる前提） */
+function firstIndexAtOrAfter(store: SampleStore, origin: number, x: number): number {
+  let lo = 0;
+  let hi = store.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (store.getTime(mid) - origin < x) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * 時間の軸の表示範囲に掛かるサンプル番号の [from, to)（間引き・統計の対象）。
+ * 線が表示範囲の端まで届くよう、範囲のすぐ外側の 1 点ずつも含める
+ */
+export function timeDomainIndexRange(
+  store: SampleStore,
+  origin: number,
+  domain: XDomain
+): [number, number] {
+  const from = Math.max(0, firstIndexAtOrAfter(store, origin, domain[0]) - 1);
+  const to = Math.min(store.length, firstIndexAtOrAfter(store, origin, domain[1]) + 1);
+  return [from, Math.max(from, to)];
+}
+
+/** buildMinMaxSeries の点の x（サンプル番号）を origin からの ms に置き換える（points を書き換える） */
+export function toTimePoints(
+  points: ChartPoint[],
+  store: SampleStore,
+  origin: number
+): ChartPoint[] {
+  for (const p of points) p.x = store.getTime(p.x) - origin;
+  return points;
+}
+
+/** 幅 span（ms）を目盛り maxTicks 本以下で刻む間隔 */
+export function timeTickStep(span: number, maxTicks: number): number {
+  const intervals = Math.max(1, maxTicks - 1);
+  return (
+    TIME_TICK_STEPS.find((step) => span / step <= intervals) ??
+    TIME_TICK_STEPS[TIME_TICK_STEPS.length - 1]!
+  );
+}
+
+/** domain の中で x + phase が step の倍数になる位置（目盛り） */
+export function timeTicks(domain: XDomain, step: number, phase = 0): number[] {
+  const ticks: number[] = [];
+  const first = Math.ceil((domain[0] + phase) / step);
+  for (let k = first; ticks.length < MAX_TICKS; k++) {
+    const x = k * step - phase;
+    if (x > domain[1]) break;
+    ticks.push(x);
+  }
+  return ticks;
+}
+
+/** 時計の時刻の目盛りを地方時の区切り（毎分 0 秒・毎時 0 分など）にそろえるための phase */
+export function clockTickPhase(origin: number): number {
+  return origin - new Date(origin).getTimezoneOffset() * 60_000;
+}
+
+/** 目盛りの間隔 step（ms）で区別できる小数点以下の桁数（秒単位） */
+function secondDigits(step: number): number {
+  return step >= 1000 ? 0 : Math.ceil(-Math.log10(step / 1000) - 1e-9);
+}
+
+/** ms を秒で表示する（桁数は目盛りの間隔に合わせる） */
+export function formatSeconds(ms: number, step: number): string {
+  const digits = secondDigits(step);
+  const text = (ms / 1000).toFixed(digits);
+  // -0.0 のような表示にしない
+  return Number(text) === 0 ? (0).toFixed(digits) : text;
+}
+
+/** epoch ms を地方時の HH:MM:SS（間隔が 1 秒未満ならミリ秒まで、1 分以上なら HH:MM）で表示する */
+export function formatClock(epochMs: number, step: number): string {
+  const date = new Date(epochMs);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const hm = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  if (step >= 60_000) return hm;
+  const digits = Math.min(3, secondDigits(step));
+  const fraction = digits > 0 ? `.${pad(date.getMilliseconds(), 3).slice(0, digits)}` : '';
+  return `${hm}:${pad(date.getSeconds())}${fraction}`;
+}
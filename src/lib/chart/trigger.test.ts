@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { createSampleStore, type SampleStore } from './sampleStore';
+import { createTrigger, type Trigger, type TriggerSettings } from './trigger';
+
+const SETTINGS: TriggerSettings = {
+  mode: 'normal',
+  channel: 0,
+  edge: 'rising',
+  level: 0.5,
+  preTriggerPercent: 25,
+};
+
+/** 空の store に trigger をつなぐ（つないだ時点より前のサンプルは走査しない） */
+function attach(trigger: Trigger): SampleStore {
+  const source = createSampleStore(1, 100);
+  trigger.update(source);
+  return source;
+}
+
+function pushAll(store: SampleStore, values: readonly number[]): void {
+  for (const v of values) store.push([v], store.total);
+}
+
+function captured(store: SampleStore): number[] {
+  return Array.from({ length: store.length }, (_, i) => store.get(0, i));
+}
+
+describe('createTrigger', () => {
+  it('立ち上がりでトリガーし、プリトリガー分を含む 1 画面分を取り込む', () => {
+    const trigger = createTrigger(SETTINGS, 8);
+    const source = attach(trigger);
+    pushAll(source, [0, 0, 0, 0, 1, 1, 1]);
+    expect(trigger.update(source)).toBe(true);
+    expect(trigger.state).toBe('capturing');
+    expect(trigger.capture).toBeNull();
+
+    pushAll(source, [2, 3, 4, 5]);
+    trigger.update(source);
+    expect(trigger.state).toBe('armed');
+    const capture = trigger.capture!;
+    // 8 点のうち 2 点（25 %）がトリガー点より前
+    expect(captured(capture.store)).toEqual([0, 0, 1, 1, 1, 2, 3, 4]);
+    expect(capture.triggerIndex).toBe(2);
+    expect(capture.store.getTime(capture.triggerIndex)).toBe(4);
+  });
+
+  it('立ち下がりの指定では立ち上がりに反応しない', () => {
+    const trigger = createTrigger({ ...SETTINGS, edge: 'falling' }, 4);
+    const source = attach(trigger);
+    pushAll(source, [0, 1, 1]);
+    trigger.update(source);
+    expect(trigger.state).toBe('armed');
+    pushAll(source, [0, 0, 0, 0]);
+    trigger.update(source);
+    expect(trigger.capture?.triggerIndex).toBe(1);
+  });
+
+  it('Single は 1 回取り込んだら held のまま、arm で再びトリガー待ちになる', () => {
+    const trigger = createTrigger({ ...SETTINGS, mode: 'single', preTriggerPercent: 0 }, 2);
+    const source = attach(trigger);
+    pushAll(source, [0, 1, 1, 0, 1, 1]);
+    trigger.update(source);
+    expect(trigger.state).toBe('held');
+    const first = trigger.capture;
+    pushAll(source, [0, 1, 1]);
+    trigger.update(source);
+    expect(trigger.capture).toBe(first);
+
+    trigger.arm();
+    expect(trigger.capture).toBeNull();
+    pushAll(source, [0, 1, 1]);
+    trigger.update(source);
+    expect(trigger.state).toBe('held');
+    expect(trigger.capture).not.toBe(first);
+  });
+
+  it('Auto はトリガーしないまま 1 画面分が過ぎたらフリーランにする', () => {
+    const trigger = createTrigger({ ...SETTINGS, mode: 'auto' }, 4);
+    const source = attach(trigger);
+    pushAll(source, [0, 0, 0]);
+    trigger.update(source);
+    expect(trigger.freeRunning).toBe(false);
+    pushAll(source, [0, 0]);
+    expect(trigger.update(source)).toBe(true);
+    expect(trigger.freeRunning).toBe(true);
+    pushAll(source, [1, 1, 1, 1]);
+    trigger.update(source);
+    expect(trigger.freeRunning).toBe(false);
+  });
+
+  it('欠損（他のデバイスの行）を飛ばして直前の有効な値と比べる', () => {
+    const trigger = createTrigger({ ...SETTINGS, preTriggerPercent: 0 }, 2);
+    const source = attach(trigger);
+    pushAll(source, [0, NaN, NaN, 1, NaN, 2]);
+    trigger.update(source);
+    expect(captured(trigger.capture!.store)).toEqual([1, NaN]);
+  });
+
+  it('off ではなにもしない', () => {
+    const trigger = createTrigger({ ...SETTINGS, mode: 'off' }, 2);
+    const source = createSampleStore(1, 100);
+    pushAll(source, [0, 1, 1]);
+    expect(trigger.update(source)).toBe(false);
+    expect(trigger.capture).toBeNull();
+  });
+
+  it('つなぐ前に追加されていたサンプルではトリガーしない', () => {
+    const source = createSampleStore(1, 100);
+    pushAll(source, [0, 1, 1]);
+    const trigger = createTrigger(SETTINGS, 2);
+    trigger.update(source);
+    expect(trigger.state).toBe('armed');
+  });
+
+  it('表示元が作り直されたら取り込み中の分を捨ててトリガー待ちに戻る', () => {
+    const trigger = createTrigger(SETTINGS, 8);
+    const first = attach(trigger);
+    pushAll(first, [0, 1]);
+    trigger.update(first);
+    expect(trigger.state).toBe('capturing');
+    const second = createSampleStore(1, 100);
+    pushAll(second, [1, 1]);
+    trigger.update(second);
+    expect(trigger.state).toBe('armed');
+  });
+});
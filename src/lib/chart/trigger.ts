@@ -0,0 +1,165 @@
+/**
+ * オシロスコープ風のトリガー。表示元の SampleStore に追加されたサンプルを毎フレーム走査し、
+ * 指定チャンネルがレベルを指定方向に横切った点を基準に、プリトリガー分を含む 1 画面分を取り込む。
+ * 取り込んだ波形は別の SampleStore に複製して保持するため、元の履歴が流れても画面上に残る。
+ */
+import { createSampleStore, type SampleStore } from './sampleStore';
+
+/** off はトリガーなし（連続スクロール） */
+export type TriggerMode = 'off' | 'auto' | 'normal' | 'single';
+
+export type TriggerEdge = 'rising' | 'falling';
+
+export const TRIGGER_MODE_LABELS: Record<TriggerMode, string> = {
+  off: 'なし（スクロール）',
+  auto: 'Auto',
+  normal: 'Normal',
+  single: 'Single',
+};
+
+export interface TriggerSettings {
+  mode: TriggerMode;
+  /** トリガーを掛けるチャンネル */
+  channel: number;
+  edge: TriggerEdge;
+  /** しきい値（換算後の値） */
+  level: number;
+  /** 画面のうちトリガー点より前を表示する割合（0〜100 %） */
+  preTriggerPercent: number;
+}
+
+/**
+ * armed … トリガー待ち / capturing … トリガー後の取り込み中 /
+ * held … Single で取り込み完了（再アームまで保持）
+ */
+export type TriggerState = 'armed' | 'capturing' | 'held';
+
+export interface TriggerCapture {
+  /** 取り込んだ 1 画面分の波形（length が windowSize に達したら完了） */
+  store: SampleStore;
+  /** store 内でのトリガー点のインデックス */
+  triggerIndex: number;
+}
+
+export interface Trigger {
+  readonly state: TriggerState;
+  /** 表示中の取り込み波形。Normal / Auto では次の取り込みが完了するまで前回分を返す */
+  readonly capture: TriggerCapture | null;
+  /**
+   * Auto でトリガーが来ないため、元の履歴をそのまま表示すべきとき true。
+   * 直近 1 画面分のサンプルが来る間トリガーしなかった場合に立つ
+   */
+  readonly freeRunning: boolean;
+  /** source に追加された分を走査する。表示が変わったら true */
+  update(source: SampleStore): boolean;
+  /** 取り込みを破棄してトリガー待ちに戻す */
+  arm(): void;
+}
+
+/** 前のサンプル a から b への変化が、指定方向にレベルを横切ったか */
+function crosses(a: number, b: number, level: number, edge: TriggerEdge): boolean {
+  return edge === 'rising' ? a < level && b >= level : a > level && b <= level;
+}
+
+export function createTrigger(settings: TriggerSettings, windowSize: number): Trigger {
+  const preSamples = Math.min(
+    windowSize - 1,
+    Math.max(0, Math.round((windowSize * settings.preTriggerPercent) / 100))
+  );
+  let state: TriggerState = 'armed';
+  /** 完了済みで表示中の取り込み */
+  let shown: TriggerCapture | null = null;
+  /** 取り込み中（未完了）の波形 */
+  let pending: TriggerCapture | null = null;
+  /** 次に走査する絶対サンプル番号（source.total 基準） */
+  let scanned = -1;
+  let prev = NaN;
+  /** armed になってから走査したサンプル数（Auto のフリーラン判定用） */
+  let sinceArmed = 0;
+  let lastSource: SampleStore | null = null;
+
+  const copyRange = (source: SampleStore, target: SampleStore, from: number, to: number): void => {
+    const first = source.total - source.length;
+    const values: number[] = new Array(source.channelCount);
+    for (let n = Math.max(from, first); n < to; n++) {
+      for (let ch = 0; ch < source.channelCount; ch++) values[ch] = source.get(ch, n - first);
+      target.push(values, source.getTime(n - first));
+    }
+  };
+
+  const trigger: Trigger = {
+    get state() {
+      return state;
+    },
+    get capture() {
+      return shown;
+    },
+    get freeRunning() {
+      return settings.mode === 'auto' && state === 'armed' && sinceArmed >= windowSize;
+    },
+    update(source) {
+      if (settings.mode === 'off' || settings.channel >= source.channelCount) return false;
+      const first = source.total - source.length;
+      // 表示元が作り直された・クリアされたら最初からやり直す
+      if (source !== lastSource || scanned > source.total) {
+        lastSource = source;
+        scanned = source.total;
+        prev = source.length > 0 ? source.get(settings.channel, source.length - 1) : NaN;
+        pending = null;
+        if (state === 'capturing') state = 'armed';
+      }
+      if (scanned < first) {
+        // 1 フレームの間に保持数を超えて追加された分は走査できない
+        scanned = first;
+        prev = NaN;
+      }
+      const before = { state, shown, freeRunning: trigger.freeRunning };
+      const end = source.total;
+
+      while (scanned < end) {
+        if (state === 'held') {
+          scanned = end;
+          break;
+        }
+        if (state === 'capturing' && pending) {
+          const need = windowSize - pending.store.length;
+          const to = Math.min(end, scanned + need);
+          copyRange(source, pending.store, scanned, to);
+          scanned = to;
+          if (pending.store.length >= windowSize) {
+            shown = pending;
+            pending = null;
+            state = settings.mode === 'single' ? 'held' : 'armed';
+            sinceArmed = 0;
+            prev = source.get(settings.channel, scanned - 1 - first);
+          }
+          continue;
+        }
+        // armed: レベルを横切る点を探す
+        const v = source.get(settings.channel, scanned - first);
+        sinceArmed++;
+        if (Number.isFinite(prev) && Number.isFinite(v) && crosses(prev, v, settings.level, settings.edge)) {
+          const store = createSampleStore(source.channelCount, windowSize);
+          const from = scanned - preSamples;
+          copyRange(source, store, from, scanned);
+          pending = { store, triggerIndex: store.length };
+          state = 'capturing';
+        }
+        // 欠損（複数デバイス時は他のデバイスの行）は飛ばし、直前の有効な値と比べる
+        if (Number.isFinite(v)) prev = v;
+        if (state !== 'capturing') scanned++;
+      }
+      return (
+        before.state !== state || before.shown !== shown || before.freeRunning !== trigger.freeRunning
+      );
+    },
+    arm() {
+      state = 'armed';
+      shown = null;
+      pending = null;
+      sinceArmed = 0;
+      prev = NaN;
+    },
+  };
+  return trigger;
+}
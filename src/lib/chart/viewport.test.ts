@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  clampXDomain,
+  fullXDomain,
+  isFullXDomain,
+  MIN_X_SPAN,
+  panXDomain,
+  xDomainIndexRange,
+  zoomXDomain,
+  zoomYDomain,
+} from './viewport';
+
+const FULL = fullXDomain(1001);
+
+describe('fullXDomain / isFullXDomain', () => {
+  it('履歴全体はサンプル番号 0 から historyLength - 1', () => {
+    expect(FULL).toEqual([0, 1000]);
+    expect(fullXDomain(0)).toEqual([0, 1]);
+  });
+
+  it('full を覆っていれば全体表示', () => {
+    expect(isFullXDomain([0, 1000], FULL)).toBe(true);
+    expect(isFullXDomain([-5, 1200], FULL)).toBe(true);
+    expect(isFullXDomain([0, 999], FULL)).toBe(false);
+  });
+});
+
+describe('zoomXDomain', () => {
+  it('center の位置を保って幅を factor 倍にする', () => {
+    expect(zoomXDomain([0, 1000], 0.5, FULL, 500)).toEqual([250, 750]);
+    // 左から 1/4 の位置を中心に拡大しても、その位置は左から 1/4 のまま
+    expect(zoomXDomain([200, 600], 0.5, FULL, 300)).toEqual([250, 450]);
+  });
+
+  it('full からはみ出す分は内側に寄せる', () => {
+    expect(zoomXDomain([800, 1000], 2, FULL, 1000)).toEqual([600, 1000]);
+    expect(zoomXDomain([0, 200], 2, FULL, 0)).toEqual([0, 400]);
+  });
+
+  it('full より広くはならない', () => {
+    expect(zoomXDomain([100, 900], 10, FULL)).toEqual([0, 1000]);
+  });
+
+  it('MIN_X_SPAN より狭くは拡大しない', () => {
+    const [from, to] = zoomXDomain([500, 520], 0.01, FULL, 510);
+    expect(to - from).toBe(MIN_X_SPAN);
+    expect(from).toBe(505);
+  });
+});
+
+describe('clampXDomain', () => {
+  it('逆向きの範囲も昇順にして full の内側に収める', () => {
+    expect(clampXDomain([700, 300], FULL)).toEqual([300, 700]);
+    expect(clampXDomain([-100, 200], FULL)).toEqual([0, 200]);
+    expect(clampXDomain([900, 1500], FULL)).toEqual([900, 1000]);
+  });
+
+  it('狭すぎる範囲は中央を保って MIN_X_SPAN に広げ、端では内側に寄せる', () => {
+    expect(clampXDomain([500, 502], FULL)).toEqual([496, 506]);
+    expect(clampXDomain([999, 1000], FULL)).toEqual([990, 1000]);
+  });
+});
+
+describe('panXDomain', () => {
+  it('幅を保ってずらし、full の端で止める', () => {
+    expect(panXDomain([100, 300], 50, FULL)).toEqual([150, 350]);
+    expect(panXDomain([100, 300], -500, FULL)).toEqual([0, 200]);
+    expect(panXDomain([100, 300], 5000, FULL)).toEqual([800, 1000]);
+  });
+});
+
+describe('xDomainIndexRange', () => {
+  it('表示範囲に掛かるサンプル番号を [from, to) で返す', () => {
+    expect(xDomainIndexRange([10.5, 20.2])).toEqual([10, 22]);
+    expect(xDomainIndexRange([-3, 5])).toEqual([0, 6]);
+  });
+});
+
+describe('zoomYDomain', () => {
+  it('center の値の位置を保って factor 倍にする（範囲の制限なし）', () => {
+    expect(zoomYDomain([0, 10], 2)).toEqual([-5, 15]);
+    expect(zoomYDomain([0, 10], 0.5, 0)).toEqual([0, 5]);
+  });
+});
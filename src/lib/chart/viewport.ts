@@ -0,0 +1,70 @@
+/**
+ * 波形グラフの横軸の表示範囲（サンプル番号、時間の軸では基準時刻からの ms）。
+ * 全パネル・重ね表示で 1 つを共有し、拡大・縮小・パンはこの範囲を変えて行う
+ * （間引き・統計もこの範囲だけを対象にする）。
+ * 縦軸の拡大はチャンネルごとの範囲を zoomYDomain で変える。
+ */
+
+/** 横軸の表示範囲 [開始, 終了]（サンプル番号または ms、両端を含む） */
+export type XDomain = readonly [number, number];
+
+/** サンプル番号の軸でこれより狭くは拡大しない（点数。時間の軸は minSpan で指定する） */
+export const MIN_X_SPAN = 10;
+
+/** 履歴長 historyLength 全体を表示する範囲 */
+export function fullXDomain(historyLength: number): XDomain {
+  return [0, Math.max(1, historyLength - 1)];
+}
+
+/** domain が full 全体を表しているか */
+export function isFullXDomain(domain: XDomain, full: XDomain): boolean {
+  return domain[0] <= full[0] && domain[1] >= full[1];
+}
+
+/**
+ * domain の幅を factor 倍（1 未満で拡大）にする。center の画面上の位置は保ち、
+ * full からはみ出す分は内側に寄せる。幅は minSpan より狭くしない。
+ */
+export function zoomXDomain(
+  domain: XDomain,
+  factor: number,
+  full: XDomain,
+  center = (domain[0] + domain[1]) / 2,
+  minSpan = MIN_X_SPAN
+): XDomain {
+  const fullSpan = full[1] - full[0];
+  const span = Math.min(fullSpan, Math.max(minSpan, (domain[1] - domain[0]) * factor));
+  const ratio = (center - domain[0]) / (domain[1] - domain[0] || 1);
+  const start = Math.min(full[1] - span, Math.max(full[0], center - span * ratio));
+  return [start, start + span];
+}
+
+/** 表示範囲に掛かるサンプル番号の [from, to)（間引き・統計の対象） */
+export function xDomainIndexRange(domain: XDomain): [number, number] {
+  return [Math.max(0, Math.floor(domain[0])), Math.ceil(domain[1]) + 1];
+}
+
+/** domain を full の内側に収め、幅を minSpan 以上にする（ドラッグで選んだ範囲用） */
+export function clampXDomain(domain: XDomain, full: XDomain, minSpan = MIN_X_SPAN): XDomain {
+  const lo = Math.max(full[0], Math.min(domain[0], domain[1]));
+  const hi = Math.min(full[1], Math.max(domain[0], domain[1]));
+  const span = Math.min(full[1] - full[0], Math.max(minSpan, hi - lo));
+  const start = Math.min(full[1] - span, Math.max(full[0], (lo + hi) / 2 - span / 2));
+  return [start, start + span];
+}
+
+/** domain を delta（x の単位）だけずらす。full の端で止める */
+export function panXDomain(domain: XDomain, delta: number, full: XDomain): XDomain {
+  const span = domain[1] - domain[0];
+  const start = Math.min(full[1] - span, Math.max(full[0], domain[0] + delta));
+  return [start, start + span];
+}
+
+/** 縦軸の範囲 domain を、値 center の画面上の位置を保って factor 倍にする（範囲の制限なし） */
+export function zoomYDomain(
+  domain: readonly [number, number],
+  factor: number,
+  center = (domain[0] + domain[1]) / 2
+): [number, number] {
+  return [center - (center - domain[0]) * factor, center + (domain[1] - center) * factor];
+}
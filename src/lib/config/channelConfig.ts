@@ -1,13 +1,44 @@
 /**
- * 波形グラフ用チャンネル設定（系統名・線色）。
- * ビルド時に取り込み、WaveformChart で使用する。
+ * 波形グラフ用チャンネル設定（系統名・線色・単位・換算・表示桁数・縦軸レンジ）。
+ * ビルド時に取り込んだ値を既定とし、画面のチャンネル設定で上書きして WaveformChart で使用する
+ * （上書きした内容は settingsStorage で localStorage に保存される）。
  */
+import type { Calibration } from '../channel/calibration';
+import type { PacketSchema } from '../packet/types';
+
+/** 手動の縦軸レンジ */
+export interface YRange {
+  min: number;
+  max: number;
+}
+
+/** 表示桁数（precision）の上限。toFixed に渡すため 0〜この値の整数に限る */
+export const MAX_PRECISION = 10;
 
 export interface ChannelConfig {
   /** 系統名（凡例・タイトル表示用） */
   label: string;
   /** 線の色（CSS 色指定、例: "#1f77b4"） */
   color: string;
+  /** 換算後の単位（例: "V"）。省略時は換算なしなら "count" */
+  unit?: string;
+  /** 受信値から工学単位への換算。省略時は換算しない */
+  calibration?: Calibration;
+  /** 表示する小数点以下の桁数（0〜MAX_PRECISION）。省略時は有効数字 6 桁 */
+  precision?: number;
+  /** オートスケール OFF 時の縦軸レンジ。省略時は値の範囲全体 */
+  yRange?: YRange;
+}
+
+/** 受信チャンネルから式で計算する派生チャンネル（例: "ch0 - ch1"） */
+export interface DerivedChannelConfig {
+  label: string;
+  color: string;
+  /** ch0, ch1 … またはフィールド名で受信チャンネル（換算後の値）を参照する式 */
+  expression: string;
+  unit?: string;
+  precision?: number;
+  yRange?: YRange;
 }
 
 /** ch0～ch3 のデフォルト設定。コンフィグで上書き可能。 */
@@ -17,3 +48,25 @@ export const CHANNEL_CONFIG: ChannelConfig[] = [
   { label: 'ch2', color: '#2ca02c' },
   { label: 'ch3', color: '#d62728' },
 ];
+
+/** CHANNEL_CONFIG に定義のないチャンネルの線色 */
+const FALLBACK_COLORS = ['#9467bd', '#8c564b', '#e377c2', '#7f7f7f', '#bcbd22', '#17becf'];
+
+/** index 番目の予備の線色（派生チャンネルの既定色にも使う） */
+export function fallbackColor(index: number): string {
+  return FALLBACK_COLORS[index % FALLBACK_COLORS.length] ?? '#888';
+}
+
+/**
+ * スキーマの各フィールドに対応するチャンネル設定を返す。
+ * CHANNEL_CONFIG にある分はそれを使い、それ以降はフィールド名と予備の色を割り当てる。
+ */
+export function resolveChannelConfigs(schema: PacketSchema): ChannelConfig[] {
+  return schema.fields.map(
+    (field, i) =>
+      CHANNEL_CONFIG[i] ?? {
+        label: field.name,
+        color: fallbackColor(i - CHANNEL_CONFIG.length),
+      }
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * 選択可能なパケットスキーマ一覧。
+ * ビルド時に取り込み、SerialControl の「スキーマ」プルダウンに表示する。
+ * ボードに合わせてここへ追加する。
+ */
+import { DEFAULT_PACKET_SCHEMA } from '../packet/schema';
+import type { PacketSchema } from '../packet/types';
+
+export const PACKET_SCHEMAS: PacketSchema[] = [
+  DEFAULT_PACKET_SCHEMA,
+  {
+    name: '4ch int16 LE',
+    size: 8,
+    fields: [0, 1, 2, 3].map((i) => ({ name: `ch${i}`, type: 'int16', offset: i * 2 })),
+  },
+  {
+    name: '4ch int32 BE',
+    size: 16,
+    fields: [0, 1, 2, 3].map((i) => ({
+      name: `ch${i}`,
+      type: 'int32',
+      offset: i * 4,
+      endian: 'big',
+    })),
+  },
+  {
+    name: '4ch float32 LE',
+    size: 16,
+    fields: [0, 1, 2, 3].map((i) => ({ name: `ch${i}`, type: 'float32', offset: i * 4 })),
+  },
+  {
+    name: 'ADC 12bit x2 + float32 温度',
+    size: 8,
+    fields: [
+      { name: 'adc0', type: 'uint16', offset: 0, scale: 3.3 / 4096 },
+      { name: 'adc1', type: 'uint16', offset: 2, scale: 3.3 / 4096 },
+      { name: 'temp', type: 'float32', offset: 4 },
+    ],
+  },
+];
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import type { PacketSchema } from '../packet/types';
+import { MAX_PRECISION } from './channelConfig';
+import {
+  parseProfileJson,
+  profileToJson,
+  restoreSettings,
+  type SettingsProfile,
+} from './settingsStorage';
+
+const SCHEMA: PacketSchema = {
+  name: 'two',
+  size: 4,
+  fields: [
+    { name: 'a', type: 'int16', offset: 0 },
+    { name: 'b', type: 'int16', offset: 2 },
+  ],
+};
+
+const OTHER: PacketSchema = {
+  name: 'one',
+  size: 2,
+  fields: [{ name: 'x', type: 'uint16', offset: 0 }],
+};
+
+const PROFILE: SettingsProfile = {
+  name: 'bench',
+  schemaName: 'two',
+  baudRate: 115200,
+  channels: [
+    {
+      label: 'V',
+      color: '#123456',
+      unit: 'V',
+      precision: 3,
+      calibration: { type: 'linear', gain: 0.001, offset: 0 },
+      yRange: { min: -1, max: 1 },
+    },
+    { label: 'I', color: '#654321', calibration: { type: 'polynomial', coefficients: [0, 2] } },
+  ],
+  derivedChannels: [{ label: 'P', color: '#abcdef', expression: 'ch0 * ch1', precision: 2 }],
+  channelVisible: [true, false, true],
+};
+
+/** PROFILE の一部を書き換えた JSON */
+function profileJson(patch: (value: Record<string, unknown>) => void): string {
+  const value = JSON.parse(profileToJson(PROFILE)) as Record<string, unknown>;
+  patch(value);
+  return JSON.stringify(value);
+}
+
+function firstChannel(value: Record<string, unknown>): Record<string, unknown> {
+  return (value.channels as Record<string, unknown>[])[0]!;
+}
+
+describe('parseProfileJson', () => {
+  it('profileToJson の出力を読み戻せる', () => {
+    expect(parseProfileJson(profileToJson(PROFILE))).toEqual(PROFILE);
+  });
+
+  it('JSON でない・別の形式・別のバージョンは throw', () => {
+    expect(() => parseProfileJson('{')).toThrow('プロファイルが JSON として読めません');
+    expect(() => parseProfileJson('{"format":"other"}')).toThrow('プロファイルのファイルではありません');
+    expect(() => parseProfileJson(profileJson((v) => (v.version = 2)))).toThrow(
+      '未対応のプロファイル形式です（version 2）'
+    );
+  });
+
+  it('表示桁数は 0〜MAX_PRECISION の整数だけを受け付ける', () => {
+    for (const precision of [0, MAX_PRECISION]) {
+      const profile = parseProfileJson(profileJson((v) => (firstChannel(v).precision = precision)));
+      expect(profile.channels[0]!.precision).toBe(precision);
+    }
+    for (const precision of [-1, 1.5, MAX_PRECISION + 1, 150, '3']) {
+      expect(() =>
+        parseProfileJson(profileJson((v) => (firstChannel(v).precision = precision)))
+      ).toThrow(`channels[0].precision は 0〜${MAX_PRECISION} の整数にしてください`);
+    }
+  });
+
+  it('派生チャンネルの表示桁数も検査する', () => {
+    const json = profileJson((v) => {
+      (v.derivedChannels as Record<string, unknown>[])[0]!.precision = 20;
+    });
+    expect(() => parseProfileJson(json)).toThrow('derivedChannels[0].precision');
+  });
+
+  it('不正な値は項目名付きで throw', () => {
+    expect(() => parseProfileJson(profileJson((v) => (v.baudRate = 0)))).toThrow(
+      'baudRate は 0 より大きい値にしてください'
+    );
+    expect(() => parseProfileJson(profileJson((v) => (v.name = '  ')))).toThrow(
+      'プロファイル名が空です'
+    );
+    expect(() =>
+      parseProfileJson(profileJson((v) => (firstChannel(v).yRange = { min: 1, max: 1 })))
+    ).toThrow('channels[0].yRange の min が max 以上です');
+    expect(() =>
+      parseProfileJson(profileJson((v) => (firstChannel(v).calibration = { type: 'cubic' })))
+    ).toThrow('channels[0].calibration.type が不正です: cubic');
+    expect(() =>
+      parseProfileJson(
+        profileJson((v) => (firstChannel(v).calibration = { type: 'polynomial', coefficients: [] }))
+      )
+    ).toThrow('channels[0].calibration.coefficients が空です');
+  });
+});
+
+describe('restoreSettings', () => {
+  it('保存したスキーマとチャンネル設定を当てはめる', () => {
+    const restored = restoreSettings(PROFILE, [OTHER, SCHEMA], OTHER);
+    expect(restored.schema).toBe(SCHEMA);
+    expect(restored.baudRate).toBe(115200);
+    expect(restored.fieldConfigs).toEqual(PROFILE.channels);
+    expect(restored.derivedChannels).toEqual(PROFILE.derivedChannels);
+    expect(restored.channelVisible).toEqual([true, false, true]);
+  });
+
+  it('スキーマが見つからなければ fallbackSchema を使い、解釈できない式の派生チャンネルは外す', () => {
+    const restored = restoreSettings(PROFILE, [OTHER], OTHER);
+    expect(restored.schema).toBe(OTHER);
+    expect(restored.fieldConfigs).toEqual([PROFILE.channels[0]]);
+    // OTHER には ch1 がない
+    expect(restored.derivedChannels).toEqual([]);
+    expect(restored.channelVisible).toEqual([true]);
+  });
+
+  it('足りないチャンネルは既定の設定で埋める', () => {
+    const restored = restoreSettings({ ...PROFILE, channels: [], channelVisible: [] }, [SCHEMA], SCHEMA);
+    expect(restored.fieldConfigs.map((c) => c.label)).toEqual(['ch0', 'ch1']);
+    expect(restored.channelVisible).toEqual([true, true, true]);
+  });
+});
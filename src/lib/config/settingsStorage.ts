@@ -0,0 +1,327 @@
+/**
+ * 画面で変更した設定（スキーマ・ボーレート・チャンネル設定・表示 ON/OFF）の保存と、
+ * 名前付きプロファイルの管理。現在の設定とプロファイルは localStorage に置き、
+ * プロファイルは JSON ファイルとしてエクスポート / インポートできる（試験装置ごとに配布する用）。
+ * 前回接続したシリアルポート（USB の VID:PID）と、ポートごとの通信設定もここで保存する。
+ */
+import type { Calibration } from '../channel/calibration';
+import { validateDerivedExpression } from '../channel/channelPipeline';
+import type { PacketSchema } from '../packet/types';
+import { parsePortIdentity, samePortIdentity, type PortIdentity } from '../serial/portIdentity';
+import { parseSerialPortOptions, type SerialPortOptions } from '../serial/serialOptions';
+import {
+  MAX_PRECISION,
+  resolveChannelConfigs,
+  type ChannelConfig,
+  type DerivedChannelConfig,
+  type YRange,
+} from './channelConfig';
+
+/** 保存・復元する設定一式 */
+export interface AppSettings {
+  /** PACKET_SCHEMAS の name */
+  schemaName: string;
+  baudRate: number;
+  /** 受信チャンネルの設定（スキーマのフィールド順） */
+  channels: ChannelConfig[];
+  derivedChannels: DerivedChannelConfig[];
+  /** 表示チャンネル（受信＋派生）ごとの表示 ON/OFF */
+  channelVisible: boolean[];
+}
+
+export interface SettingsProfile extends AppSettings {
+  name: string;
+}
+
+/** 設定をスキーマ一覧に当てはめた結果（App の state になる） */
+export interface RestoredSettings {
+  schema: PacketSchema;
+  baudRate: number;
+  fieldConfigs: ChannelConfig[];
+  derivedChannels: DerivedChannelConfig[];
+  channelVisible: boolean[];
+}
+
+const SETTINGS_KEY = 'react-gui-tool:settings';
+const PROFILES_KEY = 'react-gui-tool:profiles';
+const LAST_PORT_KEY = 'react-gui-tool:last-port';
+const PORT_SETTINGS_KEY = 'react-gui-tool:port-settings';
+
+/** エクスポートした JSON の識別子と形式のバージョン */
+const PROFILE_FORMAT = 'react-gui-tool-profile';
+const PROFILE_VERSION = 1;
+
+// --- 検査 ---
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectString(value: unknown, name: string): string {
+  if (typeof value !== 'string') throw new Error(`${name} が文字列ではありません`);
+  return value;
+}
+
+function expectNumber(value: unknown, name: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${name} が数値ではありません`);
+  }
+  return value;
+}
+
+function expectArray(value: unknown, name: string): unknown[] {
+  if (!Array.isArray(value)) throw new Error(`${name} が配列ではありません`);
+  return value;
+}
+
+function parseCalibration(value: unknown, name: string): Calibration {
+  if (!isRecord(value)) throw new Error(`${name} が不正です`);
+  switch (value.type) {
+    case 'none':
+      return { type: 'none' };
+    case 'linear':
+      return {
+        type: 'linear',
+        gain: expectNumber(value.gain, `${name}.gain`),
+        offset: expectNumber(value.offset, `${name}.offset`),
+      };
+    case 'polynomial': {
+      const coefficients = expectArray(value.coefficients, `${name}.coefficients`).map((c, i) =>
+        expectNumber(c, `${name}.coefficients[${i}]`)
+      );
+      if (coefficients.length === 0) throw new Error(`${name}.coefficients が空です`);
+      return { type: 'polynomial', coefficients };
+    }
+    default:
+      throw new Error(`${name}.type が不正です: ${String(value.type)}`);
+  }
+}
+
+function parseYRange(value: unknown, name: string): YRange {
+  if (!isRecord(value)) throw new Error(`${name} が不正です`);
+  const min = expectNumber(value.min, `${name}.min`);
+  const max = expectNumber(value.max, `${name}.max`);
+  if (min >= max) throw new Error(`${name} の min が max 以上です`);
+  return { min, max };
+}
+
+/** label / color / unit / precision / yRange の共通部分 */
+function parseDisplayFields(value: Record<string, unknown>, name: string) {
+  const precision = value.precision;
+  if (
+    precision !== undefined &&
+    (typeof precision !== 'number' ||
+      !Number.isInteger(precision) ||
+      precision < 0 ||
+      precision > MAX_PRECISION)
+  ) {
+    throw new Error(`${name}.precision は 0〜${MAX_PRECISION} の整数にしてください`);
+  }
+  return {
+    label: expectString(value.label, `${name}.label`),
+    color: expectString(value.color, `${name}.color`),
+    ...(value.unit !== undefined && { unit: expectString(value.unit, `${name}.unit`) }),
+    ...(precision !== undefined && { precision }),
+    ...(value.yRange !== undefined && { yRange: parseYRange(value.yRange, `${name}.yRange`) }),
+  };
+}
+
+function parseChannelConfig(value: unknown, name: string): ChannelConfig {
+  if (!isRecord(value)) throw new Error(`${name} が不正です`);
+  return {
+    ...parseDisplayFields(value, name),
+    ...(value.calibration !== undefined && {
+      calibration: parseCalibration(value.calibration, `${name}.calibration`),
+    }),
+  };
+}
+
+function parseDerivedChannelConfig(value: unknown, name: string): DerivedChannelConfig {
+  if (!isRecord(value)) throw new Error(`${name} が不正です`);
+  return {
+    ...parseDisplayFields(value, name),
+    expression: expectString(value.expression, `${name}.expression`),
+  };
+}
+
+/** JSON から読んだ値を設定として検査する。不正なら Error */
+function parseSettings(value: unknown): AppSettings {
+  if (!isRecord(value)) throw new Error('設定の形式が不正です');
+  const baudRate = expectNumber(value.baudRate, 'baudRate');
+  if (!(baudRate > 0)) throw new Error('baudRate は 0 より大きい値にしてください');
+  return {
+    schemaName: expectString(value.schemaName, 'schemaName'),
+    baudRate,
+    channels: expectArray(value.channels, 'channels').map((c, i) =>
+      parseChannelConfig(c, `channels[${i}]`)
+    ),
+    derivedChannels: expectArray(value.derivedChannels ?? [], 'derivedChannels').map((c, i) =>
+      parseDerivedChannelConfig(c, `derivedChannels[${i}]`)
+    ),
+    channelVisible: expectArray(value.channelVisible ?? [], 'channelVisible').map((v) => v !== false),
+  };
+}
+
+function parseProfile(value: unknown): SettingsProfile {
+  if (!isRecord(value)) throw new Error('プロファイルの形式が不正です');
+  const name = expectString(value.name, 'name').trim();
+  if (name === '') throw new Error('プロファイル名が空です');
+  return { name, ...parseSettings(value) };
+}
+
+// --- localStorage ---
+
+function readJson(key: string): unknown {
+  try {
+    const text = localStorage.getItem(key);
+    return text == null ? null : (JSON.parse(text) as unknown);
+  } catch {
+    return null;
+  }
+}
+
+/** 書き込めない（容量超過・プライベートモードなど）ときは Error */
+function writeJson(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    throw new Error(`設定を保存できませんでした: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/** 前回の設定。保存されていない・壊れているときは null */
+export function loadSettings(): AppSettings | null {
+  const value = readJson(SETTINGS_KEY);
+  if (value == null) return null;
+  try {
+    return parseSettings(value);
+  } catch {
+    return null;
+  }
+}
+
+export function saveSettings(settings: AppSettings): void {
+  writeJson(SETTINGS_KEY, settings);
+}
+
+/** 前回接続したシリアルポート。保存されていない・壊れているときは null */
+export function loadLastPort(): PortIdentity | null {
+  return parsePortIdentity(readJson(LAST_PORT_KEY));
+}
+
+export function saveLastPort(identity: PortIdentity): void {
+  writeJson(LAST_PORT_KEY, identity);
+}
+
+/** ポートごとに覚えておく通信設定 */
+export interface PortSettings {
+  baudRate: number;
+  options: SerialPortOptions;
+}
+
+interface StoredPortSettings extends PortIdentity, PortSettings {}
+
+function listPortSettings(): StoredPortSettings[] {
+  const value = readJson(PORT_SETTINGS_KEY);
+  if (!Array.isArray(value)) return [];
+  const list: StoredPortSettings[] = [];
+  for (const item of value) {
+    const identity = parsePortIdentity(item);
+    if (!identity || !isRecord(item)) continue;
+    const options = parseSerialPortOptions(item.options);
+    const baudRate = item.baudRate;
+    if (!options || typeof baudRate !== 'number' || !(baudRate > 0)) continue;
+    list.push({ ...identity, baudRate, options });
+  }
+  return list;
+}
+
+/** 以前そのポート（VID:PID）で接続したときの設定。なければ null */
+export function loadPortSettings(identity: PortIdentity): PortSettings | null {
+  const found = listPortSettings().find((p) => samePortIdentity(p, identity));
+  return found ? { baudRate: found.baudRate, options: found.options } : null;
+}
+
+export function savePortSettings(identity: PortIdentity, settings: PortSettings): void {
+  const others = listPortSettings().filter((p) => !samePortIdentity(p, identity));
+  writeJson(PORT_SETTINGS_KEY, [
+    ...others,
+    {
+      usbVendorId: identity.usbVendorId,
+      usbProductId: identity.usbProductId,
+      ...settings,
+    },
+  ]);
+}
+
+/** 保存済みプロファイル（名前順）。壊れているものは読み飛ばす */
+export function listProfiles(): SettingsProfile[] {
+  const value = readJson(PROFILES_KEY);
+  if (!Array.isArray(value)) return [];
+  const profiles: SettingsProfile[] = [];
+  for (const item of value) {
+    try {
+      profiles.push(parseProfile(item));
+    } catch {
+      // 読めないものは無視する
+    }
+  }
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** 同名のプロファイルは上書きする */
+export function saveProfile(profile: SettingsProfile): void {
+  const others = listProfiles().filter((p) => p.name !== profile.name);
+  writeJson(PROFILES_KEY, [...others, profile]);
+}
+
+export function deleteProfile(name: string): void {
+  writeJson(PROFILES_KEY, listProfiles().filter((p) => p.name !== name));
+}
+
+/**
+ * 保存した設定を復元する。schemaName が schemas にないときは fallbackSchema を使い、
+ * フィールド数の違いは既定のチャンネル設定で埋める。解釈できない式の派生チャンネルは外す
+ */
+export function restoreSettings(
+  settings: AppSettings,
+  schemas: readonly PacketSchema[],
+  fallbackSchema: PacketSchema
+): RestoredSettings {
+  const schema = schemas.find((s) => s.name === settings.schemaName) ?? fallbackSchema;
+  const fieldConfigs = resolveChannelConfigs(schema).map((c, i) => settings.channels[i] ?? c);
+  const derivedChannels = settings.derivedChannels.filter(
+    (d) => validateDerivedExpression(schema, d.expression) == null
+  );
+  const channelVisible = [...fieldConfigs, ...derivedChannels].map(
+    (_, i) => settings.channelVisible[i] ?? true
+  );
+  return { schema, baudRate: settings.baudRate, fieldConfigs, derivedChannels, channelVisible };
+}
+
+// --- JSON ファイル ---
+
+export function profileToJson(profile: SettingsProfile): string {
+  return JSON.stringify({ format: PROFILE_FORMAT, version: PROFILE_VERSION, ...profile }, null, 2);
+}
+
+/** エクスポートした JSON を読む。形式が違う・値が不正なら Error */
+export function parseProfileJson(text: string): SettingsProfile {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('プロファイルが JSON として読めません');
+  }
+  if (!isRecord(value) || value.format !== PROFILE_FORMAT) {
+    throw new Error('プロファイルのファイルではありません');
+  }
+  if (value.version !== PROFILE_VERSION) {
+    throw new Error(`未対応のプロファイル形式です（version ${String(value.version)}）`);
+  }
+  try {
+    return parseProfile(value);
+  } catch (e) {
+    throw new Error(`プロファイルの内容が不正です: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { encodeCommand, formatHex, formatText, parseHexBytes } from './command';
+
+describe('parseHexBytes', () => {
+  it('区切りなし・大文字小文字を問わず 2 桁ずつ読む', () => {
+    expect(Array.from(parseHexBytes('aa5501FF'))).toEqual([0xaa, 0x55, 0x01, 0xff]);
+  });
+
+  it('空白・カンマ・コロンの区切りと 0x 接頭辞を許す', () => {
+    expect(Array.from(parseHexBytes(' AA 55,0x01:ff\n0X7e '))).toEqual([0xaa, 0x55, 0x01, 0xff, 0x7e]);
+  });
+
+  it('空の入力は空のバイト列', () => {
+    expect(parseHexBytes('').length).toBe(0);
+    expect(parseHexBytes(' , ').length).toBe(0);
+  });
+
+  it('奇数桁はエラー', () => {
+    expect(() => parseHexBytes('AA 5')).toThrow('16 進数の形式が不正です: 5');
+    expect(() => parseHexBytes('abc')).toThrow('abc');
+  });
+
+  it('16 進数以外の文字はエラー', () => {
+    expect(() => parseHexBytes('AA GG')).toThrow('16 進数の形式が不正です: GG');
+    expect(() => parseHexBytes('AA-55')).toThrow();
+  });
+});
+
+describe('encodeCommand', () => {
+  it('テキストは UTF-8 にして改行コードを付ける', () => {
+    const text = (lineEnding: 'none' | 'lf' | 'cr' | 'crlf') =>
+      Array.from(encodeCommand({ format: 'text', text: 'S', lineEnding }));
+    expect(text('none')).toEqual([0x53]);
+    expect(text('lf')).toEqual([0x53, 0x0a]);
+    expect(text('cr')).toEqual([0x53, 0x0d]);
+    expect(text('crlf')).toEqual([0x53, 0x0d, 0x0a]);
+    expect(Array.from(encodeCommand({ format: 'text', text: 'µ', lineEnding: 'none' }))).toEqual([0xc2, 0xb5]);
+  });
+
+  it('16 進数はバイト列のまま改行コードを付ける', () => {
+    expect(Array.from(encodeCommand({ format: 'hex', text: 'AA 55', lineEnding: 'crlf' }))).toEqual([
+      0xaa, 0x55, 0x0d, 0x0a,
+    ]);
+  });
+
+  it('16 進数の形式が不正ならエラー', () => {
+    expect(() => encodeCommand({ format: 'hex', text: 'A', lineEnding: 'none' })).toThrow();
+  });
+});
+
+describe('formatHex / formatText', () => {
+  it('formatHex は大文字 2 桁を空白で区切る', () => {
+    expect(formatHex(new Uint8Array([0x0a, 0xff, 0x00]))).toBe('0A FF 00');
+    expect(formatHex(new Uint8Array(0))).toBe('');
+  });
+
+  it('formatText は行末の改行を除き、制御文字を置き換える', () => {
+    const bytes = (s: string) => new TextEncoder().encode(s);
+    expect(formatText(bytes('OK\r\n'))).toBe('OK');
+    expect(formatText(bytes('OK\n'))).toBe('OK');
+    expect(formatText(bytes('a\rb\nc\td\x00\x7f'))).toBe('a\\rb\\nc\td\\x00\\x7f');
+  });
+});
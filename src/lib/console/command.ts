@@ -0,0 +1,85 @@
+/**
+ * デバイスへ送るコマンドの組み立て。テキスト（改行コード付き）または 16 進数のバイト列で指定する。
+ */
+
+export type CommandFormat = 'text' | 'hex';
+
+export type LineEnding = 'none' | 'lf' | 'cr' | 'crlf';
+
+export const LINE_ENDING_LABELS: Record<LineEnding, string> = {
+  none: 'なし',
+  lf: 'LF (\\n)',
+  cr: 'CR (\\r)',
+  crlf: 'CR+LF (\\r\\n)',
+};
+
+const LINE_ENDING_BYTES: Record<LineEnding, number[]> = {
+  none: [],
+  lf: [0x0a],
+  cr: [0x0d],
+  crlf: [0x0d, 0x0a],
+};
+
+/** 送信コマンド 1 件分の指定 */
+export interface CommandSpec {
+  format: CommandFormat;
+  /** テキスト、または "AA 55 01" のような 16 進数表記 */
+  text: string;
+  /** 末尾に付ける改行コード */
+  lineEnding: LineEnding;
+}
+
+/** Start / Stop ボタンで送るコマンドの初期値 */
+export const DEFAULT_START_COMMAND: CommandSpec = { format: 'text', text: 'START', lineEnding: 'lf' };
+export const DEFAULT_STOP_COMMAND: CommandSpec = { format: 'text', text: 'STOP', lineEnding: 'lf' };
+
+/**
+ * 16 進数表記をバイト列にする。区切り（空白・カンマ・コロン）と 0x 接頭辞は省略可。
+ * 例: "AA 55 0x01,ff" / "aa5501ff"
+ */
+export function parseHexBytes(text: string): Uint8Array {
+  const tokens = text
+    .split(/[\s,:]+/)
+    .map((t) => t.replace(/^0x/i, ''))
+    .filter((t) => t.length > 0);
+  const bytes: number[] = [];
+  for (const token of tokens) {
+    if (!/^[0-9a-f]+$/i.test(token) || token.length % 2 !== 0) {
+      throw new Error(`16 進数の形式が不正です: ${token}`);
+    }
+    for (let i = 0; i < token.length; i += 2) {
+      bytes.push(parseInt(token.slice(i, i + 2), 16));
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/** コマンド指定を送信バイト列にする */
+export function encodeCommand(spec: CommandSpec): Uint8Array {
+  const body = spec.format === 'hex' ? parseHexBytes(spec.text) : new TextEncoder().encode(spec.text);
+  const ending = LINE_ENDING_BYTES[spec.lineEnding];
+  const bytes = new Uint8Array(body.length + ending.length);
+  bytes.set(body, 0);
+  bytes.set(ending, body.length);
+  return bytes;
+}
+
+/** バイト列を "AA 55 01" 形式で表示する */
+export function formatHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).toUpperCase().padStart(2, '0')).join(' ');
+}
+
+function escapeControlChar(c: string): string {
+  if (c === '\r') return '\\r';
+  if (c === '\n') return '\\n';
+  if (c === '\t') return c;
+  return `\\x${c.charCodeAt(0).toString(16).padStart(2, '0')}`;
+}
+
+/** バイト列を UTF-8 のテキストとして表示する。行末の改行を除き、制御文字は \r や \xNN に置き換える */
+export function formatText(bytes: Uint8Array): string {
+  return new TextDecoder()
+    .decode(bytes)
+    .replace(/\r?\n$/, '')
+    .replace(/[\x00-\x1f\x7f]/g, escapeControlChar);
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createConsoleLog } from './consoleLog';
+
+const text = (s: string) => new TextEncoder().encode(s);
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('createConsoleLog', () => {
+  it('受信は LF ごとに 1 行にまとめる', () => {
+    const log = createConsoleLog();
+    log.received('a', text('OK'));
+    log.received('a', text('\nREADY\nPAR'));
+    expect(log.entries().map((e) => decode(e.bytes))).toEqual(['OK\n', 'READY\n', 'PAR']);
+  });
+
+  it('改行待ちの行は受信元ごとに持ち、他のデバイスの受信と混ざらない', () => {
+    const log = createConsoleLog();
+    log.received('a', text('temp='));
+    log.received('b', text('volt='));
+    log.received('a', text('25\n'));
+    log.received('b', text('3.3\n'));
+    expect(log.entries().map((e) => [e.source, decode(e.bytes)])).toEqual([
+      ['a', 'temp=25\n'],
+      ['b', 'volt=3.3\n'],
+    ]);
+  });
+
+  it('送信するとそのデバイスの改行待ちの行を閉じる', () => {
+    const log = createConsoleLog();
+    log.received('a', text('>'));
+    log.received('b', text('>'));
+    log.sent('a', text('STATUS\n'));
+    log.received('a', text('OK\n'));
+    log.received('b', text(' idle\n'));
+    expect(log.entries().map((e) => [e.direction, e.source, decode(e.bytes)])).toEqual([
+      ['rx', 'a', '>'],
+      ['rx', 'b', '> idle\n'],
+      ['tx', 'a', 'STATUS\n'],
+      ['rx', 'a', 'OK\n'],
+    ]);
+  });
+
+  it('直近 maxEntries 行だけを保持する', () => {
+    const log = createConsoleLog(2);
+    log.received('a', text('1\n2\n3\n'));
+    expect(log.entries().map((e) => decode(e.bytes))).toEqual(['2\n', '3\n']);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * コマンドコンソールの送受信履歴。受信バイト列は受信元（デバイス）ごとに改行（LF）で 1 行にまとめ、
+ * 直近 maxEntries 行だけを保持する。表示形式（テキスト / HEX）に依存しないようバイト列のまま持つ。
+ * App が所有し、受信のたびに received を呼ぶ。表示側は version の変化で再描画する。
+ */
+import { appendBytes } from '../packet/decoder';
+
+export type ConsoleDirection = 'tx' | 'rx';
+
+export interface ConsoleEntry {
+  direction: ConsoleDirection;
+  /** 行の先頭を送受信した時刻（epoch ms） */
+  timestamp: number;
+  /** 受信元・送信先のデバイスの id */
+  source: string;
+  bytes: Uint8Array;
+}
+
+export interface ConsoleLog {
+  /** 内容が変わるたびに増える値 */
+  readonly version: number;
+  /** 古い順の履歴（呼び出し側で書き換えないこと） */
+  entries(): readonly ConsoleEntry[];
+  /** source のデバイスから受信したバイト列を追加する（改行待ちの行は受信元ごとに持つ） */
+  received(source: string, chunk: Uint8Array): void;
+  /** source のデバイスへ送信したバイト列を 1 行として追加する */
+  sent(source: string, bytes: Uint8Array): void;
+  clear(): void;
+}
+
+export const DEFAULT_CONSOLE_MAX_ENTRIES = 500;
+
+/** 改行が来なくても 1 行を区切る長さ（バイナリ受信時に 1 行が伸び続けないように） */
+const MAX_LINE_BYTES = 256;
+
+const LF = 0x0a;
+
+export function createConsoleLog(maxEntries = DEFAULT_CONSOLE_MAX_ENTRIES): ConsoleLog {
+  const entries: ConsoleEntry[] = [];
+  /** 受信元ごとの改行待ちの受信行（entries にある） */
+  const openLines = new Map<string, ConsoleEntry>();
+  let version = 0;
+
+  const push = (entry: ConsoleEntry): void => {
+    entries.push(entry);
+    if (entries.length > maxEntries) entries.splice(0, entries.length - maxEntries);
+  };
+
+  return {
+    get version() {
+      return version;
+    },
+    entries: () => entries,
+    received(source, chunk) {
+      const now = Date.now();
+      let pos = 0;
+      while (pos < chunk.length) {
+        let line = openLines.get(source);
+        if (!line) {
+          line = { direction: 'rx', timestamp: now, source, bytes: new Uint8Array(0) };
+          openLines.set(source, line);
+          push(line);
+        }
+        const room = MAX_LINE_BYTES - line.bytes.length;
+        const lf = chunk.indexOf(LF, pos);
+        const end = Math.min(lf < 0 ? chunk.length : lf + 1, pos + room);
+        line.bytes = appendBytes(line.bytes, chunk.subarray(pos, end));
+        if ((lf >= 0 && end === lf + 1) || line.bytes.length >= MAX_LINE_BYTES) {
+          openLines.delete(source);
+        }
+        pos = end;
+      }
+      version++;
+    },
+    sent(source, bytes) {
+      // 送信の後に届いた受信は応答として新しい行にする
+      openLines.delete(source);
+      push({ direction: 'tx', timestamp: Date.now(), source, bytes: bytes.slice() });
+      version++;
+    },
+    clear() {
+      entries.length = 0;
+      openLines.clear();
+      version++;
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { RawChunk } from '../transport/batchedReadLoop';
+import { createRawMonitor, findBytePattern } from './rawMonitor';
+
+function chunk(bytes: number[], timestamp: number, packetEnds: number[] = []): RawChunk {
+  return { bytes: Uint8Array.from(bytes), timestamp, packetEnds };
+}
+
+describe('createRawMonitor', () => {
+  it('チャンクを連結し、チャンクの先頭・受信時刻・パケットの区切りを bytes 内の位置で返す', () => {
+    const monitor = createRawMonitor();
+    monitor.received('a', chunk([1, 2, 3], 100, [2]));
+    monitor.received('a', chunk([4, 5], 200, [1]));
+    expect(monitor.snapshot('a')).toEqual({
+      bytes: Uint8Array.from([1, 2, 3, 4, 5]),
+      offset: 0,
+      chunkStarts: [0, 3],
+      chunkTimes: [100, 200],
+      packetEnds: [2, 4],
+    });
+  });
+
+  it('履歴は受信元ごとに持つ', () => {
+    const monitor = createRawMonitor();
+    monitor.received('a', chunk([1, 2], 0));
+    monitor.received('b', chunk([9], 0));
+    expect(Array.from(monitor.snapshot('a').bytes)).toEqual([1, 2]);
+    expect(Array.from(monitor.snapshot('b').bytes)).toEqual([9]);
+    expect(monitor.snapshot('c').bytes.length).toBe(0);
+    monitor.clear('a');
+    expect(monitor.snapshot('a').bytes.length).toBe(0);
+    expect(monitor.snapshot('b').bytes.length).toBe(1);
+    monitor.clear();
+    expect(monitor.snapshot('b').bytes.length).toBe(0);
+  });
+
+  it('maxBytes を超えたら古いチャンクから捨て、offset に通算位置を残す', () => {
+    const monitor = createRawMonitor(4);
+    monitor.received('a', chunk([1, 2, 3], 0));
+    monitor.received('a', chunk([4, 5], 1));
+    const snapshot = monitor.snapshot('a');
+    expect(Array.from(snapshot.bytes)).toEqual([4, 5]);
+    expect(snapshot.offset).toBe(3);
+  });
+
+  it('空のチャンクは version を変えない', () => {
+    const monitor = createRawMonitor();
+    const version = monitor.version;
+    monitor.received('a', chunk([], 0));
+    expect(monitor.version).toBe(version);
+  });
+});
+
+describe('findBytePattern', () => {
+  it('重なる一致も数える', () => {
+    const bytes = Uint8Array.from([0xaa, 0xaa, 0xaa, 0x55]);
+    expect(findBytePattern(bytes, Uint8Array.from([0xaa, 0xaa]))).toEqual([0, 1]);
+    expect(findBytePattern(Uint8Array.from([1, 2]), new Uint8Array(0))).toEqual([]);
+  });
+});
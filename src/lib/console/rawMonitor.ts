@@ -0,0 +1,107 @@
+/**
+ * 生バイト列モニターの受信履歴。デコード前の受信チャンクを受信時刻・パケットの区切りと一緒に
+ * 受信元（デバイス）ごとに直近 maxBytes バイト分だけ保持する（古いチャンクから丸ごと捨てる）。
+ * ConsoleLog と同じく App が所有し、表示側は version の変化を見て snapshot を取り直す。
+ */
+import type { RawChunk } from '../transport/batchedReadLoop';
+
+/** 表示・検索用に連結した保持中のバイト列 */
+export interface RawMonitorSnapshot {
+  /** 保持しているバイト列（古い順に連結） */
+  bytes: Uint8Array;
+  /** bytes[0] が受信開始（clear）から何バイト目か */
+  offset: number;
+  /** 各チャンクの先頭位置（bytes 内、昇順） */
+  chunkStarts: number[];
+  /** 各チャンクの受信時刻（epoch ms、chunkStarts と同じ順） */
+  chunkTimes: number[];
+  /** パケットの末尾位置（bytes 内、昇順） */
+  packetEnds: number[];
+}
+
+export interface RawMonitor {
+  /** 内容が変わるたびに増える値（どの受信元の変化でも増える） */
+  readonly version: number;
+  /** source のデバイスの受信チャンクを追加する */
+  received(source: string, chunk: RawChunk): void;
+  /** source のデバイスの保持中の履歴（受信がなければ空） */
+  snapshot(source: string): RawMonitorSnapshot;
+  /** source のデバイスの履歴を捨てる。省略時は全デバイス */
+  clear(source?: string): void;
+}
+
+export const DEFAULT_RAW_MONITOR_MAX_BYTES = 64 * 1024;
+
+/** 1 つの受信元の履歴 */
+interface SourceHistory {
+  chunks: RawChunk[];
+  retainedBytes: number;
+  /** 受信開始（clear）からの累計バイト数 */
+  totalBytes: number;
+}
+
+const EMPTY_HISTORY: Readonly<SourceHistory> = { chunks: [], retainedBytes: 0, totalBytes: 0 };
+
+export function createRawMonitor(maxBytes = DEFAULT_RAW_MONITOR_MAX_BYTES): RawMonitor {
+  const histories = new Map<string, SourceHistory>();
+  let version = 0;
+
+  return {
+    get version() {
+      return version;
+    },
+    received(source, chunk) {
+      if (chunk.bytes.length === 0) return;
+      let history = histories.get(source);
+      if (!history) {
+        history = { chunks: [], retainedBytes: 0, totalBytes: 0 };
+        histories.set(source, history);
+      }
+      const { chunks } = history;
+      chunks.push(chunk);
+      history.retainedBytes += chunk.bytes.length;
+      history.totalBytes += chunk.bytes.length;
+      // 最新のチャンクは上限を超えていても残す
+      while (chunks.length > 1 && history.retainedBytes > maxBytes) {
+        history.retainedBytes -= chunks.shift()!.bytes.length;
+      }
+      version++;
+    },
+    snapshot(source) {
+      const { chunks, retainedBytes, totalBytes } = histories.get(source) ?? EMPTY_HISTORY;
+      const bytes = new Uint8Array(retainedBytes);
+      const chunkStarts: number[] = [];
+      const chunkTimes: number[] = [];
+      const packetEnds: number[] = [];
+      let pos = 0;
+      for (const chunk of chunks) {
+        bytes.set(chunk.bytes, pos);
+        chunkStarts.push(pos);
+        chunkTimes.push(chunk.timestamp);
+        for (const end of chunk.packetEnds) packetEnds.push(pos + end);
+        pos += chunk.bytes.length;
+      }
+      return { bytes, offset: totalBytes - retainedBytes, chunkStarts, chunkTimes, packetEnds };
+    },
+    clear(source) {
+      if (source == null) histories.clear();
+      else histories.delete(source);
+      version++;
+    },
+  };
+}
+
+/** bytes の中で pattern が現れる先頭位置をすべて返す（重なりも数える）。pattern が空なら [] */
+export function findBytePattern(bytes: Uint8Array, pattern: Uint8Array): number[] {
+  const found: number[] = [];
+  if (pattern.length === 0) return found;
+  const first = pattern[0]!;
+  let i = bytes.indexOf(first);
+  while (i >= 0 && i + pattern.length <= bytes.length) {
+    let j = 1;
+    while (j < pattern.length && bytes[i + j] === pattern[j]) j++;
+    if (j === pattern.length) found.push(i);
+    i = bytes.indexOf(first, i + 1);
+  }
+  return found;
+}
@@ -0,0 +1,130 @@
+/**
+ * 複数デバイスの同時接続。デバイスごとに受信形式・スキーマ・チャンネル構成を持ち、
+ * 表示チャンネルは全デバイス分を 1 列に並べて 1 つの SampleStore に入れる（共通の時間軸）。
+ * store の 1 行は 1 デバイスの 1 サンプルで、他のデバイスの列は NaN（欠損）になる。
+ * デバイスごとのブロックは別々に届くため、store に入れる前に timelineMerger で時刻順に並べ直す。
+ */
+import type { DisplayChannel } from '../channel/channelPipeline';
+import { fallbackColor, resolveChannelConfigs, type ChannelConfig } from '../config/channelConfig';
+import type { DecoderConfig } from '../packet/createDecoder';
+import type { PacketSchema } from '../packet/types';
+import type { SampleBlock } from '../transport/sampleBlock';
+import type { TimestampConfig } from '../transport/sampleClock';
+
+/** 1 台目のデバイス（チャンネル設定・派生チャンネル・録画・コマンドコンソールの対象） */
+export const PRIMARY_DEVICE_ID = 'device:1';
+
+/** 2 台目以降のデバイスの設定（1 台目は App が従来どおり個別の state で持つ） */
+export interface DeviceConfig {
+  /** 'device:2' のような識別子（表示チャンネル id の接頭辞に使う） */
+  id: string;
+  /** 1 から始まる番号（名前・線色の既定値に使う） */
+  number: number;
+  /** 凡例・グラフ見出しでチャンネル名の前に付ける名前 */
+  name: string;
+  schema: PacketSchema;
+  decoderConfig: DecoderConfig;
+  timestampConfig: TimestampConfig;
+  baudRate: number;
+  fieldConfigs: ChannelConfig[];
+}
+
+/** レイアウトに並べるデバイス 1 台分の表示チャンネル */
+export interface DeviceChannelSource {
+  id: string;
+  name: string;
+  channels: readonly DisplayChannel[];
+}
+
+/** 全チャンネルの中でデバイスが占める範囲 */
+export interface DeviceChannelRange {
+  id: string;
+  name: string;
+  /** 先頭チャンネルの番号 */
+  offset: number;
+  count: number;
+}
+
+export interface DeviceLayout {
+  /** 全デバイスの表示チャンネル（2 台以上なら名前の前にデバイス名が付く） */
+  channels: DisplayChannel[];
+  devices: DeviceChannelRange[];
+  /** id のデバイスの範囲。なければ null */
+  find(id: string): DeviceChannelRange | null;
+  /** 全チャンネルでの番号から、デバイスとその中でのチャンネル番号を求める */
+  locate(channel: number): { device: DeviceChannelRange; index: number } | null;
+  /**
+   * デバイスの 1 サンプルを全チャンネル幅の値にする。
+   * base を渡すとその値を元に該当デバイスの列だけ置き換え、省略時は他のデバイスの列を NaN にする
+   */
+  widen(id: string, values: ArrayLike<number>, base?: readonly number[]): number[];
+  /** デバイスのブロックを全チャンネル幅に広げる（他のデバイスの列は NaN）。デバイスがなければ null */
+  widenBlock(id: string, block: SampleBlock): SampleBlock | null;
+}
+
+/**
+ * 2 台目以降のデバイスのチャンネル設定の既定値。
+ * 1 台目と見分けられるよう、線色はデバイス番号ごとにずらした予備の色を使う
+ */
+export function createDeviceFieldConfigs(schema: PacketSchema, deviceNumber: number): ChannelConfig[] {
+  const offset = (deviceNumber - 2) * schema.fields.length;
+  return resolveChannelConfigs(schema).map((config, i) => ({
+    ...config,
+    color: fallbackColor(offset + i),
+  }));
+}
+
+export function createDeviceLayout(sources: readonly DeviceChannelSource[]): DeviceLayout {
+  const devices: DeviceChannelRange[] = [];
+  const channels: DisplayChannel[] = [];
+  const labeled = sources.length > 1;
+  sources.forEach((source, i) => {
+    devices.push({
+      id: source.id,
+      name: source.name,
+      offset: channels.length,
+      count: source.channels.length,
+    });
+    for (const channel of source.channels) {
+      channels.push({
+        ...channel,
+        // 1 台目の id は 1 台だけのときと同じにし、アラームのルールなどを引き継ぐ
+        id: i === 0 ? channel.id : `${source.id}/${channel.id}`,
+        label: labeled ? `${source.name}: ${channel.label}` : channel.label,
+      });
+    }
+  });
+  const channelCount = channels.length;
+  const find = (id: string): DeviceChannelRange | null => devices.find((d) => d.id === id) ?? null;
+
+  return {
+    channels,
+    devices,
+    find,
+    locate(channel) {
+      const device = devices.find((d) => channel >= d.offset && channel < d.offset + d.count);
+      return device ? { device, index: channel - device.offset } : null;
+    },
+    widen(id, values, base) {
+      const out =
+        base && base.length === channelCount ? [...base] : new Array<number>(channelCount).fill(NaN);
+      const device = find(id);
+      if (!device) return out;
+      for (let ch = 0; ch < device.count; ch++) out[device.offset + ch] = values[ch] ?? NaN;
+      return out;
+    },
+    widenBlock(id, block) {
+      const device = find(id);
+      if (!device) return null;
+      // 1 台だけならそのまま使う
+      if (device.offset === 0 && device.count === channelCount) return block;
+      const values = new Float64Array(block.count * channelCount).fill(NaN);
+      const width = Math.min(device.count, block.channelCount);
+      for (let i = 0; i < block.count; i++) {
+        const from = i * block.channelCount;
+        values.set(block.values.subarray(from, from + width), i * channelCount + device.offset);
+      }
+      return { channelCount, count: block.count, values, timestamps: block.timestamps };
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { SampleBlock } from '../transport/sampleBlock';
+import { createTimelineMerger, MAX_HOLD_MS } from './timelineMerger';
+
+/** 2 チャンネル幅のブロック。column の列に値、もう一方は NaN */
+function block(column: number, rows: [value: number, time: number][]): SampleBlock {
+  const values = new Float64Array(rows.length * 2).fill(NaN);
+  rows.forEach(([value], i) => (values[i * 2 + column] = value));
+  return {
+    channelCount: 2,
+    count: rows.length,
+    values,
+    timestamps: Float64Array.from(rows.map(([, time]) => time)),
+  };
+}
+
+function times(merged: SampleBlock | null): number[] {
+  return merged ? Array.from(merged.timestamps.subarray(0, merged.count)) : [];
+}
+
+describe('createTimelineMerger', () => {
+  it('全デバイスが受信済みの時刻までを時刻順に出し、残りは保留する', () => {
+    const merger = createTimelineMerger();
+    merger.setDevices(['a', 'b']);
+    merger.push('a', block(0, [[1, 10], [2, 20], [3, 30], [4, 40]]));
+    merger.push('b', block(1, [[5, 15], [6, 25]]));
+    const merged = merger.take(40)!;
+    expect(times(merged)).toEqual([10, 15, 20, 25]);
+    expect(Array.from(merged.values.subarray(0, 8))).toEqual([1, NaN, NaN, 5, 2, NaN, NaN, 6]);
+    // b が 35ms まで届けば a の 30ms が出せる
+    merger.push('b', block(1, [[7, 35]]));
+    expect(times(merger.take(40))).toEqual([30, 35]);
+    expect(merger.take(40)).toBeNull();
+  });
+
+  it('止まったデバイスは MAX_HOLD_MS を過ぎたら待たない', () => {
+    const merger = createTimelineMerger();
+    merger.setDevices(['a', 'b']);
+    merger.push('b', block(1, [[0, 0]]));
+    merger.push('a', block(0, [[1, 10], [2, 20]]));
+    expect(times(merger.take(100))).toEqual([0]);
+    expect(times(merger.take(10 + MAX_HOLD_MS))).toEqual([10]);
+    expect(times(merger.take(20 + MAX_HOLD_MS))).toEqual([20]);
+  });
+
+  it('接続していないデバイスは待たない', () => {
+    const merger = createTimelineMerger();
+    merger.setDevices(['a', 'b']);
+    merger.push('b', block(1, [[0, 0]]));
+    merger.push('a', block(0, [[1, 10]]));
+    merger.take(0);
+    merger.setDevices(['a']);
+    expect(times(merger.take(0))).toEqual([10]);
+  });
+
+  it('待ちきれずに遅れて届いた行は、出した最後の時刻にそろえる', () => {
+    const merger = createTimelineMerger();
+    merger.setDevices(['a']);
+    merger.push('a', block(0, [[1, 10], [2, 20]]));
+    expect(times(merger.take(0))).toEqual([10, 20]);
+    merger.setDevices(['a', 'b']);
+    merger.push('b', block(1, [[3, 15]]));
+    expect(times(merger.take(0))).toEqual([20]);
+  });
+
+  it('clear で保留していた行を捨てる', () => {
+    const merger = createTimelineMerger();
+    merger.setDevices(['a', 'b']);
+    merger.push('a', block(0, [[1, 10]]));
+    merger.push('b', block(1, [[2, 5]]));
+    merger.clear();
+    expect(merger.take(Infinity)).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * 複数デバイスの受信ブロックを時刻順の 1 列にまとめる。
+ * SampleStore の時刻は二分探索の前提として単調でなければならないが、デバイスごとのブロックは
+ * 別々の間隔で届くため、届いた順に入れると前後する。そこでデバイスごとに行を溜めておき、
+ * 全デバイスが受信済みの時刻（各デバイスの最後の時刻の最小）までを時刻順に取り出す。
+ * 送信が止まったデバイスに待たされ続けないよう、PC の時計で MAX_HOLD_MS より古い行は待たずに出す。
+ * 待ちきれずに遅れて届いた行は、出した最後の時刻にそろえて単調さを保つ。
+ */
+import type { SampleBlock } from '../transport/sampleBlock';
+
+/** 他のデバイスを待って行を保留する最大時間（ms） */
+export const MAX_HOLD_MS = 200;
+
+export interface TimelineMerger {
+  /** デバイスの全チャンネル幅のブロックを受け取る（取り出すまで保留する） */
+  push(deviceId: string, block: SampleBlock): void;
+  /**
+   * 取り出せる行を時刻順に 1 ブロックにまとめて返す。なければ null。
+   * now は PC の時計（epoch ms）で、MAX_HOLD_MS より古い行は他のデバイスを待たずに出す
+   */
+  take(now: number): SampleBlock | null;
+  /** 待ち合わせるデバイス（接続中のもの）。外れたデバイスは他のデバイスを待たせない */
+  setDevices(ids: readonly string[]): void;
+  /** 保留している行を捨てる（履歴を作り直したとき） */
+  clear(): void;
+}
+
+interface DeviceQueue {
+  blocks: SampleBlock[];
+  /** blocks[0] の次に出す行 */
+  next: number;
+  /** 受け取った最後の行の時刻 */
+  lastTime: number;
+}
+
+/** 出せる行のうち最も古い行を持つキュー。なければ null */
+function oldestQueue(queues: Iterable<DeviceQueue>, limit: number): DeviceQueue | null {
+  let oldest: DeviceQueue | null = null;
+  let oldestTime = Infinity;
+  for (const queue of queues) {
+    const block = queue.blocks[0];
+    if (!block) continue;
+    const t = block.timestamps[queue.next]!;
+    if (t <= limit && t < oldestTime) {
+      oldest = queue;
+      oldestTime = t;
+    }
+  }
+  return oldest;
+}
+
+export function createTimelineMerger(): TimelineMerger {
+  const queues = new Map<string, DeviceQueue>();
+  let waitFor = new Set<string>();
+  /** 最後に出した行の時刻 */
+  let releasedTime = -Infinity;
+
+  /** 各デバイスの最後の時刻の最小（まだ受信していない・待たないデバイスは除く） */
+  const watermark = (): number => {
+    let min = Infinity;
+    for (const [id, queue] of queues) {
+      if (waitFor.has(id) && queue.lastTime < min) min = queue.lastTime;
+    }
+    return min;
+  };
+
+  return {
+    push(deviceId, block) {
+      if (block.count === 0) return;
+      let queue = queues.get(deviceId);
+      if (!queue) {
+        queue = { blocks: [], next: 0, lastTime: -Infinity };
+        queues.set(deviceId, queue);
+      }
+      queue.blocks.push(block);
+      queue.lastTime = Math.max(queue.lastTime, block.timestamps[block.count - 1]!);
+    },
+    take(now) {
+      const limit = Math.max(watermark(), now - MAX_HOLD_MS);
+      let channelCount = 0;
+      let count = 0;
+      for (const queue of queues.values()) {
+        for (const [i, block] of queue.blocks.entries()) {
+          channelCount = Math.max(channelCount, block.channelCount);
+          count += block.count - (i === 0 ? queue.next : 0);
+        }
+      }
+      if (count === 0) return null;
+      const values = new Float64Array(count * channelCount).fill(NaN);
+      const timestamps = new Float64Array(count);
+      let taken = 0;
+      for (let queue = oldestQueue(queues.values(), limit); queue; ) {
+        const block = queue.blocks[0]!;
+        const row = queue.next;
+        values.set(
+          block.values.subarray(row * block.channelCount, (row + 1) * block.channelCount),
+          taken * channelCount
+        );
+        releasedTime = Math.max(releasedTime, block.timestamps[row]!);
+        timestamps[taken] = releasedTime;
+        taken++;
+        if (++queue.next === block.count) {
+          queue.blocks.shift();
+          queue.next = 0;
+        }
+        queue = oldestQueue(queues.values(), limit);
+      }
+      if (taken === 0) return null;
+      return { channelCount, count: taken, values, timestamps };
+    },
+    setDevices(ids) {
+      waitFor = new Set(ids);
+      // 外れたデバイスの古い時刻が、次に接続したときに他のデバイスを待たせないようにする
+      for (const [id, queue] of queues) {
+        if (!waitFor.has(id) && queue.blocks.length === 0) queues.delete(id);
+      }
+    },
+    clear() {
+      queues.clear();
+      releasedTime = -Infinity;
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { fileTimestamp, safeFileNamePart } from './download';
+
+describe('safeFileNamePart', () => {
+  it('ファイル名に使えない文字・空白の並びを _ にする', () => {
+    expect(safeFileNamePart('デバイス 2: 電圧/V', 'ch0')).toBe('デバイス_2_電圧_V');
+    expect(safeFileNamePart('  a*?b  ', 'ch0')).toBe('a_b');
+  });
+
+  it('空なら fallback', () => {
+    expect(safeFileNamePart('   ', 'ch3')).toBe('ch3');
+  });
+});
+
+describe('fileTimestamp', () => {
+  it('地方時の YYYYMMDD-HHMMSS', () => {
+    expect(fileTimestamp(new Date(2024, 0, 31, 23, 59, 5))).toBe('20240131-235905');
+  });
+});
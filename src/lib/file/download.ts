@@ -0,0 +1,28 @@
+/**
+ * Blob をファイルとしてダウンロードさせる。
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // クリック直後に revoke するとダウンロードが始まらないブラウザがあるため遅らせる
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** ファイル名に使えるタイムスタンプ（例: 20240131-235959） */
+export function fileTimestamp(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  );
+}
+
+/** name をファイル名の一部に使える文字列にする（使えない文字・空白は _）。空になれば fallback */
+export function safeFileNamePart(name: string, fallback: string): string {
+  return name.trim().replace(/[\\/:*?"<>|\s\x00-\x1f]+/g, '_') || fallback;
+}
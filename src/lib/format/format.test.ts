@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { formatBytes, formatDuration, formatTime } from './format';
+
+describe('formatTime', () => {
+  it('地方時の HH:MM:SS.mmm', () => {
+    expect(formatTime(new Date(2024, 0, 31, 9, 5, 7, 42).getTime())).toBe('09:05:07.042');
+  });
+});
+
+describe('formatDuration', () => {
+  it('M:SS（秒未満は切り捨て、60 分以上も分で数える）', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(65_999)).toBe('1:05');
+    expect(formatDuration(3_600_000)).toBe('60:00');
+  });
+});
+
+describe('formatBytes', () => {
+  it('1024 ごとに B / KB / MB', () => {
+    expect(formatBytes(1023)).toBe('1023 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * 画面の各パネルで共通に使う値の表示形式（時刻・経過時間・バイト数）。
+ */
+
+/** 時刻を HH:MM:SS.mmm（地方時）で表示する */
+export function formatTime(timestamp: number): string {
+  const d = new Date(timestamp);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}.${pad(d.getMilliseconds(), 3)}`;
+}
+
+/** 経過時間を M:SS で表示する */
+export function formatDuration(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${String(s).padStart(2, '0')}`;
+}
+
+/** バイト数を B / KB / MB で表示する */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
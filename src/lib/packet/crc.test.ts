@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { crc16, crc8 } from './crc';
+
+/** CRC のカタログにある検査値の入力 "123456789" */
+const CHECK_INPUT = new TextEncoder().encode('123456789');
+
+describe('crc8', () => {
+  it('CRC-8/SMBUS の検査値になる', () => {
+    expect(crc8(CHECK_INPUT)).toBe(0xf4);
+  });
+
+  it('start / end の範囲だけを計算する', () => {
+    const bytes = new Uint8Array([0xff, ...CHECK_INPUT, 0xff]);
+    expect(crc8(bytes, 1, bytes.length - 1)).toBe(0xf4);
+  });
+
+  it('空の範囲は初期値 0x00', () => {
+    expect(crc8(new Uint8Array(0))).toBe(0x00);
+  });
+});
+
+describe('crc16', () => {
+  it('CRC-16/CCITT-FALSE の検査値になる', () => {
+    expect(crc16(CHECK_INPUT)).toBe(0x29b1);
+  });
+
+  it('start / end の範囲だけを計算する', () => {
+    const bytes = new Uint8Array([0x00, ...CHECK_INPUT, 0x00]);
+    expect(crc16(bytes, 1, bytes.length - 1)).toBe(0x29b1);
+  });
+
+  it('空の範囲は初期値 0xFFFF', () => {
+    expect(crc16(new Uint8Array(0))).toBe(0xffff);
+  });
+});
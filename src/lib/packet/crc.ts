@@ -0,0 +1,50 @@
+/**
+ * フレームのトレーラーに使う CRC 計算。
+ * - CRC-8 … 多項式 0x07、初期値 0x00（CRC-8/SMBUS）
+ * - CRC-16 … 多項式 0x1021、初期値 0xFFFF（CRC-16/CCITT-FALSE）
+ */
+
+function buildCrc8Table(): Uint8Array {
+  const table = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+    table[i] = crc;
+  }
+  return table;
+}
+
+function buildCrc16Table(): Uint16Array {
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+    table[i] = crc;
+  }
+  return table;
+}
+
+const CRC8_TABLE = buildCrc8Table();
+const CRC16_TABLE = buildCrc16Table();
+
+/** bytes[start, end) の CRC-8 を計算する */
+export function crc8(bytes: Uint8Array, start = 0, end = bytes.length): number {
+  let crc = 0x00;
+  for (let i = start; i < end; i++) {
+    crc = CRC8_TABLE[(crc ^ bytes[i]!) & 0xff]!;
+  }
+  return crc;
+}
+
+/** bytes[start, end) の CRC-16 を計算する */
+export function crc16(bytes: Uint8Array, start = 0, end = bytes.length): number {
+  let crc = 0xffff;
+  for (let i = start; i < end; i++) {
+    crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[((crc >> 8) ^ bytes[i]!) & 0xff]!;
+  }
+  return crc;
+}
@@ -0,0 +1,32 @@
+/**
+ * 受信形式の設定からデコーダーを生成する。
+ * 設定はシリアライズ可能な値だけで構成し、UI の選択状態をそのまま渡せるようにする。
+ */
+import { createFixedSizeDecoder, type PacketDecoder } from './decoder';
+import { createFramedDecoder, type FramingOptions } from './framing';
+import { createLineDecoder } from './lineDecoder';
+import type { PacketSchema } from './types';
+
+/** 受信形式 */
+export type DecoderConfig =
+  /** バイナリ: schema.size byte の固定長 */
+  | { mode: 'fixed' }
+  /** バイナリ: 同期ヘッダー + 長さ + CRC のフレーム */
+  | { mode: 'framed'; framing: FramingOptions }
+  /** テキスト: 改行区切りの CSV / name:value */
+  | { mode: 'text' };
+
+export type DecoderMode = DecoderConfig['mode'];
+
+export const DEFAULT_DECODER_CONFIG: DecoderConfig = { mode: 'fixed' };
+
+export function createDecoder(config: DecoderConfig, schema: PacketSchema): PacketDecoder {
+  switch (config.mode) {
+    case 'fixed':
+      return createFixedSizeDecoder(schema);
+    case 'framed':
+      return createFramedDecoder(config.framing, schema);
+    case 'text':
+      return createLineDecoder(schema);
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * 受信バイト列 → PacketData の変換（デコーダー）の共通定義。
+ * startReadLoop はデコーダーにチャンクを渡すだけで、パケットの区切り方は各デコーダーが持つ。
+ */
+import { createPacketParser } from './parser';
+import { DEFAULT_PACKET_SCHEMA } from './schema';
+import type { PacketData, PacketSchema } from './types';
+
+/** デコーダーが数えるリンク品質の統計 */
+export interface DecoderStats {
+  /** 正常にデコードできたパケット数 */
+  packets: number;
+  /** ヘッダー不一致・長さ不正などで同期を取り直した回数 */
+  framingErrors: number;
+  /** CRC 不一致で破棄したフレーム数 */
+  crcErrors: number;
+  /** parsePacket が throw した回数 */
+  parseErrors: number;
+  /** 同期探索やエラーで読み捨てたバイト数 */
+  discardedBytes: number;
+}
+
+export interface PacketDecoder {
+  /**
+   * 受信チャンクを投入し、揃ったパケットごとに onPacket を呼ぶ。
+   * end はパケットの最後のバイトの次の位置（chunk 内の位置。生バイト列の表示でパケットの区切りに使う）。
+   * 端数のバイトは次回の呼び出しまで内部に保持する。
+   */
+  decode(
+    chunk: Uint8Array,
+    onPacket: (data: PacketData, end: number) => void,
+    onError?: (err: unknown) => void
+  ): void;
+  /** 現在までの統計（呼び出し側で書き換えないこと） */
+  readonly stats: Readonly<DecoderStats>;
+  /** パケットになっていない端数として保持しているバイト数 */
+  readonly pendingBytes: number;
+  /** 内部バッファと統計を初期化する */
+  reset(): void;
+}
+
+export function createDecoderStats(): DecoderStats {
+  return { packets: 0, framingErrors: 0, crcErrors: 0, parseErrors: 0, discardedBytes: 0 };
+}
+
+/** 未処理バイト pending の後ろに chunk を連結した新しい配列を返す */
+export function appendBytes(pending: Uint8Array, chunk: Uint8Array): Uint8Array {
+  if (pending.length === 0) return chunk.slice();
+  const merged = new Uint8Array(pending.length + chunk.length);
+  merged.set(pending, 0);
+  merged.set(chunk, pending.length);
+  return merged;
+}
+
+/**
+ * 従来どおり、受信バイト列を先頭から schema.size byte ごとに区切るデコーダー。
+ * ヘッダーを持たないため、1 byte でも欠けるとそれ以降はずれたままになる。
+ */
+export function createFixedSizeDecoder(schema: PacketSchema = DEFAULT_PACKET_SCHEMA): PacketDecoder {
+  const parse = createPacketParser(schema);
+  const size = schema.size;
+  let pending = new Uint8Array(0);
+  const stats = createDecoderStats();
+
+  return {
+    stats,
+    get pendingBytes() {
+      return pending.length;
+    },
+    decode(chunk, onPacket, onError) {
+      pending = appendBytes(pending, chunk);
+      /** pending の中で chunk が始まる位置 */
+      const chunkStart = pending.length - chunk.length;
+      let pos = 0;
+      while (pending.length - pos >= size) {
+        try {
+          const data = parse(pending.buffer, pending.byteOffset + pos);
+          stats.packets++;
+          onPacket(data, pos + size - chunkStart);
+        } catch (e) {
+          stats.parseErrors++;
+          onError?.(e);
+        }
+        pos += size;
+      }
+      pending = pending.slice(pos);
+    },
+    reset() {
+      pending = new Uint8Array(0);
+      Object.assign(stats, createDecoderStats());
+    },
+  };
+}
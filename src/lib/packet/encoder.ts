@@ -0,0 +1,65 @@
+/**
+ * PacketSchema に従って値をバイト列に詰める（parser の逆変換）。
+ * シミュレーターやテスト用のデータ生成に使う。
+ */
+import { getRawValueLimits, validateSchema } from './schema';
+import type { PacketField, PacketSchema } from './types';
+
+/** values[i] を fields[i] の位置に書き込み、schema.size byte のバイト列を返す関数 */
+export type PacketEncoder = (values: readonly number[]) => Uint8Array;
+
+type FieldWriter = (view: DataView, raw: number) => void;
+
+function createFieldWriter(field: PacketField): FieldWriter {
+  const at = field.offset;
+  const le = (field.endian ?? 'little') === 'little';
+  switch (field.type) {
+    case 'uint8':
+      return (view, raw) => view.setUint8(at, raw);
+    case 'int8':
+      return (view, raw) => view.setInt8(at, raw);
+    case 'uint16':
+      return (view, raw) => view.setUint16(at, raw, le);
+    case 'int16':
+      return (view, raw) => view.setInt16(at, raw, le);
+    case 'uint32':
+      return (view, raw) => view.setUint32(at, raw, le);
+    case 'int32':
+      return (view, raw) => view.setInt32(at, raw, le);
+    case 'float32':
+      return (view, raw) => view.setFloat32(at, raw, le);
+    case 'float64':
+      return (view, raw) => view.setFloat64(at, raw, le);
+  }
+}
+
+/**
+ * スキーマからエンコーダーを生成する。
+ * scale / valueOffset を逆算して生値に戻し、整数型は四捨五入して型の範囲に丸める。
+ */
+export function createPacketEncoder(schema: PacketSchema): PacketEncoder {
+  validateSchema(schema);
+  const writers = schema.fields.map((field) => {
+    const write = createFieldWriter(field);
+    const scale = field.scale ?? 1;
+    const valueOffset = field.valueOffset ?? 0;
+    const isFloat = field.type === 'float32' || field.type === 'float64';
+    const [rawMin, rawMax] = getRawValueLimits(field.type);
+    return (view: DataView, value: number) => {
+      let raw = (value - valueOffset) / scale;
+      if (!isFloat) {
+        raw = Math.round(Number.isFinite(raw) ? raw : 0);
+        raw = Math.min(rawMax, Math.max(rawMin, raw));
+      }
+      write(view, raw);
+    };
+  });
+  return (values) => {
+    const bytes = new Uint8Array(schema.size);
+    const view = new DataView(bytes.buffer);
+    for (let i = 0; i < writers.length; i++) {
+      writers[i]!(view, values[i] ?? 0);
+    }
+    return bytes;
+  };
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import type { PacketDecoder } from './decoder';
+import {
+  DEFAULT_FRAMING_OPTIONS,
+  createFramedDecoder,
+  encodeFrame,
+  type FramingOptions,
+} from './framing';
+import type { PacketSchema } from './types';
+
+/** 1 byte × 2 チャンネルの小さなスキーマ */
+const SCHEMA: PacketSchema = {
+  name: 'test',
+  size: 2,
+  fields: [
+    { name: 'a', type: 'uint8', offset: 0 },
+    { name: 'b', type: 'uint8', offset: 1 },
+  ],
+};
+
+function frame(a: number, b: number, options: FramingOptions = DEFAULT_FRAMING_OPTIONS): number[] {
+  return [...encodeFrame(new Uint8Array([a, b]), options)];
+}
+
+/** chunks を順に decode し、得られた values と end を返す */
+function decodeAll(decoder: PacketDecoder, chunks: number[][]) {
+  const packets: number[][] = [];
+  const ends: number[] = [];
+  for (const chunk of chunks) {
+    decoder.decode(new Uint8Array(chunk), (data, end) => {
+      packets.push(data.values);
+      ends.push(end);
+    });
+  }
+  return { packets, ends };
+}
+
+describe('encodeFrame', () => {
+  it('ヘッダー・長さ・ペイロード・CRC-16（ビッグエンディアン）の順に並べる', () => {
+    const bytes = frame(0x01, 0x02);
+    expect(bytes.slice(0, 5)).toEqual([0xaa, 0x55, 2, 0x01, 0x02]);
+    expect(bytes).toHaveLength(7);
+  });
+
+  it('CRC-8 のトレーラーは 1 byte', () => {
+    expect(frame(1, 2, { syncHeader: [0x7e], checksum: 'crc8' })).toHaveLength(5);
+  });
+
+  it('255 byte を超えるペイロードは RangeError', () => {
+    expect(() => encodeFrame(new Uint8Array(256), DEFAULT_FRAMING_OPTIONS)).toThrow(RangeError);
+  });
+});
+
+describe('createFramedDecoder', () => {
+  it('連続したフレームをデコードし、end にフレームの終わりを渡す', () => {
+    const decoder = createFramedDecoder(DEFAULT_FRAMING_OPTIONS, SCHEMA);
+    const { packets, ends } = decodeAll(decoder, [[...frame(1, 2), ...frame(3, 4)]]);
+    expect(packets).toEqual([
+      [1, 2],
+      [3, 4],
+    ]);
+    expect(ends).toEqual([7, 14]);
+    expect(decoder.stats).toMatchObject({ packets: 2, framingErrors: 0, crcErrors: 0 });
+    expect(decoder.pendingBytes).toBe(0);
+  });
+
+  it('チャンクの境界をまたぐフレームは次のチャンクでそろってから出す', () => {
+    const decoder = createFramedDecoder(DEFAULT_FRAMING_OPTIONS, SCHEMA);
+    const bytes = [...frame(1, 2), ...frame(3, 4)];
+    const { packets, ends } = decodeAll(decoder, [bytes.slice(0, 1), bytes.slice(1, 9), bytes.slice(9)]);
+    expect(packets).toEqual([
+      [1, 2],
+      [3, 4],
+    ]);
+    // end は各パケットを出したチャンクの中の位置
+    expect(ends).toEqual([6, 5]);
+  });
+
+  it('先頭のゴミを読み捨てて同期する（同期前のゴミはフレーミングエラーに数えない）', () => {
+    const decoder = createFramedDecoder(DEFAULT_FRAMING_OPTIONS, SCHEMA);
+    const { packets } = decodeAll(decoder, [[0x00, 0x11, 0x22, ...frame(5, 6)]]);
+    expect(packets).toEqual([[5, 6]]);
+    expect(decoder.stats).toMatchObject({ framingErrors: 0, discardedBytes: 3 });
+  });
+
+  it('同期中にゴミが混じったらフレーミングエラーを数えて同期し直す', () => {
+    const decoder = createFramedDecoder(DEFAULT_FRAMING_OPTIONS, SCHEMA);
+    const { packets } = decodeAll(decoder, [[...frame(1, 2), 0x00, 0x01, ...frame(3, 4)]]);
+    expect(packets).toEqual([
+      [1, 2],
+      [3, 4],
+    ]);
+    expect(decoder.stats).toMatchObject({ framingErrors: 1, discardedBytes: 2 });
+  });
+
+  it('CRC が合わないフレームは捨て、後続のフレームは失わない', () => {
+    const decoder = createFramedDecoder(DEFAULT_FRAMING_OPTIONS, SCHEMA);
+    const broken = frame(1, 2);
+    broken[3] = broken[3]! ^ 0xff;
+    const { packets } = decodeAll(decoder, [[...broken, ...frame(3, 4)]]);
+    expect(packets).toEqual([[3, 4]]);
+    expect(decoder.stats).toMatchObject({ packets: 1, crcErrors: 1 });
+  });
+
+  it('ゴミの中の偽のヘッダーが正しいフレームを飲み込まない', () => {
+    const decoder = createFramedDecoder(DEFAULT_FRAMING_OPTIONS, SCHEMA);
+    // 長さ 2 の偽ヘッダーの直後に本物のフレームが始まる
+    const { packets } = decodeAll(decoder, [[0xaa, 0x55, 2, ...frame(7, 8)]]);
+    expect(packets).toEqual([[7, 8]]);
+  });
+
+  it('長さがスキーマと違うフレームはフレーミングエラー', () => {
+    const decoder = createFramedDecoder(DEFAULT_FRAMING_OPTIONS, SCHEMA);
+    const { packets } = decodeAll(decoder, [[0xaa, 0x55, 9, ...frame(1, 2)]]);
+    expect(packets).toEqual([[1, 2]]);
+    expect(decoder.stats.framingErrors).toBe(1);
+  });
+
+  it('末尾のヘッダーの途中までは次のチャンクのために残す', () => {
+    const decoder = createFramedDecoder(DEFAULT_FRAMING_OPTIONS, SCHEMA);
+    const bytes = frame(9, 10);
+    const { packets } = decodeAll(decoder, [[0x01, 0x02, bytes[0]!], bytes.slice(1)]);
+    expect(packets).toEqual([[9, 10]]);
+  });
+
+  it('reset で端数と統計を捨てる', () => {
+    const decoder = createFramedDecoder(DEFAULT_FRAMING_OPTIONS, SCHEMA);
+    decodeAll(decoder, [[...frame(1, 2), ...frame(3, 4).slice(0, 4)]]);
+    expect(decoder.pendingBytes).toBe(4);
+    decoder.reset();
+    expect(decoder.pendingBytes).toBe(0);
+    expect(decoder.stats.packets).toBe(0);
+  });
+
+  it('空の同期ヘッダーは作成時に throw', () => {
+    expect(() => createFramedDecoder({ syncHeader: [], checksum: 'crc16' }, SCHEMA)).toThrow();
+  });
+});
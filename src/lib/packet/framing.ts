@@ -0,0 +1,185 @@
+/**
+ * 同期ヘッダー + 長さ + CRC トレーラー付きのフレーム形式と、そのデコーダー。
+ *
+ * フレーム構成:
+ * | 同期ヘッダー (既定 0xAA 0x55) | 長さ (1 byte) | ペイロード (長さ byte) | CRC (1 or 2 byte) |
+ *
+ * CRC は「長さ + ペイロード」に対して計算する。CRC-16 はビッグエンディアンで格納する。
+ */
+import { crc16, crc8 } from './crc';
+import { appendBytes, createDecoderStats, type PacketDecoder } from './decoder';
+import { createPacketParser } from './parser';
+import { DEFAULT_PACKET_SCHEMA } from './schema';
+import type { PacketSchema } from './types';
+
+export type ChecksumType = 'crc8' | 'crc16';
+
+export interface FramingOptions {
+  /** フレーム先頭の同期ヘッダー */
+  syncHeader: number[];
+  /** トレーラーの CRC 種別 */
+  checksum: ChecksumType;
+}
+
+/** 既定の同期ヘッダー */
+export const DEFAULT_SYNC_HEADER: readonly number[] = [0xaa, 0x55];
+
+export const DEFAULT_FRAMING_OPTIONS: FramingOptions = {
+  syncHeader: [...DEFAULT_SYNC_HEADER],
+  checksum: 'crc16',
+};
+
+/** CRC 種別ごとのトレーラー長（byte） */
+export function checksumSize(checksum: ChecksumType): number {
+  return checksum === 'crc8' ? 1 : 2;
+}
+
+function computeChecksum(
+  checksum: ChecksumType,
+  bytes: Uint8Array,
+  start: number,
+  end: number
+): number {
+  return checksum === 'crc8' ? crc8(bytes, start, end) : crc16(bytes, start, end);
+}
+
+function readChecksum(checksum: ChecksumType, bytes: Uint8Array, at: number): number {
+  return checksum === 'crc8' ? bytes[at]! : (bytes[at]! << 8) | bytes[at + 1]!;
+}
+
+/** data の from 以降で header が始まる位置を返す。見つからなければ -1 */
+function indexOfHeader(data: Uint8Array, header: readonly number[], from: number): number {
+  const last = data.length - header.length;
+  outer: for (let i = from; i <= last; i++) {
+    for (let j = 0; j < header.length; j++) {
+      if (data[i + j] !== header[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * ペイロードを 1 フレームに包む（シミュレーター・テスト用）。
+ */
+export function encodeFrame(payload: Uint8Array, options: FramingOptions): Uint8Array {
+  if (payload.length > 0xff) {
+    throw new RangeError(`encodeFrame: ペイロードが 255 byte を超えています（${payload.length}）`);
+  }
+  const headerLen = options.syncHeader.length;
+  const crcLen = checksumSize(options.checksum);
+  const frame = new Uint8Array(headerLen + 1 + payload.length + crcLen);
+  frame.set(options.syncHeader, 0);
+  frame[headerLen] = payload.length;
+  frame.set(payload, headerLen + 1);
+  const crcAt = headerLen + 1 + payload.length;
+  const crc = computeChecksum(options.checksum, frame, headerLen, crcAt);
+  if (crcLen === 1) {
+    frame[crcAt] = crc;
+  } else {
+    frame[crcAt] = crc >> 8;
+    frame[crcAt + 1] = crc & 0xff;
+  }
+  return frame;
+}
+
+/**
+ * フレーム形式のデコーダーを作る。
+ * 同期ヘッダーを探索し、長さ・CRC が正しいフレームだけを parsePacket に渡す。
+ * 不正なフレームはヘッダー位置の 1 byte 先から探索し直すため、誤検出したヘッダーが
+ * 後続の正しいフレームを飲み込むことはない。
+ * ペイロード長は schema.size と一致する必要がある。
+ */
+export function createFramedDecoder(
+  options: FramingOptions = DEFAULT_FRAMING_OPTIONS,
+  schema: PacketSchema = DEFAULT_PACKET_SCHEMA
+): PacketDecoder {
+  const header = options.syncHeader;
+  if (header.length === 0) {
+    throw new Error('同期ヘッダーを 1 byte 以上指定してください');
+  }
+  if (schema.size > 0xff) {
+    throw new Error(`フレーム形式のペイロードは 255 byte までです（${schema.size} byte）`);
+  }
+  const parse = createPacketParser(schema);
+  const crcLen = checksumSize(options.checksum);
+  let pending = new Uint8Array(0);
+  /** 直前のフレームに続けてヘッダーが見つかっている（同期中）か */
+  let synced = false;
+  const stats = createDecoderStats();
+
+  return {
+    stats,
+    get pendingBytes() {
+      return pending.length;
+    },
+    decode(chunk, onPacket, onError) {
+      pending = appendBytes(pending, chunk);
+      /** pending の中で chunk が始まる位置 */
+      const chunkStart = pending.length - chunk.length;
+      let pos = 0;
+      while (pos < pending.length) {
+        const start = indexOfHeader(pending, header, pos);
+        if (start < 0) {
+          // ヘッダーの途中で切れている可能性があるため末尾 (header.length - 1) byte は残す
+          const keepFrom = Math.max(pos, pending.length - (header.length - 1));
+          if (keepFrom > pos) {
+            if (synced) stats.framingErrors++;
+            synced = false;
+            stats.discardedBytes += keepFrom - pos;
+          }
+          pos = keepFrom;
+          break;
+        }
+        if (start > pos) {
+          // ヘッダーの前にゴミがあった = 同期が外れていた
+          if (synced) stats.framingErrors++;
+          synced = false;
+          stats.discardedBytes += start - pos;
+          pos = start;
+        }
+
+        const lenAt = start + header.length;
+        if (lenAt >= pending.length) break;
+        const length = pending[lenAt]!;
+        if (length !== schema.size) {
+          stats.framingErrors++;
+          stats.discardedBytes++;
+          synced = false;
+          pos = start + 1;
+          continue;
+        }
+
+        const crcAt = lenAt + 1 + length;
+        const frameEnd = crcAt + crcLen;
+        if (frameEnd > pending.length) break;
+
+        const expected = computeChecksum(options.checksum, pending, lenAt, crcAt);
+        if (readChecksum(options.checksum, pending, crcAt) !== expected) {
+          stats.crcErrors++;
+          stats.discardedBytes++;
+          synced = false;
+          pos = start + 1;
+          continue;
+        }
+
+        try {
+          const data = parse(pending.buffer, pending.byteOffset + lenAt + 1);
+          stats.packets++;
+          onPacket(data, frameEnd - chunkStart);
+        } catch (e) {
+          stats.parseErrors++;
+          onError?.(e);
+        }
+        synced = true;
+        pos = frameEnd;
+      }
+      pending = pending.slice(pos);
+    },
+    reset() {
+      pending = new Uint8Array(0);
+      synced = false;
+      Object.assign(stats, createDecoderStats());
+    },
+  };
+}
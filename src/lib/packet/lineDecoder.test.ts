@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { createLineDecoder, parseLine } from './lineDecoder';
+import type { PacketSchema } from './types';
+
+const SCHEMA: PacketSchema = {
+  name: 'test',
+  size: 12,
+  fields: ['ch0', 'ch1', 'ch2'].map((name, i) => ({ name, type: 'int32', offset: i * 4 })),
+};
+
+const encoder = new TextEncoder();
+
+/** text を chunks の長さごとに区切って decode し、得られた values を返す */
+function decodeText(text: string, chunkSize = Infinity) {
+  const decoder = createLineDecoder(SCHEMA);
+  const bytes = encoder.encode(text);
+  const packets: number[][] = [];
+  for (let i = 0; i < bytes.length; i += Math.min(chunkSize, bytes.length)) {
+    decoder.decode(bytes.subarray(i, i + chunkSize), (data) => packets.push(data.values));
+  }
+  return { decoder, packets };
+}
+
+describe('parseLine', () => {
+  it('区切り文字（カンマ・タブ・空白・セミコロン）で列を分け、足りない列は NaN', () => {
+    expect(parseLine('1, 2', SCHEMA)?.values).toEqual([1, 2, NaN]);
+    expect(parseLine('1\t2;3', SCHEMA)?.values).toEqual([1, 2, 3]);
+  });
+
+  it('name:value はフィールド名で割り当てる', () => {
+    expect(parseLine('ch2:5 ch0:-1.5', SCHEMA)?.values).toEqual([-1.5, NaN, 5]);
+  });
+
+  it('数値が 1 つもない行は null', () => {
+    expect(parseLine('hello world', SCHEMA)).toBeNull();
+    expect(parseLine('unknown:1', SCHEMA)).toBeNull();
+  });
+});
+
+describe('createLineDecoder', () => {
+  it('LF・CRLF で区切り、end に改行の次の位置を渡す', () => {
+    const decoder = createLineDecoder(SCHEMA);
+    const ends: number[] = [];
+    const packets: number[][] = [];
+    decoder.decode(encoder.encode('1,2,3\r\n4,5,6\n'), (data, end) => {
+      packets.push(data.values);
+      ends.push(end);
+    });
+    expect(packets).toEqual([
+      [1, 2, 3],
+      [4, 5, 6],
+    ]);
+    expect(ends).toEqual([7, 13]);
+  });
+
+  it('チャンクの境界（CR と LF の間を含む）をまたぐ行をつなぐ', () => {
+    const { packets, decoder } = decodeText('10,20,30\r\n40,50,60\r\n', 1);
+    expect(packets).toEqual([
+      [10, 20, 30],
+      [40, 50, 60],
+    ]);
+    expect(decoder.pendingBytes).toBe(0);
+  });
+
+  it('改行が来るまでは端数として保持する', () => {
+    const { packets, decoder } = decodeText('1,2,3\n4,5');
+    expect(packets).toHaveLength(1);
+    expect(decoder.pendingBytes).toBe(3);
+  });
+
+  it('数値のない行は parseErrors に数え、空行は無視する', () => {
+    const { packets, decoder } = decodeText('boot ok\n\n1,2,3\n');
+    expect(packets).toEqual([[1, 2, 3]]);
+    expect(decoder.stats).toMatchObject({ packets: 1, parseErrors: 1, discardedBytes: 8 });
+  });
+
+  it('長すぎる行は次の改行まで読み捨て、その残りを 1 行として解釈しない', () => {
+    const long = '9'.repeat(5000);
+    const { packets, decoder } = decodeText(`${long}\n1,2,3\n`, 700);
+    expect(packets).toEqual([[1, 2, 3]]);
+    expect(decoder.stats).toMatchObject({ packets: 1, framingErrors: 1, parseErrors: 0 });
+    expect(decoder.stats.discardedBytes).toBe(long.length + 1);
+  });
+
+  it('最大長ちょうどの行は 1 行として読む', () => {
+    const line = `1,${' '.repeat(4096 - 4)},2`;
+    const { packets, decoder } = decodeText(`${line}\n`, 100);
+    expect(packets).toEqual([[1, 2, NaN]]);
+    expect(decoder.stats.framingErrors).toBe(0);
+  });
+
+  it('reset で端数・読み捨て中の状態・統計を捨てる', () => {
+    const decoder = createLineDecoder(SCHEMA);
+    decoder.decode(encoder.encode('x'.repeat(5000)), () => {});
+    decoder.reset();
+    const packets: number[][] = [];
+    decoder.decode(encoder.encode('7,8,9\n'), (data) => packets.push(data.values));
+    expect(packets).toEqual([[7, 8, 9]]);
+    expect(decoder.stats.framingErrors).toBe(0);
+  });
+});
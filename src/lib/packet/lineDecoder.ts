@@ -0,0 +1,140 @@
+/**
+ * テキスト行形式（Arduino のシリアルプロッタ互換）のデコーダー。
+ *
+ * 1 行 = 1 パケット。改行（\n、直前の \r は無視）で区切り、列はカンマ・タブ・空白・セミコロンで区切る。
+ * - `12,34,56`          … 左から順に fields[0], fields[1], ... に割り当てる
+ * - `ch0:12 ch2:56`     … name:value 形式はフィールド名で割り当てる
+ * 足りない列は NaN（グラフ上は欠損）になる。
+ */
+import { createDecoderStats, type PacketDecoder } from './decoder';
+import { DEFAULT_PACKET_SCHEMA } from './schema';
+import type { PacketData, PacketSchema } from './types';
+
+/** 1 行の最大長。改行が来ないままこれを超えたら、次の改行までを読み捨てる */
+const MAX_LINE_LENGTH = 4096;
+
+/** 行バッファの初期容量（長い行が来たら MAX_LINE_LENGTH まで倍々に広げる） */
+const INITIAL_LINE_CAPACITY = 256;
+
+const LF = 0x0a;
+const CR = 0x0d;
+const COLUMN_SEPARATOR = /[,\t; ]+/;
+
+/**
+ * 1 行のテキストを PacketData に変換する。数値が 1 つも取れない行は null。
+ */
+export function parseLine(line: string, schema: PacketSchema = DEFAULT_PACKET_SCHEMA): PacketData | null {
+  const values = new Array<number>(schema.fields.length).fill(NaN);
+  const tokens = line.trim().split(COLUMN_SEPARATOR);
+  let column = 0;
+  let found = false;
+  for (const token of tokens) {
+    if (token === '') continue;
+    const sep = token.indexOf(':');
+    if (sep >= 0) {
+      const index = schema.fields.findIndex((f) => f.name === token.slice(0, sep));
+      const value = Number(token.slice(sep + 1));
+      if (index >= 0 && token.length > sep + 1 && Number.isFinite(value)) {
+        values[index] = value;
+        found = true;
+      }
+      continue;
+    }
+    const value = Number(token);
+    if (column < values.length && Number.isFinite(value)) {
+      values[column] = value;
+      found = true;
+    }
+    column++;
+  }
+  return found ? { values } : null;
+}
+
+/**
+ * テキスト行形式のデコーダーを作る。
+ * 数値を含まない行（起動メッセージなど）は parseErrors として数えるだけで onError には渡さない。
+ * MAX_LINE_LENGTH を超えた行は framingErrors として数え、その行の残り（次の改行まで）も捨てる
+ * （行の途中から先を 1 行として解釈しない）。
+ */
+export function createLineDecoder(schema: PacketSchema = DEFAULT_PACKET_SCHEMA): PacketDecoder {
+  const textDecoder = new TextDecoder();
+  let line = new Uint8Array(INITIAL_LINE_CAPACITY);
+  /** line の中で改行待ちのバイト数 */
+  let length = 0;
+  /** 長すぎる行の残りを次の改行まで読み捨てている最中か */
+  let discarding = false;
+  const stats = createDecoderStats();
+
+  /** chunk[from, to)（改行を含まない）を行バッファの後ろに足す */
+  const append = (chunk: Uint8Array, from: number, to: number): void => {
+    const count = to - from;
+    if (discarding) {
+      stats.discardedBytes += count;
+      return;
+    }
+    if (length + count > MAX_LINE_LENGTH) {
+      stats.framingErrors++;
+      stats.discardedBytes += length + count;
+      length = 0;
+      discarding = true;
+      return;
+    }
+    if (length + count > line.length) {
+      let capacity = line.length * 2;
+      while (capacity < length + count) capacity *= 2;
+      const grown = new Uint8Array(Math.min(capacity, MAX_LINE_LENGTH));
+      grown.set(line.subarray(0, length));
+      line = grown;
+    }
+    line.set(chunk.subarray(from, to), length);
+    length += count;
+  };
+
+  /** end は LF の次の位置（decode の onPacket にそのまま渡す） */
+  const flushLine = (onPacket: (data: PacketData, end: number) => void, end: number): void => {
+    if (discarding) {
+      // 読み捨てていた行はこの改行で終わる
+      stats.discardedBytes++;
+      discarding = false;
+      return;
+    }
+    const lineBytes = length + 1;
+    const textLength = length > 0 && line[length - 1] === CR ? length - 1 : length;
+    const text = textDecoder.decode(line.subarray(0, textLength));
+    length = 0;
+    if (text.trim() === '') return;
+    const data = parseLine(text, schema);
+    if (data == null) {
+      stats.parseErrors++;
+      stats.discardedBytes += lineBytes;
+      return;
+    }
+    stats.packets++;
+    onPacket(data, end);
+  };
+
+  return {
+    stats,
+    get pendingBytes() {
+      return length;
+    },
+    decode(chunk, onPacket) {
+      let from = 0;
+      while (from < chunk.length) {
+        const lf = chunk.indexOf(LF, from);
+        if (lf < 0) {
+          append(chunk, from, chunk.length);
+          break;
+        }
+        append(chunk, from, lf);
+        flushLine(onPacket, lf + 1);
+        from = lf + 1;
+      }
+    },
+    reset() {
+      length = 0;
+      discarding = false;
+      Object.assign(stats, createDecoderStats());
+    },
+  };
+}
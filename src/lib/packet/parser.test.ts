@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createPacketParser, parsePacket } from './parser';
+import { validateSchema } from './schema';
+import type { PacketSchema } from './types';
+
+describe('createPacketParser', () => {
+  it('型・オフセット・エンディアンどおりに読む', () => {
+    const schema: PacketSchema = {
+      name: 'mixed',
+      size: 8,
+      fields: [
+        { name: 'u8', type: 'uint8', offset: 0 },
+        { name: 'i8', type: 'int8', offset: 1 },
+        { name: 'be', type: 'uint16', offset: 2, endian: 'big' },
+        { name: 'le', type: 'int32', offset: 4 },
+      ],
+    };
+    const bytes = new Uint8Array([0xff, 0xff, 0x12, 0x34, 0xfe, 0xff, 0xff, 0xff]);
+    expect(createPacketParser(schema)(bytes.buffer).values).toEqual([255, -1, 0x1234, -2]);
+  });
+
+  it('scale と valueOffset を適用する', () => {
+    const schema: PacketSchema = {
+      name: 'scaled',
+      size: 2,
+      fields: [{ name: 'v', type: 'int16', offset: 0, scale: 0.5, valueOffset: 10 }],
+    };
+    const bytes = new Uint8Array([0x04, 0x00]);
+    expect(createPacketParser(schema)(bytes.buffer).values).toEqual([12]);
+  });
+
+  it('offset からパケットを読み、足りなければ RangeError', () => {
+    const bytes = new Uint8Array(20);
+    bytes[4] = 7;
+    expect(parsePacket(bytes.buffer, 4).values).toEqual([7, 0, 0, 0]);
+    expect(() => parsePacket(bytes.buffer, 5)).toThrow(RangeError);
+  });
+});
+
+describe('validateSchema', () => {
+  const field = { name: 'a', type: 'uint16' as const, offset: 0 };
+
+  it('size に収まらないフィールドを拒否する', () => {
+    expect(() => validateSchema({ name: 's', size: 1, fields: [field] })).toThrow();
+  });
+
+  it('重複したフィールド名を拒否する', () => {
+    expect(() =>
+      validateSchema({ name: 's', size: 4, fields: [field, { ...field, offset: 2 }] })
+    ).toThrow(/重複/);
+  });
+
+  it('フィールドのないスキーマを拒否する', () => {
+    expect(() => validateSchema({ name: 's', size: 4, fields: [] })).toThrow();
+  });
+});
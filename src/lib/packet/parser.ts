@@ -1,25 +1,81 @@
 /**
- * 16byte バイト列を ch0〜ch3（各 32bit unsigned、リトルエンディアン）にパースする。
+ * PacketSchema からパーサーを生成し、バイト列を PacketData（values 配列）に変換する。
  */
-import { PACKET_SIZE, BYTES_PER_CHANNEL, type PacketData } from './types';
+import { DEFAULT_PACKET_SCHEMA, validateSchema } from './schema';
+import type { PacketData, PacketField, PacketSchema } from './types';
+
+/** ArrayBuffer の指定オフセットから 1 パケットをパースする関数 */
+export type PacketParser = (buffer: ArrayBuffer, offset?: number) => PacketData;
+
+type FieldReader = (view: DataView) => number;
+
+function createFieldReader(field: PacketField): FieldReader {
+  const at = field.offset;
+  const le = (field.endian ?? 'little') === 'little';
+  let read: FieldReader;
+  switch (field.type) {
+    case 'uint8':
+      read = (view) => view.getUint8(at);
+      break;
+    case 'int8':
+      read = (view) => view.getInt8(at);
+      break;
+    case 'uint16':
+      read = (view) => view.getUint16(at, le);
+      break;
+    case 'int16':
+      read = (view) => view.getInt16(at, le);
+      break;
+    case 'uint32':
+      read = (view) => view.getUint32(at, le);
+      break;
+    case 'int32':
+      read = (view) => view.getInt32(at, le);
+      break;
+    case 'float32':
+      read = (view) => view.getFloat32(at, le);
+      break;
+    case 'float64':
+      read = (view) => view.getFloat64(at, le);
+      break;
+  }
+  const scale = field.scale ?? 1;
+  const valueOffset = field.valueOffset ?? 0;
+  if (scale === 1 && valueOffset === 0) return read;
+  return (view) => read(view) * scale + valueOffset;
+}
 
 /**
- * ArrayBuffer の指定オフセットから 16byte をパースして PacketData を返す。
+ * スキーマからパーサーを生成する。スキーマが不正な場合は throw。
+ * @returns buffer の offset から schema.size byte を読み、fields の順に値を並べて返す関数。
+ *          buffer が schema.size byte に満たない場合は throw
+ */
+export function createPacketParser(schema: PacketSchema): PacketParser {
+  validateSchema(schema);
+  const readers = schema.fields.map(createFieldReader);
+  const size = schema.size;
+  return (buffer, offset = 0) => {
+    if (buffer.byteLength < offset + size) {
+      throw new RangeError(
+        `parsePacket: buffer が ${size} byte に満ちません（offset=${offset}, length=${buffer.byteLength}）`
+      );
+    }
+    const view = new DataView(buffer, offset, size);
+    const values = new Array<number>(readers.length);
+    for (let i = 0; i < readers.length; i++) {
+      values[i] = readers[i]!(view);
+    }
+    return { values };
+  };
+}
+
+const defaultParser = createPacketParser(DEFAULT_PACKET_SCHEMA);
+
+/**
+ * 既定スキーマ（4ch uint32 LE、16byte）で 1 パケットをパースする。
  * @param buffer - 元の ArrayBuffer
  * @param offset - 読み取り開始オフセット（省略時は 0）
- * @returns パース結果。buffer が 16byte に満たない場合は throw
  */
 export function parsePacket(buffer: ArrayBuffer, offset = 0): PacketData {
-  if (buffer.byteLength < offset + PACKET_SIZE) {
-    throw new RangeError(
-      `parsePacket: buffer が ${PACKET_SIZE} byte に満ちません（offset=${offset}, length=${buffer.byteLength}）`
-    );
-  }
-  const view = new DataView(buffer, offset, PACKET_SIZE);
-  return {
-    ch0: view.getUint32(0, true),
-    ch1: view.getUint32(BYTES_PER_CHANNEL, true),
-    ch2: view.getUint32(BYTES_PER_CHANNEL * 2, true),
-    ch3: view.getUint32(BYTES_PER_CHANNEL * 3, true),
-  };
+  return defaultParser(buffer, offset);
 }
@@ -0,0 +1,95 @@
+/**
+ * パケットスキーマの既定値・検証・フィールド情報のヘルパー。
+ */
+import type { FieldType, PacketField, PacketSchema } from './types';
+
+/** 数値型ごとのバイト数 */
+export const FIELD_TYPE_SIZES: Record<FieldType, number> = {
+  uint8: 1,
+  int8: 1,
+  uint16: 2,
+  int16: 2,
+  uint32: 4,
+  int32: 4,
+  float32: 4,
+  float64: 8,
+};
+
+/** 既定のスキーマ: ch0〜ch3 の 32bit unsigned、リトルエンディアン（計 16byte） */
+export const DEFAULT_PACKET_SCHEMA: PacketSchema = {
+  name: '4ch uint32 LE',
+  size: 16,
+  fields: [0, 1, 2, 3].map((i) => ({ name: `ch${i}`, type: 'uint32', offset: i * 4 })),
+};
+
+/**
+ * スキーマの整合性を検査する。不正な場合は throw。
+ * - size が 1 以上
+ * - 各フィールドが size に収まる
+ * - フィールド名が空でなく重複しない
+ */
+export function validateSchema(schema: PacketSchema): void {
+  if (!Number.isInteger(schema.size) || schema.size <= 0) {
+    throw new Error(`スキーマ "${schema.name}": size が不正です（${schema.size}）`);
+  }
+  if (schema.fields.length === 0) {
+    throw new Error(`スキーマ "${schema.name}": フィールドがありません`);
+  }
+  const names = new Set<string>();
+  for (const field of schema.fields) {
+    if (field.name === '') {
+      throw new Error(`スキーマ "${schema.name}": フィールド名が空です`);
+    }
+    if (names.has(field.name)) {
+      throw new Error(`スキーマ "${schema.name}": フィールド名 "${field.name}" が重複しています`);
+    }
+    names.add(field.name);
+    const size = FIELD_TYPE_SIZES[field.type];
+    if (size === undefined) {
+      throw new Error(`スキーマ "${schema.name}": "${field.name}" の型 ${String(field.type)} は未対応です`);
+    }
+    if (!Number.isInteger(field.offset) || field.offset < 0 || field.offset + size > schema.size) {
+      throw new Error(
+        `スキーマ "${schema.name}": "${field.name}" が size ${schema.size} byte に収まりません（offset=${field.offset}）`
+      );
+    }
+  }
+}
+
+/** 数値型の生値の範囲。浮動小数は範囲なし */
+function rawRange(type: FieldType): [number, number] {
+  switch (type) {
+    case 'uint8':
+      return [0, 2 ** 8];
+    case 'int8':
+      return [-(2 ** 7), 2 ** 7 - 1];
+    case 'uint16':
+      return [0, 2 ** 16];
+    case 'int16':
+      return [-(2 ** 15), 2 ** 15 - 1];
+    case 'uint32':
+      return [0, 2 ** 32];
+    case 'int32':
+      return [-(2 ** 31), 2 ** 31 - 1];
+    case 'float32':
+    case 'float64':
+      return [-Infinity, Infinity];
+  }
+}
+
+/** 数値型が表現できる生値の最小・最大（両端を含む）。浮動小数は範囲なし */
+export function getRawValueLimits(type: FieldType): [number, number] {
+  const [min, max] = rawRange(type);
+  // 符号なし整数はグラフ表示用に 2^n を上限としているため、表現できる最大値は 2^n - 1
+  return min === 0 ? [0, max - 1] : [min, max];
+}
+
+/** scale / valueOffset 適用後にフィールドが取り得る値の範囲 [min, max] */
+export function getFieldRange(field: PacketField): [number, number] {
+  const [rawMin, rawMax] = rawRange(field.type);
+  const scale = field.scale ?? 1;
+  const valueOffset = field.valueOffset ?? 0;
+  const a = rawMin * scale + valueOffset;
+  const b = rawMax * scale + valueOffset;
+  return a <= b ? [a, b] : [b, a];
+}
@@ -1,21 +1,49 @@
 /**
- * パケットフォーマットの定数・型定義。
- * docs/architecture.md のデータ構造に従う。
+ * パケットフォーマットの型定義。
+ * バイト配置は PacketSchema で宣言し、パーサー・グラフ・トグルはすべてスキーマから組み立てる。
  */
 
-/** 1 パケットのバイト数 */
-export const PACKET_SIZE = 16;
+/** フィールドの数値型 */
+export type FieldType =
+  | 'uint8'
+  | 'int8'
+  | 'uint16'
+  | 'int16'
+  | 'uint32'
+  | 'int32'
+  | 'float32'
+  | 'float64';
 
-/** チャンネル数（ch0〜ch3） */
-export const CHANNEL_COUNT = 4;
+/** バイトオーダー */
+export type Endianness = 'little' | 'big';
 
-/** 1 チャンネルあたりのバイト数（32bit = 4byte） */
-export const BYTES_PER_CHANNEL = 4;
+/** パケット内の 1 フィールド（= グラフの 1 チャンネル） */
+export interface PacketField {
+  /** フィールド名（テキスト形式の name:value やエクスポートのキーにも使う） */
+  name: string;
+  /** 数値型 */
+  type: FieldType;
+  /** パケット先頭からのバイトオフセット */
+  offset: number;
+  /** バイトオーダー（省略時はリトルエンディアン） */
+  endian?: Endianness;
+  /** 生値に掛ける係数（省略時は 1） */
+  scale?: number;
+  /** scale 適用後に足す値（省略時は 0） */
+  valueOffset?: number;
+}
+
+/** 1 パケットのレイアウト */
+export interface PacketSchema {
+  /** 表示名 */
+  name: string;
+  /** 1 パケットのバイト数（パディングを含む） */
+  size: number;
+  /** フィールド一覧。並び順がチャンネル番号になる */
+  fields: PacketField[];
+}
 
-/** パース済みパケットデータ（各チャンネルは 32bit unsigned、リトルエンディアン） */
+/** パース済みパケットデータ。values[i] はスキーマの fields[i] に対応する */
 export interface PacketData {
-  ch0: number;
-  ch1: number;
-  ch2: number;
-  ch3: number;
+  values: number[];
 }
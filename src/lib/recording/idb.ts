@@ -0,0 +1,56 @@
+/**
+ * IndexedDB の Promise ラッパー（録画データの保存先）。
+ */
+
+const DB_NAME = 'react-gui-tool-recording';
+const DB_VERSION = 1;
+
+/** セッションのメタデータを置くストア */
+export const SESSION_STORE = 'sessions';
+/** 録画データのチャンクを置くストア（キー: [sessionId, kind, seq]） */
+export const CHUNK_STORE = 'chunks';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** データベースを開く（初回のみスキーマを作成し、以降は同じ接続を使い回す） */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB が利用できないため録画できません'));
+  }
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+        db.createObjectStore(CHUNK_STORE, { keyPath: ['sessionId', 'kind', 'seq'] });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB を開けませんでした'));
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+/** IDBRequest の完了を待つ */
+export function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB の操作に失敗しました'));
+  });
+}
+
+/** トランザクションのコミットを待つ */
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB のトランザクションが中断されました'));
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB のトランザクションに失敗しました'));
+  });
+}
@@ -0,0 +1,407 @@
+/**
+ * セッション録画。受信した全パケット（高分解能タイムスタンプ付き）と生バイト列を
+ * 一定量ごとのチャンクに分けて IndexedDB に書き出し、メモリ使用量を一定に保つ。
+ * 複数デバイスを接続しているときは、録画開始時のデバイスごとに別のチャンク列として残す。
+ * 録画済みセッションはデバイスごとに CSV（タイムスタンプ + チャンネルごとの列）と生バイナリでエクスポートできる。
+ */
+import { PRIMARY_DEVICE_ID } from '../device/deviceLayout';
+import type { PacketData, PacketSchema } from '../packet/types';
+import type { SampleBlock } from '../transport/sampleBlock';
+import {
+  CHUNK_STORE,
+  openDatabase,
+  requestToPromise,
+  SESSION_STORE,
+  transactionDone,
+} from './idb';
+
+/** 1 チャンクあたりのパケット数 */
+const PACKETS_PER_CHUNK = 4096;
+/** 1 チャンクあたりの生バイト数 */
+const RAW_BYTES_PER_CHUNK = 64 * 1024;
+/** 件数に達しなくてもチャンクを書き出す間隔（ms） */
+const FLUSH_INTERVAL_MS = 1000;
+
+/** 録画するデバイス（録画開始時に渡す） */
+export interface RecordingDeviceSource {
+  /** DeviceLayout のデバイス id */
+  id: string;
+  name: string;
+  schema: PacketSchema;
+  /** CSV の列名に使うチャンネル名 */
+  channelLabels: string[];
+}
+
+/** セッション内の 1 デバイス分の記録 */
+export interface RecordedDevice extends RecordingDeviceSource {
+  packetCount: number;
+  byteCount: number;
+  packetChunks: number;
+  rawChunks: number;
+}
+
+/** 録画セッションのメタデータ */
+export interface RecordingSession {
+  id: string;
+  /** 録画開始時刻（epoch ms） */
+  startedAt: number;
+  /** 録画終了時刻（epoch ms）。録画中は null */
+  endedAt: number | null;
+  /** 録画開始時のデバイス（先頭が 1 台目） */
+  devices: RecordedDevice[];
+  /** 全デバイスの合計 */
+  packetCount: number;
+  byteCount: number;
+}
+
+/** デバイスごとの記録を持つ前の形式（1 台分だけをセッションに直接持つ） */
+interface LegacyRecordingSession {
+  id: string;
+  startedAt: number;
+  endedAt: number | null;
+  schema: PacketSchema;
+  channelLabels: string[];
+  packetCount: number;
+  byteCount: number;
+  packetChunks: number;
+  rawChunks: number;
+}
+
+/** 旧形式のセッションを 1 台分のデバイスとして読む */
+function normalizeSession(stored: RecordingSession | LegacyRecordingSession): RecordingSession {
+  if ('devices' in stored) return stored;
+  const { schema, channelLabels, packetChunks, rawChunks, ...rest } = stored;
+  return {
+    ...rest,
+    devices: [
+      {
+        id: PRIMARY_DEVICE_ID,
+        name: 'デバイス 1',
+        schema,
+        channelLabels,
+        packetCount: stored.packetCount,
+        byteCount: stored.byteCount,
+        packetChunks,
+        rawChunks,
+      },
+    ],
+  };
+}
+
+/**
+ * チャンクの kind。1 台目は 'packets' / 'raw'（旧形式と同じ）、2 台目以降は 'packets:1' のように
+ * デバイスの番号（devices の index）を付け、キー [sessionId, kind, seq] のままデバイスごとに連番を振る
+ */
+type ChunkKind = 'packets' | 'raw' | `packets:${number}` | `raw:${number}`;
+
+function chunkKind(base: 'packets' | 'raw', device: number): ChunkKind {
+  return device === 0 ? base : `${base}:${device}`;
+}
+
+interface PacketChunk {
+  sessionId: string;
+  kind: ChunkKind;
+  seq: number;
+  count: number;
+  /** epoch ms（小数部でサブミリ秒） */
+  timestamps: Float64Array;
+  /** count × channelCount のインターリーブ */
+  values: Float64Array;
+}
+
+interface RawChunk {
+  sessionId: string;
+  kind: ChunkKind;
+  seq: number;
+  bytes: Uint8Array;
+}
+
+/** 高分解能の現在時刻（epoch ms、小数部でサブミリ秒） */
+export function highResTimestamp(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+export interface SessionRecorder {
+  readonly session: Readonly<RecordingSession>;
+  /**
+   * deviceId のデバイスの受信パケットを 1 件記録する（timestamp 省略時は現在時刻）。
+   * 録画開始時になかったデバイスは記録しない（recordBlock / recordRaw も同じ）
+   */
+  recordPacket(deviceId: string, data: PacketData, timestamp?: number): void;
+  /** 読み取りループのサンプルブロックをまとめて記録する（受信時刻はブロック内のものを使う） */
+  recordBlock(deviceId: string, block: SampleBlock): void;
+  /** 受信した生バイト列を記録する */
+  recordRaw(deviceId: string, chunk: Uint8Array): void;
+  /** 残りを書き出して録画を終える */
+  stop(): Promise<RecordingSession>;
+}
+
+/** 書き出し用のメタデータの複製（録画中も件数は書き換わるため） */
+function copySession(session: RecordingSession): RecordingSession {
+  return { ...session, devices: session.devices.map((d) => ({ ...d })) };
+}
+
+/** 1 デバイス分の書き出し待ちのバッファ */
+interface DeviceBuffer {
+  meta: RecordedDevice;
+  index: number;
+  channelCount: number;
+  timestamps: Float64Array;
+  values: Float64Array;
+  packetFill: number;
+  raw: Uint8Array;
+  rawFill: number;
+}
+
+/**
+ * 録画を開始する。セッションのメタデータを IndexedDB に作成してから recorder を返す。
+ */
+export async function startRecording(
+  sources: readonly RecordingDeviceSource[]
+): Promise<SessionRecorder> {
+  const db = await openDatabase();
+  const startedAt = Date.now();
+  const session: RecordingSession = {
+    id: `rec-${startedAt}`,
+    startedAt,
+    endedAt: null,
+    devices: sources.map((source) => ({
+      ...source,
+      packetCount: 0,
+      byteCount: 0,
+      packetChunks: 0,
+      rawChunks: 0,
+    })),
+    packetCount: 0,
+    byteCount: 0,
+  };
+  {
+    const tx = db.transaction(SESSION_STORE, 'readwrite');
+    tx.objectStore(SESSION_STORE).put(session);
+    await transactionDone(tx);
+  }
+
+  const buffers = new Map<string, DeviceBuffer>(
+    session.devices.map((meta, index) => {
+      const channelCount = meta.schema.fields.length;
+      return [
+        meta.id,
+        {
+          meta,
+          index,
+          channelCount,
+          timestamps: new Float64Array(PACKETS_PER_CHUNK),
+          values: new Float64Array(PACKETS_PER_CHUNK * channelCount),
+          packetFill: 0,
+          raw: new Uint8Array(RAW_BYTES_PER_CHUNK),
+          rawFill: 0,
+        },
+      ];
+    })
+  );
+  let stopped = false;
+  let writeError: unknown = null;
+  /** 書き込みは順番に直列化する（メタデータの件数とチャンクの整合を保つ） */
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const enqueueWrite = (chunk: PacketChunk | RawChunk): void => {
+    const meta = copySession(session);
+    writeQueue = writeQueue
+      .then(async () => {
+        const tx = db.transaction([SESSION_STORE, CHUNK_STORE], 'readwrite');
+        tx.objectStore(CHUNK_STORE).put(chunk);
+        tx.objectStore(SESSION_STORE).put(meta);
+        await transactionDone(tx);
+      })
+      .catch((e) => {
+        writeError ??= e;
+      });
+  };
+
+  const flushPackets = (buffer: DeviceBuffer): void => {
+    if (buffer.packetFill === 0) return;
+    const chunk: PacketChunk = {
+      sessionId: session.id,
+      kind: chunkKind('packets', buffer.index),
+      seq: buffer.meta.packetChunks++,
+      count: buffer.packetFill,
+      timestamps: buffer.timestamps.slice(0, buffer.packetFill),
+      values: buffer.values.slice(0, buffer.packetFill * buffer.channelCount),
+    };
+    buffer.packetFill = 0;
+    enqueueWrite(chunk);
+  };
+
+  const flushRaw = (buffer: DeviceBuffer): void => {
+    if (buffer.rawFill === 0) return;
+    const chunk: RawChunk = {
+      sessionId: session.id,
+      kind: chunkKind('raw', buffer.index),
+      seq: buffer.meta.rawChunks++,
+      bytes: buffer.raw.slice(0, buffer.rawFill),
+    };
+    buffer.rawFill = 0;
+    enqueueWrite(chunk);
+  };
+
+  const flushAll = (): void => {
+    for (const buffer of buffers.values()) {
+      flushPackets(buffer);
+      flushRaw(buffer);
+    }
+  };
+
+  const timer = setInterval(flushAll, FLUSH_INTERVAL_MS);
+
+  const completePacket = (buffer: DeviceBuffer): void => {
+    buffer.packetFill++;
+    buffer.meta.packetCount++;
+    session.packetCount++;
+    if (buffer.packetFill === PACKETS_PER_CHUNK) {
+      flushPackets(buffer);
+      buffer.timestamps = new Float64Array(PACKETS_PER_CHUNK);
+      buffer.values = new Float64Array(PACKETS_PER_CHUNK * buffer.channelCount);
+    }
+  };
+
+  return {
+    session,
+    recordPacket(deviceId, data, timestamp = highResTimestamp()) {
+      const buffer = buffers.get(deviceId);
+      if (stopped || !buffer) return;
+      const { channelCount } = buffer;
+      buffer.timestamps[buffer.packetFill] = timestamp;
+      const base = buffer.packetFill * channelCount;
+      for (let ch = 0; ch < channelCount; ch++) {
+        buffer.values[base + ch] = data.values[ch] ?? NaN;
+      }
+      completePacket(buffer);
+    },
+    recordBlock(deviceId, block) {
+      const buffer = buffers.get(deviceId);
+      if (stopped || !buffer) return;
+      const { channelCount } = buffer;
+      for (let i = 0; i < block.count; i++) {
+        buffer.timestamps[buffer.packetFill] = block.timestamps[i]!;
+        const base = buffer.packetFill * channelCount;
+        const src = i * block.channelCount;
+        for (let ch = 0; ch < channelCount; ch++) {
+          buffer.values[base + ch] = ch < block.channelCount ? block.values[src + ch]! : NaN;
+        }
+        completePacket(buffer);
+      }
+    },
+    recordRaw(deviceId, chunk) {
+      const buffer = buffers.get(deviceId);
+      if (stopped || !buffer) return;
+      buffer.meta.byteCount += chunk.length;
+      session.byteCount += chunk.length;
+      let pos = 0;
+      while (pos < chunk.length) {
+        const n = Math.min(chunk.length - pos, RAW_BYTES_PER_CHUNK - buffer.rawFill);
+        buffer.raw.set(chunk.subarray(pos, pos + n), buffer.rawFill);
+        buffer.rawFill += n;
+        pos += n;
+        if (buffer.rawFill === RAW_BYTES_PER_CHUNK) {
+          flushRaw(buffer);
+          buffer.raw = new Uint8Array(RAW_BYTES_PER_CHUNK);
+        }
+      }
+    },
+    async stop() {
+      if (!stopped) {
+        stopped = true;
+        clearInterval(timer);
+        session.endedAt = Date.now();
+        flushAll();
+        // チャンクがなくても終了時刻を残す
+        const meta = copySession(session);
+        writeQueue = writeQueue.then(async () => {
+          const tx = db.transaction(SESSION_STORE, 'readwrite');
+          tx.objectStore(SESSION_STORE).put(meta);
+          await transactionDone(tx);
+        });
+      }
+      await writeQueue;
+      if (writeError != null) throw writeError;
+      return copySession(session);
+    },
+  };
+}
+
+/** 保存済みセッションの一覧（新しい順） */
+export async function listRecordings(): Promise<RecordingSession[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readonly');
+  const stored = tx.objectStore(SESSION_STORE).getAll() as IDBRequest<
+    (RecordingSession | LegacyRecordingSession)[]
+  >;
+  const sessions = await requestToPromise(stored);
+  return sessions.map(normalizeSession).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/** セッションとそのチャンクを削除する */
+export async function deleteRecording(session: RecordingSession): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSION_STORE, CHUNK_STORE], 'readwrite');
+  tx.objectStore(SESSION_STORE).delete(session.id);
+  tx.objectStore(CHUNK_STORE).delete(
+    IDBKeyRange.bound([session.id, ''], [session.id, '\uffff'])
+  );
+  await transactionDone(tx);
+}
+
+async function readChunk<T>(
+  kind: ChunkKind,
+  sessionId: string,
+  seq: number
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  const tx = db.transaction(CHUNK_STORE, 'readonly');
+  const req = tx.objectStore(CHUNK_STORE).get([sessionId, kind, seq]) as IDBRequest<T | undefined>;
+  return requestToPromise(req);
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * セッションの device 番目（devices の index）のデバイスを CSV に変換する。
+ * 1 列目は timestamp_ms（epoch ms、小数 3 桁）、以降はチャンネルごとの値。欠損値は空欄。
+ * IndexedDB からはチャンク単位で読み出し、Blob のパーツとして連結する。
+ */
+export async function exportRecordingCsv(session: RecordingSession, device = 0): Promise<Blob> {
+  const recorded = session.devices[device];
+  if (!recorded) throw new Error(`録画に ${device + 1} 台目のデバイスはありません`);
+  const channelCount = recorded.channelLabels.length;
+  const header = ['timestamp_ms', ...recorded.channelLabels].map(escapeCsv).join(',');
+  const parts: string[] = [header + '\n'];
+  for (let seq = 0; seq < recorded.packetChunks; seq++) {
+    const chunk = await readChunk<PacketChunk>(chunkKind('packets', device), session.id, seq);
+    if (!chunk) continue;
+    const lines: string[] = [];
+    for (let i = 0; i < chunk.count; i++) {
+      const row = [chunk.timestamps[i]!.toFixed(3)];
+      for (let ch = 0; ch < channelCount; ch++) {
+        const v = chunk.values[i * channelCount + ch]!;
+        row.push(Number.isFinite(v) ? String(v) : '');
+      }
+      lines.push(row.join(','));
+    }
+    parts.push(lines.join('\n') + '\n');
+  }
+  return new Blob(parts, { type: 'text/csv' });
+}
+
+/** セッションの device 番目のデバイスの生バイト列をそのまま連結したバイナリを返す */
+export async function exportRecordingRaw(session: RecordingSession, device = 0): Promise<Blob> {
+  const recorded = session.devices[device];
+  if (!recorded) throw new Error(`録画に ${device + 1} 台目のデバイスはありません`);
+  const parts: Uint8Array[] = [];
+  for (let seq = 0; seq < recorded.rawChunks; seq++) {
+    const chunk = await readChunk<RawChunk>(chunkKind('raw', device), session.id, seq);
+    if (chunk) parts.push(chunk.bytes);
+  }
+  return new Blob(parts, { type: 'application/octet-stream' });
+}
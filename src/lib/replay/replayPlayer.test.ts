@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PacketData } from '../packet/types';
+import { createReplayPlayer } from './replayPlayer';
+import type { ReplayTrack } from './replaySource';
+
+/** 0, 100, 200, … ms に 1 パケットずつのトラック */
+function evenTrack(count: number): ReplayTrack {
+  const timestamps = Float64Array.from({ length: count }, (_, i) => i * 100);
+  return {
+    packets: Array.from({ length: count }, (_, i) => ({ values: [i] })),
+    timestamps,
+    durationMs: timestamps[count - 1]!,
+    startTime: 1_700_000_000_000,
+  };
+}
+
+function collect() {
+  const received: [value: number, trackTimeMs: number][] = [];
+  const onPacket = (data: PacketData, trackTimeMs: number) =>
+    received.push([data.values[0]!, trackTimeMs]);
+  return { received, onPacket };
+}
+
+describe('createReplayPlayer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'performance'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('再生時刻に達したパケットを、トラック上の時刻付きで流す', () => {
+    const { received, onPacket } = collect();
+    const player = createReplayPlayer(evenTrack(4), onPacket);
+    player.play();
+    vi.advanceTimersByTime(150);
+    // タイマーの間隔に関係なく、記録された時刻が渡る
+    expect(received).toEqual([
+      [0, 0],
+      [1, 100],
+    ]);
+    vi.advanceTimersByTime(200);
+    expect(received.map(([, t]) => t)).toEqual([0, 100, 200, 300]);
+    expect(player.getState().playing).toBe(false);
+  });
+
+  it('速度を上げても渡す時刻はトラック上の時刻のまま', () => {
+    const { received, onPacket } = collect();
+    const player = createReplayPlayer(evenTrack(4), onPacket);
+    player.setSpeed(10);
+    player.play();
+    vi.advanceTimersByTime(40);
+    expect(received.map(([, t]) => t)).toEqual([0, 100, 200, 300]);
+  });
+
+  it('シークした位置から流し、末尾まで再生済みなら先頭からやり直す', () => {
+    const { received, onPacket } = collect();
+    const player = createReplayPlayer(evenTrack(4), onPacket);
+    player.seek(150);
+    player.play();
+    vi.advanceTimersByTime(60);
+    expect(received.map(([v]) => v)).toEqual([2]);
+    vi.advanceTimersByTime(200);
+    received.length = 0;
+    player.play();
+    vi.advanceTimersByTime(20);
+    expect(received).toEqual([[0, 0]]);
+    player.dispose();
+  });
+
+  it('一時停止中は流さない', () => {
+    const { received, onPacket } = collect();
+    const onStateChange = vi.fn();
+    const player = createReplayPlayer(evenTrack(4), onPacket, onStateChange);
+    player.play();
+    vi.advanceTimersByTime(120);
+    player.pause();
+    vi.advanceTimersByTime(1000);
+    expect(received.map(([v]) => v)).toEqual([0, 1]);
+    expect(onStateChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ playing: false, positionMs: 120 })
+    );
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * 再生トラックを実時間（× 再生速度）で流し、ライブ受信と同じ onPacket に渡すプレーヤー。
+ * 送り出すタイミングは再生速度で変わるため、onPacket にはトラック上の時刻（先頭からの ms）も渡す。
+ */
+import type { PacketData } from '../packet/types';
+import type { ReplayTrack } from './replaySource';
+
+/** 再生速度の下限・上限 */
+export const MIN_REPLAY_SPEED = 0.25;
+export const MAX_REPLAY_SPEED = 10;
+
+/** 再生位置を進める間隔（ms） */
+const TICK_INTERVAL_MS = 20;
+
+export interface ReplayState {
+  playing: boolean;
+  /** 再生位置（トラック先頭からの ms） */
+  positionMs: number;
+  durationMs: number;
+  speed: number;
+}
+
+export interface ReplayPlayer {
+  play(): void;
+  pause(): void;
+  /** 再生位置を移動する（その間のパケットは流さない） */
+  seek(positionMs: number): void;
+  setSpeed(speed: number): void;
+  getState(): ReplayState;
+  /** タイマーを止めて破棄する */
+  dispose(): void;
+}
+
+/** timestamps の中で value 以上となる最初の位置 */
+function lowerBound(timestamps: Float64Array, value: number): number {
+  let lo = 0;
+  let hi = timestamps.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (timestamps[mid]! < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+export function createReplayPlayer(
+  track: ReplayTrack,
+  onPacket: (data: PacketData, trackTimeMs: number) => void,
+  onStateChange?: (state: ReplayState) => void
+): ReplayPlayer {
+  let playing = false;
+  let positionMs = 0;
+  let speed = 1;
+  let next = 0;
+  let lastTick = 0;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const getState = (): ReplayState => ({
+    playing,
+    positionMs,
+    durationMs: track.durationMs,
+    speed,
+  });
+  const notify = (): void => onStateChange?.(getState());
+
+  const stopTimer = (): void => {
+    if (timer != null) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  const tick = (): void => {
+    const now = performance.now();
+    positionMs = Math.min(track.durationMs, positionMs + (now - lastTick) * speed);
+    lastTick = now;
+    while (next < track.packets.length && track.timestamps[next]! <= positionMs) {
+      onPacket(track.packets[next]!, track.timestamps[next]!);
+      next++;
+    }
+    if (next >= track.packets.length) {
+      playing = false;
+      stopTimer();
+      notify();
+    }
+  };
+
+  return {
+    play() {
+      if (playing) return;
+      if (next >= track.packets.length) {
+        // 末尾まで再生済みなら先頭から
+        positionMs = 0;
+        next = 0;
+      }
+      playing = true;
+      lastTick = performance.now();
+      timer = setInterval(tick, TICK_INTERVAL_MS);
+      notify();
+    },
+    pause() {
+      if (!playing) return;
+      tick();
+      playing = false;
+      stopTimer();
+      notify();
+    },
+    seek(target) {
+      positionMs = Math.min(track.durationMs, Math.max(0, target));
+      next = lowerBound(track.timestamps, positionMs);
+      lastTick = performance.now();
+      notify();
+    },
+    setSpeed(value) {
+      speed = Math.min(MAX_REPLAY_SPEED, Math.max(MIN_REPLAY_SPEED, value));
+      notify();
+    },
+    getState,
+    dispose() {
+      playing = false;
+      stopTimer();
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { encodeFrame } from '../packet/framing';
+import type { PacketSchema } from '../packet/types';
+import { loadCsvCapture, loadRawCapture } from './replaySource';
+
+const SCHEMA: PacketSchema = {
+  name: 'test',
+  size: 2,
+  fields: [
+    { name: 'a', type: 'uint8', offset: 0 },
+    { name: 'b', type: 'uint8', offset: 1 },
+  ],
+};
+
+describe('loadCsvCapture', () => {
+  it('timestamp_ms 列を先頭からの経過時間にし、列名をフィールド名と照合する', () => {
+    const track = loadCsvCapture('timestamp_ms,b,a\n1000.5,2,1\n1010.5,,3\n', SCHEMA);
+    expect(track.packets.map((p) => p.values)).toEqual([
+      [1, 2],
+      [3, NaN],
+    ]);
+    expect([...track.timestamps]).toEqual([0, 10]);
+    expect(track.durationMs).toBe(10);
+    expect(track.startTime).toBe(1000.5);
+  });
+
+  it('ヘッダーのない CSV は左から順に割り当て、packetRate の等間隔で並べる', () => {
+    const track = loadCsvCapture('1,2\n3,4\n5,6\n', SCHEMA, 50);
+    expect(track.packets).toHaveLength(3);
+    expect([...track.timestamps]).toEqual([0, 20, 40]);
+    expect(track.startTime).toBeNull();
+  });
+
+  it('同じ時刻が続くのは受け付ける', () => {
+    const track = loadCsvCapture('timestamp_ms,a\n5,1\n5,2\n6,3\n', SCHEMA);
+    expect([...track.timestamps]).toEqual([0, 0, 1]);
+  });
+
+  it('時刻が戻っている CSV は読み込まない', () => {
+    expect(() => loadCsvCapture('timestamp_ms,a\n10,1\n30,2\n20,3\n', SCHEMA)).toThrow(
+      /時刻順ではありません（3 件目/
+    );
+  });
+
+  it('空の CSV は空のトラック', () => {
+    expect(loadCsvCapture('\n\n', SCHEMA).packets).toEqual([]);
+  });
+});
+
+describe('loadRawCapture', () => {
+  it('受信形式のデコーダーに通し、packetRate の等間隔で並べる', () => {
+    const framing = { syncHeader: [0xaa], checksum: 'crc8' as const };
+    const bytes = new Uint8Array([
+      ...encodeFrame(new Uint8Array([1, 2]), framing),
+      0x00,
+      ...encodeFrame(new Uint8Array([3, 4]), framing),
+    ]);
+    const track = loadRawCapture(bytes, { mode: 'framed', framing }, SCHEMA, 10);
+    expect(track.packets.map((p) => p.values)).toEqual([
+      [1, 2],
+      [3, 4],
+    ]);
+    expect([...track.timestamps]).toEqual([0, 100]);
+  });
+});
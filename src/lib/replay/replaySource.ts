@@ -0,0 +1,155 @@
+/**
+ * 再生用データの読み込み。生バイトのキャプチャは受信時と同じデコーダーに通し、
+ * CSV は録画のエクスポート形式（timestamp_ms + チャンネル列）または任意の数値 CSV として読む。
+ */
+import { resolveChannelConfigs } from '../config/channelConfig';
+import { createDecoder, type DecoderConfig } from '../packet/createDecoder';
+import type { PacketData, PacketSchema } from '../packet/types';
+
+/** 再生トラック。timestamps[i] は先頭パケットからの経過時間（ms） */
+export interface ReplayTrack {
+  packets: PacketData[];
+  timestamps: Float64Array;
+  durationMs: number;
+  /** 先頭パケットの記録時刻（epoch ms）。記録時刻のないデータは null */
+  startTime: number | null;
+}
+
+/** タイムスタンプを持たないデータに割り当てる既定のパケットレート（packets/s） */
+export const DEFAULT_REPLAY_PACKET_RATE = 100;
+
+/** タイムスタンプ列として扱う CSV ヘッダー */
+const TIMESTAMP_COLUMN = 'timestamp_ms';
+
+function buildTrack(
+  packets: PacketData[],
+  timestamps: Float64Array,
+  startTime: number | null = null
+): ReplayTrack {
+  return {
+    packets,
+    timestamps,
+    durationMs: timestamps.length > 0 ? timestamps[timestamps.length - 1]! : 0,
+    startTime,
+  };
+}
+
+function evenTimestamps(count: number, packetRate: number): Float64Array {
+  const interval = 1000 / packetRate;
+  const timestamps = new Float64Array(count);
+  for (let i = 0; i < count; i++) timestamps[i] = i * interval;
+  return timestamps;
+}
+
+/**
+ * 生バイトのキャプチャをデコードしてトラックにする。
+ * 受信時刻は残っていないため、packetRate の等間隔で並べる。
+ */
+export function loadRawCapture(
+  bytes: Uint8Array,
+  decoderConfig: DecoderConfig,
+  schema: PacketSchema,
+  packetRate = DEFAULT_REPLAY_PACKET_RATE
+): ReplayTrack {
+  const decoder = createDecoder(decoderConfig, schema);
+  const packets: PacketData[] = [];
+  decoder.decode(bytes, (data) => packets.push(data));
+  return buildTrack(packets, evenTimestamps(packets.length, packetRate));
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i]!;
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',' || c === '\t') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  cells.push(cell);
+  return cells.map((c) => c.trim());
+}
+
+/**
+ * CSV をトラックにする。
+ * - 1 行目が数値でなければヘッダーとみなし、列名をチャンネル名（CHANNEL_CONFIG）またはフィールド名と照合する
+ * - timestamp_ms 列があればその間隔で再生し、先頭の値を記録時刻（startTime）にする。なければ packetRate の等間隔
+ * - timestamp_ms が前の行より戻っている（時刻順でない）CSV は throw
+ * - 空欄・数値でないセルは NaN（欠損）
+ */
+export function loadCsvCapture(
+  text: string,
+  schema: PacketSchema,
+  packetRate = DEFAULT_REPLAY_PACKET_RATE
+): ReplayTrack {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== '');
+  if (lines.length === 0) return buildTrack([], new Float64Array(0));
+
+  const channelCount = schema.fields.length;
+  const first = splitCsvLine(lines[0]!);
+  const hasHeader = first.some((cell) => cell !== '' && !Number.isFinite(Number(cell)));
+  let timestampColumn = -1;
+  /** CSV の列 → チャンネル番号（-1 は読み飛ばす） */
+  let columnToChannel: number[];
+  if (hasHeader) {
+    const labels = resolveChannelConfigs(schema).map((c) => c.label);
+    timestampColumn = first.indexOf(TIMESTAMP_COLUMN);
+    columnToChannel = first.map((name, col) => {
+      if (col === timestampColumn) return -1;
+      const byLabel = labels.indexOf(name);
+      if (byLabel >= 0) return byLabel;
+      return schema.fields.findIndex((f) => f.name === name);
+    });
+    // 名前が 1 つも一致しなければ、タイムスタンプ以外の列を左から順に割り当てる
+    if (columnToChannel.every((ch) => ch < 0)) {
+      let next = 0;
+      columnToChannel = first.map((_, col) => (col === timestampColumn ? -1 : next++));
+    }
+  } else {
+    columnToChannel = first.map((_, col) => col);
+  }
+
+  const rows = hasHeader ? lines.slice(1) : lines;
+  const packets: PacketData[] = [];
+  const rawTimes: number[] = [];
+  for (const line of rows) {
+    const cells = splitCsvLine(line);
+    const values = new Array<number>(channelCount).fill(NaN);
+    cells.forEach((cell, col) => {
+      const ch = columnToChannel[col] ?? -1;
+      if (ch < 0 || ch >= channelCount || cell === '') return;
+      values[ch] = Number(cell);
+    });
+    packets.push({ values });
+    if (timestampColumn >= 0) rawTimes.push(Number(cells[timestampColumn]));
+  }
+
+  if (timestampColumn >= 0 && rawTimes.length > 0 && rawTimes.every(Number.isFinite)) {
+    // 再生位置のシークとパケットの送り出しは時刻順に並んでいる前提のため、戻っていれば読み込まない
+    const back = rawTimes.findIndex((t, i) => i > 0 && t < rawTimes[i - 1]!);
+    if (back >= 0) {
+      throw new Error(
+        `CSV の ${TIMESTAMP_COLUMN} が時刻順ではありません（${back + 1} 件目の ${rawTimes[back]} が` +
+          `前の ${rawTimes[back - 1]} より前）。時刻順に並べ替えてから読み込んでください`
+      );
+    }
+    const t0 = rawTimes[0]!;
+    return buildTrack(packets, Float64Array.from(rawTimes, (t) => Math.max(0, t - t0)), t0);
+  }
+  return buildTrack(packets, evenTimestamps(packets.length, packetRate));
+}
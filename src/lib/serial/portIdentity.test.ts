@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { formatPortLabel, pickReconnectPort, type PortIdentity } from './portIdentity';
+
+const FTDI: PortIdentity = { usbVendorId: 0x0403, usbProductId: 0x6001 };
+const CH340: PortIdentity = { usbVendorId: 0x1a86, usbProductId: 0x7523 };
+
+/** getInfo だけを持つ SerialPort の代わり */
+function fakePort(identity: PortIdentity): SerialPort {
+  return { getInfo: () => identity } as unknown as SerialPort;
+}
+
+describe('pickReconnectPort', () => {
+  it('切れたポートが空いていれば、同じ型が他にあってもそれを選ぶ', () => {
+    const lost = fakePort(FTDI);
+    const other = fakePort(FTDI);
+    expect(pickReconnectPort([other, lost], lost, FTDI, () => false)).toBe(lost);
+  });
+
+  it('他のデバイスが開いているポートは選ばない', () => {
+    const lost = fakePort(FTDI);
+    const busy = fakePort(FTDI);
+    const replugged = fakePort(FTDI);
+    const inUse = (p: SerialPort) => p === busy;
+    // 抜き差しで作り直されたポートが、空いている同じ型の唯一の候補
+    expect(pickReconnectPort([busy, replugged], lost, FTDI, inUse)).toBe(replugged);
+    expect(pickReconnectPort([busy], lost, FTDI, inUse)).toBeNull();
+  });
+
+  it('同じ型の空きが 2 つ以上あればどちらか分からないため null', () => {
+    const ports = [fakePort(FTDI), fakePort(FTDI), fakePort(CH340)];
+    expect(pickReconnectPort(ports, null, FTDI, () => false)).toBeNull();
+    expect(pickReconnectPort(ports, null, CH340, () => false)).toBe(ports[2]);
+  });
+});
+
+describe('formatPortLabel', () => {
+  it('ベンダー名と VID:PID、同じ型が複数あれば番号', () => {
+    const ports = [fakePort(FTDI), fakePort(FTDI)];
+    expect(formatPortLabel(ports[1]!, 1, ports)).toBe('FTDI (0403:6001) #2');
+    expect(formatPortLabel(fakePort(CH340), 0, [])).toBe('WCH (1a86:7523)');
+  });
+});
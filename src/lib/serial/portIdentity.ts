@@ -0,0 +1,91 @@
+/**
+ * シリアルポートの識別（USB の VID:PID）と表示名。
+ * Web Serial の SerialPort はページを開き直すと別のオブジェクトになり、抜き差しでも作り直されるため、
+ * 前回使ったポートは VID:PID で覚えておき、同じ ID のポートが現れたら同じものとみなす。
+ * 同じ型のアダプターを複数つなぐときは、他で開いていないポートのうち候補が 1 つに決まるときだけそうする。
+ */
+
+export interface PortIdentity {
+  usbVendorId: number;
+  usbProductId: number;
+}
+
+/** よく使う USB シリアル変換・マイコンボードのベンダー名 */
+const USB_VENDOR_NAMES: Record<number, string> = {
+  0x0403: 'FTDI',
+  0x10c4: 'Silicon Labs',
+  0x1a86: 'WCH',
+  0x067b: 'Prolific',
+  0x2341: 'Arduino',
+  0x2a03: 'Arduino',
+  0x239a: 'Adafruit',
+  0x303a: 'Espressif',
+  0x0483: 'STMicroelectronics',
+  0x2e8a: 'Raspberry Pi',
+  0x1366: 'SEGGER',
+  0x0d28: 'Arm (DAPLink)',
+};
+
+/** USB 接続でない（Bluetooth など）・情報が取れないポートは null */
+export function getPortIdentity(port: SerialPort): PortIdentity | null {
+  try {
+    const { usbVendorId, usbProductId } = port.getInfo();
+    if (usbVendorId == null || usbProductId == null) return null;
+    return { usbVendorId, usbProductId };
+  } catch {
+    return null;
+  }
+}
+
+export function samePortIdentity(a: PortIdentity | null, b: PortIdentity | null): boolean {
+  return (
+    a != null && b != null && a.usbVendorId === b.usbVendorId && a.usbProductId === b.usbProductId
+  );
+}
+
+/**
+ * 接続が切れたあとに開き直すポートを選ぶ。inUse のポート（他のデバイスが開いている）は選ばない。
+ * 切れたポート（lost）がまだ一覧にあればそれを、なければ同じ VID:PID の空いているポートが
+ * 1 つだけのときにそれを選ぶ。同じ型のアダプターが複数空いていると元のボードが分からないため null
+ */
+export function pickReconnectPort(
+  ports: readonly SerialPort[],
+  lost: SerialPort | null,
+  identity: PortIdentity,
+  inUse: (port: SerialPort) => boolean
+): SerialPort | null {
+  const free = ports.filter((p) => !inUse(p));
+  if (lost && free.includes(lost)) return lost;
+  const candidates = free.filter((p) => samePortIdentity(getPortIdentity(p), identity));
+  return candidates.length === 1 ? candidates[0]! : null;
+}
+
+function hex4(v: number): string {
+  return v.toString(16).padStart(4, '0');
+}
+
+/** "0403:6001" の形 */
+export function formatPortIdentity(identity: PortIdentity): string {
+  return `${hex4(identity.usbVendorId)}:${hex4(identity.usbProductId)}`;
+}
+
+/**
+ * ポート一覧に出す名前（例: "FTDI (0403:6001)"）。
+ * 同じ VID:PID のポートが複数あるときは "#2" のように番号を付けて区別する。index は serial ポートの中での順番
+ */
+export function formatPortLabel(port: SerialPort, index: number, ports: readonly SerialPort[]): string {
+  const identity = getPortIdentity(port);
+  if (!identity) return `ポート ${index + 1}`;
+  const vendor = USB_VENDOR_NAMES[identity.usbVendorId] ?? 'USB';
+  const label = `${vendor} (${formatPortIdentity(identity)})`;
+  const same = ports.filter((p) => samePortIdentity(getPortIdentity(p), identity));
+  return same.length > 1 ? `${label} #${same.indexOf(port) + 1}` : label;
+}
+
+/** JSON から読んだ値を PortIdentity として検査する。不正なら null */
+export function parsePortIdentity(value: unknown): PortIdentity | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { usbVendorId, usbProductId } = value as Record<string, unknown>;
+  if (!Number.isInteger(usbVendorId) || !Number.isInteger(usbProductId)) return null;
+  return { usbVendorId: usbVendorId as number, usbProductId: usbProductId as number };
+}
@@ -0,0 +1,100 @@
+/**
+ * シリアルポートの通信設定（データ長・パリティ・ストップビット・フロー制御）と
+ * 制御線（DTR / RTS）の設定。ボーレートは App が設定として持つため、ここでは含めない。
+ * 設定はポート（USB の VID:PID）ごとに覚えておき、同じポートを選ぶと復元する。
+ */
+
+export type SerialDataBits = 7 | 8;
+export type SerialStopBits = 1 | 2;
+
+/** 接続直後に制御線をパルスしてボードをリセットする（none はしない） */
+export type SerialResetLine = 'none' | 'dtr' | 'rts';
+
+export interface SerialPortOptions {
+  dataBits: SerialDataBits;
+  parity: ParityType;
+  stopBits: SerialStopBits;
+  flowControl: FlowControlType;
+  /** 接続中の DTR / RTS の状態（true で ON） */
+  dtr: boolean;
+  rts: boolean;
+  resetOnConnect: SerialResetLine;
+}
+
+/** 一般的な 8N1・フロー制御なし。DTR / RTS は多くの OS が開いたときに ON にするのに合わせる */
+export const DEFAULT_SERIAL_PORT_OPTIONS: SerialPortOptions = {
+  dataBits: 8,
+  parity: 'none',
+  stopBits: 1,
+  flowControl: 'none',
+  dtr: true,
+  rts: true,
+  resetOnConnect: 'none',
+};
+
+/** ボーレートの選択肢（これ以外は手入力） */
+export const BAUD_RATES = [
+  9600, 19200, 38400, 57600, 115200, 230400, 460800, 921600, 1000000, 2000000, 3000000,
+] as const;
+
+export const MIN_BAUD_RATE = 50;
+export const MAX_BAUD_RATE = 3_000_000;
+
+/** リセットのために制御線を反転させておく時間（ms） */
+export const RESET_PULSE_MS = 100;
+
+export const PARITY_LABELS: Record<ParityType, string> = {
+  none: 'なし',
+  even: '偶数',
+  odd: '奇数',
+};
+
+export const FLOW_CONTROL_LABELS: Record<FlowControlType, string> = {
+  none: 'なし',
+  hardware: 'RTS/CTS',
+};
+
+export const RESET_LINE_LABELS: Record<SerialResetLine, string> = {
+  none: 'しない',
+  dtr: 'DTR パルス',
+  rts: 'RTS パルス',
+};
+
+/** 入力されたボーレートの検査。問題があればメッセージ、なければ null */
+export function validateBaudRate(baudRate: number): string | null {
+  if (!Number.isInteger(baudRate) || baudRate < MIN_BAUD_RATE || baudRate > MAX_BAUD_RATE) {
+    return `ボーレートは ${MIN_BAUD_RATE}〜${MAX_BAUD_RATE.toLocaleString()} の整数で入力してください`;
+  }
+  return null;
+}
+
+/** "8N1" の形の略記 */
+export function formatFrameFormat(options: SerialPortOptions): string {
+  const parity = options.parity === 'none' ? 'N' : options.parity === 'even' ? 'E' : 'O';
+  return `${options.dataBits}${parity}${options.stopBits}`;
+}
+
+function isKeyOf<T extends string>(labels: Record<T, string>, value: unknown): value is T {
+  return typeof value === 'string' && Object.keys(labels).includes(value);
+}
+
+/** JSON から読んだ値を通信設定として検査する。足りない項目は既定値で埋め、不正なら null */
+export function parseSerialPortOptions(value: unknown): SerialPortOptions | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const v = { ...DEFAULT_SERIAL_PORT_OPTIONS, ...(value as Partial<SerialPortOptions>) };
+  if (v.dataBits !== 7 && v.dataBits !== 8) return null;
+  if (!isKeyOf(PARITY_LABELS, v.parity)) return null;
+  if (v.stopBits !== 1 && v.stopBits !== 2) return null;
+  if (!isKeyOf(FLOW_CONTROL_LABELS, v.flowControl)) return null;
+  if (typeof v.dtr !== 'boolean' || typeof v.rts !== 'boolean') return null;
+  if (!isKeyOf(RESET_LINE_LABELS, v.resetOnConnect)) return null;
+  return {
+    dataBits: v.dataBits,
+    parity: v.parity,
+    stopBits: v.stopBits,
+    flowControl: v.flowControl,
+    dtr: v.dtr,
+    rts: v.rts,
+    resetOnConnect: v.resetOnConnect,
+  };
+}
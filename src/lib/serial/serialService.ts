@@ -1,9 +1,12 @@
 /**
- * Web Serial API のラップ。ポート取得・接続・読み取りループを提供する。
+ * Web Serial API のラップ。ポート取得・接続・制御線・書き込みを提供する。
+ * 読み取りループは transport/readLoop.ts を使う。
  */
-import { parsePacket } from '../packet/parser';
-import type { PacketData } from '../packet/types';
-import { PACKET_SIZE } from '../packet/types';
+import {
+  DEFAULT_SERIAL_PORT_OPTIONS,
+  RESET_PULSE_MS,
+  type SerialPortOptions,
+} from './serialOptions';
 
 function getSerial(): Serial | undefined {
   if (typeof navigator === 'undefined') return undefined;
@@ -11,6 +14,17 @@ function getSerial(): Serial | undefined {
   return nav.serial;
 }
 
+/**
+ * このページで開いている（開こうとしている）ポート。複数デバイスの接続で、
+ * 自動再接続が他のデバイスの使っているポートを選ばないようにする
+ */
+const portsInUse = new Set<SerialPort>();
+
+/** ポートがこのページのどこかで開かれているか */
+export function isPortInUse(port: SerialPort): boolean {
+  return portsInUse.has(port) || port.readable != null;
+}
+
 /** Web Serial API が利用可能か */
 export function isSerialSupported(): boolean {
   return getSerial() !== undefined;
@@ -34,70 +48,104 @@ export async function requestPort(): Promise<SerialPort> {
   return serial.requestPort();
 }
 
-/** ポートを指定ボーレートで開く */
-export async function open(port: SerialPort, baudRate: number): Promise<void> {
-  await port.open({ baudRate });
+export interface SerialPortWatchHandlers {
+  /** 許可済みのポートが接続された（USB を挿した） */
+  onConnect: (port: SerialPort) => void;
+  /** 許可済みのポートが切断された（USB を抜いた） */
+  onDisconnect: (port: SerialPort) => void;
 }
 
-/** ポートを閉じる */
-export async function close(port: SerialPort): Promise<void> {
-  await port.close();
+/**
+ * ポートの抜き差し（navigator.serial の connect / disconnect イベント）を監視する。
+ * 戻り値を呼ぶと監視をやめる。Web Serial API がなければ何もしない
+ */
+export function watchSerialPorts(handlers: SerialPortWatchHandlers): () => void {
+  const serial = getSerial();
+  if (!serial) return () => {};
+  const onConnect = (e: Event): void => handlers.onConnect(e.target as SerialPort);
+  const onDisconnect = (e: Event): void => handlers.onDisconnect(e.target as SerialPort);
+  serial.addEventListener('connect', onConnect);
+  serial.addEventListener('disconnect', onDisconnect);
+  return () => {
+    serial.removeEventListener('connect', onConnect);
+    serial.removeEventListener('disconnect', onDisconnect);
+  };
 }
 
 /**
- * 読み取りループを開始する。受信バイトを内部バッファに蓄積し、
- * 16byte 揃ったタイミングでパースして onPacket を呼ぶ。
- * signal が abort されるか、ポートが閉じられるかエラーで終了するまで実行する。
+ * ポートを指定ボーレート・通信設定で開き、DTR / RTS を設定する。
+ * resetOnConnect を指定したときは、その制御線を RESET_PULSE_MS だけ反転させてボードをリセットする
  */
-export async function startReadLoop(
+export async function open(
   port: SerialPort,
-  onPacket: (data: PacketData) => void,
-  onError?: (err: unknown) => void,
-  signal?: AbortSignal
+  baudRate: number,
+  options: SerialPortOptions = DEFAULT_SERIAL_PORT_OPTIONS
 ): Promise<void> {
-  if (!port.readable) {
-    onError?.(new Error('ポートの読み取りストリームが利用できません'));
-    return;
+  // 開き終わる前に他のデバイスの再接続が同じポートを選ばないよう、先に使用中にする
+  portsInUse.add(port);
+  try {
+    await port.open({
+      baudRate,
+      dataBits: options.dataBits,
+      parity: options.parity,
+      stopBits: options.stopBits,
+      flowControl: options.flowControl,
+    });
+  } catch (e) {
+    portsInUse.delete(port);
+    throw e;
+  }
+  try {
+    // RTS/CTS フロー制御中の RTS はポート側が制御する
+    const rts = options.flowControl === 'hardware' ? undefined : options.rts;
+    await setSignals(port, { dtr: options.dtr, rts });
+    if (options.resetOnConnect !== 'none') {
+      const line = options.resetOnConnect;
+      await setSignals(port, { [line]: !options[line] });
+      await new Promise((resolve) => setTimeout(resolve, RESET_PULSE_MS));
+      await setSignals(port, { [line]: options[line] });
+    }
+  } catch (e) {
+    await port.close().catch(() => {});
+    portsInUse.delete(port);
+    const detail = e instanceof Error ? e.message : String(e);
+    throw new Error(`制御線（DTR / RTS）を設定できませんでした: ${detail}`);
   }
-  const reader = port.readable.getReader();
-  const buffer: number[] = [];
+}
 
-  const onAbort = (): void => {
-    reader.cancel().catch(() => {});
-  };
-  if (signal?.aborted) {
-    onAbort();
-  } else if (signal) {
-    signal.addEventListener('abort', onAbort, { once: true });
+/** 制御線の状態（指定したものだけ変える） */
+export interface SerialSignals {
+  dtr?: boolean;
+  rts?: boolean;
+}
+
+/** DTR / RTS を設定する（開いているポートのみ） */
+export async function setSignals(port: SerialPort, signals: SerialSignals): Promise<void> {
+  await port.setSignals({
+    ...(signals.dtr !== undefined && { dataTerminalReady: signals.dtr }),
+    ...(signals.rts !== undefined && { requestToSend: signals.rts }),
+  });
+}
+
+/** ポートを閉じる */
+export async function close(port: SerialPort): Promise<void> {
+  try {
+    await port.close();
+  } finally {
+    // 抜かれたポートは閉じられないことがあるが、使用中からは外す
+    portsInUse.delete(port);
   }
+}
 
+/** ポートの書き込みストリームへバイト列を送る */
+export async function write(port: SerialPort, data: Uint8Array): Promise<void> {
+  if (!port.writable) {
+    throw new Error('ポートの書き込みストリームが利用できません');
+  }
+  const writer = port.writable.getWriter();
   try {
-    while (true) {
-      if (signal?.aborted) break;
-      const { value, done } = await reader.read();
-      if (done) break;
-      if (value) {
-        buffer.push(...value);
-        while (buffer.length >= PACKET_SIZE) {
-          const slice = buffer.splice(0, PACKET_SIZE);
-          const ab = new ArrayBuffer(PACKET_SIZE);
-          new Uint8Array(ab).set(slice);
-          try {
-            const data = parsePacket(ab);
-            onPacket(data);
-          } catch (e) {
-            onError?.(e);
-          }
-        }
-      }
-    }
-  } catch (err) {
-    const isAbort = err instanceof DOMException && err.name === 'AbortError';
-    if (!isAbort && onError) onError(err);
+    await writer.write(data);
   } finally {
-    if (signal && !signal.aborted) {
-      signal.removeEventListener('abort', onAbort);
-    }
-    reader.releaseLock();
+    writer.releaseLock();
   }
 }
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createWindow, fftInPlace, isPowerOfTwo } from './fft';
+
+/** 定義どおりの離散フーリエ変換（検算用） */
+function naiveDft(input: number[]): { re: number[]; im: number[] } {
+  const n = input.length;
+  const re: number[] = [];
+  const im: number[] = [];
+  for (let k = 0; k < n; k++) {
+    let sr = 0;
+    let si = 0;
+    for (let t = 0; t < n; t++) {
+      const angle = (-2 * Math.PI * k * t) / n;
+      sr += input[t]! * Math.cos(angle);
+      si += input[t]! * Math.sin(angle);
+    }
+    re.push(sr);
+    im.push(si);
+  }
+  return { re, im };
+}
+
+describe('fftInPlace', () => {
+  it('定義どおりの DFT と一致する', () => {
+    const input = [0.3, -1.2, 2.5, 0, 4.1, -0.7, 1.9, 3.3, -2.2, 0.4, 1, -1, 5, 0.1, -3.6, 2];
+    const re = Float64Array.from(input);
+    const im = new Float64Array(input.length);
+    fftInPlace(re, im);
+    const expected = naiveDft(input);
+    re.forEach((v, k) => expect(v).toBeCloseTo(expected.re[k]!, 9));
+    im.forEach((v, k) => expect(v).toBeCloseTo(expected.im[k]!, 9));
+  });
+
+  it('インパルスは全 bin で 1 になる', () => {
+    const re = new Float64Array(8);
+    const im = new Float64Array(8);
+    re[0] = 1;
+    fftInPlace(re, im);
+    expect(Array.from(re)).toEqual(new Array(8).fill(1));
+    expect(Array.from(im)).toEqual(new Array(8).fill(0));
+  });
+
+  it('bin 上の正弦波は k と n−k の bin にだけ現れる', () => {
+    const n = 64;
+    const k = 5;
+    const re = Float64Array.from({ length: n }, (_, t) => Math.cos((2 * Math.PI * k * t) / n));
+    const im = new Float64Array(n);
+    fftInPlace(re, im);
+    for (let bin = 0; bin < n; bin++) {
+      const amp = Math.hypot(re[bin]!, im[bin]!);
+      expect(amp).toBeCloseTo(bin === k || bin === n - k ? n / 2 : 0, 9);
+    }
+  });
+
+  it('2 のべき乗でない点数・長さの違う im は throw', () => {
+    expect(() => fftInPlace(new Float64Array(12), new Float64Array(12))).toThrow(
+      'FFT の点数は 2 のべき乗にしてください: 12'
+    );
+    expect(() => fftInPlace(new Float64Array(8), new Float64Array(4))).toThrow();
+  });
+});
+
+describe('isPowerOfTwo', () => {
+  it('正の 2 のべき乗だけ true', () => {
+    expect([1, 2, 256, 16384].every(isPowerOfTwo)).toBe(true);
+    expect([0, -4, 3, 12, 2.5].some(isPowerOfTwo)).toBe(false);
+  });
+});
+
+describe('createWindow', () => {
+  it('Hann は両端 0・中央 1 の左右対称', () => {
+    const w = createWindow('hann', 9);
+    expect(w[0]).toBeCloseTo(0, 12);
+    expect(w[8]).toBeCloseTo(0, 12);
+    expect(w[4]).toBeCloseTo(1, 12);
+    for (let i = 0; i < 9; i++) expect(w[i]).toBeCloseTo(w[8 - i]!, 12);
+  });
+
+  it('Hamming・Blackman の端点と矩形窓', () => {
+    expect(createWindow('hamming', 5)[0]).toBeCloseTo(0.08, 12);
+    expect(createWindow('blackman', 5)[0]).toBeCloseTo(0, 12);
+    expect(Array.from(createWindow('rectangular', 4))).toEqual([1, 1, 1, 1]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * スペクトル表示用の FFT（基数 2、時間間引き）と窓関数。
+ * 配列は毎回確保せず、呼び出し側が持つ Float64Array をその場で書き換える。
+ */
+
+export type WindowFunction = 'hann' | 'hamming' | 'blackman' | 'rectangular';
+
+export const WINDOW_FUNCTION_LABELS: Record<WindowFunction, string> = {
+  hann: 'Hann',
+  hamming: 'Hamming',
+  blackman: 'Blackman',
+  rectangular: '矩形',
+};
+
+/** 選択できる FFT 点数（2 のべき乗） */
+export const FFT_SIZES = [256, 512, 1024, 2048, 4096, 8192, 16384] as const;
+
+export function isPowerOfTwo(n: number): boolean {
+  return Number.isInteger(n) && n > 0 && (n & (n - 1)) === 0;
+}
+
+/** 長さ size の窓関数の係数 */
+export function createWindow(type: WindowFunction, size: number): Float64Array {
+  const w = new Float64Array(size);
+  const m = size - 1 || 1;
+  for (let i = 0; i < size; i++) {
+    const t = (2 * Math.PI * i) / m;
+    switch (type) {
+      case 'hann':
+        w[i] = 0.5 - 0.5 * Math.cos(t);
+        break;
+      case 'hamming':
+        w[i] = 0.54 - 0.46 * Math.cos(t);
+        break;
+      case 'blackman':
+        w[i] = 0.42 - 0.5 * Math.cos(t) + 0.08 * Math.cos(2 * t);
+        break;
+      case 'rectangular':
+        w[i] = 1;
+        break;
+    }
+  }
+  return w;
+}
+
+/** re / im（同じ長さ、2 のべき乗）をその場で離散フーリエ変換する */
+export function fftInPlace(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  if (!isPowerOfTwo(n) || im.length !== n) {
+    throw new Error(`FFT の点数は 2 のべき乗にしてください: ${n}`);
+  }
+  // ビット反転の並べ替え
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j]!, re[i]!];
+      [im[i], im[j]] = [im[j]!, im[i]!];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    const half = len >> 1;
+    for (let start = 0; start < n; start += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b]! * curRe - im[b]! * curIm;
+        const tIm = re[b]! * curIm + im[b]! * curRe;
+        re[b] = re[a]! - tRe;
+        im[b] = im[a]! - tIm;
+        re[a] = re[a]! + tRe;
+        im[a] = im[a]! + tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { createSampleStore, type SampleStore } from '../chart/sampleStore';
+import {
+  binFrequency,
+  buildSpectrumSeries,
+  createSpectrumAnalyzer,
+  findPeakBin,
+  scaleAmplitude,
+} from './spectrum';
+
+const SIZE = 256;
+const RATE = 1000;
+
+/** 1 チャンネルの store に、RATE のサンプルレートで振幅 amplitude・周波数 hz の正弦波を count 点入れる */
+function sineStore(count: number, hz: number, amplitude: number, offset = 0): SampleStore {
+  const store = createSampleStore(1, count);
+  for (let i = 0; i < count; i++) {
+    store.push([offset + amplitude * Math.sin((2 * Math.PI * hz * i) / RATE)], (i * 1000) / RATE);
+  }
+  return store;
+}
+
+describe('createSpectrumAnalyzer', () => {
+  it('正弦波のピークの bin・周波数・振幅を求める', () => {
+    // bin 32 の周波数（125 Hz）ちょうど
+    const hz = (32 * RATE) / SIZE;
+    const analyzer = createSpectrumAnalyzer(0, SIZE, 'hann', 1);
+    expect(analyzer.update(sineStore(SIZE, hz, 3, 10))).toBe(true);
+    const amplitudes = analyzer.amplitudes!;
+    expect(amplitudes.length).toBe(SIZE / 2 + 1);
+    expect(analyzer.sampleRate).toBeCloseTo(RATE, 9);
+    const peak = findPeakBin(amplitudes)!;
+    expect(peak).toBe(32);
+    expect(binFrequency(peak, SIZE, analyzer.sampleRate)).toBeCloseTo(hz, 9);
+    // コヒーレントゲインで補正するため、窓を掛けてもピークはほぼ元の振幅になる
+    expect(amplitudes[peak]).toBeCloseTo(3, 3);
+    expect(amplitudes[0]).toBeCloseTo(10, 3);
+  });
+
+  it('点数が足りない・新しいサンプルがないときは false', () => {
+    const analyzer = createSpectrumAnalyzer(0, SIZE, 'rectangular', 1);
+    expect(analyzer.update(sineStore(SIZE - 1, 50, 1))).toBe(false);
+    const store = sineStore(SIZE, 50, 1);
+    expect(analyzer.update(store)).toBe(true);
+    expect(analyzer.update(store)).toBe(false);
+    expect(analyzer.frameCount).toBe(1);
+  });
+
+  it('フレームを averages 個まで平均し、reset で捨てる', () => {
+    const analyzer = createSpectrumAnalyzer(0, SIZE, 'hann', 2);
+    const store = createSampleStore(1, SIZE);
+    const fill = (amplitude: number) => {
+      for (let i = 0; i < SIZE; i++) {
+        store.push([amplitude * Math.sin((2 * Math.PI * 32 * i) / SIZE)], i);
+      }
+    };
+    fill(1);
+    analyzer.update(store);
+    fill(3);
+    analyzer.update(store);
+    expect(analyzer.frameCount).toBe(2);
+    // パワー（振幅の 2 乗）で平均する: sqrt((1 + 9) / 2)
+    expect(analyzer.amplitudes![32]).toBeCloseTo(Math.sqrt(5), 3);
+    fill(3);
+    analyzer.update(store);
+    expect(analyzer.frameCount).toBe(2);
+    expect(analyzer.amplitudes![32]).toBeCloseTo(3, 3);
+    analyzer.reset();
+    expect(analyzer.amplitudes).toBeNull();
+    expect(analyzer.sampleRate).toBeNull();
+    expect(analyzer.frameCount).toBe(0);
+  });
+
+  it('欠損の行を飛ばし、サンプルレートはそのチャンネルの有効な値の時刻から求める', () => {
+    // 2 台のデバイスを 1 行ずつ交互に入れた store: ch0 は偶数行（500 Hz）、ch1 は奇数行
+    const store = createSampleStore(2, SIZE * 2);
+    for (let i = 0; i < SIZE * 2; i++) {
+      const t = i; // 行の間隔 1ms（store 全体では 1000 行/s）
+      store.push(i % 2 === 0 ? [Math.sin((2 * Math.PI * 32 * (i / 2)) / SIZE), NaN] : [NaN, 0], t);
+    }
+    const analyzer = createSpectrumAnalyzer(0, SIZE, 'hann', 1);
+    expect(analyzer.update(store)).toBe(true);
+    expect(analyzer.sampleRate).toBeCloseTo(500, 9);
+    expect(findPeakBin(analyzer.amplitudes!)).toBe(32);
+  });
+
+  it('時刻が進まなければ sampleRate は null（横軸は cycles/sample）', () => {
+    const store = createSampleStore(1, SIZE);
+    for (let i = 0; i < SIZE; i++) store.push([i % 2], 0);
+    const analyzer = createSpectrumAnalyzer(0, SIZE, 'rectangular', 1);
+    analyzer.update(store);
+    expect(analyzer.sampleRate).toBeNull();
+    expect(binFrequency(SIZE / 2, SIZE, null)).toBe(0.5);
+  });
+});
+
+describe('findPeakBin', () => {
+  it('直流から下がり続ける bin は飛ばす', () => {
+    expect(findPeakBin(Float64Array.from([10, 6, 2, 1, 4, 1]))).toBe(4);
+  });
+
+  it('bin が直流だけなら null', () => {
+    expect(findPeakBin(Float64Array.from([5]))).toBeNull();
+  });
+});
+
+describe('buildSpectrumSeries', () => {
+  it('bin が多ければ区間ごとの最大だけを残す', () => {
+    const amplitudes = Float64Array.from([0, 1, 5, 2, 0, 7, 3, 1, 0]);
+    const points = buildSpectrumSeries(amplitudes, 1600, 'linear', 3);
+    expect(points).toEqual([
+      { x: 200, value: 5 },
+      { x: 500, value: 7 },
+      { x: 600, value: 3 },
+    ]);
+  });
+
+  it('dB は 20·log10 で、0 は下限に丸める', () => {
+    expect(scaleAmplitude(10, 'db')).toBeCloseTo(20, 12);
+    expect(scaleAmplitude(0, 'db')).toBe(-240);
+  });
+});
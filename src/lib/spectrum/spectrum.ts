@@ -0,0 +1,171 @@
+/**
+ * SampleStore の直近 size 点から片側振幅スペクトルを求め、指定フレーム数で平均する。
+ * 振幅は窓関数のコヒーレントゲインで補正するため、振幅 A の正弦波のピークはどの窓でも約 A になる。
+ * 横軸の周波数は受信時刻から測ったサンプルレートで求める（測れなければ cycles/sample）。
+ * 欠損（複数デバイス接続時は他のデバイスの行）は飛ばし、そのチャンネルの有効な値だけを並べて解析する。
+ */
+import type { SampleStore } from '../chart/sampleStore';
+import { measureSampleRate } from '../chart/statistics';
+import { createWindow, fftInPlace, type WindowFunction } from './fft';
+
+export type SpectrumScale = 'linear' | 'db';
+
+/** 平均するフレーム数の選択肢（1 は平均なし） */
+export const SPECTRUM_AVERAGES = [1, 2, 4, 8, 16, 32] as const;
+
+/** dB 表示で 0 振幅の代わりに使う下限 */
+const MIN_AMPLITUDE = 1e-12;
+
+export interface SpectrumAnalyzer {
+  /**
+   * store のチャンネルの直近 size 点（有効な値）を解析して平均に加える。
+   * 前回から新しいサンプルがない・点数が足りないときは何もせず false
+   */
+  update(store: SampleStore): boolean;
+  /** 直近に解析した size 点の受信時刻から求めたサンプルレート。測れなければ null */
+  readonly sampleRate: number | null;
+  /** 平均した片側振幅スペクトル（bin 0〜size/2）。まだ 1 フレームもなければ null */
+  readonly amplitudes: Float64Array | null;
+  /** 平均に使っているフレーム数 */
+  readonly frameCount: number;
+  reset(): void;
+}
+
+export function createSpectrumAnalyzer(
+  channel: number,
+  size: number,
+  windowFunction: WindowFunction,
+  averages: number
+): SpectrumAnalyzer {
+  const coefficients = createWindow(windowFunction, size);
+  const coherentGain = coefficients.reduce((sum, w) => sum + w, 0) || 1;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  const bins = size / 2 + 1;
+  const frameCapacity = Math.max(1, Math.floor(averages));
+  /** 直近 frameCapacity フレーム分のパワースペクトル（リング） */
+  const frames: Float64Array[] = [];
+  const powerSum = new Float64Array(bins);
+  let nextFrame = 0;
+  let amplitudes: Float64Array | null = null;
+  let sampleRate: number | null = null;
+  let lastTotal = -1;
+
+  const reset = (): void => {
+    frames.length = 0;
+    powerSum.fill(0);
+    nextFrame = 0;
+    amplitudes = null;
+    sampleRate = null;
+    lastTotal = -1;
+  };
+
+  return {
+    update(store) {
+      if (store.total === lastTotal || store.length < size || channel >= store.channelCount) {
+        return false;
+      }
+      lastTotal = store.total;
+      // 新しい方から有効な値を size 点集める
+      let n = size;
+      let last = -1;
+      let i = store.length - 1;
+      for (; i >= 0 && n > 0; i--) {
+        const v = store.get(channel, i);
+        if (!Number.isFinite(v)) continue;
+        if (last < 0) last = i;
+        n--;
+        re[n] = v * coefficients[n]!;
+      }
+      if (n > 0) return false;
+      im.fill(0);
+      sampleRate = measureSampleRate(size, store.getTime(i + 1), store.getTime(last));
+      fftInPlace(re, im);
+
+      const power = frames.length < frameCapacity ? new Float64Array(bins) : frames[nextFrame]!;
+      for (let k = 0; k < bins; k++) {
+        const scale = k === 0 || k === size / 2 ? 1 : 2;
+        const amp = (Math.hypot(re[k]!, im[k]!) * scale) / coherentGain;
+        powerSum[k] = powerSum[k]! - power[k]! + amp * amp;
+        power[k] = amp * amp;
+      }
+      if (frames.length < frameCapacity) frames.push(power);
+      nextFrame = (nextFrame + 1) % frameCapacity;
+
+      amplitudes ??= new Float64Array(bins);
+      for (let k = 0; k < bins; k++) {
+        amplitudes[k] = Math.sqrt(Math.max(0, powerSum[k]!) / frames.length);
+      }
+      return true;
+    },
+    get amplitudes() {
+      return amplitudes;
+    },
+    get sampleRate() {
+      return sampleRate;
+    },
+    get frameCount() {
+      return frames.length;
+    },
+    reset,
+  };
+}
+
+/** 振幅を表示単位にする（dB は 20·log10） */
+export function scaleAmplitude(amplitude: number, scale: SpectrumScale): number {
+  return scale === 'db' ? 20 * Math.log10(Math.max(MIN_AMPLITUDE, amplitude)) : amplitude;
+}
+
+/** bin 番号 k の周波数。sampleRate が null なら cycles/sample */
+export function binFrequency(k: number, size: number, sampleRate: number | null): number {
+  return (k * (sampleRate ?? 1)) / size;
+}
+
+export interface SpectrumPoint {
+  /** 周波数（Hz、またはサンプルレート不明時は cycles/sample） */
+  x: number;
+  value: number;
+}
+
+/**
+ * 描画用の系列。bin 数が buckets を超える場合は区間ごとに最大の bin だけを残す
+ * （ピークを消さずに点数を抑える）。
+ */
+export function buildSpectrumSeries(
+  amplitudes: Float64Array,
+  sampleRate: number | null,
+  scale: SpectrumScale,
+  buckets: number
+): SpectrumPoint[] {
+  const bins = amplitudes.length;
+  const size = (bins - 1) * 2;
+  const points: SpectrumPoint[] = [];
+  const step = Math.max(1, bins / Math.max(1, buckets));
+  for (let start = 0; start < bins; start += step) {
+    const from = Math.floor(start);
+    const to = Math.min(bins, Math.floor(start + step));
+    let peak = from;
+    for (let k = from + 1; k < to; k++) {
+      if (amplitudes[k]! > amplitudes[peak]!) peak = k;
+    }
+    points.push({
+      x: binFrequency(peak, size, sampleRate),
+      value: scaleAmplitude(amplitudes[peak]!, scale),
+    });
+  }
+  return points;
+}
+
+/**
+ * 直流成分を除いて振幅が最大の bin。なければ null。
+ * 窓関数で直流が隣の bin に漏れるため、bin 0 から振幅が下がり続ける間は直流とみなして飛ばす
+ */
+export function findPeakBin(amplitudes: Float64Array): number | null {
+  let start = 1;
+  while (start + 1 < amplitudes.length && amplitudes[start + 1]! < amplitudes[start]!) start++;
+  let peak: number | null = null;
+  for (let k = start; k < amplitudes.length; k++) {
+    if (peak == null || amplitudes[k]! > amplitudes[peak]!) peak = k;
+  }
+  return peak;
+}
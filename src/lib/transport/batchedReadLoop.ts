@@ -0,0 +1,117 @@
+/**
+ * 読み取りループをブロック単位で回す。startReadLoop でデコードしたパケットを SampleBlock に溜め、
+ * BATCH_INTERVAL_MS ごと（画面の更新と同程度）にまとめて onBatch へ渡す。
+ * デコードエラーもバッチに含め、onError には読み取りそのものの失敗だけを渡す。
+ * Worker 内で動かすのが基本だが、Worker が使えない環境ではメインスレッドでそのまま使う。
+ */
+import { createDecoder, type DecoderConfig } from '../packet/createDecoder';
+import type { PacketSchema } from '../packet/types';
+import { createReadLoopStats, startReadLoop, type ReadLoopStats } from './readLoop';
+import { createSampleBlockBuilder, type SampleBlock } from './sampleBlock';
+import { createSampleClock, DEFAULT_TIMESTAMP_CONFIG, type TimestampConfig } from './sampleClock';
+
+/** ブロックを渡す間隔（ms） */
+export const BATCH_INTERVAL_MS = 16;
+
+/** デコード前の受信チャンク 1 つ分 */
+export interface RawChunk {
+  bytes: Uint8Array;
+  /** 受信した時刻（epoch ms） */
+  timestamp: number;
+  /** このチャンクの中で終わったパケットの末尾位置（bytes 内の位置、昇順） */
+  packetEnds: number[];
+}
+
+export interface ReadLoopBatch {
+  /** この間にデコードしたサンプル。なければ null */
+  block: SampleBlock | null;
+  /** この間に受信したデコード前のバイト列（collectRaw が false なら空） */
+  rawChunks: RawChunk[];
+  /** 現在までのリンクの統計 */
+  stats: ReadLoopStats;
+  /**
+   * この間に起きたデコードエラーのうち最後のもののメッセージ。なければ null。
+   * 件数は stats（parseErrors など）で数え、エラーのたびには通知しない
+   */
+  decodeError: string | null;
+  /** バッチを渡した時刻（epoch ms）。受け取り側はこれとの差で処理の遅れを測る */
+  sentAt: number;
+}
+
+export interface BatchedReadLoopOptions {
+  /** デコード前のバイト列もバッチに含める（録画・生データ表示用） */
+  collectRaw?: boolean;
+  /** サンプルの時刻の決め方（省略時は受信時刻） */
+  timestamp?: TimestampConfig;
+}
+
+export async function runBatchedReadLoop(
+  readable: ReadableStream<Uint8Array>,
+  schema: PacketSchema,
+  decoderConfig: DecoderConfig,
+  onBatch: (batch: ReadLoopBatch) => void,
+  onError?: (err: unknown) => void,
+  signal?: AbortSignal,
+  options: BatchedReadLoopOptions = {}
+): Promise<void> {
+  const decoder = createDecoder(decoderConfig, schema);
+  const builder = createSampleBlockBuilder(schema.fields.length);
+  const clock = createSampleClock(options.timestamp ?? DEFAULT_TIMESTAMP_CONFIG);
+  let rawChunks: RawChunk[] = [];
+  /** デコード中のチャンク（collectRaw のときだけ） */
+  let currentRaw: RawChunk | null = null;
+  let stats = createReadLoopStats();
+  let statsChanged = false;
+  let decodeError: string | null = null;
+  /** 現在デコード中のチャンクを受信した時刻。同じチャンク内のパケットは同時刻とする */
+  let chunkTimestamp = 0;
+
+  const flush = (): void => {
+    if (builder.count === 0 && rawChunks.length === 0 && !statsChanged) return;
+    const batch: ReadLoopBatch = {
+      block: builder.take(),
+      rawChunks,
+      stats,
+      decodeError,
+      sentAt: performance.timeOrigin + performance.now(),
+    };
+    rawChunks = [];
+    statsChanged = false;
+    decodeError = null;
+    onBatch(batch);
+  };
+
+  const timer = setInterval(flush, BATCH_INTERVAL_MS);
+  try {
+    await startReadLoop(
+      { readable },
+      (data, end) => {
+        builder.add(data.values, clock.stamp(data.values, chunkTimestamp));
+        currentRaw?.packetEnds.push(end);
+      },
+      onError,
+      signal,
+      {
+        decoder,
+        onRawData: (chunk) => {
+          chunkTimestamp = performance.timeOrigin + performance.now();
+          if (options.collectRaw) {
+            currentRaw = { bytes: chunk, timestamp: chunkTimestamp, packetEnds: [] };
+            rawChunks.push(currentRaw);
+          }
+        },
+        onStats: (next) => {
+          stats = next;
+          statsChanged = true;
+        },
+        // ノイズの多い回線ではパケットごとに起きうるため、バッチにまとめて最後の 1 件だけ渡す
+        onDecodeError: (err) => {
+          decodeError = err instanceof Error ? err.message : String(err);
+        },
+      }
+    );
+  } finally {
+    clearInterval(timer);
+    flush();
+  }
+}
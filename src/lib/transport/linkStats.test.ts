@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { createReadLoopStats, type ReadLoopStats } from './readLoop';
+import { createLinkStatsMeter, RATE_WINDOW_MS } from './linkStats';
+
+function stats(bytes: number, packets: number, errors: Partial<ReadLoopStats> = {}): ReadLoopStats {
+  return { ...createReadLoopStats(), bytes, packets, ...errors };
+}
+
+describe('createLinkStatsMeter', () => {
+  it('接続直後はレート 0・遅れは未計測', () => {
+    const meter = createLinkStatsMeter(1000);
+    expect(meter.snapshot(1000)).toMatchObject({
+      bytes: 0,
+      packets: 0,
+      bytesPerSecond: 0,
+      packetsPerSecond: 0,
+      connectedMs: 0,
+      backlogMs: null,
+      running: true,
+    });
+  });
+
+  it('区間内の増分から byte/s・パケット/s を求める', () => {
+    const meter = createLinkStatsMeter(0);
+    meter.record(stats(800, 50), 3, 250);
+    meter.record(stats(1600, 100), 5, 500);
+    const snapshot = meter.snapshot(500);
+    expect(snapshot.bytesPerSecond).toBe(3200);
+    expect(snapshot.packetsPerSecond).toBe(200);
+    expect(snapshot.backlogMs).toBe(5);
+    expect(snapshot.connectedMs).toBe(500);
+  });
+
+  it('RATE_WINDOW_MS より前の記録は基準の 1 件だけ残す', () => {
+    const meter = createLinkStatsMeter(0);
+    meter.record(stats(1600, 16), 0, 1000);
+    meter.record(stats(2000, 20), 0, 2000);
+    meter.record(stats(2500, 25), 0, 2500);
+    // 2500 - RATE_WINDOW_MS = 1500 より前の最後の記録（t = 1000）が基準
+    expect(RATE_WINDOW_MS).toBe(1000);
+    const snapshot = meter.snapshot(2500);
+    expect(snapshot.bytesPerSecond).toBe(600);
+    expect(snapshot.packetsPerSecond).toBe(6);
+  });
+
+  it('受信が止まるとレートは下がっていく', () => {
+    const meter = createLinkStatsMeter(0);
+    meter.record(stats(1000, 10), 0, 500);
+    expect(meter.snapshot(500).bytesPerSecond).toBe(2000);
+    expect(meter.snapshot(1000).bytesPerSecond).toBe(1000);
+    // 最後の記録が区間の基準になれば増分は 0
+    expect(meter.snapshot(1600).bytesPerSecond).toBe(0);
+  });
+
+  it('エラーの累計は最新の記録のまま返す', () => {
+    const meter = createLinkStatsMeter(0);
+    meter.record(stats(100, 1, { framingErrors: 2, crcErrors: 1, discardedBytes: 7 }), 0, 100);
+    meter.record(stats(200, 2, { framingErrors: 3, crcErrors: 1, parseErrors: 4, discardedBytes: 9 }), 0, 200);
+    expect(meter.snapshot(200)).toMatchObject({
+      framingErrors: 3,
+      crcErrors: 1,
+      parseErrors: 4,
+      discardedBytes: 9,
+    });
+  });
+
+  it('stop 後は接続時間を止め、レートを 0 にし、記録を受け付けない', () => {
+    const meter = createLinkStatsMeter(1000);
+    meter.record(stats(500, 5), 2, 1500);
+    meter.stop(2000);
+    meter.stop(3000);
+    meter.record(stats(9999, 99), 0, 2500);
+    const snapshot = meter.snapshot(5000);
+    expect(snapshot).toMatchObject({
+      bytes: 500,
+      packets: 5,
+      bytesPerSecond: 0,
+      packetsPerSecond: 0,
+      connectedMs: 1000,
+      running: false,
+    });
+  });
+});
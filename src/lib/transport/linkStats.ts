@@ -0,0 +1,75 @@
+/**
+ * リンクの状態表示用の集計。読み取りループから届く累計（ReadLoopStats）を記録し、
+ * 直近 RATE_WINDOW_MS の増分から byte/s・パケット/s を求める。
+ * 接続ごとに作り直し、表示側は一定間隔で snapshot を読む。
+ */
+import { createReadLoopStats, type ReadLoopStats } from './readLoop';
+
+/** 受信レートを求める区間（ms） */
+export const RATE_WINDOW_MS = 1000;
+
+export interface LinkStatsSnapshot extends ReadLoopStats {
+  bytesPerSecond: number;
+  packetsPerSecond: number;
+  /** 接続してからの時間（ms）。切断後は切断までの時間 */
+  connectedMs: number;
+  /** 直近のバッチが読み取りから受け取り側に届くまでの遅れ（ms）。まだ届いていなければ null */
+  backlogMs: number | null;
+  /** 接続中か（stop 後は false） */
+  running: boolean;
+}
+
+export interface LinkStatsMeter {
+  /** 読み取りループの最新の累計と、そのバッチの遅れを記録する */
+  record(stats: ReadLoopStats, backlogMs: number, now: number): void;
+  /** now 時点の表示用の値 */
+  snapshot(now: number): LinkStatsSnapshot;
+  /** 切断したとき。以降の snapshot は接続時間を止め、レートを 0 にする */
+  stop(now: number): void;
+}
+
+interface RateSample {
+  time: number;
+  bytes: number;
+  packets: number;
+}
+
+export function createLinkStatsMeter(connectedAt: number): LinkStatsMeter {
+  let latest = createReadLoopStats();
+  let backlogMs: number | null = null;
+  let stoppedAt: number | null = null;
+  /** 古い順。先頭は区間の基準（区間より前の最後の記録） */
+  const samples: RateSample[] = [{ time: connectedAt, bytes: 0, packets: 0 }];
+
+  const prune = (now: number): void => {
+    while (samples.length > 1 && samples[1]!.time <= now - RATE_WINDOW_MS) samples.shift();
+  };
+
+  return {
+    record(stats, backlog, now) {
+      if (stoppedAt != null) return;
+      latest = stats;
+      backlogMs = backlog;
+      samples.push({ time: now, bytes: stats.bytes, packets: stats.packets });
+      prune(now);
+    },
+    snapshot(now) {
+      const end = stoppedAt ?? now;
+      prune(end);
+      const base = samples[0]!;
+      const dt = (end - base.time) / 1000;
+      const running = stoppedAt == null;
+      return {
+        ...latest,
+        bytesPerSecond: running && dt > 0 ? (latest.bytes - base.bytes) / dt : 0,
+        packetsPerSecond: running && dt > 0 ? (latest.packets - base.packets) / dt : 0,
+        connectedMs: Math.max(0, end - connectedAt),
+        backlogMs,
+        running,
+      };
+    },
+    stop(now) {
+      stoppedAt ??= now;
+    },
+  };
+}
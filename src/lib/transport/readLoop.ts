@@ -0,0 +1,86 @@
+/**
+ * 読み取りループ。トランスポートの受信ストリームを読み続け、デコーダーでパケットに変換する。
+ */
+import {
+  createDecoderStats,
+  createFixedSizeDecoder,
+  type DecoderStats,
+  type PacketDecoder,
+} from '../packet/decoder';
+import type { PacketData } from '../packet/types';
+import type { Transport } from './types';
+
+/** 読み取りループが数えるリンクの統計（デコーダーの統計に受信バイト数などを加えたもの） */
+export interface ReadLoopStats extends DecoderStats {
+  /** 受信したバイト数 */
+  bytes: number;
+  /** デコーダーがパケットの端数として保持しているバイト数 */
+  pendingBytes: number;
+}
+
+export function createReadLoopStats(): ReadLoopStats {
+  return { ...createDecoderStats(), bytes: 0, pendingBytes: 0 };
+}
+
+export interface ReadLoopOptions {
+  /** 受信バイト列の区切り方（省略時は 16byte 固定長） */
+  decoder?: PacketDecoder;
+  /** チャンクを処理するたびに最新の統計を通知する */
+  onStats?: (stats: ReadLoopStats) => void;
+  /** デコード前の受信チャンクをそのまま通知する（録画用） */
+  onRawData?: (chunk: Uint8Array) => void;
+  /** デコーダーが報告したパケット単位のエラー（省略時は onError に渡す） */
+  onDecodeError?: (err: unknown) => void;
+}
+
+/**
+ * 読み取りループを開始する。受信チャンクをデコーダーに渡し、
+ * パケットが揃ったタイミングで onPacket を呼ぶ（end は直前に onRawData へ渡したチャンク内のパケット末尾）。
+ * signal が abort されるか、ストリームが閉じられるかエラーで終了するまで実行する。
+ */
+export async function startReadLoop(
+  source: Pick<Transport, 'readable'>,
+  onPacket: (data: PacketData, end: number) => void,
+  onError?: (err: unknown) => void,
+  signal?: AbortSignal,
+  options: ReadLoopOptions = {}
+): Promise<void> {
+  if (!source.readable) {
+    onError?.(new Error('ポートの読み取りストリームが利用できません'));
+    return;
+  }
+  const reader = source.readable.getReader();
+  const decoder = options.decoder ?? createFixedSizeDecoder();
+  let bytes = 0;
+
+  const onAbort = (): void => {
+    reader.cancel().catch(() => {});
+  };
+  if (signal?.aborted) {
+    onAbort();
+  } else if (signal) {
+    signal.addEventListener('abort', onAbort, { once: true });
+  }
+
+  try {
+    while (true) {
+      if (signal?.aborted) break;
+      const { value, done } = await reader.read();
+      if (done) break;
+      if (value) {
+        bytes += value.length;
+        options.onRawData?.(value);
+        decoder.decode(value, onPacket, options.onDecodeError ?? onError);
+        options.onStats?.({ ...decoder.stats, bytes, pendingBytes: decoder.pendingBytes });
+      }
+    }
+  } catch (err) {
+    const isAbort = err instanceof DOMException && err.name === 'AbortError';
+    if (!isAbort && onError) onError(err);
+  } finally {
+    if (signal && !signal.aborted) {
+      signal.removeEventListener('abort', onAbort);
+    }
+    reader.releaseLock();
+  }
+}
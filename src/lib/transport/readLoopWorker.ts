@@ -0,0 +1,58 @@
+/**
+ * 読み取り・デコード専用の Worker。メインスレッドから transfer された受信ストリームを読み、
+ * runBatchedReadLoop のバッチを ArrayBuffer ごと transfer して返す。
+ * メッセージの型は workerReadLoop.ts を参照。
+ */
+import { runBatchedReadLoop, type ReadLoopBatch } from './batchedReadLoop';
+import type { ReadLoopWorkerMessage, ReadLoopWorkerRequest } from './workerReadLoop';
+
+let abortController: AbortController | null = null;
+
+function post(message: ReadLoopWorkerMessage, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+/** バッチ内の配列を transfer 対象にする（他と共有しているバッファはコピーしてから渡す） */
+function postBatch(batch: ReadLoopBatch): void {
+  const transfer: Transferable[] = [];
+  if (batch.block) transfer.push(batch.block.values.buffer, batch.block.timestamps.buffer);
+  const rawChunks = batch.rawChunks.map((chunk) => {
+    const { bytes } = chunk;
+    const owned =
+      bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength ? bytes : bytes.slice();
+    transfer.push(owned.buffer);
+    return { ...chunk, bytes: owned };
+  });
+  post({ type: 'batch', batch: { ...batch, rawChunks } }, transfer);
+}
+
+self.onmessage = (ev: MessageEvent<ReadLoopWorkerRequest>) => {
+  const request = ev.data;
+  switch (request.type) {
+    case 'start': {
+      if (abortController) return;
+      const controller = new AbortController();
+      abortController = controller;
+      runBatchedReadLoop(
+        request.readable,
+        request.schema,
+        request.decoderConfig,
+        postBatch,
+        (err) => post({ type: 'error', message: err instanceof Error ? err.message : String(err) }),
+        controller.signal,
+        { collectRaw: request.collectRaw, timestamp: request.timestamp }
+      )
+        .catch((err) =>
+          post({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+        )
+        .finally(() => {
+          abortController = null;
+          post({ type: 'done' });
+        });
+      break;
+    }
+    case 'stop':
+      abortController?.abort();
+      break;
+  }
+};
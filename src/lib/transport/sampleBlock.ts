@@ -0,0 +1,73 @@
+/**
+ * デコード済みサンプルのまとまり（ブロック）。読み取りループから UI へはパケット単位ではなく
+ * 一定間隔ごとのブロックで渡し、Worker からは ArrayBuffer を transfer してコピーせずに受け渡す。
+ */
+
+export interface SampleBlock {
+  channelCount: number;
+  /** 有効なサンプル数（配列の長さではなくこちらを使う） */
+  count: number;
+  /** サンプル順・チャンネル順のインターリーブ（count × channelCount 件が有効） */
+  values: Float64Array;
+  /** 各サンプルの受信時刻（epoch ms、小数部でサブミリ秒） */
+  timestamps: Float64Array;
+}
+
+export interface SampleBlockBuilder {
+  /** 溜まっているサンプル数 */
+  readonly count: number;
+  /** 1 サンプル（全チャンネル分）を追加する。足りない値は NaN */
+  add(values: readonly number[], timestamp: number): void;
+  /** 溜まった分をブロックとして取り出し、次のブロック用に新しい配列を用意する。空なら null */
+  take(): SampleBlock | null;
+}
+
+const INITIAL_BLOCK_CAPACITY = 256;
+
+export function createSampleBlockBuilder(channelCount: number): SampleBlockBuilder {
+  let capacity = INITIAL_BLOCK_CAPACITY;
+  let values = new Float64Array(capacity * channelCount);
+  let timestamps = new Float64Array(capacity);
+  let count = 0;
+
+  const grow = (): void => {
+    capacity *= 2;
+    const nextValues = new Float64Array(capacity * channelCount);
+    nextValues.set(values);
+    const nextTimestamps = new Float64Array(capacity);
+    nextTimestamps.set(timestamps);
+    values = nextValues;
+    timestamps = nextTimestamps;
+  };
+
+  return {
+    get count() {
+      return count;
+    },
+    add(sample, timestamp) {
+      if (count === capacity) grow();
+      const base = count * channelCount;
+      for (let ch = 0; ch < channelCount; ch++) {
+        values[base + ch] = sample[ch] ?? NaN;
+      }
+      timestamps[count] = timestamp;
+      count++;
+    },
+    take() {
+      if (count === 0) return null;
+      const block: SampleBlock = { channelCount, count, values, timestamps };
+      // 直前のブロックと同程度の量が次も来る前提で確保し直す
+      capacity = Math.max(INITIAL_BLOCK_CAPACITY, count);
+      values = new Float64Array(capacity * channelCount);
+      timestamps = new Float64Array(capacity);
+      count = 0;
+      return block;
+    },
+  };
+}
+
+/** ブロックの i 番目のサンプル（全チャンネル分） */
+export function getBlockSample(block: SampleBlock, i: number): number[] {
+  const base = i * block.channelCount;
+  return Array.from(block.values.subarray(base, base + block.channelCount));
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createSampleClock, MAX_CLOCK_LAG_MS } from './sampleClock';
+
+describe('createSampleClock', () => {
+  it('受信時刻の設定では値に関係なく受信時刻', () => {
+    const clock = createSampleClock({ source: 'arrival' });
+    expect(clock.stamp([123, 456], 1000)).toBe(1000);
+    expect(clock.stamp([0, 0], 1000)).toBe(1000);
+  });
+
+  it('デバイス時刻を単位から ms に直し、最初のサンプルの受信時刻に合わせる', () => {
+    const clock = createSampleClock({ source: 'field', field: 1, unit: 'us' });
+    // 同じチャンクで届いた 3 サンプル（デバイス時刻で 10ms 間隔）
+    expect(clock.stamp([0, 5_000_000], 1000)).toBe(1000);
+    expect(clock.stamp([0, 5_010_000], 1030)).toBe(1010);
+    expect(clock.stamp([0, 5_020_000], 1030)).toBe(1020);
+    const seconds = createSampleClock({ source: 'field', field: 0, unit: 's' });
+    seconds.stamp([2], 500);
+    expect(seconds.stamp([2.5], 1000)).toBe(1000);
+  });
+
+  it('デバイス時刻が戻ったら（リセット・桁あふれ）その時点の受信時刻に合わせ直す', () => {
+    const clock = createSampleClock({ source: 'field', field: 0, unit: 'ms' });
+    clock.stamp([65_530], 1000);
+    expect(clock.stamp([65_535], 1005)).toBe(1005);
+    // 16 bit のカウンターが一周した
+    expect(clock.stamp([2], 1010)).toBe(1010);
+    expect(clock.stamp([7], 1015)).toBe(1015);
+  });
+
+  it('時刻のフィールドが読めないサンプルは受信時刻', () => {
+    const clock = createSampleClock({ source: 'field', field: 2, unit: 'ms' });
+    expect(clock.stamp([1, 2, NaN], 1000)).toBe(1000);
+    expect(clock.stamp([1, 2], 1001)).toBe(1001);
+    expect(clock.stamp([1, 2, Infinity], 1002)).toBe(1002);
+  });
+
+  it('受信時刻より後にはせず、最初のチャンクの遅れは遅れの少ないサンプルで消える', () => {
+    const clock = createSampleClock({ source: 'field', field: 0, unit: 'ms' });
+    // 最初のサンプルは 100ms 遅れて届いた
+    expect(clock.stamp([0], 1100)).toBe(1100);
+    // 50ms 後のサンプルは 10ms 遅れで届いた: 1150 ではなく受信時刻に合わせる
+    expect(clock.stamp([50], 1060)).toBe(1060);
+    expect(clock.stamp([60], 1080)).toBe(1070);
+  });
+
+  it('デバイスの時計が遅れても、受信時刻との差は MAX_CLOCK_LAG_MS までにとどめる', () => {
+    const clock = createSampleClock({ source: 'field', field: 0, unit: 'ms' });
+    let previous = -Infinity;
+    // デバイスの 1ms が PC の 1.1ms: 何もしなければ 10 秒で 1 秒遅れる
+    for (let i = 0; i <= 10_000; i += 10) {
+      const arrival = 1000 + i * 1.1;
+      const time = clock.stamp([i], arrival);
+      expect(arrival - time).toBeLessThanOrEqual(MAX_CLOCK_LAG_MS + 1e-9);
+      expect(time).toBeGreaterThanOrEqual(previous);
+      previous = time;
+    }
+  });
+});
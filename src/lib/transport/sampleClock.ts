@@ -0,0 +1,62 @@
+/**
+ * サンプルの時刻の決め方。既定は受信時刻（同じチャンクのパケットは同時刻）で、
+ * パケットにデバイス側の時刻（カウンター）のフィールドがあればそれを使って等間隔でない送信間隔も再現する。
+ * デバイス時刻は最初のサンプルの受信時刻に合わせて epoch ms に直し、戻ったとき（リセット・桁あふれ）は
+ * その時点の受信時刻に合わせ直す。
+ * デバイスと PC の時計の進み方の差や、最初のチャンクの遅れがたまらないよう、合わせた時刻は次の範囲に保つ:
+ * - 受信時刻より後にはしない。超えたらその受信時刻に合わせ直す（遅れの少ないサンプルで最初の誤差も消える）
+ * - 受信時刻より MAX_CLOCK_LAG_MS を超えて前にはしない。超えたら MAX_CLOCK_LAG_MS 前まで進める
+ * どちらも時刻を進める方向にしか動かないため、合わせ直しても時刻は戻らない。
+ */
+
+/** デバイス時刻のフィールドの単位 */
+export type TimestampUnit = 's' | 'ms' | 'us';
+
+/** サンプルの時刻の決め方（シリアライズ可能な値だけで構成する） */
+export type TimestampConfig =
+  /** 受信時刻 */
+  | { source: 'arrival' }
+  /** スキーマの fields[field] の値（unit 単位のデバイス時刻） */
+  | { source: 'field'; field: number; unit: TimestampUnit };
+
+export const DEFAULT_TIMESTAMP_CONFIG: TimestampConfig = { source: 'arrival' };
+
+export const TIMESTAMP_UNIT_LABELS: Record<TimestampUnit, string> = {
+  s: '秒',
+  ms: 'ミリ秒',
+  us: 'マイクロ秒',
+};
+
+/** デバイス時刻から求めた時刻が、受信時刻より前にずれてよい上限（ms） */
+export const MAX_CLOCK_LAG_MS = 100;
+
+/** 1 単位あたりのミリ秒 */
+const UNIT_MS: Record<TimestampUnit, number> = { s: 1000, ms: 1, us: 0.001 };
+
+export interface SampleClock {
+  /** 受信値 values のサンプルの時刻（epoch ms）。arrival は受信時刻 */
+  stamp(values: ArrayLike<number>, arrival: number): number;
+}
+
+export function createSampleClock(config: TimestampConfig): SampleClock {
+  if (config.source === 'arrival') return { stamp: (_values, arrival) => arrival };
+  const { field } = config;
+  const unitMs = UNIT_MS[config.unit];
+  /** デバイス時刻（ms）に足すと epoch ms になる値 */
+  let offset = NaN;
+  let lastDeviceTime = NaN;
+  return {
+    stamp(values, arrival) {
+      const raw = field < values.length ? values[field]! : NaN;
+      // 時刻が読めないサンプルは受信時刻のまま
+      if (!Number.isFinite(raw)) return arrival;
+      const deviceTime = raw * unitMs;
+      if (!(deviceTime >= lastDeviceTime)) offset = arrival - deviceTime;
+      lastDeviceTime = deviceTime;
+      const time = deviceTime + offset;
+      if (time > arrival) offset = arrival - deviceTime;
+      else if (arrival - time > MAX_CLOCK_LAG_MS) offset = arrival - MAX_CLOCK_LAG_MS - deviceTime;
+      return deviceTime + offset;
+    },
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * 実機なしで動作確認するためのシミュレーター トランスポート。
+ * チャンネルごとに sine / square / ramp / noise の波形を指定レートで生成し、
+ * 選択中のスキーマ・受信形式（固定長 / フレーム / テキスト）のバイト列として流す。
+ */
+import type { DecoderConfig } from '../packet/createDecoder';
+import { createPacketEncoder } from '../packet/encoder';
+import { encodeFrame } from '../packet/framing';
+import { getFieldRange } from '../packet/schema';
+import type { PacketSchema } from '../packet/types';
+import type { Transport } from './types';
+
+export type WaveformShape = 'sine' | 'square' | 'ramp' | 'noise';
+
+export const WAVEFORM_SHAPES: readonly WaveformShape[] = ['sine', 'square', 'ramp', 'noise'];
+
+/** 1 チャンネル分の波形設定（値は換算後の単位） */
+export interface SimulatedChannel {
+  shape: WaveformShape;
+  /** 周波数（Hz）。noise では無視 */
+  frequency: number;
+  /** 振幅（片側） */
+  amplitude: number;
+  /** 中心値 */
+  offset: number;
+}
+
+export interface SimulatorOptions {
+  /** 1 秒あたりのパケット数 */
+  packetRate: number;
+  channels: SimulatedChannel[];
+}
+
+export const DEFAULT_SIMULATOR_PACKET_RATE = 100;
+
+/** 1 回のタイマーで生成する最大パケット数（タブが裏に回って遅延したときの暴走防止） */
+const MAX_PACKETS_PER_TICK = 10000;
+/** 生成タイマーの間隔（ms） */
+const TICK_INTERVAL_MS = 10;
+
+const DEFAULT_FREQUENCIES = [1, 2, 0.5, 5];
+
+/** スキーマのフィールド範囲に収まる既定の波形設定を作る */
+export function createDefaultSimulatorOptions(schema: PacketSchema): SimulatorOptions {
+  return {
+    packetRate: DEFAULT_SIMULATOR_PACKET_RATE,
+    channels: schema.fields.map((field, i) => {
+      const [min, max] = getFieldRange(field);
+      const bounded = Number.isFinite(min) && Number.isFinite(max);
+      return {
+        shape: WAVEFORM_SHAPES[i % WAVEFORM_SHAPES.length]!,
+        frequency: DEFAULT_FREQUENCIES[i % DEFAULT_FREQUENCIES.length]!,
+        amplitude: bounded ? (max - min) * 0.4 : 1,
+        offset: bounded ? (min + max) / 2 : 0,
+      };
+    }),
+  };
+}
+
+/** 時刻 t（秒）での波形の値 */
+export function sampleWaveform(channel: SimulatedChannel, t: number): number {
+  const phase = (t * channel.frequency) % 1;
+  let unit: number;
+  switch (channel.shape) {
+    case 'sine':
+      unit = Math.sin(2 * Math.PI * phase);
+      break;
+    case 'square':
+      unit = phase < 0.5 ? 1 : -1;
+      break;
+    case 'ramp':
+      unit = phase * 2 - 1;
+      break;
+    case 'noise':
+      unit = Math.random() * 2 - 1;
+      break;
+  }
+  return channel.offset + channel.amplitude * unit;
+}
+
+function formatTextValue(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+/** 受信形式に合わせて 1 パケット分の値をバイト列にする関数を作る */
+function createPacketWriter(
+  schema: PacketSchema,
+  decoderConfig: DecoderConfig
+): (values: number[]) => Uint8Array {
+  switch (decoderConfig.mode) {
+    case 'fixed':
+      return createPacketEncoder(schema);
+    case 'framed': {
+      const encode = createPacketEncoder(schema);
+      return (values) => encodeFrame(encode(values), decoderConfig.framing);
+    }
+    case 'text': {
+      const encoder = new TextEncoder();
+      return (values) => encoder.encode(values.map(formatTextValue).join(',') + '\n');
+    }
+  }
+}
+
+export function createSimulatorTransport(
+  options: SimulatorOptions,
+  schema: PacketSchema,
+  decoderConfig: DecoderConfig
+): Transport {
+  const writePacket = createPacketWriter(schema, decoderConfig);
+  let readable: ReadableStream<Uint8Array> | null = null;
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const stopTimer = (): void => {
+    if (timer != null) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  const start = (ctrl: ReadableStreamDefaultController<Uint8Array>): void => {
+    controller = ctrl;
+    const startedAt = performance.now();
+    let emitted = 0;
+    timer = setInterval(() => {
+      const elapsedSec = (performance.now() - startedAt) / 1000;
+      const due = Math.floor(elapsedSec * options.packetRate) - emitted;
+      const count = Math.min(due, MAX_PACKETS_PER_TICK);
+      if (count <= 0) return;
+      const frames: Uint8Array[] = [];
+      let total = 0;
+      for (let i = 0; i < count; i++) {
+        const t = (emitted + i) / options.packetRate;
+        const frame = writePacket(options.channels.map((ch) => sampleWaveform(ch, t)));
+        frames.push(frame);
+        total += frame.length;
+      }
+      // 遅れすぎた分は捨てて現在時刻に追いつく
+      emitted = due > MAX_PACKETS_PER_TICK ? emitted + due : emitted + count;
+      const chunk = new Uint8Array(total);
+      let pos = 0;
+      for (const frame of frames) {
+        chunk.set(frame, pos);
+        pos += frame.length;
+      }
+      ctrl.enqueue(chunk);
+    }, TICK_INTERVAL_MS);
+  };
+
+  return {
+    kind: 'simulator',
+    async open() {
+      if (readable) throw new Error('シミュレーターは既に接続されています');
+      if (!(options.packetRate > 0)) throw new Error('パケットレートは 0 より大きい値にしてください');
+      readable = new ReadableStream<Uint8Array>({
+        start,
+        cancel: stopTimer,
+      });
+    },
+    async close() {
+      stopTimer();
+      try {
+        controller?.close();
+      } catch {
+        // 読み取り側で cancel 済み
+      }
+      controller = null;
+      readable = null;
+    },
+    get readable() {
+      return readable;
+    },
+    async write() {
+      // シミュレーターは送信データを受け付けるだけで何もしない
+    },
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * データソース（トランスポート）の共通インターフェース。
+ * Web Serial・シミュレーター・WebSocket などの実装を SerialControl から同じ手順で扱えるようにする。
+ */
+import type { SerialSignals } from '../serial/serialService';
+import type { SerialPortOptions } from '../serial/serialOptions';
+
+export type TransportKind = 'serial' | 'simulator' | 'websocket';
+
+export interface TransportOpenOptions {
+  /** ボーレート（シリアル以外では無視される） */
+  baudRate: number;
+  /** データ長・パリティ・制御線など（シリアル以外では無視される。省略時は 8N1） */
+  serial?: SerialPortOptions;
+}
+
+export interface Transport {
+  readonly kind: TransportKind;
+  /** 接続する */
+  open(options: TransportOpenOptions): Promise<void>;
+  /** 切断する。読み取りループは先に止めておくこと */
+  close(): Promise<void>;
+  /** 受信ストリーム。open 前・close 後は null */
+  readonly readable: ReadableStream<Uint8Array> | null;
+  /** バイト列を送信する */
+  write(data: Uint8Array): Promise<void>;
+  /** DTR / RTS を切り替える（シリアルのみ） */
+  setSignals?(signals: SerialSignals): Promise<void>;
+}
@@ -0,0 +1,18 @@
+/**
+ * Web Serial API（SerialPort）のトランスポート実装。
+ */
+import { close, open, setSignals, write } from '../serial/serialService';
+import type { Transport } from './types';
+
+export function createWebSerialTransport(port: SerialPort): Transport {
+  return {
+    kind: 'serial',
+    open: (options) => open(port, options.baudRate, options.serial),
+    close: () => close(port),
+    get readable() {
+      return port.readable;
+    },
+    write: (data) => write(port, data),
+    setSignals: (signals) => setSignals(port, signals),
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * WebSocket のトランスポート実装（Ethernet / Wi-Fi のブリッジ経由で届くデータ用）。
+ * バイナリフレームはそのまま、テキストフレームは UTF-8 のバイト列として受信ストリームに流すため、
+ * シリアルと同じデコーダーで扱える。
+ * 接続が切れた場合は指数バックオフで自動再接続し、その間も受信ストリームは開いたままにする。
+ */
+import type { Transport } from './types';
+
+/** 再接続待ちの初期値・上限（ms） */
+const RECONNECT_INITIAL_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 10000;
+
+export interface WebSocketTransportOptions {
+  /** 接続状態の変化（再接続中など）を通知する。null は正常 */
+  onStatus?: (message: string | null) => void;
+}
+
+/** ws:// または wss:// の URL か */
+export function isWebSocketUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'ws:' || protocol === 'wss:';
+  } catch {
+    return false;
+  }
+}
+
+export function createWebSocketTransport(
+  url: string,
+  options: WebSocketTransportOptions = {}
+): Transport {
+  const textEncoder = new TextEncoder();
+  let socket: WebSocket | null = null;
+  let readable: ReadableStream<Uint8Array> | null = null;
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  let closedByUser = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectAttempts = 0;
+
+  const enqueue = (data: unknown): void => {
+    if (!controller) return;
+    if (data instanceof ArrayBuffer) {
+      controller.enqueue(new Uint8Array(data));
+    } else if (typeof data === 'string') {
+      controller.enqueue(textEncoder.encode(data));
+    }
+  };
+
+  /** ソケットを 1 本張る。接続できたら resolve、開く前に閉じたら reject */
+  const connect = (): Promise<void> =>
+    new Promise((resolve, reject) => {
+      const ws = new WebSocket(url);
+      ws.binaryType = 'arraybuffer';
+      let opened = false;
+      ws.onopen = () => {
+        opened = true;
+        reconnectAttempts = 0;
+        options.onStatus?.(null);
+        resolve();
+      };
+      ws.onmessage = (ev) => enqueue(ev.data);
+      ws.onclose = () => {
+        if (socket === ws) socket = null;
+        if (!opened) {
+          reject(new Error(`WebSocket に接続できませんでした: ${url}`));
+          return;
+        }
+        if (!closedByUser) scheduleReconnect();
+      };
+      socket = ws;
+    });
+
+  const scheduleReconnect = (): void => {
+    const delay = Math.min(
+      RECONNECT_MAX_DELAY_MS,
+      RECONNECT_INITIAL_DELAY_MS * 2 ** reconnectAttempts
+    );
+    reconnectAttempts++;
+    options.onStatus?.(
+      `WebSocket が切断されました。${(delay / 1000).toFixed(1)} 秒後に再接続します（${reconnectAttempts} 回目）`
+    );
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      if (closedByUser) return;
+      connect().catch(() => {
+        if (!closedByUser) scheduleReconnect();
+      });
+    }, delay);
+  };
+
+  const shutdown = (): void => {
+    closedByUser = true;
+    if (reconnectTimer != null) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    socket?.close();
+    socket = null;
+  };
+
+  return {
+    kind: 'websocket',
+    async open() {
+      if (readable) throw new Error('WebSocket は既に接続されています');
+      if (!isWebSocketUrl(url)) {
+        throw new Error(`WebSocket の URL が不正です（ws:// または wss://）: ${url}`);
+      }
+      closedByUser = false;
+      reconnectAttempts = 0;
+      await connect();
+      readable = new ReadableStream<Uint8Array>({
+        start(ctrl) {
+          controller = ctrl;
+        },
+        cancel: shutdown,
+      });
+    },
+    async close() {
+      shutdown();
+      try {
+        controller?.close();
+      } catch {
+        // 読み取り側で cancel 済み
+      }
+      controller = null;
+      readable = null;
+      options.onStatus?.(null);
+    },
+    get readable() {
+      return readable;
+    },
+    async write(data) {
+      if (!socket || socket.readyState !== WebSocket.OPEN) {
+        throw new Error('WebSocket が接続されていないため送信できません');
+      }
+      socket.send(data);
+    },
+  };
+}
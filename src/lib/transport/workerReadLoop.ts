@@ -0,0 +1,116 @@
+/**
+ * 読み取りループを Worker で動かすクライアント側。
+ * トランスポートの受信ストリームを Worker に transfer し、デコードはすべて Worker 側で行う。
+ * メインスレッドには BATCH_INTERVAL_MS ごとのバッチ（SampleBlock・生バイト列・統計）だけが届く。
+ * Worker やストリームの transfer が使えない環境では、同じ処理をメインスレッドで実行する。
+ */
+import type { DecoderConfig } from '../packet/createDecoder';
+import type { PacketSchema } from '../packet/types';
+import {
+  runBatchedReadLoop,
+  type BatchedReadLoopOptions,
+  type ReadLoopBatch,
+} from './batchedReadLoop';
+import type { TimestampConfig } from './sampleClock';
+import type { Transport } from './types';
+
+/** メインスレッド → Worker */
+export type ReadLoopWorkerRequest =
+  | {
+      type: 'start';
+      readable: ReadableStream<Uint8Array>;
+      schema: PacketSchema;
+      decoderConfig: DecoderConfig;
+      collectRaw: boolean;
+      timestamp: TimestampConfig | undefined;
+    }
+  | { type: 'stop' };
+
+/** Worker → メインスレッド */
+export type ReadLoopWorkerMessage =
+  | { type: 'batch'; batch: ReadLoopBatch }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
+
+function createReadLoopWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./readLoopWorker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 読み取りループを開始する。signal が abort されるか、ストリームが閉じられるまで実行し、
+ * Worker が受信ストリームを解放してから resolve する（その後は transport.close() してよい）。
+ */
+export function startWorkerReadLoop(
+  source: Pick<Transport, 'readable'>,
+  schema: PacketSchema,
+  decoderConfig: DecoderConfig,
+  onBatch: (batch: ReadLoopBatch) => void,
+  onError?: (err: unknown) => void,
+  signal?: AbortSignal,
+  options: BatchedReadLoopOptions = {}
+): Promise<void> {
+  const readable = source.readable;
+  if (!readable) {
+    onError?.(new Error('ポートの読み取りストリームが利用できません'));
+    return Promise.resolve();
+  }
+  const runOnMainThread = () =>
+    runBatchedReadLoop(readable, schema, decoderConfig, onBatch, onError, signal, options);
+
+  const worker = createReadLoopWorker();
+  if (!worker) return runOnMainThread();
+  const request: ReadLoopWorkerRequest = {
+    type: 'start',
+    readable,
+    schema,
+    decoderConfig,
+    collectRaw: options.collectRaw ?? false,
+    timestamp: options.timestamp,
+  };
+  try {
+    worker.postMessage(request, [readable]);
+  } catch {
+    // ReadableStream を transfer できないブラウザ
+    worker.terminate();
+    return runOnMainThread();
+  }
+
+  return new Promise<void>((resolve) => {
+    const onAbort = (): void => worker.postMessage({ type: 'stop' } satisfies ReadLoopWorkerRequest);
+    const finish = (): void => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      resolve();
+    };
+    if (signal?.aborted) {
+      onAbort();
+    } else if (signal) {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+
+    worker.onmessage = (ev: MessageEvent<ReadLoopWorkerMessage>) => {
+      const message = ev.data;
+      switch (message.type) {
+        case 'batch':
+          onBatch(message.batch);
+          break;
+        case 'error':
+          onError?.(new Error(message.message));
+          break;
+        case 'done':
+          finish();
+          break;
+      }
+    };
+    worker.onerror = (ev) => {
+      ev.preventDefault();
+      onError?.(new Error(`読み取り Worker でエラーが発生しました: ${ev.message}`));
+      finish();
+    };
+  });
+}